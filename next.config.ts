@@ -1,7 +1,14 @@
 import type { NextConfig } from "next";
 
+// サーバー側で音声をデコードするAPIルート（ffmpeg-staticのバイナリを関数に含める）
+const AUDIO_DECODE_ROUTES = ["/api/analyze", "/api/process"];
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  // ffmpeg-staticはパッケージのディレクトリからバイナリのパスを求めるため、バンドルしない
+  serverExternalPackages: ["ffmpeg-static"],
+  outputFileTracingIncludes: Object.fromEntries(
+    AUDIO_DECODE_ROUTES.map((route) => [route, ["./node_modules/ffmpeg-static/ffmpeg"]])
+  ),
 };
 
 export default nextConfig;
@@ -0,0 +1,367 @@
+/**
+ * 再生端末用のオフラインキャッシュ（Service Worker）
+ * 再生画面（/play）から登録し、再生する可能性のある録音を事前にキャッシュします
+ * スコープ（/play）は前方一致のため管理画面（/playlists）も対象になるが、再生画面以外からのリクエストはそのままネットワークに送る
+ * - 録音の音声ファイル: キャッシュを優先して返す（Rangeリクエストにも対応）
+ * - 再生スケジュールと録音一覧（/api/play）: ネットワークを優先し、取得できない場合は最後に取得した内容を返す
+ * - 再生画面とスクリプト: オフラインで再読み込みしても再生画面を開けるようにする（再生画面が参照しなくなった古いビルドのスクリプトは削除する）
+ * メッセージの種類はsrc/lib/media-cache.tsと揃えること
+ */
+
+// キャッシュの形式を変えた場合はバージョンを上げる（古いキャッシュはactivateで削除する）
+const CACHE_PREFIX = 'monoshaka-';
+const MEDIA_CACHE = `${CACHE_PREFIX}media-v1`;
+const DATA_CACHE = `${CACHE_PREFIX}data-v1`;
+const SHELL_CACHE = `${CACHE_PREFIX}shell-v1`;
+const CACHE_NAMES = [MEDIA_CACHE, DATA_CACHE, SHELL_CACHE];
+
+// 録音の音声ファイル（Supabase StorageのPublic URL）
+const MEDIA_PATH_PATTERN = /\/storage\/v1\/object\/public\/recordings\//;
+// オフラインでも最後に取得した内容を返す再生端末用のAPI
+const DATA_PATHS = ['/api/play/schedule', '/api/play/recordings'];
+// オフラインでも開けるようにする再生画面と、そのスクリプト・スタイル
+const SHELL_PATH = '/play';
+const STATIC_PATH_PREFIX = '/_next/static/';
+
+// キャッシュする録音のURL（再生画面から最後に受け取った一覧）
+let targetUrls = [];
+// 実行中の同期（同期中に新しい一覧を受け取った場合は、実行中の同期が続けて反映する）
+let syncPromise = null;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && !CACHE_NAMES.includes(name))
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message || typeof message !== 'object') return;
+
+  switch (message.type) {
+    case 'media-cache-sync':
+      if (Array.isArray(message.shellUrls)) {
+        event.waitUntil(syncShell(message.shellUrls));
+      }
+      if (Array.isArray(message.urls)) {
+        event.waitUntil(syncMedia(message.urls));
+      }
+      break;
+    case 'media-cache-status-request':
+      event.waitUntil(broadcastStatus());
+      break;
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    if (url.pathname === SHELL_PATH) {
+      event.respondWith(serveShell(request));
+    }
+    return;
+  }
+
+  if (MEDIA_PATH_PATTERN.test(url.pathname)) {
+    respondForPlayer(event, serveMedia);
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (DATA_PATHS.includes(url.pathname)) {
+    respondForPlayer(event, serveData);
+    return;
+  }
+
+  // ビルドごとにファイル名が変わるため、一度取得したスクリプトやスタイルは変わらない
+  if (url.pathname.startsWith(STATIC_PATH_PREFIX)) {
+    respondForPlayer(event, serveStatic);
+  }
+});
+
+/**
+ * 再生画面からのリクエストの場合のみキャッシュを使って応答する（それ以外はそのままネットワークに送る）
+ * どのページからのリクエストかは非同期でしか確認できないため、応答の中で確認する
+ */
+function respondForPlayer(event, handler) {
+  event.respondWith(
+    (async () => ((await isFromPlayer(event)) ? handler(event.request) : fetch(event.request)))()
+  );
+}
+
+/**
+ * リクエストが再生画面（/play）から送られたものか
+ */
+async function isFromPlayer(event) {
+  if (!event.clientId) return false;
+  const client = await self.clients.get(event.clientId);
+  return !!client && new URL(client.url).pathname === SHELL_PATH;
+}
+
+/**
+ * URLを正規化する（キャッシュのキーと比較するため）
+ */
+function normalizeUrl(url) {
+  try {
+    return new URL(url, self.location.origin).href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 録音の音声ファイルを返す（キャッシュにない場合はネットワークから取得する）
+ */
+async function serveMedia(request) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) {
+    return fetch(request);
+  }
+
+  const range = request.headers.get('Range');
+  if (!range) {
+    return cached;
+  }
+  return createRangeResponse(cached, range);
+}
+
+/**
+ * キャッシュした音声ファイルから、Rangeリクエストに対する部分的な応答を作成する
+ * Audio要素はシークや読み込みの再開でRangeリクエストを送るため、キャッシュから範囲を切り出して返す
+ */
+async function createRangeResponse(cached, range) {
+  const blob = await cached.blob();
+  const size = blob.size;
+  const contentType = cached.headers.get('Content-Type') || blob.type;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+
+  let start = -1;
+  let end = size - 1;
+  if (match && match[1] !== '') {
+    start = Number(match[1]);
+    if (match[2] !== '') {
+      end = Math.min(Number(match[2]), size - 1);
+    }
+  } else if (match && match[2] !== '') {
+    // 末尾からのバイト数の指定（bytes=-500）
+    start = Math.max(size - Number(match[2]), 0);
+  }
+
+  if (start < 0 || start >= size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1, contentType), {
+    status: 206,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+/**
+ * 再生端末用のAPIの応答を返す（取得できない場合は最後に取得した内容を返す）
+ * サーバーのエラー（5xx）も通信の障害とみなし、最後に取得した内容で再生を続ける
+ */
+async function serveData(request) {
+  const cache = await caches.open(DATA_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request.url, response.clone());
+      return response;
+    }
+    if (response.status < 500) {
+      return response;
+    }
+    const cached = await cache.match(request.url);
+    return cached || response;
+  } catch (err) {
+    const cached = await cache.match(request.url);
+    if (cached) {
+      return cached;
+    }
+    throw err;
+  }
+}
+
+/**
+ * 再生画面を返す（オフラインの場合は最後に開いた再生画面を返す）
+ */
+async function serveShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    // デバイストークンの保存などでリダイレクトされた応答はキャッシュしない
+    if (response.ok && !response.redirected) {
+      await cache.put(SHELL_PATH, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(SHELL_PATH);
+    if (cached) {
+      return cached;
+    }
+    throw err;
+  }
+}
+
+/**
+ * ビルド済みのスクリプトやスタイルを返す（キャッシュを優先する）
+ */
+async function serveStatic(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * 再生画面が参照するスクリプト・スタイルをキャッシュし、参照しなくなったもの（古いビルドのもの）を削除する
+ * デプロイのたびにファイル名が変わるため、削除しないと古いビルドのファイルが端末に溜まり続ける
+ * @param urls 再生画面が読み込んだスクリプト・スタイルのURL
+ */
+async function syncShell(urls) {
+  const wanted = new Set(
+    urls
+      .map(normalizeUrl)
+      .filter((url) => url && new URL(url).origin === self.location.origin && new URL(url).pathname.startsWith(STATIC_PATH_PREFIX))
+  );
+  // 一覧が空の場合は再生画面の読み込みの情報を取得できなかったとみなし、削除しない
+  if (wanted.size === 0) return;
+
+  const cache = await caches.open(SHELL_CACHE);
+  const cachedUrls = new Set();
+  for (const request of await cache.keys()) {
+    if (!new URL(request.url).pathname.startsWith(STATIC_PATH_PREFIX)) continue;
+    if (wanted.has(request.url)) {
+      cachedUrls.add(request.url);
+    } else {
+      await cache.delete(request);
+    }
+  }
+
+  // Service Workerが有効になる前に読み込んだファイルは、ここでキャッシュする
+  for (const url of wanted) {
+    if (cachedUrls.has(url)) continue;
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        await cache.put(url, response);
+      }
+    } catch (err) {
+      console.error('再生画面のファイルのキャッシュに失敗:', url, err);
+    }
+  }
+}
+
+/**
+ * キャッシュする録音の一覧を更新し、同期を開始する
+ * @param urls キャッシュする録音のURL
+ */
+function syncMedia(urls) {
+  targetUrls = Array.from(new Set(urls.map(normalizeUrl).filter(Boolean)));
+  if (!syncPromise) {
+    syncPromise = runSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+/**
+ * 一覧にない録音をキャッシュから削除し、キャッシュしていない録音を1件ずつ取得する
+ * 取得に失敗した録音は次の同期で再び取得を試みる
+ */
+async function runSync() {
+  const cache = await caches.open(MEDIA_CACHE);
+  const failedUrls = new Set();
+
+  for (;;) {
+    // 同期中に一覧が変わっても反映できるよう、毎回一覧と比較する
+    const wanted = new Set(targetUrls);
+    const cachedUrls = new Set();
+    for (const request of await cache.keys()) {
+      if (wanted.has(request.url)) {
+        cachedUrls.add(request.url);
+      } else {
+        await cache.delete(request);
+      }
+    }
+
+    const next = targetUrls.find((url) => !cachedUrls.has(url) && !failedUrls.has(url));
+    await broadcastStatus({ isSyncing: !!next, failed: failedUrls.size });
+    if (!next) return;
+
+    try {
+      const response = await fetch(next, { mode: 'cors', cache: 'no-store' });
+      if (!response.ok) {
+        throw new Error(`取得エラー: ${response.status}`);
+      }
+      // 取得中に一覧から外れた録音はキャッシュしない
+      if (targetUrls.includes(next)) {
+        await cache.put(next, response);
+      }
+    } catch (err) {
+      console.error('録音のキャッシュに失敗:', next, err);
+      failedUrls.add(next);
+      // オフラインの場合は残りも取得できないため、次の同期まで待つ
+      if (!self.navigator.onLine) {
+        await broadcastStatus({ isSyncing: false, failed: failedUrls.size });
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * キャッシュの状況を再生画面に通知する
+ * @param progress 同期中か、取得に失敗した録音の件数
+ */
+async function broadcastStatus(progress) {
+  const cache = await caches.open(MEDIA_CACHE);
+  const cachedUrls = new Set((await cache.keys()).map((request) => request.url));
+  const status = {
+    type: 'media-cache-status',
+    total: targetUrls.length,
+    cached: targetUrls.filter((url) => cachedUrls.has(url)).length,
+    failed: progress ? progress.failed : 0,
+    isSyncing: progress ? progress.isSyncing : !!syncPromise,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage(status);
+  }
+}
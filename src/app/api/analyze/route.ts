@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { decodeAudioFile, getDecoderConfigError, requiresDecoder } from "@/lib/audio-decode";
+import { toVolumeMetadata, type VolumeMetadata } from "@/lib/audio-analysis";
+import { downloadRecordingFile, saveVolumeMetadata, saveVoiceBoundaries } from "@/lib/processing-server";
+
+interface AnalysisTarget {
+  id: string;
+  file_path: string;
+  mime_type: string | null;
+  lufs: number | null;
+}
+
+interface AnalysisResult {
+  recordingId: string;
+  filePath: string;
+  success: boolean;
+  volumeMetadata?: VolumeMetadata;
+  error?: string;
+}
+
+/**
+ * 1件の録音をダウンロード・デコードして音量メタデータを計算し、データベースに保存する
+ */
+async function analyzeRecording(
+  supabase: SupabaseClient,
+  target: AnalysisTarget
+): Promise<AnalysisResult> {
+  try {
+    // 1. Supabase Storageから音声ファイルをダウンロード
+    const fileData = await downloadRecordingFile(supabase, target.file_path);
+
+    // 2. デコードしてITU-R BS.1770に基づくラウドネスを測定
+    const { channels, sampleRate } = await decodeAudioFile(await fileData.arrayBuffer(), target.mime_type);
+    const volumeMetadata = toVolumeMetadata(channels, sampleRate);
+
+    // 3. データベースに保存（先頭・末尾の無音を除いた再生範囲も更新する）
+    await saveVolumeMetadata(supabase, target.id, volumeMetadata);
+    await saveVoiceBoundaries(supabase, target.id, channels, sampleRate);
+
+    return {
+      recordingId: target.id,
+      filePath: target.file_path,
+      success: true,
+      volumeMetadata,
+    };
+  } catch (error) {
+    console.error(`音量解析エラー (${target.file_path}):`, error);
+    return {
+      recordingId: target.id,
+      filePath: target.file_path,
+      success: false,
+      error: error instanceof Error ? error.message : "不明なエラー",
+    };
+  }
+}
+
+/**
+ * 音量解析APIエンドポイント
+ * POST /api/analyze
+ * Body: { recordingId?: string, playlistId?: string, force?: boolean }
+ *
+ * recordingIdを指定した場合はその録音のみ、playlistIdを指定した場合は
+ * プレイリスト内の未解析（LUFS値がない）録音をまとめて解析する
+ * forceがtrueの場合は解析済みの録音も再解析する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { recordingId, playlistId, force = false } = await request.json();
+
+    if (!recordingId && !playlistId) {
+      return NextResponse.json(
+        { error: "recordingIdまたはplaylistIdが必要です" },
+        { status: 400 }
+      );
+    }
+
+    // Supabase Admin Clientを作成（Service Role Keyを使用）
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    // 解析対象の録音を取得
+    let targets: AnalysisTarget[];
+
+    if (recordingId) {
+      const { data, error } = await supabase
+        .from("recordings")
+        .select("id, file_path, mime_type, lufs")
+        .eq("id", recordingId)
+        .maybeSingle();
+
+      if (error) {
+        return NextResponse.json(
+          { error: `録音の取得に失敗しました: ${error.message}` },
+          { status: 500 }
+        );
+      }
+
+      if (!data) {
+        return NextResponse.json(
+          { error: "録音が見つかりません" },
+          { status: 404 }
+        );
+      }
+
+      targets = [data as AnalysisTarget];
+    } else {
+      const { data, error } = await supabase
+        .from("playlist_recordings")
+        .select("order_index, recordings (id, file_path, mime_type, lufs)")
+        .eq("playlist_id", playlistId)
+        .order("order_index", { ascending: true });
+
+      if (error) {
+        return NextResponse.json(
+          { error: `プレイリストの取得に失敗しました: ${error.message}` },
+          { status: 500 }
+        );
+      }
+
+      type PlaylistRecordingWithTarget = {
+        recordings: AnalysisTarget | AnalysisTarget[] | null;
+      };
+
+      // Supabaseは外部キーのリレーションを配列として返すが、実際は単一オブジェクト
+      targets = ((data as unknown as PlaylistRecordingWithTarget[]) || [])
+        .map((item) => (Array.isArray(item.recordings) ? item.recordings[0] : item.recordings))
+        .filter((recording): recording is AnalysisTarget => !!recording);
+    }
+
+    // 解析済みの録音を除外（forceの場合はすべて再解析）
+    if (!force) {
+      targets = targets.filter((target) => target.lufs == null);
+    }
+
+    // WAV以外の録音を解析する場合は、デコードに使用するffmpegがあるか先に確認する
+    // （ない場合は録音ごとに同じ起動エラーを返さず、原因をまとめて返す）
+    if (targets.some((target) => requiresDecoder(target.mime_type))) {
+      const decoderError = await getDecoderConfigError();
+      if (decoderError) {
+        return NextResponse.json(
+          { error: decoderError },
+          { status: 500 }
+        );
+      }
+    }
+
+    // 1件ずつ順番に解析（デコード処理のメモリ使用量を抑えるため並列化しない）
+    const results: AnalysisResult[] = [];
+    for (const target of targets) {
+      results.push(await analyzeRecording(supabase, target));
+    }
+
+    const completed = results.filter((result) => result.success).length;
+
+    return NextResponse.json({
+      success: true,
+      completed,
+      failed: results.length - completed,
+      results,
+    });
+  } catch (error) {
+    console.error("音量解析エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `音量解析に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
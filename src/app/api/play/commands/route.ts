@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { authenticatePlaybackRequest } from "@/lib/device-token-server";
+import { DEVICE_COMMAND_TTL } from "@/lib/device-commands";
+import type { DeviceCommand, DevicePlayerState } from "@/lib/types";
+
+interface CommandAck {
+  id: string;
+  status: "succeeded" | "failed";
+  error?: string | null;
+}
+
+/**
+ * 再生端末用のリモート操作のコマンドの同期APIエンドポイント
+ * POST /api/play/commands
+ * Body: { state?: DevicePlayerState, acks?: { id, status: "succeeded" | "failed", error? }[] }
+ *
+ * デバイストークン（クッキー）で認証し、実行したコマンドの結果と再生状態を保存して、
+ * 未実行のコマンドを返す（返したコマンドは受信済みにし、他のタブで重複して実行しないようにする）
+ * 有効期限を過ぎたコマンドは実行せず、期限切れにする
+ * 管理者のセッションでアクセスした場合（動作確認用）は、コマンドを返さない
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { state, acks } = (await request.json().catch(() => ({}))) as {
+      state?: DevicePlayerState;
+      acks?: CommandAck[];
+    };
+
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const access = await authenticatePlaybackRequest(request, supabase);
+    if (!access) {
+      return NextResponse.json(
+        { error: "端末の認証に失敗しました" },
+        { status: 401 }
+      );
+    }
+
+    if (access.type !== "device") {
+      return NextResponse.json({ deviceId: null, commands: [] });
+    }
+
+    const deviceId = access.device.id;
+    const now = new Date().toISOString();
+
+    // 1. 実行結果を保存（受信済みのこの端末のコマンドのみ）
+    for (const ack of acks ?? []) {
+      if (ack.status !== "succeeded" && ack.status !== "failed") continue;
+
+      const { error } = await supabase
+        .from("device_commands")
+        .update({
+          status: ack.status,
+          error: ack.status === "failed" ? ack.error || "不明なエラー" : null,
+          acknowledged_at: now,
+        })
+        .eq("id", ack.id)
+        .eq("device_id", deviceId)
+        .eq("status", "delivered");
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    // 2. 再生状態を保存
+    if (state) {
+      const { error } = await supabase
+        .from("devices")
+        .update({ player_state: state, player_state_at: now })
+        .eq("id", deviceId);
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    // 3. 有効期限を過ぎた未実行のコマンドを期限切れにする
+    const expiresBefore = new Date(Date.now() - DEVICE_COMMAND_TTL).toISOString();
+    const { error: expireError } = await supabase
+      .from("device_commands")
+      .update({ status: "expired" })
+      .eq("device_id", deviceId)
+      .eq("status", "pending")
+      .lt("created_at", expiresBefore);
+    if (expireError) {
+      throw new Error(expireError.message);
+    }
+
+    // 4. 未実行のコマンドを受信済みにして返す
+    const { data, error } = await supabase
+      .from("device_commands")
+      .update({ status: "delivered", delivered_at: now })
+      .eq("device_id", deviceId)
+      .eq("status", "pending")
+      .select("*");
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const commands = ((data as DeviceCommand[] | null) ?? []).sort((a, b) =>
+      a.created_at.localeCompare(b.created_at)
+    );
+
+    return NextResponse.json({ deviceId, commands });
+  } catch (error) {
+    console.error("コマンドの同期エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `コマンドの同期に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { authenticatePlaybackRequest } from "@/lib/device-token-server";
+import { QUARANTINE_FAILURE_THRESHOLD } from "@/lib/playback-watchdog";
+
+/**
+ * 再生端末用の再生の失敗の記録APIエンドポイント
+ * POST /api/play/failures
+ * Body: { recordingId: string, error: string }
+ *
+ * デバイストークン（クッキー）で認証し、録音の再生の失敗を記録する
+ * 失敗の回数がしきい値に達した録音は隔離され、ループ再生から外れる
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { recordingId, error: playbackError } = await request.json();
+    if (!recordingId) {
+      return NextResponse.json(
+        { error: "recordingIdが必要です" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const access = await authenticatePlaybackRequest(request, supabase);
+    if (!access) {
+      return NextResponse.json(
+        { error: "端末の認証に失敗しました" },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase.rpc("record_recording_failure", {
+      p_recording_id: recordingId,
+      p_error: String(playbackError ?? ""),
+      p_threshold: QUARANTINE_FAILURE_THRESHOLD,
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ quarantined: data === true });
+  } catch (error) {
+    console.error("再生の失敗の記録エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `再生の失敗の記録に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
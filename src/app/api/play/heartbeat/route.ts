@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { authenticatePlaybackRequest } from "@/lib/device-token-server";
+import type { PlayerHeartbeat } from "@/lib/types";
+
+/**
+ * 再生端末用のハートビートAPIエンドポイント
+ * POST /api/play/heartbeat
+ * Body: PlayerHeartbeat
+ *
+ * デバイストークン（クッキー）で認証し、端末の稼働状況をplayer_statusに保存する（端末ごとに1行を上書き）
+ * 受信日時はサーバーの時刻で記録し、端末の時計のずれで応答なしと誤判定しないようにする
+ * 管理者のセッションでアクセスした場合（動作確認用）は保存しない
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const heartbeat = (await request.json().catch(() => null)) as PlayerHeartbeat | null;
+
+    if (!heartbeat || typeof heartbeat.isPlaying !== "boolean") {
+      return NextResponse.json(
+        { error: "ハートビートの内容が不正です" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const access = await authenticatePlaybackRequest(request, supabase);
+    if (!access) {
+      return NextResponse.json(
+        { error: "端末の認証に失敗しました" },
+        { status: 401 }
+      );
+    }
+
+    if (access.type !== "device") {
+      return NextResponse.json({ recorded: false });
+    }
+
+    const { error } = await supabase.from("player_status").upsert(
+      {
+        device_id: access.device.id,
+        is_playing: heartbeat.isPlaying,
+        needs_user_interaction: !!heartbeat.needsUserInteraction,
+        is_open: heartbeat.isOpen !== false,
+        is_stalled: !!heartbeat.isStalled,
+        playlist_id: heartbeat.playlistId ?? null,
+        recording_id: heartbeat.recordingId ?? null,
+        position: heartbeat.position ?? null,
+        output_device: heartbeat.outputDevice ?? null,
+        audio_context_state: heartbeat.audioContextState ?? null,
+        error_count: Math.max(0, Math.floor(heartbeat.errorCount ?? 0)),
+        last_error: heartbeat.lastError?.slice(0, 500) ?? null,
+        last_error_at: heartbeat.lastErrorAt ?? null,
+        stall_count: Math.max(0, Math.floor(heartbeat.stallCount ?? 0)),
+        last_stall_at: heartbeat.lastStallAt ?? null,
+        recovery_count: Math.max(0, Math.floor(heartbeat.recoveryCount ?? 0)),
+        last_recovery_step: heartbeat.lastRecoveryStep ?? null,
+        last_recovery_at: heartbeat.lastRecoveryAt ?? null,
+        started_at: heartbeat.startedAt ?? null,
+        reported_at: new Date().toISOString(),
+      },
+      { onConflict: "device_id" }
+    );
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ recorded: true });
+  } catch (error) {
+    console.error("ハートビートの保存エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `ハートビートの保存に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
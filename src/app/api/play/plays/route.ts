@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { authenticatePlaybackRequest } from "@/lib/device-token-server";
+
+/**
+ * 再生端末用の再生回数の記録APIエンドポイント
+ * POST /api/play/plays
+ * Body: { recordingId: string }
+ *
+ * デバイストークン（クッキー）で認証し、録音の再生回数を1増やす
+ * 再生順序（weighted）で再生回数の少ない録音を優先するために使用する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { recordingId } = await request.json();
+    if (!recordingId) {
+      return NextResponse.json(
+        { error: "recordingIdが必要です" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const access = await authenticatePlaybackRequest(request, supabase);
+    if (!access) {
+      return NextResponse.json(
+        { error: "端末の認証に失敗しました" },
+        { status: 401 }
+      );
+    }
+
+    const { error } = await supabase.rpc("record_recording_play", {
+      p_recording_id: recordingId,
+    });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("再生回数の記録エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `再生回数の記録に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
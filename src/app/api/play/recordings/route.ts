@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { authenticatePlaybackRequest } from "@/lib/device-token-server";
+import { fetchPlaylistRecordings } from "@/lib/playback-data";
+
+/**
+ * 再生端末用のプレイリストの録音取得APIエンドポイント
+ * GET /api/play/recordings?playlistId=...
+ *
+ * デバイストークン（クッキー）で認証し、プレイリストの録音を再生順序で返す
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const playlistId = request.nextUrl.searchParams.get("playlistId");
+    if (!playlistId) {
+      return NextResponse.json(
+        { error: "playlistIdが必要です" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const access = await authenticatePlaybackRequest(request, supabase);
+    if (!access) {
+      return NextResponse.json(
+        { error: "端末の認証に失敗しました" },
+        { status: 401 }
+      );
+    }
+
+    const recordings = await fetchPlaylistRecordings(supabase, playlistId);
+    return NextResponse.json({ recordings });
+  } catch (error) {
+    console.error("録音の取得エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `録音の取得に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
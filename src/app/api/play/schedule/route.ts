@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { authenticatePlaybackRequest } from "@/lib/device-token-server";
+import { fetchPlaybackSchedule } from "@/lib/playback-data";
+
+/**
+ * 再生端末用の再生スケジュール取得APIエンドポイント
+ * GET /api/play/schedule
+ *
+ * デバイストークン（クッキー）で認証し、プレイリスト・再生スケジュール・開館時間を返す
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const access = await authenticatePlaybackRequest(request, supabase);
+    if (!access) {
+      return NextResponse.json(
+        { error: "端末の認証に失敗しました" },
+        { status: 401 }
+      );
+    }
+
+    const schedule = await fetchPlaybackSchedule(supabase);
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error("再生スケジュールの取得エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `再生スケジュールの取得に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { runProcessingPipeline } from "@/lib/processing-server";
+import { PIPELINE_STEPS } from "@/lib/processing";
+import type { ProcessingStatus, ProcessingStep } from "@/lib/types";
+
+type RecordingStatuses = {
+  id: string;
+  file_path: string;
+  mime_type: string | null;
+} & Record<`${ProcessingStep}_status`, ProcessingStatus | null>;
+
+/**
+ * 録音の後処理APIエンドポイント
+ * POST /api/process
+ * Body: { recordingId: string, steps?: ("analysis" | "waveform" | "transcription")[] }
+ *
+ * stepsを省略した場合は、完了していないすべてのステップを実行する
+ * 失敗したステップの再試行にも使用する
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { recordingId, steps } = await request.json();
+
+    if (!recordingId) {
+      return NextResponse.json(
+        { error: "recordingIdが必要です" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      steps !== undefined &&
+      (!Array.isArray(steps) || steps.some((step) => !PIPELINE_STEPS.includes(step)))
+    ) {
+      return NextResponse.json(
+        { error: `stepsには${PIPELINE_STEPS.join(", ")}のいずれかを指定してください` },
+        { status: 400 }
+      );
+    }
+
+    // Supabase Admin Clientを作成（Service Role Keyを使用）
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return NextResponse.json(
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
+        { status: 500 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("recordings")
+      .select("id, file_path, mime_type, analysis_status, waveform_status, transcription_status")
+      .eq("id", recordingId)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: `録音の取得に失敗しました: ${error.message}` },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "録音が見つかりません" },
+        { status: 404 }
+      );
+    }
+
+    const recording = data as RecordingStatuses;
+
+    // 実行するステップを決定（指定がない場合は未完了のステップすべて）
+    const targetSteps: ProcessingStep[] =
+      steps ?? PIPELINE_STEPS.filter((step) => recording[`${step}_status`] !== "done");
+
+    const results = await runProcessingPipeline(supabase, recording, targetSteps);
+
+    return NextResponse.json({
+      success: results.every((result) => result.status === "done"),
+      results,
+    });
+  } catch (error) {
+    console.error("後処理エラー:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "不明なエラー";
+    return NextResponse.json(
+      { error: `後処理に失敗しました: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import { createClient } from "@supabase/supabase-js";
+import { createServiceClient, SERVICE_CLIENT_CONFIG_ERROR } from "@/lib/supabase-service";
+import { refreshPassageScore } from "@/lib/passage";
+import { refreshContentFlags } from "@/lib/content-flags";
+import {
+  getTranscriptionConfigError,
+  resolveTranscriptionOptions,
+  transcribeAudio,
+} from "@/lib/transcription";
 
 /**
  * 文字起こしAPIエンドポイント
  * POST /api/transcribe
- * Body: { recordingId: string, filePath: string, skipSave?: boolean }
+ * Body: { recordingId: string, filePath: string, playlistId?: string, skipSave?: boolean }
+ *
+ * 文字起こしの言語・モデル・プロンプトはプレイリストの設定に従う
+ * playlistIdを省略した場合は、録音が属するプレイリストの設定を使用する
  */
 export async function POST(request: NextRequest) {
   try {
-    const { recordingId, filePath, skipSave = false } = await request.json();
+    const { recordingId, filePath, playlistId, skipSave = false } = await request.json();
 
     if (!recordingId || !filePath) {
       return NextResponse.json(
@@ -18,40 +27,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // OpenAI APIキーのチェック
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey || openaiApiKey === "your-openai-api-key-here") {
+    // 文字起こしプロバイダーの設定チェック
+    const configError = getTranscriptionConfigError();
+    if (configError) {
       return NextResponse.json(
-        {
-          error:
-            "OpenAI APIキーが設定されていません。.env.localにOPENAI_API_KEYを設定してください。",
-        },
+        { error: configError },
         { status: 500 }
       );
     }
 
-    // Supabase設定のチェック（本番環境とローカル環境に対応）
-    // 本番: SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
-    // ローカル: NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_KEY
-    const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
-
-    if (!supabaseUrl || !supabaseKey) {
-      console.error('Supabase環境変数が見つかりません');
+    // Supabase Admin Clientを作成（Service Role Keyを使用）
+    const supabase = createServiceClient();
+    if (!supabase) {
       return NextResponse.json(
-        { error: "Supabase設定が見つかりません。環境変数SUPABASE_URLとSUPABASE_SERVICE_ROLE_KEYを確認してください。" },
+        { error: SERVICE_CLIENT_CONFIG_ERROR },
         { status: 500 }
       );
     }
 
-    // Supabase Admin Clientを作成（Service Role Keyを使用）
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    });
-
     // 1. Supabase Storageから音声ファイルをダウンロード
     const { data: fileData, error: downloadError } = await supabase.storage
       .from("recordings")
@@ -67,30 +60,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 2. OpenAI Whisper APIで文字起こし
-    const openai = new OpenAI({ apiKey: openaiApiKey });
-
-    // BlobをFileオブジェクトに変換（OpenAI SDKが期待する形式）
-    const file = new File(
-      [fileData],
-      filePath.split("/").pop() || "audio.webm",
-      {
-        type: "audio/webm",
-      }
-    );
+    // 2. 録音の形式を取得（保存されていない場合はファイルパスの拡張子から判定する）
+    const { data: recordingData } = await supabase
+      .from("recordings")
+      .select("mime_type")
+      .eq("id", recordingId)
+      .maybeSingle();
+    const mimeType = (recordingData as { mime_type: string | null } | null)?.mime_type;
 
-    const transcription = await openai.audio.transcriptions.create({
-      file: file,
-      model: "whisper-1",
-      language: "ja", // 日本語を指定
-      response_format: "text",
-    });
+    // 3. プレイリストの設定に従って文字起こし
+    const options = await resolveTranscriptionOptions(supabase, recordingId, playlistId);
+    const { text: transcription, segments } = await transcribeAudio(fileData, filePath, options, mimeType);
 
-    // 3. データベースに保存（skipSaveがfalseの場合のみ）
+    // 4. データベースに保存（skipSaveがfalseの場合のみ）
     if (!skipSave) {
       const { error: updateError } = await supabase
         .from("recordings")
-        .update({ transcription })
+        .update({
+          transcription,
+          transcription_segments: segments.length > 0 ? segments : null,
+          transcription_status: "done",
+          processing_updated_at: new Date().toISOString(),
+        })
         .eq("id", recordingId);
 
       if (updateError) {
@@ -100,11 +91,26 @@ export async function POST(request: NextRequest) {
           { status: 500 }
         );
       }
+
+      // 5. 課題文との一致率を計算（失敗しても文字起こしの保存は成功扱いにする）
+      try {
+        await refreshPassageScore(supabase, recordingId, transcription);
+      } catch (err) {
+        console.error("一致率の更新に失敗:", err);
+      }
+
+      // 6. ルールで文字起こしを自動チェック（問題があれば審査待ちに戻す、失敗しても文字起こしの保存は成功扱いにする）
+      try {
+        await refreshContentFlags(supabase, recordingId, transcription);
+      } catch (err) {
+        console.error("自動チェックに失敗:", err);
+      }
     }
 
     return NextResponse.json({
       success: true,
       transcription,
+      segments,
     });
   } catch (error) {
     console.error("文字起こしエラー:", error);
@@ -0,0 +1,15 @@
+"use client";
+
+import Header from "@/components/layout/Header";
+import { DeviceManager } from "@/components/device/DeviceManager";
+
+export default function DevicesPage() {
+  return (
+    <>
+      <Header />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <DeviceManager />
+      </div>
+    </>
+  );
+}
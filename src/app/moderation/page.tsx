@@ -0,0 +1,15 @@
+"use client";
+
+import Header from "@/components/layout/Header";
+import { ModerationQueue } from "@/components/moderation/ModerationQueue";
+
+export default function ModerationPage() {
+  return (
+    <>
+      <Header />
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <ModerationQueue />
+      </div>
+    </>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import PlaylistManager from "@/components/playlist/PlaylistManager";
+import { ScheduleManager } from "@/components/playlist/ScheduleManager";
+import { PlaybackControl } from "@/components/playback/PlaybackControl";
 import Header from "@/components/layout/Header";
 
 export default function Home() {
@@ -13,6 +15,16 @@ export default function Home() {
           <section>
             <PlaylistManager />
           </section>
+
+          {/* 再生スケジュール */}
+          <section>
+            <ScheduleManager />
+          </section>
+
+          {/* スケジュールに従ったループ再生 */}
+          <section>
+            <PlaybackControl followSchedule />
+          </section>
         </div>
       </div>
     </>
@@ -0,0 +1,419 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useDeviceCommands } from "@/hooks/useDeviceCommands";
+import { usePlayerHeartbeat } from "@/hooks/usePlayerHeartbeat";
+import { useMediaCache } from "@/hooks/useMediaCache";
+import { Visualizer } from "@/components/playback/Visualizer";
+import { RECOVERY_STEP_LABELS } from "@/lib/playback-watchdog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HardDriveDownload, Maximize, Play, Speaker, WifiOff } from "lucide-react";
+import type { DeviceCommand, DevicePlayerState, PlayerHeartbeat } from "@/lib/types";
+
+// マウス操作がない場合に操作ボタンを隠すまでの時間（ミリ秒）
+const CONTROLS_HIDE_DELAY = 3000;
+
+// 選択した音声出力デバイスを保存するlocalStorageのキー（端末ごとに記憶する）
+const OUTPUT_DEVICE_STORAGE_KEY = "monoshaka:play-output-device";
+
+// リモート操作で変更した音量を保存するlocalStorageのキー（再読み込み後も維持する）
+const VOLUME_STORAGE_KEY = "monoshaka:play-volume";
+
+// ブラウザの自動再生の制限で、リモート操作から再生を開始できない場合のエラー
+const USER_ACTIVATION_ERROR =
+  "端末の画面で一度「再生開始」をクリックする必要があります（ブラウザの自動再生の制限）";
+
+/**
+ * 展示用の無人ループ再生画面
+ * 再生スケジュール（時間外は有効なプレイリスト）に従ってループ再生し、開館時間外は停止する
+ * 管理者のログインではなく、/devicesで発行したデバイストークンで認証する
+ * /devicesからのリモート操作（再生・一時停止・スキップ・音量・プレイリストの切り替えなど）を受け付ける
+ * 稼働状況（/health）のため、再生状態と再生エラー・停止の記録をハートビートで報告する
+ * 再生する可能性のある録音を端末にキャッシュし、ネットワークが切れても最後に取得したプレイリストで再生を続ける
+ */
+export default function PlayPage() {
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
+  const [showControls, setShowControls] = useState(true);
+  const hideControlsTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const hasRestoredDeviceRef = useRef(false);
+  // 再生画面を開いた日時（ハートビートで報告し、再読み込みを検出できるようにする）
+  const startedAtRef = useRef(new Date().toISOString());
+  // リモート操作で切り替えたプレイリスト（nullの場合はスケジュールに従う。再読み込みでスケジュールに戻る）
+  const [overridePlaylistId, setOverridePlaylistId] = useState<string | null>(null);
+
+  const {
+    isPlaying,
+    error,
+    totalCount,
+    currentRecording,
+    startPlayback,
+    needsUserInteraction,
+    pausePlayback,
+    setOutputDevice,
+    currentAudioDevice,
+    audioOutputSupported,
+    hasUnexpectedStop,
+    getAnalyser,
+    getCurrentTime,
+    getDiagnostics,
+    recoveryStep,
+    schedule,
+    volume,
+    setVolume,
+    skipTrack,
+    jumpToRecording,
+  } = usePlayer({ followSchedule: true, deviceMode: true, overridePlaylistId });
+
+  // 現在のプレイリストに加え、スケジュールで切り替わるプレイリストの録音もキャッシュする（オフラインでも切り替えられるように）
+  const cachePlaylistIds = useMemo(() => {
+    if (!schedule) return [];
+    return [
+      schedule.playlistId,
+      schedule.playlists.find((playlist) => playlist.is_active)?.id,
+      ...schedule.schedules.map((item) => item.playlist_id),
+    ].filter((id): id is string => !!id);
+  }, [schedule]);
+
+  const mediaCache = useMediaCache({ playlistIds: cachePlaylistIds });
+  const cacheStatus = mediaCache.status;
+
+  // リモート操作で変更した音量を復元する
+  useEffect(() => {
+    const savedVolume = parseFloat(localStorage.getItem(VOLUME_STORAGE_KEY) ?? "");
+    if (Number.isFinite(savedVolume)) {
+      setVolume(savedVolume);
+    }
+  }, [setVolume]);
+
+  const playerState = useMemo<DevicePlayerState>(
+    () => ({
+      isPlaying,
+      needsUserInteraction,
+      playlistId: schedule?.playlistId ?? null,
+      playlistName: schedule?.playlist?.name ?? null,
+      isPlaylistOverridden: schedule?.isOverridden ?? false,
+      recordingId: currentRecording?.id ?? null,
+      volume,
+    }),
+    [isPlaying, needsUserInteraction, schedule, currentRecording, volume]
+  );
+
+  // 管理画面からのリモート操作を実行する
+  const handleCommand = useCallback(
+    async (command: DeviceCommand) => {
+      // 再生を伴う操作は、端末で一度もクリックしていない場合はブラウザに拒否される
+      const canStartPlayback = !needsUserInteraction || navigator.userActivation?.hasBeenActive;
+
+      switch (command.command) {
+        case "play":
+          if (!canStartPlayback) throw new Error(USER_ACTIVATION_ERROR);
+          if (totalCount === 0) throw new Error("再生する録音がありません");
+          if (!isPlaying) await startPlayback();
+          return;
+        case "pause":
+          pausePlayback();
+          return;
+        case "skip":
+          if (needsUserInteraction) throw new Error("再生を開始していません");
+          await skipTrack();
+          return;
+        case "jump":
+          if (!canStartPlayback) throw new Error(USER_ACTIVATION_ERROR);
+          await jumpToRecording(command.payload.recordingId ?? "");
+          return;
+        case "volume": {
+          const nextVolume = command.payload.volume ?? 1;
+          setVolume(nextVolume);
+          localStorage.setItem(VOLUME_STORAGE_KEY, String(nextVolume));
+          return;
+        }
+        case "playlist": {
+          const playlistId = command.payload.playlistId ?? null;
+          if (playlistId && !schedule?.playlists.some((playlist) => playlist.id === playlistId)) {
+            throw new Error("プレイリストが見つかりません");
+          }
+          setOverridePlaylistId(playlistId);
+          return;
+        }
+        default:
+          throw new Error(`未対応のコマンドです: ${command.command}`);
+      }
+    },
+    [
+      needsUserInteraction,
+      totalCount,
+      isPlaying,
+      startPlayback,
+      pausePlayback,
+      skipTrack,
+      jumpToRecording,
+      setVolume,
+      schedule,
+    ]
+  );
+
+  useDeviceCommands({ state: playerState, onCommand: handleCommand });
+
+  // 稼働状況のハートビートを作成する
+  const getHeartbeat = useCallback((): PlayerHeartbeat => {
+    const diagnostics = getDiagnostics();
+    const outputDevice = audioDevices.find((device) => device.deviceId === currentAudioDevice);
+    return {
+      isPlaying,
+      needsUserInteraction,
+      isOpen: schedule?.isOpen ?? true,
+      isStalled: hasUnexpectedStop && !needsUserInteraction,
+      playlistId: schedule?.playlistId ?? null,
+      recordingId: currentRecording?.id ?? null,
+      position: currentRecording ? Math.round(getCurrentTime() * 10) / 10 : null,
+      outputDevice: currentAudioDevice ? outputDevice?.label || currentAudioDevice : null,
+      audioContextState: diagnostics.audioContextState,
+      errorCount: diagnostics.errorCount,
+      lastError: diagnostics.lastError,
+      lastErrorAt: diagnostics.lastErrorAt,
+      stallCount: diagnostics.stallCount,
+      lastStallAt: diagnostics.lastStallAt,
+      recoveryCount: diagnostics.recoveryCount,
+      lastRecoveryStep: diagnostics.lastRecoveryStep,
+      lastRecoveryAt: diagnostics.lastRecoveryAt,
+      startedAt: startedAtRef.current,
+    };
+  }, [
+    getDiagnostics,
+    getCurrentTime,
+    audioDevices,
+    currentAudioDevice,
+    isPlaying,
+    needsUserInteraction,
+    hasUnexpectedStop,
+    schedule,
+    currentRecording,
+  ]);
+
+  // 停止の検出・再生の開始・録音の切り替えは間隔を待たずに報告する
+  usePlayerHeartbeat({
+    getHeartbeat,
+    urgentKey: `${hasUnexpectedStop}:${needsUserInteraction}:${currentRecording?.id ?? ""}`,
+  });
+
+  // 保存された音声出力デバイスを復元し、デバイス一覧を取得する
+  useEffect(() => {
+    if (!audioOutputSupported || hasRestoredDeviceRef.current) return;
+    hasRestoredDeviceRef.current = true;
+
+    const savedDeviceId = localStorage.getItem(OUTPUT_DEVICE_STORAGE_KEY);
+    if (savedDeviceId) {
+      setOutputDevice(savedDeviceId);
+    }
+    refreshDeviceList();
+  }, [audioOutputSupported, setOutputDevice]);
+
+  // マウスを動かしたときだけ操作ボタンを表示する
+  useEffect(() => {
+    const handleMouseMove = () => {
+      setShowControls(true);
+      if (hideControlsTimerRef.current) {
+        clearTimeout(hideControlsTimerRef.current);
+      }
+      hideControlsTimerRef.current = setTimeout(() => {
+        setShowControls(false);
+      }, CONTROLS_HIDE_DELAY);
+    };
+
+    handleMouseMove();
+    window.addEventListener("mousemove", handleMouseMove);
+
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      if (hideControlsTimerRef.current) {
+        clearTimeout(hideControlsTimerRef.current);
+      }
+    };
+  }, []);
+
+  async function refreshDeviceList() {
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setAudioDevices(
+        devices.filter(
+          (device) =>
+            device.kind === "audiooutput" &&
+            device.deviceId !== "default" &&
+            device.deviceId !== ""
+        )
+      );
+    } catch (err) {
+      console.error("デバイス一覧の取得に失敗:", err);
+    }
+  }
+
+  async function handleDeviceSelect(deviceId: string) {
+    await setOutputDevice(deviceId);
+    localStorage.setItem(OUTPUT_DEVICE_STORAGE_KEY, deviceId);
+  }
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch((err) => {
+        console.error("全画面表示の解除に失敗:", err);
+      });
+    } else {
+      document.documentElement.requestFullscreen().catch((err) => {
+        console.error("全画面表示に失敗:", err);
+      });
+    }
+  }
+
+  function handleStart() {
+    // 再生開始はユーザー操作が必要なため、同時に全画面表示にする
+    if (!document.fullscreenElement) {
+      toggleFullscreen();
+    }
+    startPlayback();
+  }
+
+  const isClosed = schedule?.isLoaded && !schedule.isOpen;
+
+  return (
+    // 黒背景でビジュアライザーとボタンが見えるよう、ダークテーマの配色を使う
+    <div
+      className="dark fixed inset-0 overflow-hidden bg-black text-white"
+      style={{ cursor: showControls ? "auto" : "none" }}
+    >
+      <div className="absolute inset-0 flex items-center justify-center">
+        <Visualizer
+          isPlaying={isPlaying}
+          getAnalyser={getAnalyser}
+          mode="circular"
+          className="h-[60vmin] w-[60vmin]"
+        />
+      </div>
+
+      {/* 閉館中 */}
+      {isClosed && !needsUserInteraction && (
+        <div className="absolute inset-x-0 bottom-12 text-center text-lg text-white/50">
+          閉館中
+        </div>
+      )}
+
+      {/* 再生開始（ブラウザの自動再生制限のため、最初にクリックが必要） */}
+      {needsUserInteraction && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/60">
+          <Button size="lg" onClick={handleStart} disabled={totalCount === 0}>
+            <Play className="h-5 w-5 mr-2" />
+            再生開始
+          </Button>
+          {schedule?.playlist && (
+            <p className="text-sm text-white/70">{schedule.playlist.name}</p>
+          )}
+          {schedule?.isLoaded && !schedule.playlist && (
+            <p className="text-sm text-white/70">再生するプレイリストがありません</p>
+          )}
+          {schedule?.playlist && totalCount === 0 && (
+            <p className="text-sm text-white/70">このプレイリストには録音がありません</p>
+          )}
+        </div>
+      )}
+
+      {/* スケジュールを一度も取得できない場合は、認証の問題の可能性が高い */}
+      {schedule?.error && !schedule.isLoaded && (
+        <div className="absolute bottom-4 left-4 right-4 rounded bg-red-600/80 px-3 py-2 text-sm text-white">
+          {schedule.error}
+          （管理画面で発行した再生画面のURLをこの端末で開き直してください）
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute bottom-4 left-4 rounded bg-red-600/80 px-3 py-2 text-sm text-white">
+          {error}
+        </div>
+      )}
+
+      {/* 再生停止を検出した場合の表示（無人運用のため控えめに表示し、自動復旧に任せる） */}
+      {hasUnexpectedStop && !needsUserInteraction && (
+        <div
+          className="absolute top-4 left-4 h-3 w-3 rounded-full bg-amber-500"
+          title={
+            recoveryStep
+              ? `再生が停止しています（自動復旧: ${RECOVERY_STEP_LABELS[recoveryStep]}）`
+              : "再生が停止しています"
+          }
+        />
+      )}
+
+      {/* オフラインの表示（キャッシュした録音で再生を続ける） */}
+      {!mediaCache.isOnline && (
+        <div
+          className={`absolute top-3 flex items-center gap-1 text-xs text-white/50 ${
+            hasUnexpectedStop && !needsUserInteraction ? "left-10" : "left-4"
+          }`}
+          title={
+            cacheStatus
+              ? `オフラインのため、保存済みの録音（${cacheStatus.cached}/${cacheStatus.total}件）で再生しています`
+              : "オフラインです"
+          }
+        >
+          <WifiOff className="h-3 w-3" />
+          オフライン
+        </div>
+      )}
+
+      {/* 操作ボタン（マウスを動かしたときのみ表示） */}
+      <div
+        className={`absolute top-4 right-4 flex gap-2 transition-opacity duration-300 ${
+          showControls ? "opacity-100" : "pointer-events-none opacity-0"
+        }`}
+      >
+        {mediaCache.isSupported && cacheStatus && cacheStatus.total > 0 && (
+          <div
+            className="flex items-center rounded-md bg-secondary px-3 text-sm text-secondary-foreground"
+            title={
+              cacheStatus.failed > 0
+                ? `${cacheStatus.failed}件の録音を保存できませんでした（次の同期で再試行します）`
+                : "ネットワークが切れても再生できるよう、録音をこの端末に保存しています"
+            }
+          >
+            <HardDriveDownload className="h-4 w-4 mr-2" />
+            オフライン保存 {cacheStatus.cached}/{cacheStatus.total}
+            {cacheStatus.isSyncing && "（保存中）"}
+          </div>
+        )}
+        {audioOutputSupported && audioDevices.length > 0 && (
+          <Select
+            value={currentAudioDevice || undefined}
+            onValueChange={handleDeviceSelect}
+            onOpenChange={(open) => {
+              if (open) {
+                refreshDeviceList();
+              }
+            }}
+          >
+            <SelectTrigger size="sm" className="w-[200px]">
+              <Speaker className="h-4 w-4 mr-2" />
+              <SelectValue placeholder="出力デバイス" />
+            </SelectTrigger>
+            <SelectContent>
+              {audioDevices.map((device) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `デバイス ${device.deviceId.slice(0, 8)}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button variant="secondary" size="sm" onClick={toggleFullscreen}>
+          <Maximize className="h-4 w-4 mr-2" />
+          全画面
+        </Button>
+      </div>
+    </div>
+  );
+}
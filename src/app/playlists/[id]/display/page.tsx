@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useParams } from "next/navigation";
+import { usePlayer } from "@/hooks/usePlayer";
+import { getPlaylistById } from "@/lib/supabase";
+import { toTransitionSettings } from "@/lib/playback-transition";
+import { getPlaybackOrderMode } from "@/lib/playback-order";
+import { SubtitleDisplay } from "@/components/playback/SubtitleDisplay";
+import { DisplaySettingsDialog } from "@/components/playback/DisplaySettingsDialog";
+import {
+  loadDisplaySettings,
+  saveDisplaySettings,
+  DEFAULT_DISPLAY_SETTINGS,
+  type DisplaySettings,
+} from "@/lib/display-settings";
+import { Button } from "@/components/ui/button";
+import { Maximize, Play, Settings } from "lucide-react";
+import type { Playlist } from "@/lib/types";
+
+// マウス操作がない場合に操作ボタンを隠すまでの時間（ミリ秒）
+const CONTROLS_HIDE_DELAY = 3000;
+
+/**
+ * 展示用の字幕表示モード
+ * プレイリストをループ再生し、再生中の録音の文字起こしを全画面で表示する
+ */
+export default function PlaylistDisplayPage() {
+  const params = useParams();
+  const playlistId = params.id as string;
+
+  const [settings, setSettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [showControls, setShowControls] = useState(true);
+  const hideControlsTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+
+  const transition = useMemo(() => toTransitionSettings(playlist), [playlist]);
+
+  const {
+    currentRecording,
+    getCurrentTime,
+    isPlaying,
+    error,
+    totalCount,
+    startPlayback,
+    needsUserInteraction,
+  } = usePlayer({ playlistId, transition, playbackOrder: getPlaybackOrderMode(playlist) });
+
+  // 曲間・再生順序の設定を読み込む（取得できない場合は設定なしで再生する）
+  useEffect(() => {
+    getPlaylistById(playlistId)
+      .then(setPlaylist)
+      .catch((err) => {
+        console.error("プレイリストの取得に失敗:", err);
+      });
+  }, [playlistId]);
+
+  // 保存された表示設定を読み込む（localStorageはクライアントでのみ参照できる）
+  useEffect(() => {
+    setSettings(loadDisplaySettings());
+  }, []);
+
+  // マウスを動かしたときだけ操作ボタンを表示する
+  useEffect(() => {
+    const handleMouseMove = () => {
+      setShowControls(true);
+      if (hideControlsTimerRef.current) {
+        clearTimeout(hideControlsTimerRef.current);
+      }
+      hideControlsTimerRef.current = setTimeout(() => {
+        setShowControls(false);
+      }, CONTROLS_HIDE_DELAY);
+    };
+
+    handleMouseMove();
+    window.addEventListener("mousemove", handleMouseMove);
+
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      if (hideControlsTimerRef.current) {
+        clearTimeout(hideControlsTimerRef.current);
+      }
+    };
+  }, []);
+
+  function handleSettingsChange(newSettings: DisplaySettings) {
+    setSettings(newSettings);
+    saveDisplaySettings(newSettings);
+  }
+
+  function toggleFullscreen() {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch((err) => {
+        console.error("全画面表示の解除に失敗:", err);
+      });
+    } else {
+      document.documentElement.requestFullscreen().catch((err) => {
+        console.error("全画面表示に失敗:", err);
+      });
+    }
+  }
+
+  function handleStart() {
+    // 再生開始はユーザー操作が必要なため、同時に全画面表示にする
+    if (!document.fullscreenElement) {
+      toggleFullscreen();
+    }
+    startPlayback();
+  }
+
+  return (
+    <div
+      className="fixed inset-0 overflow-hidden"
+      style={{
+        backgroundColor: settings.backgroundColor,
+        cursor: showControls ? "auto" : "none",
+      }}
+    >
+      <SubtitleDisplay
+        recording={needsUserInteraction ? null : currentRecording}
+        getCurrentTime={getCurrentTime}
+        isPlaying={isPlaying}
+        settings={settings}
+      />
+
+      {/* 再生開始（ブラウザの自動再生制限のため、最初にクリックが必要） */}
+      {needsUserInteraction && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 bg-black/60">
+          <Button size="lg" onClick={handleStart} disabled={totalCount === 0}>
+            <Play className="h-5 w-5 mr-2" />
+            再生開始
+          </Button>
+          {totalCount === 0 && (
+            <p className="text-sm text-white/70">このプレイリストには録音がありません</p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute bottom-4 left-4 rounded bg-red-600/80 px-3 py-2 text-sm text-white">
+          {error}
+        </div>
+      )}
+
+      {/* 操作ボタン（マウスを動かしたときのみ表示） */}
+      <div
+        className={`absolute top-4 right-4 flex gap-2 transition-opacity duration-300 ${
+          showControls ? "opacity-100" : "pointer-events-none opacity-0"
+        }`}
+      >
+        <Button variant="secondary" size="sm" onClick={toggleFullscreen}>
+          <Maximize className="h-4 w-4 mr-2" />
+          全画面
+        </Button>
+        <Button variant="secondary" size="sm" onClick={() => setIsSettingsOpen(true)}>
+          <Settings className="h-4 w-4 mr-2" />
+          表示設定
+        </Button>
+      </div>
+
+      <DisplaySettingsDialog
+        settings={settings}
+        open={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        onChange={handleSettingsChange}
+      />
+    </div>
+  );
+}
@@ -1,29 +1,50 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { getPlaylistById, getPlaylistRecordings } from "@/lib/supabase";
+import Link from "next/link";
+import { getPlaylistById, getPlaylistRecordings, getPlaylistPassages } from "@/lib/supabase";
+import { toTransitionSettings } from "@/lib/playback-transition";
+import { toVoiceActivationSettings } from "@/lib/voice-activation";
+import { getPlaybackOrderMode } from "@/lib/playback-order";
+import { usePlaylistChanges } from "@/hooks/usePlaylistChanges";
 import RecordingList from "@/components/playlist/RecordingList";
 import { PlaybackControl } from "@/components/playback/PlaybackControl";
 import { UploadModal } from "@/components/audio/UploadModal";
 import { Recorder } from "@/components/recording/Recorder";
+import { PlaylistSettingsDialog } from "@/components/playlist/PlaylistSettingsDialog";
+import { PassageManager } from "@/components/playlist/PassageManager";
 import Header from "@/components/layout/Header";
-import type { Recording } from "@/lib/types";
+import type { Passage, Playlist, Recording } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ScrollToTop } from "@/components/ui/scroll-to-top";
-import { ArrowLeft, Loader2 } from "lucide-react";
+import { ArrowLeft, Loader2, Settings, Subtitles, Wifi, WifiOff } from "lucide-react";
 
 export default function PlaylistDetailPage() {
   const router = useRouter();
   const params = useParams();
   const playlistId = params.id as string;
 
-  const [playlistName, setPlaylistName] = useState("");
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
   const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [passages, setPassages] = useState<Passage[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState("");
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // usePlayerに毎回新しいオブジェクトを渡さないよう、プレイリストが変わった場合のみ再計算する
+  const transition = useMemo(() => toTransitionSettings(playlist), [playlist]);
+  const voiceActivation = useMemo(() => toVoiceActivationSettings(playlist), [playlist]);
+  const recordingIds = useMemo(() => recordings.map((r) => r.id), [recordings]);
+
+  // 他の画面・端末での録音の追加・削除・並び替え・音量解析などを受け取り、録音一覧と再生に反映する
+  const changeFeedStatus = usePlaylistChanges(
+    playlist ? playlistId : null,
+    handleRecordingsUpdate,
+    { recordingIds }
+  );
 
   useEffect(() => {
     loadPlaylistData();
@@ -34,12 +55,14 @@ export default function PlaylistDetailPage() {
     try {
       setIsLoading(true);
       setError("");
-      const [playlist, recordingsData] = await Promise.all([
+      const [playlist, recordingsData, passagesData] = await Promise.all([
         getPlaylistById(playlistId),
         getPlaylistRecordings(playlistId),
+        getPlaylistPassages(playlistId),
       ]);
-      setPlaylistName(playlist.name);
+      setPlaylist(playlist);
       setRecordings(recordingsData);
+      setPassages(passagesData);
     } catch (err) {
       const message =
         err instanceof Error ? err.message : "データの取得に失敗しました";
@@ -123,13 +146,15 @@ export default function PlaylistDetailPage() {
     );
   }
 
-  if (error) {
+  if (error || !playlist) {
     return (
       <>
         <Header />
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <Alert variant="destructive">
-            <AlertDescription>エラー: {error}</AlertDescription>
+            <AlertDescription>
+              エラー: {error || "プレイリストが見つかりません"}
+            </AlertDescription>
           </Alert>
         </div>
       </>
@@ -144,7 +169,7 @@ export default function PlaylistDetailPage() {
           {/* ヘッダー */}
           <div>
             <div className="flex items-start gap-4 mb-2">
-              <h1 className="text-3xl font-bold">{playlistName}</h1>
+              <h1 className="text-3xl font-bold">{playlist.name}</h1>
               <Button
                 onClick={() => router.push("/")}
                 variant="outline"
@@ -154,6 +179,48 @@ export default function PlaylistDetailPage() {
                 <ArrowLeft className="mr-2 h-4 w-4" />
                 戻る
               </Button>
+              <Button
+                onClick={() => setIsSettingsOpen(true)}
+                variant="outline"
+                size="sm"
+                className="shrink-0"
+              >
+                <Settings className="mr-2 h-4 w-4" />
+                設定
+              </Button>
+              <Button asChild variant="outline" size="sm" className="shrink-0">
+                <Link href={`/playlists/${playlistId}/display`} target="_blank">
+                  <Subtitles className="mr-2 h-4 w-4" />
+                  字幕表示
+                </Link>
+              </Button>
+              {changeFeedStatus && (
+                <span
+                  className="ml-auto flex items-center gap-1 self-center text-xs text-muted-foreground"
+                  title={
+                    changeFeedStatus === "live"
+                      ? "他の画面での変更をすぐに反映します"
+                      : "リアルタイム更新に接続できない間は、10秒ごとに最新の録音を取得します"
+                  }
+                >
+                  {changeFeedStatus === "live" ? (
+                    <>
+                      <Wifi className="h-3 w-3" />
+                      リアルタイム更新中
+                    </>
+                  ) : changeFeedStatus === "connecting" ? (
+                    <>
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      接続中
+                    </>
+                  ) : (
+                    <>
+                      <WifiOff className="h-3 w-3" />
+                      再接続中（10秒ごとに更新）
+                    </>
+                  )}
+                </span>
+              )}
             </div>
           </div>
 
@@ -163,17 +230,30 @@ export default function PlaylistDetailPage() {
               playlistId={playlistId}
               recordingCount={recordings.length}
               recordings={recordings}
+              transition={transition}
+              playbackOrder={getPlaybackOrderMode(playlist)}
             />
             <Recorder
               playlistId={playlistId}
+              passages={passages}
+              voiceActivation={voiceActivation}
               onRecordingAdded={handleRecordingAdded}
             />
           </div>
 
+          {/* 課題文 */}
+          <PassageManager
+            playlistId={playlistId}
+            passages={passages}
+            onPassagesChange={setPassages}
+            onScoresUpdated={handleRecordingsUpdate}
+          />
+
           {/* 録音一覧 */}
           <div>
             <RecordingList
               recordings={recordings}
+              passages={passages}
               onUpdate={handleRecordingsUpdate}
               playlistId={playlistId}
               onUploadRequest={() => setIsUploadModalOpen(true)}
@@ -194,6 +274,14 @@ export default function PlaylistDetailPage() {
         onUploadComplete={handleUploadComplete}
       />
 
+      {/* プレイリスト設定ダイアログ */}
+      <PlaylistSettingsDialog
+        playlist={playlist}
+        open={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        onSaved={setPlaylist}
+      />
+
       {/* トップに戻るボタン */}
       <ScrollToTop />
     </>
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { getActivePlaylist, getPlaylistPassages } from "@/lib/supabase";
+import { RecordingKiosk } from "@/components/recording/RecordingKiosk";
+import { Loader2 } from "lucide-react";
+import type { Passage, Playlist } from "@/lib/types";
+
+// 有効なプレイリストがない場合に再確認する間隔（ミリ秒）
+const ACTIVE_PLAYLIST_RETRY_INTERVAL = 30000;
+
+/**
+ * 来場者向けの録音画面
+ * 有効なプレイリストに録音を追加する
+ */
+export default function RecordPage() {
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+  const [passages, setPassages] = useState<Passage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 有効なプレイリストと課題文を取得（録音のたびに呼び出し、管理画面での切り替えを反映する）
+  const loadActivePlaylist = useCallback(async () => {
+    try {
+      const activePlaylist = await getActivePlaylist();
+      setPlaylist((prev) => (prev?.id === activePlaylist?.id ? prev : activePlaylist));
+      setPassages(activePlaylist ? await getPlaylistPassages(activePlaylist.id) : []);
+    } catch (err) {
+      // 取得に失敗した場合は直前のプレイリストのまま録音を受け付ける
+      console.error("有効なプレイリストの取得に失敗:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadActivePlaylist();
+  }, [loadActivePlaylist]);
+
+  // 有効なプレイリストがない場合は定期的に再確認する
+  useEffect(() => {
+    if (isLoading || playlist) return;
+
+    const interval = setInterval(loadActivePlaylist, ACTIVE_PLAYLIST_RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLoading, playlist, loadActivePlaylist]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!playlist) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 px-8 text-center">
+        <h1 className="text-3xl font-bold">ただいま録音を受け付けていません</h1>
+        <p className="text-muted-foreground">
+          管理画面でプレイリストを「有効」にすると、録音できるようになります
+        </p>
+      </div>
+    );
+  }
+
+  return <RecordingKiosk playlist={playlist} passages={passages} onReset={loadActivePlaylist} />;
+}
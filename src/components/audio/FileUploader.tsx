@@ -8,9 +8,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Upload, Loader2, FileAudio, X, CheckCircle2, AlertCircle, Play, Pause, GripVertical } from 'lucide-react';
-import { uploadRecording, addRecordingToPlaylist } from '@/lib/supabase';
+import { uploadRecording, addRecordingToPlaylist, updateRecordingsModeration } from '@/lib/supabase';
+import { requestRecordingProcessing } from '@/lib/processing';
 import type { Recording } from '@/lib/types';
 import { analyzeAudioVolume, type VolumeMetadata } from '@/lib/audio-analysis';
+import { AUDIO_FILE_ACCEPT, resolveAudioFormat } from '@/lib/audio-format';
 
 interface FileUploaderProps {
   playlistId: string;
@@ -57,8 +59,8 @@ export default function FileUploader({ playlistId, onUploadComplete }: FileUploa
 
     // 各ファイルのメタデータ（長さ）を取得
     for (const fileItem of newFileItems) {
-      const allowedTypes = ['audio/webm', 'audio/wav', 'audio/mp3', 'audio/mpeg', 'audio/ogg'];
-      if (!allowedTypes.includes(fileItem.file.type) && !fileItem.file.name.match(/\.(webm|wav|mp3|ogg)$/i)) {
+      // アップロード時もこの形式（拡張子・MIMEタイプ）のまま保存する
+      if (!resolveAudioFormat(fileItem.file)) {
         setFiles((prev) =>
           prev.map((f) =>
             f.id === fileItem.id
@@ -166,8 +168,16 @@ export default function FileUploader({ playlistId, onUploadComplete }: FileUploa
         // 2. プレイリストに追加
         await addRecordingToPlaylist(playlistId, recording.id);
 
+        // 3. 管理画面からアップロードした録音は審査せずに承認
+        await updateRecordingsModeration([recording.id], 'approved');
+
+        // 4. 後処理（波形生成・文字起こし）をサーバーで開始（完了は待たない）
+        requestRecordingProcessing(recording.id).catch((error) => {
+          console.error('後処理の開始に失敗:', error);
+        });
+
         // アップロードされたレコーディングを配列に追加
-        uploadedRecordings.push(recording);
+        uploadedRecordings.push({ ...recording, moderation_status: 'approved' });
 
         // ステータスを「完了」に更新
         setFiles((prev) =>
@@ -332,13 +342,13 @@ export default function FileUploader({ playlistId, onUploadComplete }: FileUploa
             id="audio-files"
             ref={fileInputRef}
             type="file"
-            accept="audio/webm,audio/wav,audio/mp3,audio/mpeg,audio/ogg,.webm,.wav,.mp3,.ogg"
+            accept={AUDIO_FILE_ACCEPT}
             onChange={handleFileSelect}
             disabled={isUploading}
             multiple
           />
           <p className="text-xs text-muted-foreground">
-            対応形式: WebM, WAV, MP3, OGG • ドラッグして順序を変更 • 再生ボタンで内容を確認
+            対応形式: WebM, WAV, MP3, M4A, FLAC, OGG • ドラッグして順序を変更 • 再生ボタンで内容を確認
           </p>
         </div>
 
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -9,21 +9,234 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
-import { Loader2, FileText, AlertCircle } from 'lucide-react';
-import { updateRecordingTranscription } from '@/lib/supabase';
-import type { Recording } from '@/lib/types';
+import { Loader2, FileText, AlertCircle, Play, Square, Trash2, Save } from 'lucide-react';
+import { getRecordingUrl, updateRecordingTranscription } from '@/lib/supabase';
+import { formatTimestamp, segmentsToText } from '@/lib/transcript';
+import type { Recording, TranscriptSegment } from '@/lib/types';
 
 interface TranscriptionModalProps {
   recordings: Recording[];
+  playlistId?: string;
+  // 指定した場合は、一括文字起こしの代わりにこの録音の文字起こしを編集する
+  editingRecording?: Recording | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onTranscriptionComplete?: () => void | Promise<void>;
 }
 
+interface TranscriptEditorProps {
+  recording: Recording;
+  onSaved: () => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * 1件の録音の文字起こしを編集する
+ * タイムスタンプ付きのセグメントがある場合はセグメントごとに、ない場合はテキスト全体を編集する
+ */
+function TranscriptEditor({ recording, onSaved, onCancel }: TranscriptEditorProps) {
+  const [segments, setSegments] = useState<TranscriptSegment[]>(
+    () => recording.transcription_segments ?? []
+  );
+  const [text, setText] = useState(recording.transcription ?? '');
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const hasSegments = (recording.transcription_segments?.length ?? 0) > 0;
+
+  // アンマウント時にプレビュー再生を停止
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  function updateSegment(index: number, changes: Partial<TranscriptSegment>) {
+    setSegments((prev) =>
+      prev.map((segment, i) => {
+        if (i !== index) return segment;
+        const updated = { ...segment, ...changes };
+        // テキストを変更した場合、単語のタイムスタンプは一致しなくなるため削除する
+        if (changes.text !== undefined && changes.text !== segment.text) {
+          delete updated.words;
+        }
+        return updated;
+      })
+    );
+  }
+
+  function removeSegment(index: number) {
+    stopPreview();
+    setSegments((prev) => prev.filter((_, i) => i !== index));
+  }
+
+  function stopPreview() {
+    audioRef.current?.pause();
+    setPreviewIndex(null);
+  }
+
+  // セグメントの区間だけを再生して確認する
+  function playSegment(index: number) {
+    const segment = segments[index];
+    if (!audioRef.current) {
+      audioRef.current = new Audio(getRecordingUrl(recording.file_path));
+    }
+    const audio = audioRef.current;
+
+    audio.ontimeupdate = () => {
+      if (audio.currentTime >= segment.end) {
+        audio.pause();
+        setPreviewIndex(null);
+      }
+    };
+    audio.currentTime = segment.start;
+    audio.play().catch((err) => {
+      console.error('プレビュー再生エラー:', err);
+      setPreviewIndex(null);
+    });
+    setPreviewIndex(index);
+  }
+
+  async function handleSave() {
+    if (hasSegments) {
+      const invalid = segments.find((segment) => !(segment.start >= 0 && segment.end > segment.start));
+      if (invalid) {
+        setError(`タイムスタンプが不正です（${formatTimestamp(invalid.start)} - ${formatTimestamp(invalid.end)}）`);
+        return;
+      }
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+      stopPreview();
+
+      if (hasSegments) {
+        const sorted = [...segments]
+          .map((segment) => ({ ...segment, text: segment.text.trim() }))
+          .filter((segment) => segment.text !== '')
+          .sort((a, b) => a.start - b.start);
+        await updateRecordingTranscription(recording.id, segmentsToText(sorted), sorted);
+      } else {
+        await updateRecordingTranscription(recording.id, text.trim());
+      }
+
+      await onSaved();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {hasSegments ? (
+        <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+          {segments.map((segment, index) => (
+            <div key={index} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={segment.start}
+                  onChange={(e) => updateSegment(index, { start: parseFloat(e.target.value) })}
+                  className="h-8 w-24"
+                  aria-label="開始（秒）"
+                />
+                <span className="text-muted-foreground">-</span>
+                <Input
+                  type="number"
+                  step={0.1}
+                  min={0}
+                  value={segment.end}
+                  onChange={(e) => updateSegment(index, { end: parseFloat(e.target.value) })}
+                  className="h-8 w-24"
+                  aria-label="終了（秒）"
+                />
+                <span className="text-xs text-muted-foreground">
+                  {formatTimestamp(segment.start)} - {formatTimestamp(segment.end)}
+                </span>
+                <div className="ml-auto flex gap-1">
+                  <Button
+                    onClick={() => (previewIndex === index ? stopPreview() : playSegment(index))}
+                    variant="ghost"
+                    size="sm"
+                    title="この区間を再生"
+                  >
+                    {previewIndex === index ? (
+                      <Square className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    onClick={() => removeSegment(index)}
+                    variant="ghost"
+                    size="sm"
+                    title="このセグメントを削除"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={segment.text}
+                onChange={(e) => updateSegment(index, { text: e.target.value })}
+                rows={2}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={8}
+          placeholder="文字起こしテキスト"
+        />
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+          キャンセル
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              保存中...
+            </>
+          ) : (
+            <>
+              <Save className="mr-2 h-4 w-4" />
+              保存
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export default function TranscriptionModal({
   recordings,
+  playlistId,
+  editingRecording,
   open,
   onOpenChange,
   onTranscriptionComplete,
@@ -46,11 +259,14 @@ export default function TranscriptionModal({
     return parts[parts.length - 1] || filePath;
   };
 
-  async function transcribeAudio(recordingId: string, filePath: string): Promise<string> {
+  async function transcribeAudio(
+    recordingId: string,
+    filePath: string
+  ): Promise<{ transcription: string; segments: TranscriptSegment[] }> {
     const response = await fetch('/api/transcribe', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ recordingId, filePath }),
+      body: JSON.stringify({ recordingId, filePath, playlistId }),
     });
 
     if (!response.ok) {
@@ -59,7 +275,7 @@ export default function TranscriptionModal({
     }
 
     const data = await response.json();
-    return data.transcription;
+    return { transcription: data.transcription, segments: data.segments ?? [] };
   }
 
   async function handleTranscribeAll() {
@@ -86,10 +302,17 @@ export default function TranscriptionModal({
 
       try {
         // 文字起こし実行
-        const transcription = await transcribeAudio(recording.id, recording.file_path);
+        const { transcription, segments } = await transcribeAudio(
+          recording.id,
+          recording.file_path
+        );
 
         // データベースを更新
-        await updateRecordingTranscription(recording.id, transcription);
+        await updateRecordingTranscription(
+          recording.id,
+          transcription,
+          segments.length > 0 ? segments : null
+        );
 
         completedCount++;
         setCompleted(completedCount);
@@ -121,6 +344,36 @@ export default function TranscriptionModal({
     }, 2000);
   }
 
+  async function handleEditSaved() {
+    await onTranscriptionComplete?.();
+    onOpenChange(false);
+  }
+
+  if (editingRecording) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              文字起こしの編集
+            </DialogTitle>
+            <DialogDescription className="truncate">
+              {getFileName(editingRecording.file_path)}
+            </DialogDescription>
+          </DialogHeader>
+          {/* 録音ごとに編集内容を初期化するため、keyに録音IDを指定 */}
+          <TranscriptEditor
+            key={editingRecording.id}
+            recording={editingRecording}
+            onSaved={handleEditSaved}
+            onCancel={() => onOpenChange(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg">
@@ -15,6 +15,7 @@ import { Loader2, Volume2, AlertCircle } from 'lucide-react';
 import { analyzeAudioVolume } from '@/lib/audio-analysis';
 import { getRecordingUrl } from '@/lib/supabase';
 import { createClient } from '@/lib/supabase-client';
+import { getRecordingFormat } from '@/lib/audio-format';
 import type { Recording } from '@/lib/types';
 
 interface VolumeAnalyzerModalProps {
@@ -80,10 +81,11 @@ export default function VolumeAnalyzerModal({
           throw new Error('ファイルの取得に失敗しました');
         }
 
-        // レスポンスからblobを取得し、正しいmimeTypeを設定
+        // レスポンスからblobを取得し、録音の形式のmimeTypeを設定
         const originalBlob = await response.blob();
-        const contentType = response.headers.get('content-type') || 'audio/webm';
-        const blob = new Blob([originalBlob], { type: contentType });
+        const blob = new Blob([originalBlob], {
+          type: recording.mime_type || getRecordingFormat(recording).mimeType,
+        });
 
         // 音量最適化のための解析
         const volumeMetadata = await analyzeAudioVolume(blob);
@@ -96,6 +98,8 @@ export default function VolumeAnalyzerModal({
             lufs: volumeMetadata.lufs,
             peak_level: volumeMetadata.peak,
             rms_level: volumeMetadata.rms,
+            analysis_status: 'done',
+            processing_updated_at: new Date().toISOString(),
           })
           .eq('id', recording.id);
 
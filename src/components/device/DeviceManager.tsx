@@ -0,0 +1,392 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getDevices, createDevice, revokeDevice, deleteDevice } from '@/lib/supabase';
+import { DEVICE_TOKEN_PARAM } from '@/lib/device-token';
+import { createClient } from '@/lib/supabase-client';
+import { subscribeToChanges, type ChangeFeedClient } from '@/lib/change-feed';
+import { isDeviceStateFresh } from '@/lib/device-commands';
+import { DeviceRemoteDialog } from './DeviceRemoteDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Ban, Check, Copy, Gamepad2, Loader2, Monitor, Plus, Trash2 } from 'lucide-react';
+import type { Device } from '@/lib/types';
+
+/**
+ * 再生端末（展示ディスプレイ）を管理するコンポーネント
+ * 端末ごとにデバイストークンを発行し、/playを管理者のログインなしで開けるようにします
+ * 再生画面を開いている端末の再生状態を表示し、リモート操作できます
+ */
+export function DeviceManager() {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [newDeviceName, setNewDeviceName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  // 発行直後のみ表示する再生URL（トークンは保存されないため再表示できない）
+  const [issuedUrl, setIssuedUrl] = useState<string | null>(null);
+  const [hasCopied, setHasCopied] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<Device | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Device | null>(null);
+  const [remoteDeviceId, setRemoteDeviceId] = useState<string | null>(null);
+  // 再生状態の報告が途絶えた端末を未接続の表示にするための現在時刻
+  const [now, setNow] = useState(() => Date.now());
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await getDevices());
+    } catch (err) {
+      console.error('再生端末の取得に失敗:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+  }, []);
+
+  // 端末の再生状態の報告を受け取る
+  useEffect(() => {
+    return subscribeToChanges(
+      createClient() as unknown as ChangeFeedClient,
+      'devices',
+      [{ filter: { event: '*', schema: 'public', table: 'devices' } }],
+      { onChange: refreshDevices }
+    );
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  async function loadDevices() {
+    try {
+      setIsLoading(true);
+      setError('');
+      setDevices(await getDevices());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '再生端末の取得に失敗しました';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function openCreateDialog() {
+    setNewDeviceName('');
+    setIssuedUrl(null);
+    setHasCopied(false);
+    setCreateDialogOpen(true);
+  }
+
+  async function handleCreate() {
+    if (!newDeviceName.trim()) return;
+
+    try {
+      setIsCreating(true);
+      const { token } = await createDevice(newDeviceName.trim());
+      setIssuedUrl(`${window.location.origin}/play?${DEVICE_TOKEN_PARAM}=${token}`);
+      await loadDevices();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`登録に失敗しました: ${message}`);
+      setCreateDialogOpen(false);
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleCopy() {
+    if (!issuedUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(issuedUrl);
+      setHasCopied(true);
+    } catch (err) {
+      console.error('コピーに失敗:', err);
+    }
+  }
+
+  async function confirmRevoke() {
+    if (!revokeTarget) return;
+
+    try {
+      await revokeDevice(revokeTarget.id);
+      await loadDevices();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`無効化に失敗しました: ${message}`);
+    } finally {
+      setRevokeTarget(null);
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteTarget) return;
+
+    try {
+      await deleteDevice(deleteTarget.id);
+      await loadDevices();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`削除に失敗しました: ${message}`);
+    } finally {
+      setDeleteTarget(null);
+    }
+  }
+
+  function renderPlayerState(device: Device) {
+    const state = device.player_state;
+    if (device.revoked_at || !state || !isDeviceStateFresh(device.player_state_at, now)) {
+      return <span className="text-muted-foreground">未接続</span>;
+    }
+    return (
+      <div className="space-y-1">
+        {state.needsUserInteraction ? (
+          <Badge variant="outline">再生開始待ち</Badge>
+        ) : state.isPlaying ? (
+          <Badge variant="default">再生中</Badge>
+        ) : (
+          <Badge variant="secondary">停止中</Badge>
+        )}
+        {state.playlistName && <p className="text-xs text-muted-foreground">{state.playlistName}</p>}
+      </div>
+    );
+  }
+
+  // ダイアログには一覧の最新の再生状態を渡す
+  const remoteDevice = devices.find((device) => device.id === remoteDeviceId) ?? null;
+
+  function formatDate(dateString: string | null) {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleString('ja-JP', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <Monitor className="h-5 w-5" />
+              再生端末（{devices.length}台）
+            </CardTitle>
+            <Button onClick={openCreateDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              端末を登録
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && devices.length === 0 ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : devices.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              登録された再生端末がありません
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>端末名</TableHead>
+                    <TableHead>状態</TableHead>
+                    <TableHead>再生状態</TableHead>
+                    <TableHead>最終アクセス</TableHead>
+                    <TableHead>登録日時</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {devices.map((device) => (
+                    <TableRow key={device.id}>
+                      <TableCell className="font-medium">{device.name}</TableCell>
+                      <TableCell>
+                        {device.revoked_at ? (
+                          <Badge variant="secondary">無効</Badge>
+                        ) : (
+                          <Badge variant="default">有効</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{renderPlayerState(device)}</TableCell>
+                      <TableCell>{formatDate(device.last_seen_at)}</TableCell>
+                      <TableCell>{formatDate(device.created_at)}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {!device.revoked_at && (
+                          <Button onClick={() => setRemoteDeviceId(device.id)} variant="outline" size="sm">
+                            <Gamepad2 className="mr-1 h-3 w-3" />
+                            リモート操作
+                          </Button>
+                        )}
+                        {!device.revoked_at && (
+                          <Button onClick={() => setRevokeTarget(device)} variant="outline" size="sm">
+                            <Ban className="mr-1 h-3 w-3" />
+                            無効にする
+                          </Button>
+                        )}
+                        <Button onClick={() => setDeleteTarget(device)} variant="destructive" size="sm">
+                          <Trash2 className="mr-1 h-3 w-3" />
+                          削除
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 端末登録ダイアログ */}
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>再生端末を登録</DialogTitle>
+            <DialogDescription>
+              {issuedUrl
+                ? '展示ディスプレイのブラウザでこのURLを一度開くと、以降はログインなしで再生画面を表示できます'
+                : '展示ディスプレイごとに登録し、再生画面を開くためのURLを発行します'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {issuedUrl ? (
+            <div className="space-y-2 py-4">
+              <Label htmlFor="device-url">再生画面のURL</Label>
+              <div className="flex gap-2">
+                <Input id="device-url" value={issuedUrl} readOnly onFocus={(e) => e.target.select()} />
+                <Button onClick={handleCopy} variant="outline" className="flex-shrink-0">
+                  {hasCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                このURLは再表示できません。紛失した場合は端末を登録し直してください
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2 py-4">
+              <Label htmlFor="device-name">端末名</Label>
+              <Input
+                id="device-name"
+                value={newDeviceName}
+                onChange={(e) => setNewDeviceName(e.target.value)}
+                placeholder="例: 展示室A ディスプレイ"
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                    handleCreate();
+                  }
+                }}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            {issuedUrl ? (
+              <Button onClick={() => setCreateDialogOpen(false)}>閉じる</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setCreateDialogOpen(false)} disabled={isCreating}>
+                  キャンセル
+                </Button>
+                <Button onClick={handleCreate} disabled={isCreating || !newDeviceName.trim()}>
+                  {isCreating ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      登録中...
+                    </>
+                  ) : (
+                    <>
+                      <Plus className="mr-2 h-4 w-4" />
+                      登録
+                    </>
+                  )}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* リモート操作ダイアログ */}
+      <DeviceRemoteDialog
+        device={remoteDevice}
+        open={remoteDevice !== null}
+        onOpenChange={(open) => !open && setRemoteDeviceId(null)}
+      />
+
+      {/* 無効化確認ダイアログ */}
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>デバイストークンを無効にしますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{revokeTarget?.name}」は再生データを取得できなくなります。この操作は取り消せません。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRevoke} className="bg-destructive hover:bg-destructive/90">
+              無効にする
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* 削除確認ダイアログ */}
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>再生端末を削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              「{deleteTarget?.name}」の登録を削除します。この端末は再生データを取得できなくなります。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-destructive hover:bg-destructive/90">
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Pause, Play, RefreshCw, SkipForward, Volume2 } from 'lucide-react';
+import { createClient } from '@/lib/supabase-client';
+import { getDeviceCommands, getPlaylistRecordings, getPlaylists, sendDeviceCommand } from '@/lib/supabase';
+import { subscribeToChanges, type ChangeFeedClient } from '@/lib/change-feed';
+import {
+  DEVICE_COMMAND_STATUS_LABELS,
+  describeDeviceCommand,
+  isDeviceStateFresh,
+} from '@/lib/device-commands';
+import { isApprovedForPlayback } from '@/lib/moderation';
+import { isQuarantined } from '@/lib/playback-watchdog';
+import type {
+  Device,
+  DeviceCommand,
+  DeviceCommandPayload,
+  DeviceCommandStatus,
+  DeviceCommandType,
+  Playlist,
+  Recording,
+} from '@/lib/types';
+
+interface DeviceRemoteDialogProps {
+  // 操作する端末（再生状態は親コンポーネントで最新に保つ）
+  device: Device | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// プレイリストの切り替えで、スケジュールに戻す場合の選択肢の値
+const FOLLOW_SCHEDULE_VALUE = '__schedule__';
+
+const STATUS_VARIANTS: Record<DeviceCommandStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  delivered: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+  expired: 'outline',
+};
+
+function formatTime(dateString: string | null) {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleTimeString('ja-JP', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+// 録音の選択肢の表示名（録音日時と文字起こしの冒頭）
+function formatRecordingLabel(recording: Recording) {
+  const date = new Date(recording.created_at).toLocaleString('ja-JP', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const text = recording.transcription?.trim();
+  return text ? `${date} ${text.slice(0, 20)}${text.length > 20 ? '…' : ''}` : date;
+}
+
+/**
+ * 再生端末のリモート操作ダイアログ
+ * 端末にコマンドを送り、端末の応答（実行済み・失敗）と再生状態を表示します
+ */
+export function DeviceRemoteDialog({ device, open, onOpenChange }: DeviceRemoteDialogProps) {
+  const [commands, setCommands] = useState<DeviceCommand[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [sendingCommand, setSendingCommand] = useState<DeviceCommandType | null>(null);
+  const [error, setError] = useState('');
+  const [volumePercent, setVolumePercent] = useState(100);
+  const [selectedPlaylist, setSelectedPlaylist] = useState(FOLLOW_SCHEDULE_VALUE);
+  const [selectedRecordingId, setSelectedRecordingId] = useState('');
+
+  const deviceId = device?.id ?? null;
+  const state = device?.player_state ?? null;
+  const isOnline = isDeviceStateFresh(device?.player_state_at);
+  const playlistId = state?.playlistId ?? null;
+
+  const loadCommands = useCallback(async () => {
+    if (!deviceId) return;
+    try {
+      setCommands(await getDeviceCommands(deviceId));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`コマンドの取得に失敗しました: ${message}`);
+    }
+  }, [deviceId]);
+
+  // ダイアログを開いたら、コマンドの履歴とプレイリストを読み込み、応答を購読する
+  useEffect(() => {
+    if (!open || !deviceId) return;
+
+    setError('');
+    loadCommands();
+    getPlaylists()
+      .then(setPlaylists)
+      .catch((err) => console.error('プレイリストの取得に失敗:', err));
+
+    return subscribeToChanges(
+      createClient() as unknown as ChangeFeedClient,
+      `device-commands-admin:${deviceId}`,
+      [
+        {
+          filter: { event: '*', schema: 'public', table: 'device_commands', filter: `device_id=eq.${deviceId}` },
+        },
+      ],
+      { onChange: loadCommands }
+    );
+  }, [open, deviceId, loadCommands]);
+
+  // 端末の現在の音量とプレイリストを初期値にする（ダイアログを開いたとき）
+  useEffect(() => {
+    if (!open) return;
+    setVolumePercent(Math.round((device?.player_state?.volume ?? 1) * 100));
+    setSelectedPlaylist(
+      device?.player_state?.isPlaylistOverridden && device.player_state.playlistId
+        ? device.player_state.playlistId
+        : FOLLOW_SCHEDULE_VALUE
+    );
+    setSelectedRecordingId('');
+    // 開いたときのみ初期化する（再生状態が更新されるたびに入力中の値を上書きしない）
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  // 端末が再生中のプレイリストの録音を、録音の指定の選択肢にする
+  useEffect(() => {
+    if (!open || !playlistId) {
+      setRecordings([]);
+      return;
+    }
+
+    let cancelled = false;
+    getPlaylistRecordings(playlistId)
+      .then((data) => {
+        if (!cancelled) {
+          setRecordings(data.filter((recording) => isApprovedForPlayback(recording) && !isQuarantined(recording)));
+        }
+      })
+      .catch((err) => console.error('録音の取得に失敗:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, playlistId]);
+
+  const playlistNames = useMemo(
+    () => new Map(playlists.map((playlist) => [playlist.id, playlist.name])),
+    [playlists]
+  );
+  const currentRecording = recordings.find((recording) => recording.id === state?.recordingId) ?? null;
+
+  async function send(command: DeviceCommandType, payload: DeviceCommandPayload = {}) {
+    if (!deviceId) return;
+
+    try {
+      setSendingCommand(command);
+      setError('');
+      const sent = await sendDeviceCommand(deviceId, command, payload);
+      setCommands((prev) => [sent, ...prev.filter((c) => c.id !== sent.id)]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`送信に失敗しました: ${message}`);
+    } finally {
+      setSendingCommand(null);
+    }
+  }
+
+  function renderPlayerState() {
+    if (!state || !isOnline) {
+      return <Badge variant="secondary">未接続</Badge>;
+    }
+    if (state.needsUserInteraction) {
+      return <Badge variant="outline">再生開始待ち</Badge>;
+    }
+    return state.isPlaying ? <Badge>再生中</Badge> : <Badge variant="secondary">停止中</Badge>;
+  }
+
+  const isSending = sendingCommand !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>リモート操作: {device?.name}</DialogTitle>
+          <DialogDescription>
+            再生画面（/play）を開いている端末を操作します。端末が実行すると結果が履歴に表示されます
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4 py-2">
+          {/* 再生状態 */}
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <div className="flex items-center gap-2">
+              {renderPlayerState()}
+              <span className="text-xs text-muted-foreground">
+                最終報告 {formatTime(device?.player_state_at ?? null)}
+              </span>
+            </div>
+            {state && (
+              <>
+                <p>
+                  プレイリスト: {state.playlistName ?? 'なし'}
+                  {state.isPlaylistOverridden && (
+                    <Badge variant="outline" className="ml-2">
+                      リモートで切り替え中
+                    </Badge>
+                  )}
+                </p>
+                <p className="truncate">
+                  録音: {currentRecording ? formatRecordingLabel(currentRecording) : state.recordingId ? '-' : 'なし'}
+                </p>
+                <p>音量: {Math.round(state.volume * 100)}%</p>
+              </>
+            )}
+          </div>
+
+          {/* 再生操作 */}
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => send('play')} disabled={isSending} size="sm">
+              <Play className="mr-1 h-3 w-3" />
+              再生
+            </Button>
+            <Button onClick={() => send('pause')} disabled={isSending} variant="outline" size="sm">
+              <Pause className="mr-1 h-3 w-3" />
+              一時停止
+            </Button>
+            <Button onClick={() => send('skip')} disabled={isSending} variant="outline" size="sm">
+              <SkipForward className="mr-1 h-3 w-3" />
+              スキップ
+            </Button>
+            <Button onClick={() => send('reload')} disabled={isSending} variant="outline" size="sm">
+              <RefreshCw className="mr-1 h-3 w-3" />
+              再読み込み
+            </Button>
+            {isSending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground self-center" />}
+          </div>
+
+          {/* 音量 */}
+          <div className="space-y-2">
+            <Label htmlFor="device-remote-volume">音量（{volumePercent}%）</Label>
+            <div className="flex items-center gap-2">
+              <input
+                id="device-remote-volume"
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={volumePercent}
+                onChange={(e) => setVolumePercent(Number(e.target.value))}
+                className="flex-1"
+              />
+              <Button
+                onClick={() => send('volume', { volume: volumePercent / 100 })}
+                disabled={isSending}
+                variant="outline"
+                size="sm"
+              >
+                <Volume2 className="mr-1 h-3 w-3" />
+                変更
+              </Button>
+            </div>
+          </div>
+
+          {/* プレイリストの切り替え */}
+          <div className="space-y-2">
+            <Label>プレイリスト</Label>
+            <div className="flex items-center gap-2">
+              <Select value={selectedPlaylist} onValueChange={setSelectedPlaylist}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FOLLOW_SCHEDULE_VALUE}>スケジュールに従う</SelectItem>
+                  {playlists.map((playlist) => (
+                    <SelectItem key={playlist.id} value={playlist.id}>
+                      {playlist.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() =>
+                  send('playlist', {
+                    playlistId: selectedPlaylist === FOLLOW_SCHEDULE_VALUE ? null : selectedPlaylist,
+                  })
+                }
+                disabled={isSending}
+                variant="outline"
+                size="sm"
+              >
+                切り替え
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              再生中のトラックが終わってから切り替わります。端末を再読み込みするとスケジュールに戻ります
+            </p>
+          </div>
+
+          {/* 録音を指定して再生 */}
+          <div className="space-y-2">
+            <Label>録音を指定して再生</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={selectedRecordingId}
+                onValueChange={setSelectedRecordingId}
+                disabled={recordings.length === 0}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={playlistId ? '録音を選択' : '端末のプレイリストが不明です'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {recordings.map((recording) => (
+                    <SelectItem key={recording.id} value={recording.id}>
+                      {formatRecordingLabel(recording)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => send('jump', { recordingId: selectedRecordingId })}
+                disabled={isSending || !selectedRecordingId}
+                variant="outline"
+                size="sm"
+              >
+                <Play className="mr-1 h-3 w-3" />
+                再生
+              </Button>
+            </div>
+          </div>
+
+          {/* コマンドの履歴 */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">履歴</h3>
+            {commands.length === 0 ? (
+              <p className="text-sm text-muted-foreground">送信したコマンドはありません</p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>送信</TableHead>
+                      <TableHead>操作</TableHead>
+                      <TableHead>状態</TableHead>
+                      <TableHead>応答</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {commands.map((command) => (
+                      <TableRow key={command.id}>
+                        <TableCell className="whitespace-nowrap">{formatTime(command.created_at)}</TableCell>
+                        <TableCell>{describeDeviceCommand(command.command, command.payload, playlistNames)}</TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[command.status]}>
+                            {DEVICE_COMMAND_STATUS_LABELS[command.status]}
+                          </Badge>
+                          {command.error && <p className="text-xs text-destructive mt-1">{command.error}</p>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatTime(command.acknowledged_at)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,346 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  getDevices,
+  getPlayerHealthSettings,
+  getPlayerStatuses,
+  getPlaylists,
+  getRecordingsByIds,
+} from '@/lib/supabase';
+import { createClient } from '@/lib/supabase-client';
+import { subscribeToChanges, type ChangeFeedClient } from '@/lib/change-feed';
+import {
+  DEFAULT_PLAYER_HEALTH_SETTINGS,
+  PLAYER_HEALTH_LEVEL_LABELS,
+  evaluatePlayerHealth,
+  formatDuration,
+  type PlayerHealth,
+  type PlayerHealthLevel,
+} from '@/lib/player-health';
+import { RECOVERY_STEP_LABELS, type RecoveryStep } from '@/lib/playback-watchdog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, HeartPulse, Loader2, Settings2 } from 'lucide-react';
+import { PlayerHealthSettingsDialog } from './PlayerHealthSettingsDialog';
+import type { Device, PlayerHealthSettings, PlayerStatus, Recording } from '@/lib/types';
+
+// 経過時間の表示と応答なしの判定を更新する間隔
+const CLOCK_INTERVAL = 5000;
+
+// 深刻な順（一覧の並び順）
+const LEVEL_ORDER: PlayerHealthLevel[] = ['stale', 'stalled', 'warning', 'ok'];
+
+const LEVEL_VARIANTS: Record<PlayerHealthLevel, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  stale: 'destructive',
+  stalled: 'destructive',
+  warning: 'outline',
+  ok: 'default',
+};
+
+interface PlayerRow {
+  device: Device;
+  status: PlayerStatus | null;
+  // ハートビートを一度も受信していない端末はnull
+  health: PlayerHealth | null;
+}
+
+function formatPosition(seconds: number | null) {
+  if (seconds === null) return '';
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function formatRecoveryStep(step: string) {
+  return RECOVERY_STEP_LABELS[step as RecoveryStep] ?? step;
+}
+
+function formatRecordingLabel(recording: Recording | null | undefined) {
+  if (!recording) return '不明な録音';
+  const text = recording.transcription?.trim();
+  if (text) return text.length > 20 ? `${text.slice(0, 20)}…` : text;
+  return new Date(recording.created_at).toLocaleString('ja-JP', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * 再生端末の稼働状況を表示するダッシュボード
+ * 端末のハートビートをRealtimeで受け取り、応答のない端末や再生が止まった端末を目立たせます
+ */
+export function PlayerHealthDashboard() {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [statuses, setStatuses] = useState<PlayerStatus[]>([]);
+  const [settings, setSettings] = useState<Omit<PlayerHealthSettings, 'id' | 'updated_at'>>(
+    DEFAULT_PLAYER_HEALTH_SETTINGS
+  );
+  const [playlistNames, setPlaylistNames] = useState<Map<string, string>>(new Map());
+  // 取得した録音（削除された録音はnull）
+  const [recordings, setRecordings] = useState<Map<string, Recording | null>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const refreshStatuses = useCallback(async () => {
+    try {
+      setStatuses(await getPlayerStatuses());
+    } catch (err) {
+      console.error('稼働状況の取得に失敗:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  async function loadAll() {
+    try {
+      setIsLoading(true);
+      setError('');
+      const [deviceList, statusList, healthSettings, playlists] = await Promise.all([
+        getDevices(),
+        getPlayerStatuses(),
+        getPlayerHealthSettings(),
+        getPlaylists(),
+      ]);
+      setDevices(deviceList);
+      setStatuses(statusList);
+      setSettings(healthSettings);
+      setPlaylistNames(new Map(playlists.map((playlist) => [playlist.id, playlist.name])));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '稼働状況の取得に失敗しました';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // 端末のハートビートを受け取る
+  useEffect(() => {
+    return subscribeToChanges(
+      createClient() as unknown as ChangeFeedClient,
+      'player-status',
+      [{ filter: { event: '*', schema: 'public', table: 'player_status' } }],
+      { onChange: refreshStatuses }
+    );
+  }, [refreshStatuses]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 再生中の録音の文字起こしを表示するため、未取得の録音を取得する
+  const recordingIdsKey = statuses
+    .map((status) => status.recording_id)
+    .filter((id): id is string => !!id && !recordings.has(id))
+    .sort()
+    .join(',');
+  useEffect(() => {
+    if (!recordingIdsKey) return;
+
+    let cancelled = false;
+    const ids = recordingIdsKey.split(',');
+    getRecordingsByIds(ids)
+      .then((data) => {
+        if (cancelled) return;
+        setRecordings((prev) => {
+          const next = new Map(prev);
+          ids.forEach((id) => next.set(id, data.find((recording) => recording.id === id) ?? null));
+          return next;
+        });
+      })
+      .catch((err) => console.error('録音の取得に失敗:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingIdsKey]);
+
+  const rows = useMemo<PlayerRow[]>(() => {
+    const statusByDevice = new Map(statuses.map((status) => [status.device_id, status]));
+    return devices
+      .filter((device) => !device.revoked_at)
+      .map((device) => {
+        const status = statusByDevice.get(device.id) ?? null;
+        return { device, status, health: status ? evaluatePlayerHealth(status, settings, now) : null };
+      })
+      .sort((a, b) => {
+        const rank = (row: PlayerRow) => (row.health ? LEVEL_ORDER.indexOf(row.health.level) : LEVEL_ORDER.length);
+        return rank(a) - rank(b) || a.device.name.localeCompare(b.device.name, 'ja');
+      });
+  }, [devices, statuses, settings, now]);
+
+  const counts = useMemo(() => {
+    const result: Record<PlayerHealthLevel, number> = { stale: 0, stalled: 0, warning: 0, ok: 0 };
+    rows.forEach((row) => {
+      if (row.health) result[row.health.level] += 1;
+    });
+    return result;
+  }, [rows]);
+
+  const alertCount = counts.stale + counts.stalled;
+
+  function formatAgo(dateString: string | null) {
+    if (!dateString) return '-';
+    return `${formatDuration((now - new Date(dateString).getTime()) / 1000)}前`;
+  }
+
+  function renderPlayback(status: PlayerStatus) {
+    if (status.needs_user_interaction) {
+      return <span className="text-muted-foreground">再生開始待ち</span>;
+    }
+    if (!status.is_playing && !status.is_stalled) {
+      return <span className="text-muted-foreground">{status.is_open ? '一時停止中' : '閉館中'}</span>;
+    }
+    return (
+      <div className="space-y-0.5">
+        <p>{(status.playlist_id && playlistNames.get(status.playlist_id)) || '-'}</p>
+        {status.recording_id && (
+          <p className="text-xs text-muted-foreground">
+            {formatRecordingLabel(recordings.get(status.recording_id))} {formatPosition(status.position)}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {alertCount > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {counts.stale > 0 && `応答のない端末が${counts.stale}台あります。`}
+            {counts.stalled > 0 && `再生が止まっている端末が${counts.stalled}台あります。`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <HeartPulse className="h-5 w-5" />
+              稼働状況
+            </CardTitle>
+            <Button variant="outline" onClick={() => setSettingsDialogOpen(true)}>
+              <Settings2 className="mr-2 h-4 w-4" />
+              アラートの設定
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2 pt-2">
+            {LEVEL_ORDER.map((level) => (
+              <Badge key={level} variant={counts[level] > 0 ? LEVEL_VARIANTS[level] : 'secondary'}>
+                {PLAYER_HEALTH_LEVEL_LABELS[level]} {counts[level]}
+              </Badge>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && rows.length === 0 ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              有効な再生端末がありません（再生端末の画面で登録してください）
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>端末名</TableHead>
+                    <TableHead>状態</TableHead>
+                    <TableHead>再生</TableHead>
+                    <TableHead>出力</TableHead>
+                    <TableHead>エラー</TableHead>
+                    <TableHead>停止</TableHead>
+                    <TableHead>最終報告</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ device, status, health }) => (
+                    <TableRow key={device.id}>
+                      <TableCell className="font-medium">{device.name}</TableCell>
+                      {!status || !health ? (
+                        <TableCell colSpan={6} className="text-muted-foreground">
+                          未報告（再生画面を開くと報告されます）
+                        </TableCell>
+                      ) : (
+                        <>
+                          <TableCell className="whitespace-normal">
+                            <Badge variant={LEVEL_VARIANTS[health.level]}>
+                              {PLAYER_HEALTH_LEVEL_LABELS[health.level]}
+                            </Badge>
+                            {health.issues.map((issue) => (
+                              <p key={issue} className="text-xs text-muted-foreground mt-1">
+                                {issue}
+                              </p>
+                            ))}
+                          </TableCell>
+                          <TableCell>{renderPlayback(status)}</TableCell>
+                          <TableCell>
+                            <p>{status.output_device ?? '既定の出力'}</p>
+                            <p className="text-xs text-muted-foreground">
+                              AudioContext: {status.audio_context_state ?? '未作成'}
+                            </p>
+                          </TableCell>
+                          <TableCell className="whitespace-normal">
+                            <p>{status.error_count}回</p>
+                            {status.last_error && (
+                              <p className="text-xs text-muted-foreground" title={status.last_error}>
+                                {formatAgo(status.last_error_at)}: {status.last_error.slice(0, 40)}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <p>{status.stall_count}回</p>
+                            {status.last_stall_at && (
+                              <p className="text-xs text-muted-foreground">{formatAgo(status.last_stall_at)}</p>
+                            )}
+                            {status.recovery_count > 0 && (
+                              <p className="text-xs text-muted-foreground">
+                                自動復旧 {status.recovery_count}回
+                                {status.last_recovery_step &&
+                                  `（${formatRecoveryStep(status.last_recovery_step)} ${formatAgo(status.last_recovery_at)}）`}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <p>{formatAgo(status.reported_at)}</p>
+                            <p className="text-xs text-muted-foreground">起動 {formatAgo(status.started_at)}</p>
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PlayerHealthSettingsDialog
+        open={settingsDialogOpen}
+        onOpenChange={setSettingsDialogOpen}
+        onSaved={setSettings}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Save } from 'lucide-react';
+import { getPlayerHealthSettings, savePlayerHealthSettings } from '@/lib/supabase';
+import { DEFAULT_PLAYER_HEALTH_SETTINGS, PLAYER_HEARTBEAT_INTERVAL } from '@/lib/player-health';
+import type { PlayerHealthSettings } from '@/lib/types';
+
+type Settings = Omit<PlayerHealthSettings, 'id' | 'updated_at'>;
+
+interface PlayerHealthSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 保存したしきい値（稼働状況の判定にすぐ反映するため）
+  onSaved: (settings: Settings) => void;
+}
+
+// フォームの値（入力中は文字列で保持する）
+type FormValues = Record<keyof Settings, string>;
+
+// 応答なしと判定するまでの最短の秒数（ハートビートの間隔より短いと常に応答なしになる）
+const MIN_STALE_AFTER_SECONDS = Math.ceil((PLAYER_HEARTBEAT_INTERVAL * 2) / 1000);
+
+function toFormValues(settings: Settings): FormValues {
+  return {
+    stale_after_seconds: String(settings.stale_after_seconds),
+    stall_alert_seconds: String(settings.stall_alert_seconds),
+    error_alert_count: String(settings.error_alert_count),
+    recent_stall_minutes: String(settings.recent_stall_minutes),
+  };
+}
+
+// 0以上の整数にする（空・不正な値は初期値）
+function parseCount(value: string, fallback: number): number {
+  const count = parseInt(value, 10);
+  return Number.isFinite(count) ? Math.max(count, 0) : fallback;
+}
+
+function parseSettings(values: FormValues): Settings {
+  return {
+    stale_after_seconds: Math.max(
+      parseCount(values.stale_after_seconds, DEFAULT_PLAYER_HEALTH_SETTINGS.stale_after_seconds),
+      MIN_STALE_AFTER_SECONDS
+    ),
+    stall_alert_seconds: parseCount(values.stall_alert_seconds, DEFAULT_PLAYER_HEALTH_SETTINGS.stall_alert_seconds),
+    error_alert_count: parseCount(values.error_alert_count, DEFAULT_PLAYER_HEALTH_SETTINGS.error_alert_count),
+    recent_stall_minutes: parseCount(values.recent_stall_minutes, DEFAULT_PLAYER_HEALTH_SETTINGS.recent_stall_minutes),
+  };
+}
+
+/**
+ * 再生端末の稼働状況のアラートのしきい値を設定するダイアログ
+ */
+export function PlayerHealthSettingsDialog({ open, onOpenChange, onSaved }: PlayerHealthSettingsDialogProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(DEFAULT_PLAYER_HEALTH_SETTINGS));
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // ダイアログを開くたびに保存されているしきい値を読み込む
+  useEffect(() => {
+    if (!open) return;
+
+    setError('');
+    setIsLoading(true);
+    getPlayerHealthSettings()
+      .then((settings) => setValues(toFormValues(settings)))
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : '不明なエラー';
+        setError(`設定の取得に失敗しました: ${message}`);
+      })
+      .finally(() => setIsLoading(false));
+  }, [open]);
+
+  async function handleSave() {
+    try {
+      setIsSaving(true);
+      setError('');
+      const settings = parseSettings(values);
+      await savePlayerHealthSettings(settings);
+      onSaved(settings);
+      onOpenChange(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  function renderField(key: keyof Settings, label: string, description: string) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`player-health-${key}`}>{label}</Label>
+        <Input
+          id={`player-health-${key}`}
+          type="number"
+          min={0}
+          step={1}
+          value={values[key]}
+          onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+        />
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>アラートの設定</DialogTitle>
+          <DialogDescription>
+            再生端末は{PLAYER_HEARTBEAT_INTERVAL / 1000}秒ごとに稼働状況を報告します。報告の内容からこのしきい値で異常を判定します
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 py-2">
+            {renderField(
+              'stale_after_seconds',
+              '応答なし（秒）',
+              `報告がこの秒数途絶えた端末を「応答なし」にします（${MIN_STALE_AFTER_SECONDS}秒以上）`
+            )}
+            {renderField(
+              'stall_alert_seconds',
+              '停止中（秒）',
+              '意図しない再生の停止がこの秒数続いた端末を「停止中」にします'
+            )}
+            {renderField(
+              'error_alert_count',
+              '再生エラー（回）',
+              '再生画面を開いてからの再生エラーがこの回数以上の端末を「注意」にします（0で無効）'
+            )}
+            {renderField(
+              'recent_stall_minutes',
+              '直近の停止（分）',
+              'この分数以内に再生が止まったことのある端末を「注意」にします（0で無効）'
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                保存中...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                保存
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
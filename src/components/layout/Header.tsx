@@ -3,7 +3,7 @@
 import { useRouter, usePathname } from "next/navigation";
 import { createClient } from "@/lib/supabase-client";
 import { Button } from "@/components/ui/button";
-import { LogOut } from "lucide-react";
+import { HeartPulse, LogOut, Monitor, ShieldCheck } from "lucide-react";
 import Link from "next/link";
 
 interface HeaderProps {
@@ -92,15 +92,50 @@ export default function Header({ showNav = false }: HeaderProps) {
             )}
           </div>
 
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleLogout}
-            className="gap-2"
-          >
-            <LogOut className="h-4 w-4" />
-            ログアウト
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant={pathname === "/moderation" ? "secondary" : "ghost"}
+              size="sm"
+              asChild
+              className="gap-2"
+            >
+              <Link href="/moderation">
+                <ShieldCheck className="h-4 w-4" />
+                審査
+              </Link>
+            </Button>
+            <Button
+              variant={pathname === "/devices" ? "secondary" : "ghost"}
+              size="sm"
+              asChild
+              className="gap-2"
+            >
+              <Link href="/devices">
+                <Monitor className="h-4 w-4" />
+                再生端末
+              </Link>
+            </Button>
+            <Button
+              variant={pathname === "/health" ? "secondary" : "ghost"}
+              size="sm"
+              asChild
+              className="gap-2"
+            >
+              <Link href="/health">
+                <HeartPulse className="h-4 w-4" />
+                稼働状況
+              </Link>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleLogout}
+              className="gap-2"
+            >
+              <LogOut className="h-4 w-4" />
+              ログアウト
+            </Button>
+          </div>
         </div>
       </div>
     </header>
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Save } from 'lucide-react';
+import { getContentFlagRules, saveContentFlagRules } from '@/lib/supabase';
+import {
+  CONTENT_FLAG_RULE_LABELS,
+  DEFAULT_CONTENT_FLAG_RULES,
+  evaluateContentFlags,
+  parseBlockedWords,
+} from '@/lib/content-flags';
+import type { ContentFlagRules } from '@/lib/types';
+
+interface ContentRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// フォームの値（割合はパーセントで入力する）
+interface FormValues {
+  blocked_words: string;
+  flag_empty: boolean;
+  min_passage_ratio: string;
+  min_language_ratio: string;
+}
+
+function toFormValues(rules: Omit<ContentFlagRules, 'id' | 'updated_at'>): FormValues {
+  return {
+    blocked_words: rules.blocked_words.join('\n'),
+    flag_empty: rules.flag_empty,
+    min_passage_ratio: String(Math.round(rules.min_passage_ratio * 100)),
+    min_language_ratio: String(Math.round(rules.min_language_ratio * 100)),
+  };
+}
+
+// パーセントの入力を0.0〜1.0の割合にする（空・不正な値は0 = 無効）
+function parsePercent(value: string): number {
+  const percent = parseFloat(value);
+  return Number.isFinite(percent) ? Math.min(Math.max(percent, 0), 100) / 100 : 0;
+}
+
+function parseRules(values: FormValues): Omit<ContentFlagRules, 'id' | 'updated_at'> {
+  return {
+    blocked_words: parseBlockedWords(values.blocked_words),
+    flag_empty: values.flag_empty,
+    min_passage_ratio: parsePercent(values.min_passage_ratio),
+    min_language_ratio: parsePercent(values.min_language_ratio),
+  };
+}
+
+/**
+ * 文字起こしによる自動チェックのルールを設定するダイアログ
+ * 入力中のルールで任意の文章をチェックでき、保存前に結果を確認できます
+ */
+export function ContentRulesDialog({ open, onOpenChange }: ContentRulesDialogProps) {
+  const [values, setValues] = useState<FormValues>(() => toFormValues(DEFAULT_CONTENT_FLAG_RULES));
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [sampleText, setSampleText] = useState('');
+  const [samplePassage, setSamplePassage] = useState('');
+  const [sampleLanguage, setSampleLanguage] = useState('ja');
+
+  // ダイアログを開くたびに保存されているルールを読み込む
+  useEffect(() => {
+    if (!open) return;
+
+    setError('');
+    setIsLoading(true);
+    getContentFlagRules()
+      .then((rules) => setValues(toFormValues(rules)))
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : '不明なエラー';
+        setError(`ルールの取得に失敗しました: ${message}`);
+      })
+      .finally(() => setIsLoading(false));
+  }, [open]);
+
+  const sampleFlags = useMemo(
+    () =>
+      evaluateContentFlags(
+        { transcription: sampleText, passage: samplePassage, language: sampleLanguage.trim() },
+        parseRules(values)
+      ),
+    [sampleText, samplePassage, sampleLanguage, values]
+  );
+
+  async function handleSave() {
+    try {
+      setIsSaving(true);
+      setError('');
+      await saveContentFlagRules(parseRules(values));
+      onOpenChange(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>自動チェックのルール</DialogTitle>
+          <DialogDescription>
+            文字起こしが完了した録音をチェックし、問題のある録音は審査待ちに戻して再生しません
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="content-rules-blocked_words">禁止語（1行に1語）</Label>
+              <Textarea
+                id="content-rules-blocked_words"
+                rows={5}
+                value={values.blocked_words}
+                onChange={(e) => setValues((prev) => ({ ...prev, blocked_words: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                全角・半角、大文字・小文字、ひらがな・カタカナ、空白・記号の違いは区別しません
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={values.flag_empty}
+                onChange={(e) => setValues((prev) => ({ ...prev, flag_empty: e.target.checked }))}
+              />
+              文字起こしが空の録音を保留する
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="content-rules-min_passage_ratio">課題文に対する長さの下限（%）</Label>
+                <Input
+                  id="content-rules-min_passage_ratio"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={values.min_passage_ratio}
+                  onChange={(e) => setValues((prev) => ({ ...prev, min_passage_ratio: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  文字起こしの文字数が課題文のこの割合より少ない録音を保留します（0で無効）
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-rules-min_language_ratio">言語の文字の割合の下限（%）</Label>
+                <Input
+                  id="content-rules-min_language_ratio"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={values.min_language_ratio}
+                  onChange={(e) => setValues((prev) => ({ ...prev, min_language_ratio: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  プレイリストの文字起こしの言語の文字がこの割合より少ない録音を保留します（0で無効）
+                </p>
+              </div>
+            </div>
+
+            <h3 className="text-sm font-semibold pt-2">ルールを試す</h3>
+            <div className="space-y-2">
+              <Label htmlFor="content-rules-sample">文字起こし</Label>
+              <Textarea
+                id="content-rules-sample"
+                rows={3}
+                value={sampleText}
+                onChange={(e) => setSampleText(e.target.value)}
+                placeholder="チェックしたい文章を入力してください"
+              />
+            </div>
+            <div className="grid grid-cols-[1fr_6rem] gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="content-rules-sample-passage">課題文（任意）</Label>
+                <Textarea
+                  id="content-rules-sample-passage"
+                  rows={2}
+                  value={samplePassage}
+                  onChange={(e) => setSamplePassage(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="content-rules-sample-language">言語</Label>
+                <Input
+                  id="content-rules-sample-language"
+                  value={sampleLanguage}
+                  onChange={(e) => setSampleLanguage(e.target.value)}
+                  placeholder="ja"
+                />
+              </div>
+            </div>
+            <div className="rounded-md border p-3 text-sm">
+              {sampleFlags.length === 0 ? (
+                <span className="text-muted-foreground">問題は検出されません</span>
+              ) : (
+                <ul className="space-y-1">
+                  {sampleFlags.map((flag) => (
+                    <li key={flag.rule} className="flex items-center gap-2">
+                      <Badge variant="destructive">{CONTENT_FLAG_RULE_LABELS[flag.rule]}</Badge>
+                      {flag.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                保存中...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                保存
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
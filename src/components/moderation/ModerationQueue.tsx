@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getModerationRecordings, updateRecordingsModeration, getRecordingUrl } from '@/lib/supabase';
+import { MODERATION_STATUS_LABELS } from '@/lib/moderation';
+import { CONTENT_FLAG_RULE_LABELS } from '@/lib/content-flags';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, ListChecks, Loader2, Play, RotateCcw, ShieldCheck, Square, X } from 'lucide-react';
+import { ContentRulesDialog } from './ContentRulesDialog';
+import type { ModerationRecording, ModerationStatus } from '@/lib/types';
+
+// 一覧を再取得する間隔（来場者の新しい録音を表示するため）
+const REFRESH_INTERVAL = 15000;
+
+// 審査の操作（変更後の状態ごと）
+const MODERATION_ACTIONS: {
+  status: ModerationStatus;
+  label: string;
+  icon: typeof Check;
+  variant: 'default' | 'destructive' | 'outline';
+}[] = [
+  { status: 'approved', label: '承認', icon: Check, variant: 'default' },
+  { status: 'rejected', label: '却下', icon: X, variant: 'destructive' },
+  { status: 'pending', label: '審査待ちに戻す', icon: RotateCcw, variant: 'outline' },
+];
+
+/**
+ * 録音の審査画面
+ * 来場者の録音を試聴し、承認した録音だけをループ再生の対象にします
+ */
+export function ModerationQueue() {
+  const [status, setStatus] = useState<ModerationStatus>('pending');
+  const [recordings, setRecordings] = useState<ModerationRecording[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState('');
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [rulesDialogOpen, setRulesDialogOpen] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const loadRecordings = useCallback(async () => {
+    try {
+      setError('');
+      const data = await getModerationRecordings(status);
+      setRecordings(data);
+      // 一覧から消えた録音の選択を解除する
+      setSelectedIds((prev) => new Set(data.filter((recording) => prev.has(recording.id)).map((recording) => recording.id)));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '録音の取得に失敗しました';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setRecordings([]);
+    setSelectedIds(new Set());
+    loadRecordings();
+
+    const timer = setInterval(loadRecordings, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadRecordings]);
+
+  // 画面を離れたら試聴を停止する
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+      audioRef.current = null;
+    };
+  }, []);
+
+  function stopPlayback() {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = '';
+      audioRef.current = null;
+    }
+    setPlayingId(null);
+  }
+
+  function handlePlay(recording: ModerationRecording) {
+    const isSameRecording = playingId === recording.id;
+    stopPlayback();
+    if (isSameRecording) return;
+
+    const audio = new Audio(getRecordingUrl(recording.file_path));
+    audio.onended = () => {
+      setPlayingId(null);
+    };
+    audio.play().catch((err) => {
+      console.error('再生開始エラー:', err);
+      setError('再生に失敗しました');
+      setPlayingId(null);
+    });
+
+    audioRef.current = audio;
+    setPlayingId(recording.id);
+  }
+
+  function toggleSelected(id: string) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }
+
+  function toggleAll() {
+    setSelectedIds((prev) =>
+      prev.size === recordings.length ? new Set() : new Set(recordings.map((recording) => recording.id))
+    );
+  }
+
+  async function handleUpdate(ids: string[], nextStatus: ModerationStatus) {
+    if (ids.length === 0) return;
+
+    try {
+      setIsUpdating(true);
+      if (playingId && ids.includes(playingId)) {
+        stopPlayback();
+      }
+      await updateRecordingsModeration(ids, nextStatus);
+      // 状態が変わった録音は現在の一覧から外す
+      setRecordings((prev) => prev.filter((recording) => !ids.includes(recording.id)));
+      setSelectedIds((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`審査の更新に失敗しました: ${message}`);
+    } finally {
+      setIsUpdating(false);
+    }
+  }
+
+  function formatDate(dateString: string) {
+    return new Date(dateString).toLocaleString('ja-JP', {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  function formatDuration(seconds: number | null) {
+    if (seconds === null) return '不明';
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${String(secs).padStart(2, '0')}`;
+  }
+
+  // 選択中の録音に対する操作（現在の状態への変更は表示しない）
+  const actions = MODERATION_ACTIONS.filter((action) => action.status !== status);
+
+  const selectedCount = selectedIds.size;
+  const isAllSelected = recordings.length > 0 && selectedCount === recordings.length;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-center gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              録音の審査（{MODERATION_STATUS_LABELS[status]} {recordings.length}件）
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => setRulesDialogOpen(true)} variant="outline">
+                <ListChecks className="mr-2 h-4 w-4" />
+                自動チェックのルール
+              </Button>
+              <Select value={status} onValueChange={(value) => setStatus(value as ModerationStatus)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODERATION_STATUS_LABELS) as ModerationStatus[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {MODERATION_STATUS_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            承認した録音だけが再生画面でループ再生されます。自動チェックで問題が見つかった録音は審査待ちに戻ります
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recordings.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">{selectedCount}件を選択中</span>
+              {actions.map((action) => (
+                <Button
+                  key={action.status}
+                  onClick={() => handleUpdate([...selectedIds], action.status)}
+                  disabled={selectedCount === 0 || isUpdating}
+                  variant={action.variant}
+                  size="sm"
+                >
+                  <action.icon className="mr-1 h-3 w-3" />
+                  まとめて{action.label}
+                </Button>
+              ))}
+              {isUpdating && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </div>
+          )}
+
+          {isLoading && recordings.length === 0 ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : recordings.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {MODERATION_STATUS_LABELS[status]}の録音はありません
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={isAllSelected}
+                        onChange={toggleAll}
+                        aria-label="すべて選択"
+                      />
+                    </TableHead>
+                    <TableHead>録音日時</TableHead>
+                    <TableHead>プレイリスト</TableHead>
+                    <TableHead>長さ</TableHead>
+                    <TableHead>文字起こし</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recordings.map((recording) => (
+                    <TableRow key={recording.id}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={selectedIds.has(recording.id)}
+                          onChange={() => toggleSelected(recording.id)}
+                          aria-label="選択"
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatDate(recording.created_at)}
+                        {recording.moderated_at && (
+                          <p className="text-xs text-muted-foreground">
+                            審査 {formatDate(recording.moderated_at)}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {recording.playlists.length > 0 ? (
+                          <div className="flex flex-wrap gap-1">
+                            {recording.playlists.map((playlist) => (
+                              <Badge key={playlist.id} variant="outline">
+                                {playlist.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground italic text-sm">なし</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDuration(recording.duration)}</TableCell>
+                      <TableCell>
+                        {recording.transcription ? (
+                          <p className="max-w-md text-sm line-clamp-3">{recording.transcription}</p>
+                        ) : (
+                          <span className="text-muted-foreground italic text-sm">
+                            {recording.transcription_status === 'pending' || recording.transcription_status === 'running'
+                              ? '文字起こし中'
+                              : 'なし'}
+                          </span>
+                        )}
+                        {recording.content_flags && recording.content_flags.length > 0 && (
+                          <ul className="mt-1 space-y-1">
+                            {recording.content_flags.map((flag) => (
+                              <li key={flag.rule} className="flex items-center gap-1 text-xs text-destructive">
+                                <Badge variant="destructive">{CONTENT_FLAG_RULE_LABELS[flag.rule]}</Badge>
+                                {flag.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        <Button
+                          onClick={() => handlePlay(recording)}
+                          variant={playingId === recording.id ? 'destructive' : 'outline'}
+                          size="sm"
+                        >
+                          {playingId === recording.id ? (
+                            <>
+                              <Square className="mr-1 h-3 w-3" />
+                              停止
+                            </>
+                          ) : (
+                            <>
+                              <Play className="mr-1 h-3 w-3" />
+                              試聴
+                            </>
+                          )}
+                        </Button>
+                        {actions.map((action) => (
+                          <Button
+                            key={action.status}
+                            onClick={() => handleUpdate([recording.id], action.status)}
+                            disabled={isUpdating}
+                            variant={action.variant}
+                            size="sm"
+                            title={action.label}
+                          >
+                            <action.icon className="h-3 w-3" />
+                          </Button>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ContentRulesDialog open={rulesDialogOpen} onOpenChange={setRulesDialogOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  type DisplaySettings,
+  type SubtitleWritingMode,
+} from '@/lib/display-settings';
+
+interface DisplaySettingsDialogProps {
+  settings: DisplaySettings;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: (settings: DisplaySettings) => void;
+}
+
+// 色設定の項目
+const COLOR_FIELDS: { key: 'textColor' | 'highlightColor' | 'backgroundColor'; label: string }[] = [
+  { key: 'textColor', label: '文字色' },
+  { key: 'highlightColor', label: '読み上げ済みの文字色' },
+  { key: 'backgroundColor', label: '背景色' },
+];
+
+/**
+ * 字幕表示モードの表示設定ダイアログ
+ * 変更はその場で字幕に反映されます
+ */
+export function DisplaySettingsDialog({
+  settings,
+  open,
+  onOpenChange,
+  onChange,
+}: DisplaySettingsDialogProps) {
+  function update(changes: Partial<DisplaySettings>) {
+    onChange({ ...settings, ...changes });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>表示設定</DialogTitle>
+          <DialogDescription>
+            この端末での字幕の表示方法を設定します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="display-writing-mode">レイアウト</Label>
+            <Select
+              value={settings.writingMode}
+              onValueChange={(value) => update({ writingMode: value as SubtitleWritingMode })}
+            >
+              <SelectTrigger id="display-writing-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="horizontal">横書き</SelectItem>
+                <SelectItem value="vertical">縦書き</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="display-font-size">文字の大きさ（{settings.fontSize}）</Label>
+            <input
+              id="display-font-size"
+              type="range"
+              min={2}
+              max={20}
+              step={0.5}
+              value={settings.fontSize}
+              onChange={(e) => update({ fontSize: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          {COLOR_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <Label htmlFor={`display-${key}`}>{label}</Label>
+              <Input
+                id={`display-${key}`}
+                type="color"
+                value={settings[key]}
+                onChange={(e) => update({ [key]: e.target.value })}
+                className="h-9 w-20 p-1"
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="display-fade-duration">フェード時間（ミリ秒）</Label>
+            <Input
+              id="display-fade-duration"
+              type="number"
+              min={0}
+              step={100}
+              value={settings.fadeDuration}
+              onChange={(e) => update({ fadeDuration: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onChange(DEFAULT_DISPLAY_SETTINGS)}>
+            初期値に戻す
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>閉じる</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
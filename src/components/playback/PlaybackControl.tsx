@@ -15,14 +15,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Play, Pause, Speaker, X } from "lucide-react";
-import { Visualizer } from "./Visualizer";
-import type { Recording } from "@/lib/types";
+import { Play, Pause, Speaker, CalendarClock, AlertTriangle } from "lucide-react";
+import { Visualizer, VISUALIZER_MODE_LABELS, type VisualizerMode } from "./Visualizer";
+import { formatTime } from "@/lib/schedule";
+import { RECOVERY_STEP_LABELS } from "@/lib/playback-watchdog";
+import type { PlaybackOrderMode, PlaylistTransitionSettings, Recording } from "@/lib/types";
+
+// ビジュアライザーの表示モードを保存するlocalStorageのキー
+const VISUALIZER_MODE_STORAGE_KEY = "monoshaka:visualizer-mode";
+
+// 表示する自動復旧の記録の件数
+const RECOVERY_LOG_DISPLAY_COUNT = 5;
 
 interface PlaybackControlProps {
-  playlistId: string;
+  // followScheduleを指定した場合は不要
+  playlistId?: string;
   recordingCount?: number;
   recordings?: Recording[];
+  transition?: PlaylistTransitionSettings;
+  playbackOrder?: PlaybackOrderMode;
+  // 再生スケジュールと開館時間に従って再生する
+  followSchedule?: boolean;
 }
 
 /**
@@ -33,6 +46,9 @@ export function PlaybackControl({
   playlistId,
   recordingCount = 0,
   recordings,
+  transition,
+  playbackOrder,
+  followSchedule = false,
 }: PlaybackControlProps) {
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
   const [showDeviceList, setShowDeviceList] = useState(false);
@@ -40,10 +56,10 @@ export function PlaybackControl({
   const [actualRecordingCount, setActualRecordingCount] =
     useState<number>(recordingCount);
   const [hasInitializedDevices, setHasInitializedDevices] = useState(false);
-  const [showWarningModal, setShowWarningModal] = useState(false);
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>("bars");
 
   const {
-    currentIndex,
+    currentPosition,
     isPlaying,
     error,
     totalCount,
@@ -55,13 +71,30 @@ export function PlaybackControl({
     currentAudioDevice,
     audioOutputSupported,
     hasUnexpectedStop,
-  } = usePlayer({ playlistId, recordings });
+    getAnalyser,
+    schedule,
+    recoveryStep,
+    recoveryLog,
+  } = usePlayer({ playlistId, recordings, transition, playbackOrder, followSchedule });
+
+  // 保存されたビジュアライザーの表示モードを復元
+  useEffect(() => {
+    const savedMode = localStorage.getItem(VISUALIZER_MODE_STORAGE_KEY);
+    if (savedMode && savedMode in VISUALIZER_MODE_LABELS) {
+      setVisualizerMode(savedMode as VisualizerMode);
+    }
+  }, []);
+
+  function handleVisualizerModeChange(mode: VisualizerMode) {
+    setVisualizerMode(mode);
+    localStorage.setItem(VISUALIZER_MODE_STORAGE_KEY, mode);
+  }
 
   // 外部recordingsが渡されていない場合のみ録音数を取得
   useEffect(() => {
     async function fetchRecordingCount() {
-      // 外部recordingsがある場合は取得不要
-      if (recordings) {
+      // 外部recordingsがある場合、スケジュールに従う場合は取得不要
+      if (recordings || !playlistId) {
         return;
       }
 
@@ -76,13 +109,16 @@ export function PlaybackControl({
   }, [playlistId, recordings]);
 
   // recordingCount propsまたは外部recordingsが変更されたら更新
+  // スケジュールに従う場合は、再生中のプレイリストの録音数を使用
   useEffect(() => {
-    if (recordings) {
+    if (followSchedule) {
+      setActualRecordingCount(totalCount);
+    } else if (recordings) {
       setActualRecordingCount(recordings.length);
     } else {
       setActualRecordingCount(recordingCount);
     }
-  }, [recordingCount, recordings]);
+  }, [recordingCount, recordings, followSchedule, totalCount]);
 
   // 初期化時にデバイス一覧を自動取得
   useEffect(() => {
@@ -125,15 +161,6 @@ export function PlaybackControl({
     };
   }, []);
 
-  // 再生停止検出時にモーダルを表示
-  useEffect(() => {
-    if (hasUnexpectedStop && !needsUserInteraction) {
-      setShowWarningModal(true);
-    } else {
-      setShowWarningModal(false);
-    }
-  }, [hasUnexpectedStop, needsUserInteraction]);
-
   // デバイスリストが取得されたら、一番上のデバイスを自動選択
   useEffect(() => {
     if (audioDevices.length > 0 && !currentAudioDevice) {
@@ -189,131 +216,151 @@ export function PlaybackControl({
   }
 
   return (
-    <>
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center justify-between flex-wrap gap-2">
-            <div className="flex items-center gap-2">
-              <span>ループ再生</span>
-              {isPlaying && <Badge variant="default">再生中</Badge>}
-              {!isPlaying &&
-                actualRecordingCount > 0 &&
-                !needsUserInteraction && (
-                  <Badge variant="secondary">一時停止中</Badge>
-                )}
-            </div>
-            {/* デバイス選択 */}
-            {showDeviceList && audioDevices.length > 0 ? (
-              <Select
-                value={currentAudioDevice || undefined}
-                onValueChange={handleDeviceSelect}
-                onOpenChange={(open) => {
-                  if (open) {
-                    refreshDeviceList();
-                  }
-                }}
-              >
-                <SelectTrigger className="w-[200px]">
-                  <Speaker className="h-4 w-4 mr-2" />
-                  <SelectValue placeholder="デバイスを選択" />
-                </SelectTrigger>
-                <SelectContent>
-                  {audioDevices.map((device) => (
-                    <SelectItem key={device.deviceId} value={device.deviceId}>
-                      {device.label || `デバイス ${device.deviceId.slice(0, 8)}`}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            ) : null}
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          {/* エラー表示 */}
-          {error && (
-            <Alert variant="destructive">
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
-
-          {/* 再生コントロール */}
-          <div className="flex items-center gap-4">
-            <Button
-              size="lg"
-              onClick={handlePlayPause}
-              disabled={actualRecordingCount === 0}
-              className="flex-shrink-0"
-            >
-              {isPlaying ? (
-                <>
-                  <Pause className="h-5 w-5 mr-2" />
-                  一時停止
-                </>
-              ) : (
-                <>
-                  <Play className="h-5 w-5 mr-2" />
-                  {needsUserInteraction ? "再生開始" : "再開"}
-                </>
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between flex-wrap gap-2">
+          <div className="flex items-center gap-2">
+            <span>{followSchedule ? "スケジュール再生" : "ループ再生"}</span>
+            {isPlaying && <Badge variant="default">再生中</Badge>}
+            {!isPlaying &&
+              actualRecordingCount > 0 &&
+              !needsUserInteraction && (
+                <Badge variant="secondary">一時停止中</Badge>
               )}
-            </Button>
-
-            {/* 再生位置 */}
-            {totalCount > 0 && (
-              <div className="text-sm font-medium">
-                {currentIndex + 1} / {totalCount}
-              </div>
+            {schedule?.isLoaded && !schedule.isOpen && (
+              <Badge variant="outline">閉館中</Badge>
             )}
-
-            {/* ビジュアライザー */}
-            <div className="ml-auto">
-              <Visualizer isPlaying={isPlaying} />
-            </div>
           </div>
+          {/* デバイス選択 */}
+          {showDeviceList && audioDevices.length > 0 ? (
+            <Select
+              value={currentAudioDevice || undefined}
+              onValueChange={handleDeviceSelect}
+              onOpenChange={(open) => {
+                if (open) {
+                  refreshDeviceList();
+                }
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <Speaker className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="デバイスを選択" />
+              </SelectTrigger>
+              <SelectContent>
+                {audioDevices.map((device) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `デバイス ${device.deviceId.slice(0, 8)}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : null}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* エラー表示 */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
 
-          {/* プログレスバー */}
-          {totalCount > 0 && (
-            <Progress
-              value={((currentIndex + 1) / totalCount) * 100}
-              className="h-2"
-            />
-          )}
+        {/* 再生停止の表示（停止を検出すると自動で復旧を試みるため、操作は不要） */}
+        {hasUnexpectedStop && !needsUserInteraction && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              再生が停止しています。自動で復旧を試みています
+              {recoveryStep && `（${RECOVERY_STEP_LABELS[recoveryStep]}）`}
+            </AlertDescription>
+          </Alert>
+        )}
 
-          {/* 録音がない場合のメッセージ */}
-          {actualRecordingCount === 0 && (
-            <Alert>
-              <AlertDescription>
-                このプレイリストには録音がありません。音声をアップロードしてください。
-              </AlertDescription>
-            </Alert>
-          )}
-        </CardContent>
-      </Card>
+        {/* スケジュールで選ばれているプレイリスト */}
+        {schedule?.isLoaded && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CalendarClock className="h-4 w-4" />
+            {schedule.playlist ? (
+              <span>
+                {schedule.playlist.name}
+                {schedule.schedule
+                  ? `（${formatTime(schedule.schedule.start_time)}〜${formatTime(schedule.schedule.end_time)}）`
+                  : "（スケジュール外のため有効なプレイリスト）"}
+              </span>
+            ) : (
+              <span>再生するプレイリストがありません（スケジュールを設定するか、プレイリストを有効にしてください）</span>
+            )}
+          </div>
+        )}
 
-      {/* 再生停止警告モーダル */}
-      {showWarningModal && (
-        <div
-          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
-          onClick={() => setShowWarningModal(false)}
-        >
-          <div
-            className="bg-red-600 text-white rounded-lg shadow-2xl p-12 max-w-2xl w-full mx-4 relative"
-            onClick={(e) => e.stopPropagation()}
+        {/* 再生コントロール */}
+        <div className="flex items-center gap-4">
+          <Button
+            size="lg"
+            onClick={handlePlayPause}
+            disabled={actualRecordingCount === 0}
+            className="flex-shrink-0"
           >
-            <Button
-              size="sm"
-              onClick={() => setShowWarningModal(false)}
-              className="absolute top-4 right-4 bg-white/20 hover:bg-white/30 text-white border-0"
-            >
-              <X className="h-6 w-6" />
-            </Button>
-            <div className="text-center space-y-6">
-              <div className="text-8xl font-bold animate-pulse">⚠️</div>
-              <h2 className="text-4xl font-bold">再生が停止しています</h2>
-              <p className="text-2xl">音声の再生が予期せず停止しました</p>
+            {isPlaying ? (
+              <>
+                <Pause className="h-5 w-5 mr-2" />
+                一時停止
+              </>
+            ) : (
+              <>
+                <Play className="h-5 w-5 mr-2" />
+                {needsUserInteraction ? "再生開始" : "再開"}
+              </>
+            )}
+          </Button>
+
+          {/* 再生位置 */}
+          {totalCount > 0 && (
+            <div className="text-sm font-medium">
+              {currentPosition + 1} / {totalCount}
             </div>
+          )}
+
+          {/* ビジュアライザー */}
+          <div className="ml-auto">
+            <Visualizer
+              isPlaying={isPlaying}
+              getAnalyser={getAnalyser}
+              mode={visualizerMode}
+              onModeChange={handleVisualizerModeChange}
+            />
           </div>
         </div>
-      )}
-    </>
+
+        {/* プログレスバー */}
+        {totalCount > 0 && (
+          <Progress
+            value={((currentPosition + 1) / totalCount) * 100}
+            className="h-2"
+          />
+        )}
+
+        {/* 録音がない場合のメッセージ */}
+        {actualRecordingCount === 0 && (!schedule || schedule.playlist) && (
+          <Alert>
+            <AlertDescription>
+              このプレイリストには録音がありません。音声をアップロードしてください。
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* 自動復旧の記録 */}
+        {recoveryLog.length > 0 && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p className="font-medium">自動復旧の記録</p>
+            {recoveryLog.slice(0, RECOVERY_LOG_DISPLAY_COUNT).map((entry) => (
+              <p key={`${entry.at}-${entry.type}`}>
+                {new Date(entry.at).toLocaleTimeString("ja-JP")} {entry.message}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
   );
 }
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { findSegmentIndexAt } from '@/lib/transcript';
+import type { DisplaySettings } from '@/lib/display-settings';
+import type { Recording, TranscriptSegment } from '@/lib/types';
+
+interface SubtitleDisplayProps {
+  recording: Recording | null;
+  getCurrentTime: () => number;
+  isPlaying: boolean;
+  settings: DisplaySettings;
+}
+
+// 表示中のセグメントと、読み上げ済みの単語数（単語がない場合は文字数）
+interface SubtitleProgress {
+  segmentIndex: number;
+  highlightedCount: number;
+}
+
+/**
+ * 再生位置に対応するセグメントと読み上げ済みの範囲を計算する
+ * セグメントの間の無音区間では、直前のセグメントを表示し続ける
+ */
+function getSubtitleProgress(segments: TranscriptSegment[], time: number): SubtitleProgress {
+  let segmentIndex = findSegmentIndexAt(segments, time);
+  if (segmentIndex === -1) {
+    // 直前に開始したセグメント（最初のセグメントの前は最初のセグメント）
+    segmentIndex = 0;
+    segments.forEach((segment, i) => {
+      if (segment.start <= time) {
+        segmentIndex = i;
+      }
+    });
+  }
+
+  const segment = segments[segmentIndex];
+  if (segment.words && segment.words.length > 0) {
+    return {
+      segmentIndex,
+      highlightedCount: segment.words.filter((word) => word.start <= time).length,
+    };
+  }
+
+  // 単語のタイムスタンプがない場合は、セグメントの経過時間から文字数を按分する
+  const duration = segment.end - segment.start;
+  const ratio = duration > 0 ? Math.min(1, Math.max(0, (time - segment.start) / duration)) : 1;
+  return {
+    segmentIndex,
+    highlightedCount: Math.floor(Array.from(segment.text).length * ratio),
+  };
+}
+
+/**
+ * 再生中の録音の文字起こしを字幕として表示するコンポーネント
+ * タイムスタンプがある場合は読み上げ位置に合わせてカラオケ風にハイライトし、
+ * 録音が切り替わるときはフェードで切り替えます
+ */
+export function SubtitleDisplay({
+  recording,
+  getCurrentTime,
+  isPlaying,
+  settings,
+}: SubtitleDisplayProps) {
+  const [displayedRecording, setDisplayedRecording] = useState<Recording | null>(recording);
+  const [isVisible, setIsVisible] = useState(true);
+  const [progress, setProgress] = useState<SubtitleProgress>({
+    segmentIndex: 0,
+    highlightedCount: 0,
+  });
+  const animationFrameRef = useRef<number | null>(null);
+
+  const displayedId = displayedRecording?.id ?? null;
+  const segments = useMemo(
+    () => displayedRecording?.transcription_segments ?? [],
+    [displayedRecording]
+  );
+
+  // 録音が切り替わったらフェードアウト → 表示を切り替え → フェードイン
+  useEffect(() => {
+    if ((recording?.id ?? null) === displayedId) {
+      // 同じ録音の場合（文字起こしの編集など）は即座に反映する
+      setDisplayedRecording(recording);
+      return;
+    }
+
+    setIsVisible(false);
+    const timer = setTimeout(() => {
+      setDisplayedRecording(recording);
+      setProgress({ segmentIndex: 0, highlightedCount: 0 });
+      setIsVisible(true);
+    }, settings.fadeDuration);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [recording, displayedId, settings.fadeDuration]);
+
+  // 再生中は毎フレーム再生位置を確認し、表示が変わる場合のみstateを更新する
+  const isTracking = isPlaying && isVisible && segments.length > 0 && recording?.id === displayedId;
+  useEffect(() => {
+    if (!isTracking) return;
+
+    const tick = () => {
+      const next = getSubtitleProgress(segments, getCurrentTime());
+      setProgress((prev) =>
+        prev.segmentIndex === next.segmentIndex && prev.highlightedCount === next.highlightedCount
+          ? prev
+          : next
+      );
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    animationFrameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
+  }, [isTracking, segments, getCurrentTime]);
+
+  const isVertical = settings.writingMode === 'vertical';
+  const colorStyle = (highlighted: boolean) => ({
+    color: highlighted ? settings.highlightColor : settings.textColor,
+    transition: 'color 150ms ease-out',
+  });
+
+  function renderSubtitle() {
+    if (!displayedRecording) {
+      return null;
+    }
+
+    // タイムスタンプがない場合は文字起こし全体を表示する
+    if (segments.length === 0) {
+      return (
+        <span style={colorStyle(true)}>{displayedRecording.transcription ?? ''}</span>
+      );
+    }
+
+    const segment = segments[Math.min(progress.segmentIndex, segments.length - 1)];
+
+    if (segment.words && segment.words.length > 0) {
+      return segment.words.map((word, i) => (
+        <span key={i} style={colorStyle(i < progress.highlightedCount)}>
+          {word.word}
+        </span>
+      ));
+    }
+
+    return Array.from(segment.text).map((char, i) => (
+      <span key={i} style={colorStyle(i < progress.highlightedCount)}>
+        {char}
+      </span>
+    ));
+  }
+
+  return (
+    <div
+      className="flex h-full w-full items-center justify-center p-[5vmin]"
+      style={{ backgroundColor: settings.backgroundColor }}
+    >
+      <p
+        className="max-h-full max-w-full whitespace-pre-wrap break-words font-bold"
+        style={{
+          fontSize: `${settings.fontSize}vmin`,
+          lineHeight: 1.6,
+          writingMode: isVertical ? 'vertical-rl' : 'horizontal-tb',
+          opacity: isVisible ? 1 : 0,
+          transition: `opacity ${settings.fadeDuration}ms ease-in-out`,
+        }}
+      >
+        {renderSubtitle()}
+      </p>
+    </div>
+  );
+}
@@ -1,39 +1,237 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useRef } from 'react';
+
+// ビジュアライザーの表示モード
+export type VisualizerMode = 'bars' | 'oscilloscope' | 'circular';
+
+export const VISUALIZER_MODE_LABELS: Record<VisualizerMode, string> = {
+  bars: 'スペクトラム',
+  oscilloscope: '波形',
+  circular: 'サークル',
+};
+
+const VISUALIZER_MODES = Object.keys(VISUALIZER_MODE_LABELS) as VisualizerMode[];
+
+// 棒グラフ1本の幅と間隔（CSSピクセル）
+const BAR_WIDTH = 3;
+const BAR_GAP = 1;
+
+// 表示する周波数の上限（声の帯域を中心に表示するため、高域は省略する）
+const MAX_FREQUENCY = 8000;
 
 interface VisualizerProps {
   isPlaying: boolean;
+  getAnalyser: () => AnalyserNode | null;
+  mode?: VisualizerMode;
+  onModeChange?: (mode: VisualizerMode) => void;
+  className?: string;
 }
 
 /**
- * 音声ビジュアライザー (150px × 40px)
- * 再生中のみアニメーションが動きます
+ * 周波数ビンを対数スケールで count 個の帯域にまとめ、0.0〜1.0の値で返す
  */
-export function Visualizer({ isPlaying }: VisualizerProps) {
-  // 波形アニメーションの高さを固定（初回のみ生成）
-  const waveHeights = useMemo(() => {
-    return Array.from({ length: 10 }, () => Math.random() * 80 + 20);
-  }, []);
+function getBandLevels(data: Uint8Array, count: number, maxBin: number): number[] {
+  const levels: number[] = [];
+  const minBin = 1;
+  for (let i = 0; i < count; i++) {
+    const from = Math.floor(minBin * Math.pow(maxBin / minBin, i / count));
+    const to = Math.max(from + 1, Math.floor(minBin * Math.pow(maxBin / minBin, (i + 1) / count)));
+    let peak = 0;
+    for (let bin = from; bin < to && bin < data.length; bin++) {
+      peak = Math.max(peak, data[bin]);
+    }
+    levels.push(peak / 255);
+  }
+  return levels;
+}
+
+function drawBars(
+  ctx: CanvasRenderingContext2D,
+  levels: number[],
+  width: number,
+  height: number,
+  dpr: number
+) {
+  const barWidth = BAR_WIDTH * dpr;
+  const step = (BAR_WIDTH + BAR_GAP) * dpr;
+  levels.forEach((level, i) => {
+    // 中央から上下に伸ばす（無音時も細い線を表示）
+    const barHeight = Math.max(dpr, level * height);
+    ctx.fillRect(i * step, (height - barHeight) / 2, barWidth, barHeight);
+  });
+}
+
+function drawOscilloscope(
+  ctx: CanvasRenderingContext2D,
+  data: Uint8Array,
+  width: number,
+  height: number,
+  dpr: number
+) {
+  ctx.lineWidth = Math.max(1, 1.5 * dpr);
+  ctx.beginPath();
+  // 1ピクセルごとに最も近いサンプルを描画する
+  for (let x = 0; x < width; x++) {
+    const sample = data[Math.floor((x / width) * data.length)] / 255;
+    const y = sample * height;
+    if (x === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  }
+  ctx.stroke();
+}
+
+function drawCircular(
+  ctx: CanvasRenderingContext2D,
+  levels: number[],
+  width: number,
+  height: number,
+  dpr: number
+) {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) * 0.25;
+  const maxLength = Math.min(width, height) / 2 - radius;
 
-  // 各縦棒のアニメーション速度を固定（初回のみ生成）
-  const waveAnimationDurations = useMemo(() => {
-    return Array.from({ length: 10 }, () => Math.random() * 0.5 + 0.5);
+  ctx.lineWidth = BAR_WIDTH * dpr;
+  ctx.beginPath();
+  levels.forEach((level, i) => {
+    const angle = (i / levels.length) * Math.PI * 2 - Math.PI / 2;
+    const length = Math.max(dpr, level * maxLength);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    ctx.moveTo(centerX + cos * radius, centerY + sin * radius);
+    ctx.lineTo(centerX + cos * (radius + length), centerY + sin * (radius + length));
+  });
+  ctx.stroke();
+}
+
+/**
+ * 音声ビジュアライザー
+ * 再生中の音声をAnalyserNodeで解析し、表示サイズの解像度で描画します
+ * クリックで表示モード（スペクトラム・波形・サークル）を切り替えます
+ */
+export function Visualizer({
+  isPlaying,
+  getAnalyser,
+  mode = 'bars',
+  onModeChange,
+  className = 'h-10 w-[150px]',
+}: VisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  // 最新の描画関数（リサイズでキャンバスが消去された後に再描画するため）
+  const drawRef = useRef<(() => void) | null>(null);
+
+  // 表示サイズに合わせてキャンバスの解像度を変更する
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(canvas.clientWidth * dpr));
+      canvas.height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+      // 停止中は描画ループが動いていないため、ここで描き直す
+      if (animationFrameRef.current === null) {
+        drawRef.current?.();
+      }
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    return () => {
+      observer.disconnect();
+    };
   }, []);
 
+  // 毎フレーム解析データを取得して描画する（停止中は無音として1回だけ描画）
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    let frequencyData = new Uint8Array(0);
+    let timeDomainData = new Uint8Array(0);
+
+    const draw = () => {
+      const analyser = isPlaying ? getAnalyser() : null;
+      const { width, height } = canvas;
+      const dpr = window.devicePixelRatio || 1;
+
+      if (analyser && frequencyData.length !== analyser.frequencyBinCount) {
+        frequencyData = new Uint8Array(analyser.frequencyBinCount);
+        timeDomainData = new Uint8Array(analyser.fftSize);
+      }
+
+      ctx.clearRect(0, 0, width, height);
+      const color = getComputedStyle(canvas).color;
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color;
+
+      if (mode === 'oscilloscope') {
+        if (analyser) {
+          analyser.getByteTimeDomainData(timeDomainData);
+        } else {
+          // 無音（中央の直線）
+          timeDomainData = new Uint8Array(timeDomainData.length || 2).fill(128);
+        }
+        drawOscilloscope(ctx, timeDomainData, width, height, dpr);
+      } else {
+        if (analyser) {
+          analyser.getByteFrequencyData(frequencyData);
+        } else {
+          frequencyData.fill(0);
+        }
+        const nyquist = (analyser?.context.sampleRate ?? 48000) / 2;
+        const maxBin = Math.max(
+          2,
+          Math.floor((Math.min(MAX_FREQUENCY, nyquist) / nyquist) * frequencyData.length)
+        );
+
+        if (mode === 'circular') {
+          const circumference = Math.PI * Math.min(width, height) * 0.5;
+          const count = Math.max(8, Math.floor(circumference / ((BAR_WIDTH + BAR_GAP) * 2 * dpr)));
+          drawCircular(ctx, getBandLevels(frequencyData, count, maxBin), width, height, dpr);
+        } else {
+          const count = Math.max(1, Math.floor(width / ((BAR_WIDTH + BAR_GAP) * dpr)));
+          drawBars(ctx, getBandLevels(frequencyData, count, maxBin), width, height, dpr);
+        }
+      }
+
+      if (isPlaying) {
+        animationFrameRef.current = requestAnimationFrame(draw);
+      }
+    };
+
+    drawRef.current = draw;
+    draw();
+
+    return () => {
+      if (animationFrameRef.current !== null) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = null;
+      }
+    };
+  }, [isPlaying, getAnalyser, mode]);
+
+  function handleClick() {
+    if (!onModeChange) return;
+    const nextMode = VISUALIZER_MODES[(VISUALIZER_MODES.indexOf(mode) + 1) % VISUALIZER_MODES.length];
+    onModeChange(nextMode);
+  }
+
   return (
-    <div className="flex items-center justify-center gap-1 h-10" style={{ width: '150px' }}>
-      {waveHeights.map((height, i) => (
-        <div
-          key={i}
-          className={`w-2 bg-primary rounded-full ${isPlaying ? 'animate-pulse' : ''}`}
-          style={{
-            height: `${height}%`,
-            animationDelay: `${i * 0.05}s`,
-            animationDuration: `${waveAnimationDurations[i]}s`,
-          }}
-        />
-      ))}
-    </div>
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      title={onModeChange ? `表示: ${VISUALIZER_MODE_LABELS[mode]}（クリックで切り替え）` : undefined}
+      className={`block text-primary ${onModeChange ? 'cursor-pointer' : ''} ${className}`}
+    />
   );
 }
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Save } from 'lucide-react';
+import { saveOpeningHours } from '@/lib/supabase';
+import { DAY_OF_WEEK_LABELS, WEEK_DISPLAY_ORDER, formatTime, timeToMinutes } from '@/lib/schedule';
+import type { OpeningHours } from '@/lib/types';
+
+interface OpeningHoursDialogProps {
+  openingHours: OpeningHours[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void | Promise<void>;
+}
+
+interface DayRow {
+  isOpen: boolean;
+  openTime: string;
+  closeTime: string;
+}
+
+// 新しく開館日にした曜日の初期値
+const DEFAULT_OPEN_TIME = '10:00';
+const DEFAULT_CLOSE_TIME = '18:00';
+
+// フォームの初期値を開館時間から作成する（曜日をインデックスとする配列）
+function toDayRows(openingHours: OpeningHours[]): DayRow[] {
+  return DAY_OF_WEEK_LABELS.map((_, day) => {
+    const hours = openingHours.find((h) => h.day_of_week === day);
+    return {
+      // 開館時間を設定していない場合は、全曜日を開館日として表示する
+      isOpen: openingHours.length === 0 || !!hours,
+      openTime: hours ? formatTime(hours.open_time) : DEFAULT_OPEN_TIME,
+      closeTime: hours ? formatTime(hours.close_time) : DEFAULT_CLOSE_TIME,
+    };
+  });
+}
+
+/**
+ * 展示の開館時間を設定するダイアログ
+ * 開館時間外はスケジュール再生が自動的に停止します
+ */
+export function OpeningHoursDialog({
+  openingHours,
+  open,
+  onOpenChange,
+  onSaved,
+}: OpeningHoursDialogProps) {
+  const [isEnabled, setIsEnabled] = useState(openingHours.length > 0);
+  const [rows, setRows] = useState<DayRow[]>(() => toDayRows(openingHours));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // ダイアログを開くたびに現在の設定で初期化する
+  useEffect(() => {
+    if (open) {
+      setIsEnabled(openingHours.length > 0);
+      setRows(toDayRows(openingHours));
+      setError('');
+    }
+  }, [open, openingHours]);
+
+  function updateRow(day: number, updates: Partial<DayRow>) {
+    setRows((prev) => prev.map((row, i) => (i === day ? { ...row, ...updates } : row)));
+  }
+
+  async function handleSave() {
+    const hours = isEnabled
+      ? rows.flatMap((row, day) =>
+          row.isOpen ? [{ day_of_week: day, open_time: row.openTime, close_time: row.closeTime }] : []
+        )
+      : [];
+
+    const invalid = hours.find((h) => !(timeToMinutes(h.open_time) < timeToMinutes(h.close_time)));
+    if (invalid) {
+      setError(`${DAY_OF_WEEK_LABELS[invalid.day_of_week]}曜日の閉館時刻は開館時刻より後にしてください`);
+      return;
+    }
+    if (isEnabled && hours.length === 0) {
+      setError('開館日を1日以上選択してください');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError('');
+      await saveOpeningHours(hours);
+      await onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>開館時間</DialogTitle>
+          <DialogDescription>
+            開館時間外はスケジュール再生を自動的に停止し、開館時に再開します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={isEnabled}
+              onChange={(e) => setIsEnabled(e.target.checked)}
+            />
+            開館時間を設定する（設定しない場合は常に再生）
+          </label>
+
+          {isEnabled && (
+            <div className="space-y-2">
+              {WEEK_DISPLAY_ORDER.map((day) => {
+                const row = rows[day];
+                return (
+                  <div key={day} className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 w-20 text-sm">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={row.isOpen}
+                        onChange={(e) => updateRow(day, { isOpen: e.target.checked })}
+                      />
+                      {DAY_OF_WEEK_LABELS[day]}曜日
+                    </label>
+                    {row.isOpen ? (
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor={`open-time-${day}`} className="sr-only">
+                          開館時刻
+                        </Label>
+                        <Input
+                          id={`open-time-${day}`}
+                          type="time"
+                          className="w-32"
+                          value={row.openTime}
+                          onChange={(e) => updateRow(day, { openTime: e.target.value })}
+                        />
+                        <span className="text-muted-foreground">〜</span>
+                        <Label htmlFor={`close-time-${day}`} className="sr-only">
+                          閉館時刻
+                        </Label>
+                        <Input
+                          id={`close-time-${day}`}
+                          type="time"
+                          className="w-32"
+                          value={row.closeTime}
+                          onChange={(e) => updateRow(day, { closeTime: e.target.value })}
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">休館日</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                保存中...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                保存
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
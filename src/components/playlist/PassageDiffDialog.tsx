@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { diffPassage, toAccuracy } from '@/lib/passage';
+import type { Passage, Recording } from '@/lib/types';
+
+interface PassageDiffDialogProps {
+  recording: Recording | null;
+  passage: Passage | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * 課題文と文字起こしの差分を表示するダイアログ
+ * 読まれなかった文字は赤の取り消し線、課題文にない文字は黄色で表示します
+ */
+export function PassageDiffDialog({
+  recording,
+  passage,
+  open,
+  onOpenChange,
+}: PassageDiffDialogProps) {
+  const parts = useMemo(
+    () => (passage && recording ? diffPassage(passage.body, recording.transcription ?? '') : []),
+    [passage, recording]
+  );
+
+  const cer = recording?.passage_cer ?? null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            課題文との比較
+            {cer !== null && (
+              <Badge variant="secondary">一致率 {Math.round(toAccuracy(cer) * 100)}%</Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {passage?.title || '課題文'}
+            （句読点・空白・記号は比較の対象外です）
+          </DialogDescription>
+        </DialogHeader>
+
+        {passage && recording ? (
+          <div className="space-y-4">
+            <p className="text-sm leading-relaxed break-words">
+              {parts.map((part, i) => {
+                if (part.type === 'missing') {
+                  return (
+                    <span key={i} className="text-red-600 line-through">
+                      {part.text}
+                    </span>
+                  );
+                }
+                if (part.type === 'extra') {
+                  return (
+                    <span key={i} className="bg-yellow-200 dark:bg-yellow-800">
+                      {part.text}
+                    </span>
+                  );
+                }
+                return <span key={i}>{part.text}</span>;
+              })}
+            </p>
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span>
+                <span className="text-red-600 line-through">赤の取り消し線</span>
+                ：読まれなかった文字
+              </span>
+              <span>
+                <span className="bg-yellow-200 dark:bg-yellow-800">黄色</span>
+                ：課題文にない文字
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">課題文が見つかりません</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
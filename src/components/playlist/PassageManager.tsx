@@ -0,0 +1,252 @@
+'use client';
+
+import { useState } from 'react';
+import { createPassage, updatePassage, deletePassage } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen, Loader2, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+import type { Passage } from '@/lib/types';
+
+interface PassageManagerProps {
+  playlistId: string;
+  passages: Passage[];
+  onPassagesChange: (passages: Passage[]) => void;
+  // 課題文の本文を変更した場合（録音の一致率が再計算される）
+  onScoresUpdated?: () => void | Promise<void>;
+}
+
+/**
+ * プレイリストの課題文（来場者が読み上げる小説の一節）を管理するコンポーネント
+ */
+export function PassageManager({
+  playlistId,
+  passages,
+  onPassagesChange,
+  onScoresUpdated,
+}: PassageManagerProps) {
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [editingPassage, setEditingPassage] = useState<Passage | null>(null);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Passage | null>(null);
+  const [error, setError] = useState('');
+
+  function openCreateDialog() {
+    setEditingPassage(null);
+    setTitle('');
+    setBody('');
+    setError('');
+    setEditDialogOpen(true);
+  }
+
+  function openEditDialog(passage: Passage) {
+    setEditingPassage(passage);
+    setTitle(passage.title);
+    setBody(passage.body);
+    setError('');
+    setEditDialogOpen(true);
+  }
+
+  async function handleSave() {
+    if (!body.trim()) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+
+      if (editingPassage) {
+        await updatePassage(editingPassage.id, title.trim(), body.trim());
+        onPassagesChange(
+          passages.map((p) =>
+            p.id === editingPassage.id ? { ...p, title: title.trim(), body: body.trim() } : p
+          )
+        );
+        if (editingPassage.body !== body.trim()) {
+          await onScoresUpdated?.();
+        }
+      } else {
+        const passage = await createPassage(playlistId, title.trim(), body.trim());
+        onPassagesChange([...passages, passage]);
+      }
+
+      setEditDialogOpen(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function confirmDelete() {
+    if (!deleteTarget) return;
+
+    try {
+      await deletePassage(deleteTarget.id);
+      onPassagesChange(passages.filter((p) => p.id !== deleteTarget.id));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`削除に失敗しました: ${message}`);
+    } finally {
+      setDeleteTarget(null);
+    }
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              課題文
+            </span>
+            <Button onClick={openCreateDialog} variant="outline" size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              追加
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error && !editDialogOpen && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {passages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              課題文がありません。追加すると録音画面に表示され、文字起こしとの一致率を確認できます。
+            </p>
+          ) : (
+            passages.map((passage, index) => (
+              <div key={passage.id} className="flex items-start gap-3 rounded-md border p-3">
+                <span className="text-sm text-muted-foreground">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  {passage.title && <p className="text-sm font-medium">{passage.title}</p>}
+                  <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">
+                    {passage.body}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button
+                    onClick={() => openEditDialog(passage)}
+                    variant="ghost"
+                    size="sm"
+                    title="編集"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    onClick={() => setDeleteTarget(passage)}
+                    variant="ghost"
+                    size="sm"
+                    title="削除"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 課題文の作成・編集モーダル */}
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingPassage ? '課題文を編集' : '課題文を追加'}</DialogTitle>
+            <DialogDescription>
+              録音画面に表示され、来場者が読み上げる文章です
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="passage-title">見出し</Label>
+              <Input
+                id="passage-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="作品名・章など（任意）"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="passage-body">本文</Label>
+              <Textarea
+                id="passage-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={8}
+              />
+            </div>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditDialogOpen(false)} disabled={isSaving}>
+              キャンセル
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !body.trim()}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  保存中...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  保存
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 削除確認ダイアログ */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>課題文を削除しますか？</AlertDialogTitle>
+            <AlertDialogDescription>
+              この課題文を読んだ録音は削除されませんが、一致率は表示されなくなります。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>キャンセル</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-destructive hover:bg-destructive/90">
+              削除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -7,8 +7,10 @@ import {
   getPlaylists,
   createPlaylist,
   deletePlaylist,
+  setActivePlaylist,
 } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -29,6 +31,7 @@ export default function PlaylistManager({ basePath = '' }: PlaylistManagerProps
   const [isCreating, setIsCreating] = useState(false);
   const [newPlaylistName, setNewPlaylistName] = useState('');
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [selectedPlaylist, setSelectedPlaylist] = useState<{ id: string; name: string; recordingCount: number } | null>(null);
@@ -70,6 +73,19 @@ export default function PlaylistManager({ basePath = '' }: PlaylistManagerProps
     }
   }
 
+  async function handleActivate(id: string) {
+    try {
+      setActivatingId(id);
+      await setActivePlaylist(id);
+      await loadPlaylists();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`切り替えに失敗しました: ${message}`);
+    } finally {
+      setActivatingId(null);
+    }
+  }
+
   function openDeleteDialog(id: string, name: string, recordingCount: number) {
     setSelectedPlaylist({ id, name, recordingCount });
     setDeleteDialogOpen(true);
@@ -143,6 +159,18 @@ export default function PlaylistManager({ basePath = '' }: PlaylistManagerProps
                   <TableRow>
                     <TableHead>プレイリスト名</TableHead>
                     <TableHead>録音数</TableHead>
+                    <TableHead>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="cursor-help">有効</span>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>再生スケジュールの時間外に再生するプレイリスト</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </TableHead>
                     <TableHead>作成日時</TableHead>
                     <TableHead className="text-right">操作</TableHead>
                   </TableRow>
@@ -162,6 +190,23 @@ export default function PlaylistManager({ basePath = '' }: PlaylistManagerProps
                           </Link>
                         </TableCell>
                         <TableCell>{playlist.recording_count || 0}件</TableCell>
+                        <TableCell>
+                          {playlist.is_active ? (
+                            <Badge variant="default">有効</Badge>
+                          ) : (
+                            <Button
+                              onClick={() => handleActivate(playlist.id)}
+                              disabled={activatingId !== null}
+                              variant="outline"
+                              size="sm"
+                            >
+                              {activatingId === playlist.id && (
+                                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                              )}
+                              有効にする
+                            </Button>
+                          )}
+                        </TableCell>
                         <TableCell>{formatDate(playlist.created_at)}</TableCell>
                         <TableCell className="text-right space-x-2">
                           <TooltipProvider>
@@ -0,0 +1,373 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import {
+  updatePlaylistTranscriptionSettings,
+  updatePlaylistTransitionSettings,
+  updatePlaylistVoiceActivationSettings,
+  updatePlaylistAutoApprove,
+  updatePlaylistPlaybackOrder,
+} from '@/lib/supabase';
+import { toTransitionSettings } from '@/lib/playback-transition';
+import { DEFAULT_VOICE_ACTIVATION_SETTINGS, toVoiceActivationSettings } from '@/lib/voice-activation';
+import { PLAYBACK_ORDER_LABELS, getPlaybackOrderMode } from '@/lib/playback-order';
+import type {
+  PlaybackOrderMode,
+  Playlist,
+  PlaylistTranscriptionSettings,
+  PlaylistTransitionSettings,
+  PlaylistVoiceActivationSettings,
+} from '@/lib/types';
+
+interface PlaylistSettingsDialogProps {
+  playlist: Playlist;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (playlist: Playlist) => void;
+}
+
+// 曲間の設定項目
+const TRANSITION_FIELDS: { key: keyof PlaylistTransitionSettings; label: string; description: string }[] = [
+  {
+    key: 'transition_gap',
+    label: '曲間の無音',
+    description: '録音と録音の間に入れる無音の長さ（クロスフェード時は無視）',
+  },
+  {
+    key: 'crossfade_duration',
+    label: 'クロスフェード',
+    description: '前の録音の終わりと次の録音の始まりを重ねる長さ',
+  },
+  {
+    key: 'fade_in_duration',
+    label: 'フェードイン',
+    description: '各録音の始まりで音量を上げる長さ',
+  },
+  {
+    key: 'fade_out_duration',
+    label: 'フェードアウト',
+    description: '各録音の終わりで音量を下げる長さ',
+  },
+];
+
+type FormValues = Record<
+  | keyof PlaylistTranscriptionSettings
+  | keyof PlaylistTransitionSettings
+  | Exclude<keyof PlaylistVoiceActivationSettings, 'voice_activation'>,
+  string
+>;
+
+// フォームの初期値をプレイリストから作成する
+function toFormValues(playlist: Playlist): FormValues {
+  const transition = toTransitionSettings(playlist);
+  const voiceActivation = toVoiceActivationSettings(playlist);
+  return {
+    transcription_language: playlist.transcription_language ?? '',
+    transcription_model: playlist.transcription_model ?? '',
+    transcription_prompt: playlist.transcription_prompt ?? '',
+    transition_gap: String(transition.transition_gap),
+    crossfade_duration: String(transition.crossfade_duration),
+    fade_in_duration: String(transition.fade_in_duration),
+    fade_out_duration: String(transition.fade_out_duration),
+    voice_activation_threshold: String(voiceActivation.voice_activation_threshold),
+    voice_activation_silence: String(voiceActivation.voice_activation_silence),
+  };
+}
+
+// 秒数の入力値を数値に変換する（空欄・不正な値・負の値は0）
+function parseSeconds(value: string): number {
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+}
+
+// 音声で録音を開始・停止する設定の入力値を変換する（不正な値はデフォルト値）
+function parseVoiceActivation(values: FormValues, enabled: boolean): PlaylistVoiceActivationSettings {
+  const threshold = parseFloat(values.voice_activation_threshold);
+  const silence = parseFloat(values.voice_activation_silence);
+  return {
+    voice_activation: enabled,
+    voice_activation_threshold:
+      Number.isFinite(threshold) && threshold <= 0
+        ? threshold
+        : DEFAULT_VOICE_ACTIVATION_SETTINGS.voice_activation_threshold,
+    voice_activation_silence:
+      Number.isFinite(silence) && silence > 0
+        ? silence
+        : DEFAULT_VOICE_ACTIVATION_SETTINGS.voice_activation_silence,
+  };
+}
+
+/**
+ * プレイリストの設定ダイアログ
+ * 文字起こしの言語・モデル・プロンプト、再生順序と曲間、録音を音声で開始・停止するか、録音を自動承認するかを設定します
+ */
+export function PlaylistSettingsDialog({
+  playlist,
+  open,
+  onOpenChange,
+  onSaved,
+}: PlaylistSettingsDialogProps) {
+  const [values, setValues] = useState(() => toFormValues(playlist));
+  const [isVoiceActivated, setIsVoiceActivated] = useState(
+    () => toVoiceActivationSettings(playlist).voice_activation
+  );
+  const [playbackOrder, setPlaybackOrder] = useState(() => getPlaybackOrderMode(playlist));
+  const [isAutoApproved, setIsAutoApproved] = useState(() => playlist.auto_approve ?? false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // ダイアログを開くたびに現在の設定で初期化する
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(playlist));
+      setIsVoiceActivated(toVoiceActivationSettings(playlist).voice_activation);
+      setPlaybackOrder(getPlaybackOrderMode(playlist));
+      setIsAutoApproved(playlist.auto_approve ?? false);
+      setError('');
+    }
+  }, [open, playlist]);
+
+  async function handleSave() {
+    try {
+      setIsSaving(true);
+      setError('');
+      const transition: PlaylistTransitionSettings = {
+        transition_gap: parseSeconds(values.transition_gap),
+        crossfade_duration: parseSeconds(values.crossfade_duration),
+        fade_in_duration: parseSeconds(values.fade_in_duration),
+        fade_out_duration: parseSeconds(values.fade_out_duration),
+      };
+      await updatePlaylistTranscriptionSettings(playlist.id, values);
+      const voiceActivation = parseVoiceActivation(values, isVoiceActivated);
+      await updatePlaylistTransitionSettings(playlist.id, transition);
+      await updatePlaylistPlaybackOrder(playlist.id, playbackOrder);
+      await updatePlaylistVoiceActivationSettings(playlist.id, voiceActivation);
+      await updatePlaylistAutoApprove(playlist.id, isAutoApproved);
+      onSaved({
+        ...playlist,
+        transcription_language: values.transcription_language.trim() || null,
+        transcription_model: values.transcription_model.trim() || null,
+        transcription_prompt: values.transcription_prompt.trim() || null,
+        ...transition,
+        playback_order: playbackOrder,
+        ...voiceActivation,
+        auto_approve: isAutoApproved,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>プレイリスト設定</DialogTitle>
+          <DialogDescription>
+            このプレイリストに追加された録音の処理方法と再生方法を設定します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <h3 className="text-sm font-semibold">文字起こし設定</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="transcription-language">言語</Label>
+            <Input
+              id="transcription-language"
+              value={values.transcription_language}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, transcription_language: e.target.value }))
+              }
+              placeholder="ja"
+            />
+            <p className="text-xs text-muted-foreground">
+              ISO-639-1の言語コード（例: ja, en）。未設定の場合は日本語
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transcription-model">モデル</Label>
+            <Input
+              id="transcription-model"
+              value={values.transcription_model}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, transcription_model: e.target.value }))
+              }
+              placeholder="whisper-1"
+            />
+            <p className="text-xs text-muted-foreground">
+              未設定の場合は文字起こしプロバイダーのデフォルトモデル。OpenAIのwhisper-1以外のモデル（gpt-4o-transcribeなど）ではタイムスタンプを取得しないため、字幕のハイライトは行いません
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transcription-prompt">プロンプト</Label>
+            <Textarea
+              id="transcription-prompt"
+              value={values.transcription_prompt}
+              onChange={(e) =>
+                setValues((prev) => ({ ...prev, transcription_prompt: e.target.value }))
+              }
+              placeholder="固有名詞や表記の指定など（例: ものしゃか展、〜です・ます調）"
+              rows={3}
+            />
+          </div>
+
+          <h3 className="text-sm font-semibold pt-2">再生順序</h3>
+
+          <div className="space-y-2">
+            <Select
+              value={playbackOrder}
+              onValueChange={(value) => setPlaybackOrder(value as PlaybackOrderMode)}
+            >
+              <SelectTrigger id="playlist-playback_order" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PLAYBACK_ORDER_LABELS) as PlaybackOrderMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {PLAYBACK_ORDER_LABELS[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              プレイリストが一周するたびに次の周回の順序を決めます（再生中に変更した場合は次の周回から反映します）
+            </p>
+          </div>
+
+          <h3 className="text-sm font-semibold pt-2">曲間設定</h3>
+
+          <div className="grid grid-cols-2 gap-4">
+            {TRANSITION_FIELDS.map(({ key, label, description }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`playlist-${key}`}>{label}（秒）</Label>
+                <Input
+                  id={`playlist-${key}`}
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={values[key]}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">{description}</p>
+              </div>
+            ))}
+          </div>
+
+          <h3 className="text-sm font-semibold pt-2">録音の開始・停止</h3>
+
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={isVoiceActivated}
+              onChange={(e) => setIsVoiceActivated(e.target.checked)}
+            />
+            声で録音を開始・停止する
+          </label>
+          <p className="text-xs text-muted-foreground">
+            録音ボタンを押した後、話しはじめると録音を開始し、話し終えて無音が続くと自動的に停止します
+          </p>
+
+          {isVoiceActivated && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="playlist-voice_activation_threshold">声とみなす音量（dBFS）</Label>
+                <Input
+                  id="playlist-voice_activation_threshold"
+                  type="number"
+                  max={0}
+                  step={1}
+                  value={values.voice_activation_threshold}
+                  onChange={(e) =>
+                    setValues((prev) => ({ ...prev, voice_activation_threshold: e.target.value }))
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  会場が騒がしく勝手に録音が始まる場合は大きく（例: -30）します
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="playlist-voice_activation_silence">停止までの無音（秒）</Label>
+                <Input
+                  id="playlist-voice_activation_silence"
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={values.voice_activation_silence}
+                  onChange={(e) =>
+                    setValues((prev) => ({ ...prev, voice_activation_silence: e.target.value }))
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  この長さだけ声が途切れると録音を停止します
+                </p>
+              </div>
+            </div>
+          )}
+
+          <h3 className="text-sm font-semibold pt-2">審査</h3>
+
+          <label className="flex items-center gap-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={isAutoApproved}
+              onChange={(e) => setIsAutoApproved(e.target.checked)}
+            />
+            来場者の録音を自動的に承認する
+          </label>
+          <p className="text-xs text-muted-foreground">
+            オンの場合も、文字起こしの自動チェックが終わるまでは再生されず、問題が見つかった録音は審査待ちになります。オフの場合、来場者の録音は審査画面で承認されるまで再生されません
+          </p>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                保存中...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                保存
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
-import { Recording } from "@/lib/types";
+import React, { useState, useEffect, useRef } from "react";
+import { Passage, Recording } from "@/lib/types";
 
 // setSinkIdの型定義（実験的API）
 interface HTMLAudioElementWithSinkId extends HTMLAudioElement {
@@ -11,8 +11,22 @@ import {
   getRecordingUrl,
   deleteRecording,
   reorderPlaylistRecordings,
+  releaseRecordingQuarantine,
 } from "@/lib/supabase";
+import {
+  PIPELINE_STEPS,
+  PROCESSING_STEP_LABELS,
+  getStepStatus,
+  getRetryableSteps,
+  isProcessingActive,
+  requestRecordingProcessing,
+} from "@/lib/processing";
+import { LOW_ACCURACY_THRESHOLD, toAccuracy } from "@/lib/passage";
+import { MODERATION_STATUS_LABELS, getModerationStatus } from "@/lib/moderation";
+import { CONTENT_FLAG_RULE_LABELS } from "@/lib/content-flags";
+import { isQuarantined } from "@/lib/playback-watchdog";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -56,9 +70,16 @@ import {
   Upload,
   Speaker,
   Volume2,
+  RotateCw,
+  Pencil,
+  Scissors,
+  ShieldCheck,
 } from "lucide-react";
 import VolumeAnalyzerModal from "@/components/audio/VolumeAnalyzerModal";
 import TranscriptionModal from "@/components/audio/TranscriptionModal";
+import { PassageDiffDialog } from "@/components/playlist/PassageDiffDialog";
+import { TrimEditorDialog } from "@/components/playlist/TrimEditorDialog";
+import { getTrimRange, hasTrim } from "@/lib/trim";
 import {
   DndContext,
   closestCenter,
@@ -79,6 +100,7 @@ import { CSS } from "@dnd-kit/utilities";
 
 interface RecordingListProps {
   recordings?: Recording[];
+  passages?: Passage[]; // プレイリストの課題文（一致率の差分表示に使用）
   onUpdate?: () => void | Promise<void>;
   playlistId?: string; // プレイリストID（指定時のみドラッグ&ドロップ有効）
   onUploadRequest?: () => void; // アップロードモーダルを開くコールバック
@@ -88,6 +110,54 @@ interface RecordingListProps {
   onTranscriptionComplete?: () => void | Promise<void>; // 文字起こし完了時のコールバック
 }
 
+// 後処理中の録音がある場合の再取得間隔（ミリ秒）
+const PROCESSING_POLL_INTERVAL = 3000;
+
+// 一覧の並び順（playlist: プレイリストの再生順）
+type RecordingSortOrder = "playlist" | "accuracy-asc" | "accuracy-desc";
+
+// 一覧の絞り込み
+type RecordingFilter = "all" | "low-accuracy" | "no-transcription";
+
+function hasTranscription(recording: Recording): boolean {
+  return !!recording.transcription && recording.transcription.trim() !== "";
+}
+
+function isLowAccuracy(recording: Recording): boolean {
+  return (
+    recording.passage_cer != null &&
+    toAccuracy(recording.passage_cer) < LOW_ACCURACY_THRESHOLD
+  );
+}
+
+/**
+ * 並び順と絞り込みを適用した録音一覧を返す
+ * 一致率で並べる場合、一致率のない録音は末尾に置く
+ */
+function applySortAndFilter(
+  recordings: Recording[],
+  sortOrder: RecordingSortOrder,
+  filter: RecordingFilter
+): Recording[] {
+  const filtered = recordings.filter((recording) => {
+    if (filter === "low-accuracy") return isLowAccuracy(recording);
+    if (filter === "no-transcription") return !hasTranscription(recording);
+    return true;
+  });
+
+  if (sortOrder === "playlist") {
+    return filtered;
+  }
+
+  const direction = sortOrder === "accuracy-asc" ? 1 : -1;
+  return [...filtered].sort((a, b) => {
+    if (a.passage_cer == null && b.passage_cer == null) return 0;
+    if (a.passage_cer == null) return 1;
+    if (b.passage_cer == null) return -1;
+    return (toAccuracy(a.passage_cer) - toAccuracy(b.passage_cer)) * direction;
+  });
+}
+
 // ヘルパー関数
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
@@ -107,14 +177,238 @@ function formatDuration(seconds: number | null): string {
   return `${mins}:${String(secs).padStart(2, "0")}`;
 }
 
+// 波形サマリーのサムネイル表示（再生範囲外の部分は薄く表示）
+function WaveformThumbnail({ recording }: { recording: Recording }) {
+  const waveform = recording.waveform ?? [];
+  const width = 80;
+  const height = 20;
+  const barWidth = width / waveform.length;
+
+  const duration = recording.duration ?? 0;
+  const range = getTrimRange(recording, duration);
+  const isInRange = (i: number) => {
+    if (duration <= 0) return true;
+    const time = ((i + 0.5) / waveform.length) * duration;
+    return time >= range.start && time <= range.end;
+  };
+
+  return (
+    <svg width={width} height={height} className="text-muted-foreground">
+      {waveform.map((peak, i) => {
+        const barHeight = Math.max(1, peak * height);
+        return (
+          <rect
+            key={i}
+            x={i * barWidth}
+            y={(height - barHeight) / 2}
+            width={Math.max(1, barWidth - 0.5)}
+            height={barHeight}
+            fill="currentColor"
+            opacity={isInRange(i) ? 1 : 0.3}
+          />
+        );
+      })}
+    </svg>
+  );
+}
+
+// 後処理ステータスの表示
+function ProcessingStatusCell({
+  recording,
+  isRetrying,
+  onRetry,
+}: {
+  recording: Recording;
+  isRetrying: boolean;
+  onRetry: (recording: Recording) => void;
+}) {
+  const hasStatus = PIPELINE_STEPS.some((step) => getStepStatus(recording, step) !== null);
+  const retryableSteps = getRetryableSteps(recording);
+
+  return (
+    <div className="space-y-1">
+      {recording.waveform && recording.waveform.length > 0 && (
+        <WaveformThumbnail recording={recording} />
+      )}
+      {hasStatus ? (
+        <div className="flex flex-wrap items-center gap-1">
+          {PIPELINE_STEPS.map((step) => {
+            const status = getStepStatus(recording, step);
+            if (!status) return null;
+
+            const label = PROCESSING_STEP_LABELS[step];
+            const badge = (
+              <Badge
+                key={step}
+                variant={
+                  status === "done"
+                    ? "secondary"
+                    : status === "failed"
+                      ? "destructive"
+                      : status === "running"
+                        ? "default"
+                        : "outline"
+                }
+              >
+                {status === "running" && <Loader2 className="animate-spin" />}
+                {label}
+              </Badge>
+            );
+
+            if (status === "failed" && recording.processing_error) {
+              return (
+                <Tooltip key={step}>
+                  <TooltipTrigger asChild>{badge}</TooltipTrigger>
+                  <TooltipContent className="max-w-md whitespace-pre-wrap">
+                    <p className="text-sm">{recording.processing_error}</p>
+                  </TooltipContent>
+                </Tooltip>
+              );
+            }
+            return badge;
+          })}
+          {retryableSteps.length > 0 && (
+            <Button
+              onClick={() => onRetry(recording)}
+              disabled={isRetrying}
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2"
+              title="失敗した処理を再試行"
+            >
+              {isRetrying ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <RotateCw className="h-3 w-3" />
+              )}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <span className="text-muted-foreground italic text-sm">-</span>
+      )}
+    </div>
+  );
+}
+
+// 審査の状態の表示（承認済みの録音は表示しない）
+function ModerationBadge({ recording }: { recording: Recording }) {
+  const status = getModerationStatus(recording);
+  if (status === "approved") return null;
+
+  return (
+    <div>
+      <Badge variant={status === "rejected" ? "destructive" : "outline"}>
+        {MODERATION_STATUS_LABELS[status]}
+      </Badge>
+    </div>
+  );
+}
+
+// 再生の失敗が続いて隔離された録音の表示（解除するとループ再生に戻る）
+function QuarantineBadge({
+  recording,
+  isReleasing,
+  onRelease,
+}: {
+  recording: Recording;
+  isReleasing: boolean;
+  onRelease: (recording: Recording) => void;
+}) {
+  if (!isQuarantined(recording)) return null;
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center gap-1">
+        <Badge variant="destructive" title={recording.last_playback_error ?? undefined}>
+          隔離中
+        </Badge>
+        <Button
+          onClick={() => onRelease(recording)}
+          disabled={isReleasing}
+          variant="outline"
+          size="sm"
+          className="h-6 px-2"
+          title="隔離を解除してループ再生に戻す"
+        >
+          {isReleasing ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <ShieldCheck className="mr-1 h-3 w-3" />
+          )}
+          解除
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        再生に{recording.playback_failure_count ?? 0}回失敗
+      </p>
+    </div>
+  );
+}
+
+// 自動チェックで検出された問題の表示（問題がない録音は表示しない）
+function ContentFlagList({ recording }: { recording: Recording }) {
+  if (!recording.content_flags?.length) return null;
+
+  return (
+    <ul className="mt-1 space-y-1">
+      {recording.content_flags.map((flag) => (
+        <li key={flag.rule} className="flex items-center gap-1 text-xs text-destructive">
+          <Badge variant="destructive">{CONTENT_FLAG_RULE_LABELS[flag.rule]}</Badge>
+          {flag.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// 課題文との一致率の表示（クリックで差分を表示）
+function PassageAccuracyCell({
+  recording,
+  onShowDiff,
+}: {
+  recording: Recording;
+  onShowDiff: (recording: Recording) => void;
+}) {
+  if (!recording.passage_id) {
+    return <span className="text-muted-foreground italic text-sm">-</span>;
+  }
+  if (recording.passage_cer == null) {
+    return <span className="text-muted-foreground italic text-sm">未計算</span>;
+  }
+
+  const accuracy = toAccuracy(recording.passage_cer);
+  return (
+    <button
+      type="button"
+      onClick={() => onShowDiff(recording)}
+      title="課題文との差分を表示"
+    >
+      <Badge
+        variant={accuracy < LOW_ACCURACY_THRESHOLD ? "destructive" : "secondary"}
+        className="cursor-pointer"
+      >
+        {Math.round(accuracy * 100)}%
+      </Badge>
+    </button>
+  );
+}
+
 // SortableRowコンポーネントのProps型定義
 interface SortableRowProps {
   recording: Recording;
   isDragEnabled: boolean;
   playingId: string | null;
   deletingId: string | null;
+  retryingId: string | null;
+  releasingId: string | null;
   handlePlay: (id: string, filePath: string) => void;
   openDeleteDialog: (id: string, filePath: string) => void;
+  handleRetryProcessing: (recording: Recording) => void;
+  handleReleaseQuarantine: (recording: Recording) => void;
+  openTranscriptEditor: (recording: Recording) => void;
+  openPassageDiff: (recording: Recording) => void;
+  openTrimEditor: (recording: Recording) => void;
 }
 
 // ドラッグ可能なテーブル行コンポーネント
@@ -123,8 +417,15 @@ const SortableRow = React.memo(function SortableRow({
   isDragEnabled,
   playingId,
   deletingId,
+  retryingId,
+  releasingId,
   handlePlay,
   openDeleteDialog,
+  handleRetryProcessing,
+  handleReleaseQuarantine,
+  openTranscriptEditor,
+  openPassageDiff,
+  openTrimEditor,
 }: SortableRowProps) {
   const {
     attributes,
@@ -142,7 +443,11 @@ const SortableRow = React.memo(function SortableRow({
   };
 
   return (
-    <TableRow ref={setNodeRef} style={style}>
+    <TableRow
+      ref={setNodeRef}
+      style={style}
+      className={recording.content_flags?.length ? "bg-destructive/5" : undefined}
+    >
       {isDragEnabled && (
         <TableCell className="w-10">
           <button
@@ -157,13 +462,42 @@ const SortableRow = React.memo(function SortableRow({
       )}
       <TableCell className="whitespace-nowrap">
         {formatDate(recording.created_at)}
+        <ModerationBadge recording={recording} />
+        <QuarantineBadge
+          recording={recording}
+          isReleasing={releasingId === recording.id}
+          onRelease={handleReleaseQuarantine}
+        />
       </TableCell>
       <TableCell className="whitespace-nowrap">
-        {formatDuration(recording.duration)}
+        <div className="flex items-center gap-1">
+          {formatDuration(recording.duration)}
+          <Button
+            onClick={() => openTrimEditor(recording)}
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2"
+            title="再生範囲を調整"
+          >
+            <Scissors className="h-3 w-3" />
+          </Button>
+        </div>
+        {hasTrim(recording) && (
+          <p className="text-xs text-muted-foreground">
+            再生 {(recording.trim_start ?? 0).toFixed(1)}〜
+            {recording.trim_end != null ? `${recording.trim_end.toFixed(1)}秒` : "最後"}
+            {recording.trim_adjusted && "（調整済み）"}
+          </p>
+        )}
+        {(recording.play_count ?? 0) > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {recording.play_count}回再生
+          </p>
+        )}
       </TableCell>
       <TableCell>
         {recording.transcription ? (
-          <div className="max-w-md">
+          <div className="max-w-md flex items-start gap-1">
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -176,10 +510,32 @@ const SortableRow = React.memo(function SortableRow({
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+            <Button
+              onClick={() => openTranscriptEditor(recording)}
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 shrink-0"
+              title="文字起こしを編集"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
           </div>
         ) : (
           <span className="text-muted-foreground italic text-sm">なし</span>
         )}
+        <ContentFlagList recording={recording} />
+      </TableCell>
+      <TableCell className="whitespace-nowrap">
+        <PassageAccuracyCell recording={recording} onShowDiff={openPassageDiff} />
+      </TableCell>
+      <TableCell>
+        <TooltipProvider>
+          <ProcessingStatusCell
+            recording={recording}
+            isRetrying={retryingId === recording.id}
+            onRetry={handleRetryProcessing}
+          />
+        </TooltipProvider>
       </TableCell>
       <TableCell className="text-right space-x-2">
         <Button
@@ -224,6 +580,7 @@ const SortableRow = React.memo(function SortableRow({
 
 export default function RecordingList({
   recordings = [],
+  passages = [],
   onUpdate,
   playlistId,
   onUploadRequest,
@@ -243,8 +600,18 @@ export default function RecordingList({
     filePath: string;
   } | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [releasingId, setReleasingId] = useState<string | null>(null);
   const [volumeAnalyzerOpen, setVolumeAnalyzerOpen] = useState(false);
   const [transcriptionModalOpen, setTranscriptionModalOpen] = useState(false);
+  const [editingTranscriptRecording, setEditingTranscriptRecording] =
+    useState<Recording | null>(null);
+  const [sortOrder, setSortOrder] = useState<RecordingSortOrder>("playlist");
+  const [filter, setFilter] = useState<RecordingFilter>("all");
+  const [diffRecording, setDiffRecording] = useState<Recording | null>(null);
+  const [passageDiffOpen, setPassageDiffOpen] = useState(false);
+  const [trimRecording, setTrimRecording] = useState<Recording | null>(null);
+  const [trimEditorOpen, setTrimEditorOpen] = useState(false);
 
   // 音声デバイス選択用のstate
   const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
@@ -262,8 +629,10 @@ export default function RecordingList({
     })
   );
 
-  // ドラッグ&ドロップが有効かどうか
-  const isDragEnabled = !!playlistId;
+  // 並び替え・絞り込み中は再生順と表示順が一致しないため、ドラッグ&ドロップを無効にする
+  const isDragEnabled =
+    !!playlistId && sortOrder === "playlist" && filter === "all";
+  const displayedRecordings = applySortAndFilter(recordings, sortOrder, filter);
 
   // 初期化時にデバイス一覧を取得（既定のデバイスを除外）
   useEffect(() => {
@@ -335,6 +704,25 @@ export default function RecordingList({
     }
   }
 
+  // 後処理中の録音がある間は定期的に親コンポーネントへ再取得を依頼し、ステータスを更新する
+  const hasActiveProcessing = recordings.some(isProcessingActive);
+  const onUpdateRef = useRef(onUpdate);
+  useEffect(() => {
+    onUpdateRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => {
+    if (!hasActiveProcessing) return;
+
+    const timer = setInterval(() => {
+      onUpdateRef.current?.();
+    }, PROCESSING_POLL_INTERVAL);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [hasActiveProcessing]);
+
   useEffect(() => {
     // クリーンアップ
     return () => {
@@ -460,6 +848,61 @@ export default function RecordingList({
     }
   }
 
+  function openTranscriptEditor(recording: Recording) {
+    setEditingTranscriptRecording(recording);
+    setTranscriptionModalOpen(true);
+  }
+
+  function openPassageDiff(recording: Recording) {
+    setDiffRecording(recording);
+    setPassageDiffOpen(true);
+  }
+
+  function openTrimEditor(recording: Recording) {
+    setTrimRecording(recording);
+    setTrimEditorOpen(true);
+  }
+
+  function openBulkTranscription() {
+    // 閉じるアニメーション中に表示が切り替わらないよう、編集対象は開くときにリセットする
+    setEditingTranscriptRecording(null);
+    setTranscriptionModalOpen(true);
+  }
+
+  async function handleRetryProcessing(recording: Recording) {
+    const steps = getRetryableSteps(recording);
+    if (steps.length === 0) return;
+
+    setRetryingId(recording.id);
+
+    // 処理の完了は待たず、開始後にステータスを再取得する（以降は定期更新で反映される）
+    requestRecordingProcessing(recording.id, steps)
+      .catch((err) => {
+        console.error("後処理の再試行エラー:", err);
+      })
+      .finally(() => {
+        onUpdateRef.current?.();
+      });
+
+    setTimeout(async () => {
+      await onUpdateRef.current?.();
+      setRetryingId(null);
+    }, 1000);
+  }
+
+  async function handleReleaseQuarantine(recording: Recording) {
+    try {
+      setReleasingId(recording.id);
+      await releaseRecordingQuarantine(recording.id);
+      await onUpdateRef.current?.();
+    } catch (err) {
+      console.error("隔離の解除エラー:", err);
+      alert("隔離の解除に失敗しました");
+    } finally {
+      setReleasingId(null);
+    }
+  }
+
   async function handleVolumeAnalysisComplete() {
     // 音量最適化が完了したら、親コンポーネントに通知
     // これによりループ再生側でもLUFS値の更新を検出できる
@@ -542,7 +985,7 @@ export default function RecordingList({
               )}
             </Button>
             <Button
-              onClick={() => setTranscriptionModalOpen(true)}
+              onClick={openBulkTranscription}
               variant="outline"
               size="sm"
             >
@@ -586,12 +1029,48 @@ export default function RecordingList({
             )}
           </div>
         </div>
+        {recordings.length > 0 && (
+          <div className="flex gap-2 flex-wrap">
+            <Select
+              value={sortOrder}
+              onValueChange={(value) => setSortOrder(value as RecordingSortOrder)}
+            >
+              <SelectTrigger className="w-[180px]" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="playlist">再生順</SelectItem>
+                <SelectItem value="accuracy-asc">一致率が低い順</SelectItem>
+                <SelectItem value="accuracy-desc">一致率が高い順</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filter}
+              onValueChange={(value) => setFilter(value as RecordingFilter)}
+            >
+              <SelectTrigger className="w-[180px]" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">すべて</SelectItem>
+                <SelectItem value="low-accuracy">
+                  一致率が低い（{Math.round(LOW_ACCURACY_THRESHOLD * 100)}%未満）
+                </SelectItem>
+                <SelectItem value="no-transcription">文字起こしなし</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         {recordings.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             録音データがありません
           </div>
+        ) : displayedRecordings.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            条件に一致する録音はありません
+          </div>
         ) : (
           <DndContext
             sensors={sensors}
@@ -606,23 +1085,32 @@ export default function RecordingList({
                     <TableHead>作成日時</TableHead>
                     <TableHead>再生時間</TableHead>
                     <TableHead>文字起こし</TableHead>
+                    <TableHead>一致率</TableHead>
+                    <TableHead>処理状況</TableHead>
                     <TableHead className="text-right">操作</TableHead>
                   </TableRow>
                 </TableHeader>
                 <SortableContext
-                  items={recordings.map((r) => r.id)}
+                  items={displayedRecordings.map((r) => r.id)}
                   strategy={verticalListSortingStrategy}
                 >
                   <TableBody>
-                    {recordings.map((recording) => (
+                    {displayedRecordings.map((recording) => (
                       <SortableRow
                         key={recording.id}
                         recording={recording}
                         isDragEnabled={isDragEnabled}
                         playingId={playingId}
                         deletingId={deletingId}
+                        retryingId={retryingId}
+                        releasingId={releasingId}
                         handlePlay={handlePlay}
                         openDeleteDialog={openDeleteDialog}
+                        handleRetryProcessing={handleRetryProcessing}
+                        handleReleaseQuarantine={handleReleaseQuarantine}
+                        openTranscriptEditor={openTranscriptEditor}
+                        openPassageDiff={openPassageDiff}
+                        openTrimEditor={openTrimEditor}
                       />
                     ))}
                   </TableBody>
@@ -665,10 +1153,30 @@ export default function RecordingList({
       {/* 文字起こしモーダル */}
       <TranscriptionModal
         recordings={recordings}
+        playlistId={playlistId}
+        editingRecording={editingTranscriptRecording}
         open={transcriptionModalOpen}
         onOpenChange={setTranscriptionModalOpen}
         onTranscriptionComplete={onTranscriptionComplete}
       />
+
+      {/* 課題文との差分ダイアログ */}
+      <PassageDiffDialog
+        recording={diffRecording}
+        passage={
+          passages.find((p) => p.id === diffRecording?.passage_id) ?? null
+        }
+        open={passageDiffOpen}
+        onOpenChange={setPassageDiffOpen}
+      />
+
+      {/* 再生範囲の調整ダイアログ */}
+      <TrimEditorDialog
+        recording={trimRecording}
+        open={trimEditorOpen}
+        onOpenChange={setTrimEditorOpen}
+        onSaved={() => onUpdateRef.current?.()}
+      />
     </Card>
   );
 }
@@ -0,0 +1,555 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  getPlaylists,
+  getPlaylistSchedules,
+  getOpeningHours,
+  createPlaylistSchedule,
+  updatePlaylistSchedule,
+  deletePlaylistSchedule,
+} from '@/lib/supabase';
+import {
+  DAY_OF_WEEK_LABELS,
+  MINUTES_PER_DAY,
+  WEEK_DISPLAY_ORDER,
+  findOverlappingSchedule,
+  formatTime,
+  timeToMinutes,
+} from '@/lib/schedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, Clock, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { OpeningHoursDialog } from './OpeningHoursDialog';
+import type { OpeningHours, Playlist, PlaylistSchedule } from '@/lib/types';
+
+// プレイリストごとのタイムラインの色（プレイリスト一覧の順に割り当てる）
+const PLAYLIST_COLORS = [
+  'bg-blue-500',
+  'bg-emerald-500',
+  'bg-amber-500',
+  'bg-rose-500',
+  'bg-violet-500',
+  'bg-cyan-500',
+  'bg-lime-600',
+  'bg-fuchsia-500',
+];
+
+// タイムライン1時間あたりの高さ（px）
+const HOUR_HEIGHT = 28;
+
+// 現在時刻の表示を更新する間隔
+const NOW_TICK_INTERVAL = 60000;
+
+interface ScheduleForm {
+  playlistId: string;
+  days: number[];
+  startTime: string;
+  endTime: string;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  playlistId: '',
+  days: [],
+  startTime: '10:00',
+  endTime: '12:00',
+};
+
+/**
+ * タイムラインに表示する時間の範囲（分）を求める
+ * スケジュールと開館時間を含む範囲を1時間単位で表示し、何も設定されていない場合は終日を表示する
+ */
+function getTimelineRange(
+  schedules: PlaylistSchedule[],
+  openingHours: OpeningHours[]
+): { start: number; end: number } {
+  const times = [
+    ...schedules.flatMap((s) => [timeToMinutes(s.start_time), timeToMinutes(s.end_time)]),
+    ...openingHours.flatMap((h) => [timeToMinutes(h.open_time), timeToMinutes(h.close_time)]),
+  ];
+  if (times.length === 0) {
+    return { start: 0, end: MINUTES_PER_DAY };
+  }
+  return {
+    start: Math.max(0, Math.floor(Math.min(...times) / 60) * 60 - 60),
+    end: Math.min(MINUTES_PER_DAY, Math.ceil(Math.max(...times) / 60) * 60 + 60),
+  };
+}
+
+/**
+ * 再生スケジュールと開館時間を週間タイムラインで表示・編集するコンポーネント
+ * スケジュールの時間外は有効なプレイリストを再生します
+ */
+export function ScheduleManager() {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [schedules, setSchedules] = useState<PlaylistSchedule[]>([]);
+  const [openingHours, setOpeningHours] = useState<OpeningHours[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [now, setNow] = useState(() => new Date());
+
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<PlaylistSchedule | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [hoursDialogOpen, setHoursDialogOpen] = useState(false);
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  // 現在時刻の線を更新
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), NOW_TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  async function loadSchedule() {
+    try {
+      setIsLoading(true);
+      setError('');
+      const [playlistsData, schedulesData, hoursData] = await Promise.all([
+        getPlaylists(),
+        getPlaylistSchedules(),
+        getOpeningHours(),
+      ]);
+      setPlaylists(playlistsData);
+      setSchedules(schedulesData);
+      setOpeningHours(hoursData);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'スケジュールの取得に失敗しました';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const playlistColors = useMemo(
+    () => new Map(playlists.map((p, i) => [p.id, PLAYLIST_COLORS[i % PLAYLIST_COLORS.length]])),
+    [playlists]
+  );
+  const playlistNames = useMemo(() => new Map(playlists.map((p) => [p.id, p.name])), [playlists]);
+  const activePlaylist = playlists.find((p) => p.is_active) ?? null;
+  const scheduledPlaylists = playlists.filter((p) => schedules.some((s) => s.playlist_id === p.id));
+
+  const range = getTimelineRange(schedules, openingHours);
+  const rangeMinutes = range.end - range.start;
+  const timelineHeight = (rangeMinutes / 60) * HOUR_HEIGHT;
+  const hourMarks = Array.from({ length: rangeMinutes / 60 + 1 }, (_, i) => range.start + i * 60);
+
+  // 分数をタイムライン上の位置（px）に変換する
+  function toOffset(minutes: number): number {
+    return ((Math.min(Math.max(minutes, range.start), range.end) - range.start) / 60) * HOUR_HEIGHT;
+  }
+
+  function openCreateDialog(day?: number) {
+    setEditingSchedule(null);
+    setForm({
+      ...EMPTY_FORM,
+      playlistId: activePlaylist?.id ?? playlists[0]?.id ?? '',
+      days: day !== undefined ? [day] : [],
+    });
+    setFormError('');
+    setEditDialogOpen(true);
+  }
+
+  function openEditDialog(schedule: PlaylistSchedule) {
+    setEditingSchedule(schedule);
+    setForm({
+      playlistId: schedule.playlist_id,
+      days: [schedule.day_of_week],
+      startTime: formatTime(schedule.start_time),
+      endTime: formatTime(schedule.end_time),
+    });
+    setFormError('');
+    setEditDialogOpen(true);
+  }
+
+  function toggleDay(day: number) {
+    setForm((prev) => {
+      // 既存のスケジュールの編集時は1つの曜日のみ選択できる
+      if (editingSchedule) {
+        return { ...prev, days: [day] };
+      }
+      return {
+        ...prev,
+        days: prev.days.includes(day) ? prev.days.filter((d) => d !== day) : [...prev.days, day],
+      };
+    });
+  }
+
+  async function handleSave() {
+    if (!form.playlistId) {
+      setFormError('プレイリストを選択してください');
+      return;
+    }
+    if (form.days.length === 0) {
+      setFormError('曜日を選択してください');
+      return;
+    }
+    if (!(timeToMinutes(form.startTime) < timeToMinutes(form.endTime))) {
+      setFormError('終了時刻は開始時刻より後にしてください（日付をまたぐ場合は2つに分けてください）');
+      return;
+    }
+    for (const day of form.days) {
+      const overlap = findOverlappingSchedule(
+        schedules,
+        day,
+        form.startTime,
+        form.endTime,
+        editingSchedule?.id
+      );
+      if (overlap) {
+        setFormError(
+          `${DAY_OF_WEEK_LABELS[day]}曜日の${formatTime(overlap.start_time)}〜${formatTime(overlap.end_time)}と重なっています`
+        );
+        return;
+      }
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError('');
+      if (editingSchedule) {
+        await updatePlaylistSchedule(editingSchedule.id, {
+          playlist_id: form.playlistId,
+          day_of_week: form.days[0],
+          start_time: form.startTime,
+          end_time: form.endTime,
+        });
+      } else {
+        for (const day of form.days) {
+          await createPlaylistSchedule(form.playlistId, day, form.startTime, form.endTime);
+        }
+      }
+      setEditDialogOpen(false);
+      await loadSchedule();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setFormError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!editingSchedule) return;
+
+    try {
+      setIsSaving(true);
+      await deletePlaylistSchedule(editingSchedule.id);
+      setEditDialogOpen(false);
+      await loadSchedule();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setFormError(`削除に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const today = now.getDay();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between flex-wrap gap-2">
+            <span className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              再生スケジュール
+            </span>
+            <div className="flex gap-2">
+              <Button onClick={() => setHoursDialogOpen(true)} variant="outline" size="sm">
+                <Clock className="mr-2 h-4 w-4" />
+                開館時間
+              </Button>
+              <Button
+                onClick={() => openCreateDialog()}
+                variant="outline"
+                size="sm"
+                disabled={playlists.length === 0}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                追加
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading && playlists.length === 0 ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              {/* 凡例 */}
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                {scheduledPlaylists.map((playlist) => (
+                  <span key={playlist.id} className="flex items-center gap-1">
+                    <span className={`h-3 w-3 rounded-sm ${playlistColors.get(playlist.id)}`} />
+                    {playlist.name}
+                  </span>
+                ))}
+                <span>
+                  スケジュール外: {activePlaylist ? activePlaylist.name : '再生しない（有効なプレイリストなし）'}
+                </span>
+                {openingHours.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <span className="h-3 w-3 rounded-sm border bg-muted" />
+                    閉館時間
+                  </span>
+                )}
+              </div>
+
+              {/* 週間タイムライン */}
+              <div className="overflow-x-auto">
+                <div className="grid grid-cols-[3rem_repeat(7,minmax(5rem,1fr))] min-w-[40rem]">
+                  <div />
+                  {WEEK_DISPLAY_ORDER.map((day) => (
+                    <div
+                      key={day}
+                      className={`text-center text-sm pb-2 ${day === today ? 'font-bold text-primary' : 'font-medium'}`}
+                    >
+                      {DAY_OF_WEEK_LABELS[day]}
+                    </div>
+                  ))}
+
+                  {/* 時刻の目盛り */}
+                  <div className="relative" style={{ height: timelineHeight }}>
+                    {hourMarks.map((minutes) => (
+                      <span
+                        key={minutes}
+                        className="absolute right-2 -translate-y-1/2 text-xs text-muted-foreground"
+                        style={{ top: toOffset(minutes) }}
+                      >
+                        {Math.floor(minutes / 60)}:00
+                      </span>
+                    ))}
+                  </div>
+
+                  {WEEK_DISPLAY_ORDER.map((day) => {
+                    const hours = openingHours.find((h) => h.day_of_week === day);
+                    const isClosedAllDay = openingHours.length > 0 && !hours;
+                    return (
+                      <div
+                        key={day}
+                        className={`relative border-l ${openingHours.length > 0 ? 'bg-muted' : ''}`}
+                        style={{ height: timelineHeight }}
+                        onDoubleClick={() => openCreateDialog(day)}
+                      >
+                        {/* 開館時間 */}
+                        {hours && (
+                          <div
+                            className="absolute inset-x-0 bg-background"
+                            style={{
+                              top: toOffset(timeToMinutes(hours.open_time)),
+                              height:
+                                toOffset(timeToMinutes(hours.close_time)) -
+                                toOffset(timeToMinutes(hours.open_time)),
+                            }}
+                          />
+                        )}
+                        {isClosedAllDay && (
+                          <span className="absolute inset-x-0 top-2 text-center text-xs text-muted-foreground">
+                            休館日
+                          </span>
+                        )}
+
+                        {/* 1時間ごとの線 */}
+                        {hourMarks.map((minutes) => (
+                          <div
+                            key={minutes}
+                            className="absolute inset-x-0 border-t border-dashed border-border/60"
+                            style={{ top: toOffset(minutes) }}
+                          />
+                        ))}
+
+                        {/* スケジュール */}
+                        {schedules
+                          .filter((s) => s.day_of_week === day)
+                          .map((schedule) => {
+                            const top = toOffset(timeToMinutes(schedule.start_time));
+                            const height = toOffset(timeToMinutes(schedule.end_time)) - top;
+                            return (
+                              <button
+                                key={schedule.id}
+                                type="button"
+                                onClick={() => openEditDialog(schedule)}
+                                onDoubleClick={(e) => e.stopPropagation()}
+                                className={`absolute inset-x-1 overflow-hidden rounded px-1 text-left text-xs text-white shadow-sm hover:opacity-90 ${playlistColors.get(schedule.playlist_id) ?? 'bg-gray-500'}`}
+                                style={{ top, height }}
+                                title={`${playlistNames.get(schedule.playlist_id) ?? ''} ${formatTime(schedule.start_time)}〜${formatTime(schedule.end_time)}`}
+                              >
+                                <div className="truncate font-medium">
+                                  {playlistNames.get(schedule.playlist_id)}
+                                </div>
+                                <div className="truncate opacity-90">
+                                  {formatTime(schedule.start_time)}〜{formatTime(schedule.end_time)}
+                                </div>
+                              </button>
+                            );
+                          })}
+
+                        {/* 現在時刻 */}
+                        {day === today && nowMinutes >= range.start && nowMinutes <= range.end && (
+                          <div
+                            className="pointer-events-none absolute inset-x-0 border-t-2 border-red-500"
+                            style={{ top: toOffset(nowMinutes) }}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                時刻は再生端末の時計で判定します。時間帯をクリックすると編集、空いている場所をダブルクリックすると追加できます
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* スケジュール追加・編集ダイアログ */}
+      <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? 'スケジュールを編集' : 'スケジュールを追加'}</DialogTitle>
+            <DialogDescription>
+              指定した時間帯に再生するプレイリストを設定します。再生中の録音が終わってから切り替わります
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>プレイリスト</Label>
+              <Select
+                value={form.playlistId || undefined}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, playlistId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="プレイリストを選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {playlists.map((playlist) => (
+                    <SelectItem key={playlist.id} value={playlist.id}>
+                      {playlist.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>曜日</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEK_DISPLAY_ORDER.map((day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={form.days.includes(day) ? 'default' : 'outline'}
+                    onClick={() => toggleDay(day)}
+                    className="w-10"
+                  >
+                    {DAY_OF_WEEK_LABELS[day]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-start-time">開始時刻</Label>
+                <Input
+                  id="schedule-start-time"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-end-time">終了時刻</Label>
+                <Input
+                  id="schedule-end-time"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm((prev) => ({ ...prev, endTime: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {formError && (
+              <Alert variant="destructive">
+                <AlertDescription>{formError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter className="sm:justify-between">
+            <div>
+              {editingSchedule && (
+                <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  削除
+                </Button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setEditDialogOpen(false)} disabled={isSaving}>
+                キャンセル
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    保存中...
+                  </>
+                ) : (
+                  <>
+                    <Save className="mr-2 h-4 w-4" />
+                    保存
+                  </>
+                )}
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <OpeningHoursDialog
+        openingHours={openingHours}
+        open={hoursDialogOpen}
+        onOpenChange={setHoursDialogOpen}
+        onSaved={loadSchedule}
+      />
+    </>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AudioLines, Loader2, Play, Save, Square } from 'lucide-react';
+import { getRecordingUrl, updateRecordingTrim } from '@/lib/supabase';
+import { detectVoiceBoundaries, getTrimRange } from '@/lib/trim';
+import type { Recording } from '@/lib/types';
+
+interface TrimEditorDialogProps {
+  recording: Recording | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// 波形の表示サイズ
+const WAVEFORM_WIDTH = 480;
+const WAVEFORM_HEIGHT = 64;
+
+// 秒数の入力値を数値に変換する（不正な値はNaN）
+function parseSeconds(value: string): number {
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : NaN;
+}
+
+/**
+ * 録音ファイルをブラウザでデコードし、音声区間を検出する
+ */
+async function detectRecordingBoundaries(recording: Recording) {
+  const response = await fetch(getRecordingUrl(recording.file_path));
+  if (!response.ok) {
+    throw new Error(`ファイルの取得に失敗しました: ${response.status}`);
+  }
+
+  const audioContext = new AudioContext();
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      channels.push(audioBuffer.getChannelData(channel));
+    }
+    return { trim: detectVoiceBoundaries(channels, audioBuffer.sampleRate), duration: audioBuffer.duration };
+  } finally {
+    await audioContext.close();
+  }
+}
+
+/**
+ * 録音の再生範囲（前後の無音を除いたイン点・アウト点）を調整するダイアログ
+ * 調整した範囲はループ再生に反映され、再解析しても自動検出の範囲で上書きされません
+ */
+export function TrimEditorDialog({ recording, open, onOpenChange, onSaved }: TrimEditorDialogProps) {
+  const [duration, setDuration] = useState(0);
+  const [start, setStart] = useState('0');
+  const [end, setEnd] = useState('0');
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState('');
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+  // ダイアログを開くたびに現在の再生範囲で初期化する
+  useEffect(() => {
+    if (!open || !recording) return;
+
+    const recordingDuration = recording.duration ?? 0;
+    const range = getTrimRange(recording, recordingDuration);
+    setDuration(recordingDuration);
+    setStart(String(range.start));
+    setEnd(String(range.end));
+    setError('');
+  }, [open, recording]);
+
+  // ダイアログを閉じたら試聴を止める
+  useEffect(() => {
+    if (!open) {
+      stopPreview();
+    }
+  }, [open]);
+
+  const startSeconds = parseSeconds(start);
+  const endSeconds = parseSeconds(end);
+  const isValid =
+    Number.isFinite(startSeconds) &&
+    Number.isFinite(endSeconds) &&
+    startSeconds < endSeconds &&
+    (duration === 0 || endSeconds <= duration);
+
+  function stopPreview() {
+    const audio = previewAudioRef.current;
+    if (audio) {
+      audio.ontimeupdate = null;
+      audio.onended = null;
+      audio.pause();
+      previewAudioRef.current = null;
+    }
+    setIsPreviewing(false);
+  }
+
+  function startPreview() {
+    if (!recording || !isValid) return;
+    stopPreview();
+
+    const audio = new Audio(`${getRecordingUrl(recording.file_path)}#t=${startSeconds}`);
+    audio.ontimeupdate = () => {
+      if (audio.currentTime >= endSeconds) {
+        stopPreview();
+      }
+    };
+    audio.onended = stopPreview;
+    previewAudioRef.current = audio;
+    setIsPreviewing(true);
+    audio.play().catch((err) => {
+      console.error('試聴の再生に失敗:', err);
+      stopPreview();
+    });
+  }
+
+  async function handleDetect() {
+    if (!recording) return;
+
+    try {
+      setIsDetecting(true);
+      setError('');
+      const result = await detectRecordingBoundaries(recording);
+      if (duration === 0) {
+        setDuration(result.duration);
+      }
+      if (!result.trim) {
+        setError('声を検出できませんでした');
+        return;
+      }
+      setStart(String(result.trim.start));
+      setEnd(String(result.trim.end));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`検出に失敗しました: ${message}`);
+    } finally {
+      setIsDetecting(false);
+    }
+  }
+
+  async function handleSave() {
+    if (!recording || !isValid) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      await updateRecordingTrim(recording.id, { start: startSeconds, end: endSeconds });
+      onSaved();
+      onOpenChange(false);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '不明なエラー';
+      setError(`保存に失敗しました: ${message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const waveform = recording?.waveform ?? [];
+  const barWidth = waveform.length > 0 ? WAVEFORM_WIDTH / waveform.length : 0;
+  const toX = (seconds: number) =>
+    duration > 0 ? Math.min(WAVEFORM_WIDTH, Math.max(0, (seconds / duration) * WAVEFORM_WIDTH)) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>再生範囲の調整</DialogTitle>
+          <DialogDescription>
+            録音の前後の無音を除いて再生します。ファイルは変更されません
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* 波形と再生範囲 */}
+          {duration > 0 && waveform.length > 0 && (
+            <svg
+              viewBox={`0 0 ${WAVEFORM_WIDTH} ${WAVEFORM_HEIGHT}`}
+              className="w-full h-16 rounded border bg-muted/30 text-muted-foreground"
+              preserveAspectRatio="none"
+            >
+              {waveform.map((peak, i) => {
+                const barHeight = Math.max(1, peak * WAVEFORM_HEIGHT);
+                return (
+                  <rect
+                    key={i}
+                    x={i * barWidth}
+                    y={(WAVEFORM_HEIGHT - barHeight) / 2}
+                    width={Math.max(1, barWidth - 0.5)}
+                    height={barHeight}
+                    fill="currentColor"
+                  />
+                );
+              })}
+              {Number.isFinite(startSeconds) && (
+                <rect x={0} y={0} width={toX(startSeconds)} height={WAVEFORM_HEIGHT} className="fill-background/70" />
+              )}
+              {Number.isFinite(endSeconds) && (
+                <rect
+                  x={toX(endSeconds)}
+                  y={0}
+                  width={WAVEFORM_WIDTH - toX(endSeconds)}
+                  height={WAVEFORM_HEIGHT}
+                  className="fill-background/70"
+                />
+              )}
+            </svg>
+          )}
+
+          {duration > 0 && (
+            <div className="space-y-2">
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={Number.isFinite(startSeconds) ? startSeconds : 0}
+                onChange={(e) => setStart(e.target.value)}
+                className="w-full"
+                aria-label="開始位置"
+              />
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={0.01}
+                value={Number.isFinite(endSeconds) ? endSeconds : duration}
+                onChange={(e) => setEnd(e.target.value)}
+                className="w-full"
+                aria-label="終了位置"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trim-start">開始位置（秒）</Label>
+              <Input
+                id="trim-start"
+                type="number"
+                min={0}
+                step={0.01}
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="trim-end">終了位置（秒）</Label>
+              <Input
+                id="trim-end"
+                type="number"
+                min={0}
+                step={0.01}
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {duration > 0 && (
+            <p className="text-xs text-muted-foreground">
+              録音の長さ: {duration.toFixed(2)}秒
+              {isValid && ` / 再生する長さ: ${(endSeconds - startSeconds).toFixed(2)}秒`}
+              {recording?.trim_adjusted ? '（調整済み）' : '（自動検出）'}
+            </p>
+          )}
+
+          {!isValid && (
+            <p className="text-sm text-destructive">開始位置は終了位置より前、終了位置は録音の長さ以内にしてください</p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={isPreviewing ? stopPreview : startPreview}
+              disabled={!isValid}
+            >
+              {isPreviewing ? (
+                <>
+                  <Square className="mr-1 h-3 w-3" />
+                  停止
+                </>
+              ) : (
+                <>
+                  <Play className="mr-1 h-3 w-3" />
+                  範囲を試聴
+                </>
+              )}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDetect} disabled={isDetecting}>
+              {isDetecting ? (
+                <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+              ) : (
+                <AudioLines className="mr-1 h-3 w-3" />
+              )}
+              自動検出
+            </Button>
+            {duration > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setStart('0');
+                  setEnd(String(duration));
+                }}
+              >
+                全体を再生
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            キャンセル
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !isValid}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
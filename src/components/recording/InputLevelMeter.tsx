@@ -0,0 +1,60 @@
+'use client';
+
+import { AlertTriangle, Volume1 } from 'lucide-react';
+import type { InputLevel } from '@/hooks/useRecorder';
+
+// メーターの表示範囲（dBFS）
+const METER_MIN_DB = -60;
+
+interface InputLevelMeterProps {
+  level: InputLevel | null;
+  isClipping: boolean;
+  isTooQuiet: boolean;
+}
+
+/**
+ * リニア値のレベルをメーターの表示位置（0〜100%）に変換する
+ */
+function toMeterPercent(value: number): number {
+  if (value <= 0) return 0;
+  const db = 20 * Math.log10(value);
+  return Math.min(100, Math.max(0, ((db - METER_MIN_DB) / -METER_MIN_DB) * 100));
+}
+
+/**
+ * 録音中の入力レベルメーター
+ * RMSをバーで、ピークを縦線で表示し、クリッピングと音量不足を警告します
+ */
+export function InputLevelMeter({ level, isClipping, isTooQuiet }: InputLevelMeterProps) {
+  const rmsPercent = toMeterPercent(level?.rms ?? 0);
+  const peakPercent = toMeterPercent(level?.peak ?? 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-3 w-full overflow-hidden rounded-full bg-muted">
+        <div
+          className={`h-full transition-[width] duration-75 ${
+            isClipping ? 'bg-red-500' : rmsPercent > 80 ? 'bg-yellow-500' : 'bg-green-500'
+          }`}
+          style={{ width: `${rmsPercent}%` }}
+        />
+        <div
+          className={`absolute top-0 h-full w-0.5 ${isClipping ? 'bg-red-600' : 'bg-foreground/60'}`}
+          style={{ left: `calc(${peakPercent}% - 1px)` }}
+        />
+      </div>
+
+      {isClipping ? (
+        <p className="flex items-center gap-1 text-sm font-medium text-red-600 dark:text-red-400">
+          <AlertTriangle className="h-4 w-4" />
+          音が割れています。マイクから少し離れてください
+        </p>
+      ) : isTooQuiet ? (
+        <p className="flex items-center gap-1 text-sm font-medium text-yellow-700 dark:text-yellow-400">
+          <Volume1 className="h-4 w-4" />
+          声が小さいようです。マイクに近づいてください
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 'use client';
 
 import { useRecorder } from '@/hooks/useRecorder';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
 import { useEffect, useState, useCallback } from 'react';
-import { uploadRecording, addRecordingToPlaylist } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -12,32 +12,63 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2, Mic, Square, Send, CheckCircle2 } from 'lucide-react';
-import type { Recording } from '@/lib/types';
+import { Loader2, Mic, Square, Send, CheckCircle2, BookOpen, SkipForward, AlertTriangle, CloudUpload } from 'lucide-react';
+import { InputLevelMeter } from './InputLevelMeter';
+import type { Passage, PlaylistVoiceActivationSettings, Recording } from '@/lib/types';
 
 interface RecorderProps {
   playlistId: string;
+  passages?: Passage[];
+  voiceActivation?: PlaylistVoiceActivationSettings | null;
   onRecordingAdded?: (recording: Recording) => void;
 }
 
 /**
  * 録音コンポーネント
+ * 課題文がある場合は読み上げる文章を表示し、録音ごとに順番に切り替えます
+ * 音声で録音を開始する設定の場合、録音開始ボタンで待機し、話しはじめると録音を開始します
  */
-export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
+export function Recorder({ playlistId, passages = [], voiceActivation, onRecordingAdded }: RecorderProps) {
   const {
     state,
     recordedBlob,
     duration,
+    error,
     availableDevices,
     selectedDeviceId,
+    inputLevel,
+    isClipping,
+    hasClipped,
+    isTooQuiet,
+    volumeMetadata,
+    voiceBoundaries,
     startRecording,
     stopRecording,
     reset,
     setSelectedDevice,
     loadDevices,
-  } = useRecorder();
+  } = useRecorder({ voiceActivation });
 
   const [uploadState, setUploadState] = useState<'idle' | 'uploading' | 'success'>('idle');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // 録音は端末に保存してから送信する（通信が切れても録音を失わないため）
+  const { pendingCount, lastError: uploadError, enqueue } = useUploadQueue({
+    onUploaded: (recording, recordingPlaylistId) => {
+      // 親コンポーネントに通知（ページ全体のリフレッシュを避ける）
+      if (recordingPlaylistId === playlistId) {
+        onRecordingAdded?.(recording);
+      }
+    },
+  });
+  const [passageIndex, setPassageIndex] = useState(0);
+
+  const currentPassage = passages.length > 0 ? passages[passageIndex % passages.length] : null;
+
+  // 次の課題文に切り替える
+  const showNextPassage = useCallback(() => {
+    setPassageIndex((prev) => prev + 1);
+  }, []);
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -48,47 +79,43 @@ export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
   const handleNewRecording = useCallback(() => {
     reset();
     setUploadState('idle');
+    setSaveError(null);
   }, [reset]);
 
   const handleUpload = useCallback(async () => {
     if (!recordedBlob) return;
 
     setUploadState('uploading');
+    setSaveError(null);
 
     try {
-      // 録音をアップロード（プレイリストIDを渡して専用ディレクトリに保存）
-      const recording: Recording = await uploadRecording(
-        recordedBlob,
+      // 録音をアップロードキューに保存（送信・プレイリストへの追加・後処理の開始はキューが行う）
+      // 録音中に計測した音量メタデータを渡し、サーバーでの音量解析を省略する
+      await enqueue({
+        blob: recordedBlob,
         duration,
-        undefined,
-        playlistId
-      );
-
-      // プレイリストに録音を追加
-      if (playlistId && recording) {
-        try {
-          await addRecordingToPlaylist(playlistId, recording.id);
-          // 親コンポーネントに通知（ページ全体のリフレッシュを避ける）
-          onRecordingAdded?.(recording);
-        } catch (error) {
-          console.error('プレイリストへの追加に失敗:', error);
-        }
-      }
+        playlistId,
+        volumeMetadata,
+        passageId: currentPassage?.id ?? null,
+        trim: voiceBoundaries,
+      });
 
       setUploadState('success');
 
+      // 次の来場者には次の課題文を表示する
+      showNextPassage();
+
       // 2秒後に自動的にリセット
       setTimeout(() => {
         handleNewRecording();
       }, 2000);
     } catch (error) {
-      console.error('アップロードエラー:', error);
-      // エラーが発生してもリセットして次の録音を受け付ける
-      setTimeout(() => {
-        handleNewRecording();
-      }, 2000);
+      // 端末に保存できなかった場合は録音を残し、もう一度アップロードできるようにする
+      console.error('録音の保存に失敗:', error);
+      setSaveError('録音を保存できませんでした。もう一度アップロードしてください');
+      setUploadState('idle');
     }
-  }, [recordedBlob, duration, playlistId, handleNewRecording, onRecordingAdded]);
+  }, [recordedBlob, duration, volumeMetadata, voiceBoundaries, playlistId, currentPassage, enqueue, handleNewRecording, showNextPassage]);
 
   const handleStartRecording = useCallback(() => {
     if (state === 'stopped') {
@@ -114,7 +141,7 @@ export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
       switch (e.key.toLowerCase()) {
         case 's':
           e.preventDefault();
-          if (state === 'recording') {
+          if (state === 'recording' || state === 'armed') {
             stopRecording();
           } else if (state === 'idle' || state === 'stopped') {
             handleStartRecording();
@@ -179,19 +206,71 @@ export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
           </div>
         )}
 
+        {/* 送信待ちの録音（通信が回復すると自動的に送信する） */}
+        {pendingCount > 0 && (
+          <div className="flex items-start gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">
+            <CloudUpload className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="font-medium">送信待ちの録音: {pendingCount}件</p>
+              {uploadError && (
+                <p className="text-xs">送信に失敗したため、時間をおいて自動的に再送します（{uploadError}）</p>
+              )}
+            </div>
+          </div>
+        )}
+
         {uploadState === 'uploading' && (
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
             <div className="flex items-center gap-2">
               <Loader2 className="h-5 w-5 animate-spin text-blue-600 dark:text-blue-400" />
               <p className="text-sm font-medium text-blue-800 dark:text-blue-300">
-                アップロード中...
+                保存中...
               </p>
             </div>
           </div>
         )}
 
+        {/* 課題文 */}
+        {currentPassage && (
+          <div className="rounded-lg border bg-muted/40 p-4 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+                <BookOpen className="h-4 w-4 flex-shrink-0" />
+                <span className="truncate">{currentPassage.title || '課題文'}</span>
+                {passages.length > 1 && (
+                  <span className="flex-shrink-0">
+                    （{(passageIndex % passages.length) + 1} / {passages.length}）
+                  </span>
+                )}
+              </div>
+              {passages.length > 1 && uploadState === 'idle' && state === 'idle' && (
+                <Button onClick={showNextPassage} variant="ghost" size="sm">
+                  <SkipForward className="mr-1 h-4 w-4" />
+                  次の課題文
+                </Button>
+              )}
+            </div>
+            <p className="text-lg leading-relaxed whitespace-pre-wrap">{currentPassage.body}</p>
+          </div>
+        )}
+
         {uploadState === 'idle' && (
           <>
+            {/* 声の待機中の表示 */}
+            {state === 'armed' && (
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+                <div className="flex items-center gap-3">
+                  <Mic className="h-5 w-5 animate-pulse text-blue-600 dark:text-blue-400" />
+                  <p className="text-sm font-medium text-blue-800 dark:text-blue-300">
+                    話しはじめると録音が始まります
+                  </p>
+                </div>
+                <div className="mt-3">
+                  <InputLevelMeter level={inputLevel} isClipping={false} isTooQuiet={false} />
+                </div>
+              </div>
+            )}
+
             {/* 録音中の表示 */}
             {state === 'recording' && (
               <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
@@ -206,8 +285,16 @@ export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
                     <p className="text-2xl font-mono font-bold text-red-900 dark:text-red-100">
                       {formatDuration(duration)}
                     </p>
+                    {voiceActivation?.voice_activation && (
+                      <p className="text-xs text-red-700 dark:text-red-400">
+                        話し終えると自動的に停止します
+                      </p>
+                    )}
                   </div>
                 </div>
+                <div className="mt-3">
+                  <InputLevelMeter level={inputLevel} isClipping={isClipping} isTooQuiet={isTooQuiet} />
+                </div>
               </div>
             )}
 
@@ -225,9 +312,29 @@ export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
                     </p>
                   </div>
                 </div>
+                {hasClipped && (
+                  <p className="mt-3 flex items-center gap-1 text-sm text-yellow-700 dark:text-yellow-400">
+                    <AlertTriangle className="h-4 w-4" />
+                    録音中に音割れがありました。必要に応じて再録音してください
+                  </p>
+                )}
               </div>
             )}
 
+            {saveError && (
+              <p className="flex items-center gap-1 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {saveError}
+              </p>
+            )}
+
+            {state === 'idle' && error && (
+              <p className="flex items-center gap-1 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+
             {/* ボタン */}
             <div className="flex gap-2">
               {(state === 'idle' || state === 'stopped') && (
@@ -253,6 +360,18 @@ export function Recorder({ playlistId, onRecordingAdded }: RecorderProps) {
                 </Button>
               )}
 
+              {state === 'armed' && (
+                <Button
+                  onClick={stopRecording}
+                  variant="outline"
+                  size="default"
+                  className="flex-1"
+                >
+                  <Square className="mr-2 h-4 w-4" />
+                  キャンセル
+                </Button>
+              )}
+
               {state === 'stopped' && (
                 <Button
                   onClick={handleUpload}
@@ -0,0 +1,413 @@
+'use client';
+
+import { useRecorder } from '@/hooks/useRecorder';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import { toVoiceActivationSettings } from '@/lib/voice-activation';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CloudUpload, Loader2, Mic, RotateCcw, Send, Square } from 'lucide-react';
+import { InputLevelMeter } from './InputLevelMeter';
+import type { Passage, Playlist } from '@/lib/types';
+
+// 録音の流れ（案内 → カウントダウン → 録音 → 確認 → 送信 → お礼）
+type KioskStep = 'instructions' | 'countdown' | 'recording' | 'preview' | 'submitting' | 'thanks' | 'error';
+
+// 録音開始までのカウントダウン（秒）
+const COUNTDOWN_SECONDS = 3;
+// 確認画面で操作がない場合に最初に戻るまでの時間（録音は破棄する）
+const PREVIEW_IDLE_TIMEOUT = 45000;
+// お礼・エラー画面を表示する時間
+const THANKS_DISPLAY_TIME = 6000;
+const ERROR_DISPLAY_TIME = 8000;
+
+// 選択したマイクを保存するlocalStorageのキー
+const MICROPHONE_STORAGE_KEY = 'monoshaka:kiosk-microphone';
+
+interface RecordingKioskProps {
+  playlist: Playlist;
+  passages?: Passage[];
+  // 最初の画面に戻ったとき（有効なプレイリストの再取得などに使用）
+  onReset?: () => void;
+}
+
+/**
+ * 来場者向けの録音キオスク
+ * 1つのボタン（sキーまたはEnterキー）だけで、案内から送信までの流れを進められます
+ * プレイリストで音声による録音の開始・停止が有効な場合は、話しはじめると録音し、話し終えると自動的に止まります
+ */
+export function RecordingKiosk({ playlist, passages = [], onReset }: RecordingKioskProps) {
+  const voiceActivation = useMemo(() => toVoiceActivationSettings(playlist), [playlist]);
+  const isVoiceActivated = voiceActivation.voice_activation;
+
+  const {
+    state,
+    recordedBlob,
+    recordedUrl,
+    duration,
+    error: recorderError,
+    availableDevices,
+    selectedDeviceId,
+    inputLevel,
+    isClipping,
+    isTooQuiet,
+    volumeMetadata,
+    voiceBoundaries,
+    startRecording,
+    stopRecording,
+    reset,
+    setSelectedDevice,
+    loadDevices,
+  } = useRecorder({ voiceActivation });
+
+  // 録音は端末に保存してから送信する（通信が切れても来場者の録音を失わないため）
+  const { pendingCount, enqueue } = useUploadQueue();
+
+  const [step, setStep] = useState<KioskStep>('instructions');
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [passageIndex, setPassageIndex] = useState(0);
+  const [errorMessage, setErrorMessage] = useState('');
+  // 最後に操作した時刻（確認画面の自動リセットを延長するため）
+  const [lastActivity, setLastActivity] = useState(() => Date.now());
+  const stepRef = useRef<KioskStep>(step);
+
+  const currentPassage = passages.length > 0 ? passages[passageIndex % passages.length] : null;
+
+  useEffect(() => {
+    stepRef.current = step;
+  }, [step]);
+
+  // 保存されたマイクを選択する（見つからない場合はuseRecorderが選んだ先頭のマイク）
+  useEffect(() => {
+    const savedDeviceId = localStorage.getItem(MICROPHONE_STORAGE_KEY);
+    if (savedDeviceId && availableDevices.some((d) => d.deviceId === savedDeviceId)) {
+      setSelectedDevice(savedDeviceId);
+    }
+  }, [availableDevices, setSelectedDevice]);
+
+  function handleDeviceChange(deviceId: string) {
+    setSelectedDevice(deviceId);
+    localStorage.setItem(MICROPHONE_STORAGE_KEY, deviceId);
+  }
+
+  const formatDuration = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  // 最初の画面に戻る
+  const resetToInstructions = useCallback(() => {
+    reset();
+    setErrorMessage('');
+    setStep('instructions');
+    onReset?.();
+  }, [reset, onReset]);
+
+  const beginCountdown = useCallback(() => {
+    reset();
+    setCountdown(COUNTDOWN_SECONDS);
+    setStep('countdown');
+  }, [reset]);
+
+  // カウントダウンが終わったら録音を開始する
+  useEffect(() => {
+    if (step !== 'countdown') return;
+
+    if (countdown <= 0) {
+      setStep('recording');
+      startRecording();
+      return;
+    }
+
+    const timer = setTimeout(() => setCountdown((prev) => prev - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [step, countdown, startRecording]);
+
+  // 録音が停止したら確認画面へ（最大録音時間での自動停止を含む）
+  useEffect(() => {
+    if (step === 'recording' && state === 'stopped' && recordedBlob) {
+      setStep('preview');
+      setLastActivity(Date.now());
+    }
+  }, [step, state, recordedBlob]);
+
+  // マイクが使えない場合はエラー画面を表示する
+  useEffect(() => {
+    if (step === 'recording' && recorderError) {
+      setErrorMessage(recorderError);
+      setStep('error');
+    }
+  }, [step, recorderError]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!recordedBlob) return;
+
+    setStep('submitting');
+
+    try {
+      // 送信・プレイリストへの追加・後処理の開始はアップロードキューが行う
+      await enqueue({
+        blob: recordedBlob,
+        duration,
+        playlistId: playlist.id,
+        volumeMetadata,
+        passageId: currentPassage?.id ?? null,
+        trim: voiceBoundaries,
+      });
+
+      // 次の来場者には次の課題文を表示する
+      setPassageIndex((prev) => prev + 1);
+      setStep('thanks');
+    } catch (error) {
+      console.error('録音の保存に失敗:', error);
+      setErrorMessage('送信できませんでした。お手数ですが、もう一度お試しください。');
+      setStep('error');
+    }
+  }, [recordedBlob, duration, volumeMetadata, voiceBoundaries, playlist.id, currentPassage, enqueue]);
+
+  // 確認画面で操作がない場合は録音を破棄して最初に戻る
+  useEffect(() => {
+    if (step !== 'preview') return;
+
+    const timer = setTimeout(resetToInstructions, PREVIEW_IDLE_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [step, lastActivity, resetToInstructions]);
+
+  // お礼・エラー画面は一定時間後に最初に戻る
+  useEffect(() => {
+    if (step !== 'thanks' && step !== 'error') return;
+
+    const timer = setTimeout(
+      resetToInstructions,
+      step === 'thanks' ? THANKS_DISPLAY_TIME : ERROR_DISPLAY_TIME
+    );
+    return () => clearTimeout(timer);
+  }, [step, resetToInstructions]);
+
+  // ボタン（sキー・Enterキー）を押したときに、現在の画面の次に進む
+  const handlePrimaryAction = useCallback(() => {
+    setLastActivity(Date.now());
+
+    switch (stepRef.current) {
+      case 'instructions':
+        beginCountdown();
+        break;
+      case 'recording':
+        if (state === 'recording') {
+          stopRecording();
+        } else if (state === 'armed') {
+          // 声を待っている間にボタンを押した場合は、録音をやめて最初に戻る
+          resetToInstructions();
+        }
+        break;
+      case 'preview':
+        handleSubmit();
+        break;
+      case 'thanks':
+      case 'error':
+        resetToInstructions();
+        break;
+    }
+  }, [state, beginCountdown, stopRecording, handleSubmit, resetToInstructions]);
+
+  // キーボードショートカット（物理ボタンはsキーまたはEnterキーに割り当てる）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      // 長押しによるリピートイベントを無視
+      if (e.repeat) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 's' || key === 'enter') {
+        e.preventDefault();
+        handlePrimaryAction();
+      }
+    };
+
+    const handlePointerDown = () => {
+      setLastActivity(Date.now());
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('pointerdown', handlePointerDown);
+    };
+  }, [handlePrimaryAction]);
+
+  const showPassage =
+    currentPassage && (step === 'instructions' || step === 'countdown' || step === 'recording');
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-10 px-8 py-12 text-center">
+      <p className="text-sm tracking-widest text-muted-foreground">{playlist.name}</p>
+
+      {/* 課題文 */}
+      {showPassage && (
+        <div className="max-w-3xl space-y-3">
+          {currentPassage.title && (
+            <p className="text-lg text-muted-foreground">{currentPassage.title}</p>
+          )}
+          <p className="text-3xl leading-relaxed whitespace-pre-wrap text-left">{currentPassage.body}</p>
+        </div>
+      )}
+
+      {step === 'instructions' && (
+        <div className="space-y-6">
+          <h1 className="text-4xl font-bold">
+            {currentPassage ? 'この文章を声に出して読んでください' : 'あなたの声を録音します'}
+          </h1>
+          <p className="text-xl text-muted-foreground">
+            {isVoiceActivated
+              ? 'ボタンを押してから話しはじめると、録音が始まります。話し終えると自動的に止まります'
+              : 'ボタンを押すと、3秒後に録音が始まります。読み終わったら、もう一度ボタンを押してください'}
+          </p>
+          <Button size="lg" className="h-16 px-12 text-xl" onClick={handlePrimaryAction}>
+            <Mic className="mr-3 h-6 w-6" />
+            録音をはじめる
+          </Button>
+          {recorderError && <p className="text-sm text-red-500">{recorderError}</p>}
+        </div>
+      )}
+
+      {step === 'countdown' && (
+        <div className="space-y-4">
+          <p className="text-xl text-muted-foreground">まもなく録音が始まります</p>
+          <p className="text-9xl font-bold tabular-nums">{countdown > 0 ? countdown : ''}</p>
+        </div>
+      )}
+
+      {step === 'recording' && state === 'armed' && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-center gap-4">
+            <Mic className="h-8 w-8 animate-pulse" />
+            <span className="text-3xl font-bold">話しはじめてください</span>
+          </div>
+          <div className="mx-auto max-w-md">
+            <InputLevelMeter level={inputLevel} isClipping={false} isTooQuiet={false} />
+          </div>
+          <Button size="lg" variant="outline" className="h-16 px-12 text-xl" onClick={handlePrimaryAction}>
+            <RotateCcw className="mr-3 h-6 w-6" />
+            やめる
+          </Button>
+        </div>
+      )}
+
+      {step === 'recording' && state !== 'armed' && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-center gap-4">
+            <div className="h-6 w-6 rounded-full bg-red-500 animate-pulse" />
+            <span className="text-3xl font-bold">録音中</span>
+            <span className="text-3xl font-mono tabular-nums">{formatDuration(duration)}</span>
+          </div>
+          <div className="mx-auto max-w-md">
+            <InputLevelMeter level={inputLevel} isClipping={isClipping} isTooQuiet={isTooQuiet} />
+          </div>
+          {isVoiceActivated && (
+            <p className="text-xl text-muted-foreground">話し終えると自動的に止まります</p>
+          )}
+          <Button
+            size="lg"
+            variant="destructive"
+            className="h-16 px-12 text-xl"
+            onClick={handlePrimaryAction}
+            disabled={state !== 'recording'}
+          >
+            <Square className="mr-3 h-6 w-6" />
+            読み終わった
+          </Button>
+        </div>
+      )}
+
+      {step === 'preview' && recordedUrl && (
+        <div className="space-y-6">
+          <h1 className="text-4xl font-bold">録音を確認してください</h1>
+          <audio src={recordedUrl} controls autoPlay className="mx-auto" />
+          <p className="text-xl text-muted-foreground">
+            ボタンを押すと送信します。送信した声は{playlist.auto_approve ? '' : '確認の後に'}展示で再生されます
+          </p>
+          <div className="flex justify-center gap-4">
+            <Button size="lg" variant="outline" className="h-16 px-8 text-xl" onClick={beginCountdown}>
+              <RotateCcw className="mr-3 h-6 w-6" />
+              録り直す
+            </Button>
+            <Button size="lg" className="h-16 px-12 text-xl" onClick={handlePrimaryAction}>
+              <Send className="mr-3 h-6 w-6" />
+              送信する
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'submitting' && (
+        <div className="flex items-center gap-4 text-3xl">
+          <Loader2 className="h-10 w-10 animate-spin" />
+          送信しています...
+        </div>
+      )}
+
+      {step === 'thanks' && (
+        <div className="space-y-4">
+          <h1 className="text-5xl font-bold">ありがとうございました</h1>
+          <p className="text-xl text-muted-foreground">
+            {playlist.auto_approve
+              ? 'あなたの声は、まもなく展示で再生されます'
+              : 'あなたの声は、確認の後に展示で再生されます'}
+          </p>
+        </div>
+      )}
+
+      {step === 'error' && (
+        <div className="space-y-4">
+          <h1 className="text-4xl font-bold text-red-500">録音できませんでした</h1>
+          <p className="text-xl text-muted-foreground">{errorMessage}</p>
+        </div>
+      )}
+
+      {/* 送信待ちの録音（設置作業用、通信が回復すると自動的に送信する） */}
+      {pendingCount > 0 && (
+        <div className="fixed bottom-4 left-4 flex items-center gap-2 text-sm text-muted-foreground opacity-60">
+          <CloudUpload className="h-4 w-4" />
+          送信待ち {pendingCount}件
+        </div>
+      )}
+
+      {/* マイク選択（設置作業用、案内画面でのみ表示） */}
+      {step === 'instructions' && availableDevices.length > 1 && (
+        <div className="fixed bottom-4 right-4 opacity-40 hover:opacity-100 transition-opacity">
+          <Select
+            value={selectedDeviceId || ''}
+            onValueChange={handleDeviceChange}
+            onOpenChange={(open) => {
+              if (open) {
+                loadDevices();
+              }
+            }}
+          >
+            <SelectTrigger size="sm" className="w-[220px]">
+              <Mic className="h-4 w-4 flex-shrink-0" />
+              <SelectValue placeholder="マイクを選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableDevices.map((device) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  <span className="truncate">{device.label}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { createClient } from '@/lib/supabase-client';
+import { syncDeviceCommands, type DeviceCommandAck } from '@/lib/device-api';
+import { DEVICE_COMMAND_EVENT, getDeviceCommandChannel } from '@/lib/device-commands';
+import type { DeviceCommand, DevicePlayerState } from '@/lib/types';
+
+// コマンドを取得する間隔（ブロードキャストを受信できない場合）
+const COMMAND_POLL_INTERVAL = 5000;
+// ブロードキャストを受信できる場合も、取りこぼしと再生状態の報告のために取得する間隔
+const COMMAND_POLL_INTERVAL_LIVE = 30000;
+// 再生状態が変わってから報告するまでの待ち時間（続けて変わった場合にまとめる）
+const STATE_REPORT_DELAY = 1000;
+
+interface UseDeviceCommandsOptions {
+  // falseの場合は同期しない
+  enabled?: boolean;
+  // 現在の再生状態（変わるたびに管理画面へ報告する）
+  state: DevicePlayerState;
+  // コマンドを実行する（失敗した場合はエラーを投げる。reloadは応答を送ってからこのフックで再読み込みする）
+  onCommand: (command: DeviceCommand) => Promise<void> | void;
+}
+
+interface UseDeviceCommandsReturn {
+  // この端末のID（管理者のセッションで開いている場合や、未取得の場合はnull）
+  deviceId: string | null;
+  // ブロードキャストでコマンドをすぐに受信できる状態か
+  isLive: boolean;
+}
+
+/**
+ * 管理画面からのリモート操作のコマンドを受け取り、実行して結果を応答する
+ * ブロードキャストで取得を促されたとき・一定間隔・再生状態が変わったときに同期します
+ */
+export const useDeviceCommands = (options: UseDeviceCommandsOptions): UseDeviceCommandsReturn => {
+  const { enabled = true, state, onCommand } = options;
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+
+  const stateRef = useRef(state);
+  const onCommandRef = useRef(onCommand);
+  // 次の同期で送信する実行結果
+  const pendingAcksRef = useRef<DeviceCommandAck[]>([]);
+  const isSyncingRef = useRef(false);
+  // 同期中に同期が要求された場合、終了後に続けて同期するためのフラグ
+  const hasPendingSyncRef = useRef(false);
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  const sync = useCallback(async () => {
+    if (isSyncingRef.current) {
+      hasPendingSyncRef.current = true;
+      return;
+    }
+    isSyncingRef.current = true;
+
+    let shouldReload = false;
+    try {
+      do {
+        hasPendingSyncRef.current = false;
+        const acks = pendingAcksRef.current;
+        pendingAcksRef.current = [];
+
+        let result: Awaited<ReturnType<typeof syncDeviceCommands>>;
+        try {
+          result = await syncDeviceCommands(stateRef.current, acks);
+        } catch (err) {
+          // 送信できなかった実行結果は次の同期で送る
+          pendingAcksRef.current = [...acks, ...pendingAcksRef.current];
+          throw err;
+        }
+
+        // 応答を送った再読み込みを実行する
+        if (shouldReload) break;
+
+        setDeviceId(result.deviceId);
+
+        for (const command of result.commands) {
+          if (command.command === 'reload') {
+            pendingAcksRef.current.push({ id: command.id, status: 'succeeded' });
+            shouldReload = true;
+            continue;
+          }
+
+          try {
+            await onCommandRef.current(command);
+            pendingAcksRef.current.push({ id: command.id, status: 'succeeded' });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : '不明なエラー';
+            console.error('コマンドの実行に失敗:', command.command, err);
+            pendingAcksRef.current.push({ id: command.id, status: 'failed', error: message });
+          }
+        }
+
+        // 実行結果と実行後の再生状態をすぐに報告する
+        if (result.commands.length > 0) {
+          hasPendingSyncRef.current = true;
+        }
+      } while (hasPendingSyncRef.current || shouldReload);
+    } catch (err) {
+      console.error('リモート操作のコマンドの同期に失敗:', err);
+    } finally {
+      isSyncingRef.current = false;
+    }
+
+    if (shouldReload) {
+      window.location.reload();
+    }
+  }, []);
+
+  // 再生状態が変わったら、少し待ってから報告する
+  const stateKey = JSON.stringify(state);
+  useEffect(() => {
+    stateRef.current = state;
+    if (!enabled) return;
+
+    const timer = setTimeout(sync, STATE_REPORT_DELAY);
+    return () => clearTimeout(timer);
+    // stateKeyで内容が変わった場合のみ報告する
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stateKey, enabled, sync]);
+
+  // 一定間隔で同期する（ブロードキャストを受信できない間は短い間隔）
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = setInterval(sync, isLive ? COMMAND_POLL_INTERVAL_LIVE : COMMAND_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [enabled, isLive, sync]);
+
+  // ブロードキャストでコマンドの取得を促されたら同期する（内容はAPIルートから取得する）
+  useEffect(() => {
+    if (!enabled || !deviceId) return;
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(getDeviceCommandChannel(deviceId))
+      .on('broadcast', { event: DEVICE_COMMAND_EVENT }, () => {
+        sync();
+      })
+      .subscribe((status) => {
+        setIsLive(status === 'SUBSCRIBED');
+      });
+
+    return () => {
+      setIsLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, deviceId, sync]);
+
+  return { deviceId, isLive };
+};
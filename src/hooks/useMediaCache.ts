@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { getDevicePlaylistRecordings } from '@/lib/device-api';
+import {
+  getCacheableRecordingUrls,
+  isMediaCacheSupported,
+  requestMediaCacheStatus,
+  subscribeMediaCacheStatus,
+  syncMediaCache,
+  type MediaCacheStatus,
+} from '@/lib/media-cache';
+
+// キャッシュする録音の一覧を取得し直す間隔（録音の追加・削除を反映するため）
+const MEDIA_CACHE_SYNC_INTERVAL = 60000;
+
+export interface MediaCacheState {
+  // オフラインキャッシュを使用できるか
+  isSupported: boolean;
+  // ネットワークに接続しているか
+  isOnline: boolean;
+  // キャッシュの状況（Service Workerから通知を受け取るまではnull）
+  status: MediaCacheStatus | null;
+}
+
+interface UseMediaCacheOptions {
+  // falseの場合はキャッシュしない
+  enabled?: boolean;
+  // 録音をキャッシュするプレイリスト（スケジュールで切り替わるプレイリストを含める）
+  playlistIds: string[];
+}
+
+/**
+ * 再生端末のオフラインキャッシュ
+ * プレイリストの録音をService Workerに事前にキャッシュさせ、プレイリストから外れた録音はキャッシュから削除させる
+ * 録音一覧を取得できない場合は一覧を送らない（通信の障害でキャッシュを削除しないため）
+ */
+export const useMediaCache = (options: UseMediaCacheOptions): MediaCacheState => {
+  const { enabled = true, playlistIds } = options;
+  // サーバーでの描画と一致させるため、ブラウザの機能はマウント後に確認する
+  const [isSupported, setIsSupported] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [status, setStatus] = useState<MediaCacheStatus | null>(null);
+
+  const playlistIdsKey = Array.from(new Set(playlistIds)).sort().join(',');
+
+  // オフラインキャッシュを使用できるかを確認し、ネットワークの接続状況を監視
+  useEffect(() => {
+    setIsSupported(isMediaCacheSupported());
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // Service Workerからキャッシュの状況を受け取る
+  useEffect(() => {
+    if (!enabled || !isSupported) return;
+
+    const unsubscribe = subscribeMediaCacheStatus(setStatus);
+    requestMediaCacheStatus().catch((err) => {
+      console.error('オフラインキャッシュの登録に失敗:', err);
+    });
+    return unsubscribe;
+  }, [enabled, isSupported]);
+
+  // キャッシュする録音の一覧を定期的に送る
+  useEffect(() => {
+    if (!enabled || !isSupported || !playlistIdsKey) return;
+
+    let cancelled = false;
+    let isSyncing = false;
+
+    const sync = async () => {
+      if (isSyncing) return;
+      isSyncing = true;
+      try {
+        const recordings = await Promise.all(
+          playlistIdsKey.split(',').map((playlistId) => getDevicePlaylistRecordings(playlistId))
+        );
+        if (cancelled) return;
+        await syncMediaCache(getCacheableRecordingUrls(recordings.flat()));
+      } catch (err) {
+        console.error('オフラインキャッシュの同期に失敗:', err);
+      } finally {
+        isSyncing = false;
+      }
+    };
+
+    sync();
+    const timer = setInterval(sync, MEDIA_CACHE_SYNC_INTERVAL);
+    // ネットワークが復旧したら、取得できなかった録音をすぐに取得し直す
+    window.addEventListener('online', sync);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener('online', sync);
+    };
+  }, [enabled, isSupported, playlistIdsKey]);
+
+  return { isSupported, isOnline, status };
+};
@@ -0,0 +1,122 @@
+import { useState, useEffect, useMemo } from 'react';
+import { getPlaybackSchedule } from '@/lib/supabase';
+import { getDevicePlaybackSchedule } from '@/lib/device-api';
+import { findScheduleAt, isWithinOpeningHours } from '@/lib/schedule';
+import type { OpeningHours, Playlist, PlaylistSchedule } from '@/lib/types';
+
+// スケジュールを再取得する間隔（管理画面での変更を反映するため）
+const SCHEDULE_REFRESH_INTERVAL = 60000;
+// 現在時刻でスケジュールを判定し直す間隔
+const SCHEDULE_TICK_INTERVAL = 15000;
+
+export interface PlaybackScheduleState {
+  // 現在再生するプレイリスト（スケジュールの時間外は有効なプレイリスト）
+  playlistId: string | null;
+  playlist: Playlist | null;
+  // すべてのプレイリスト（リモート操作での切り替え先の確認に使用）
+  playlists: Playlist[];
+  // overridePlaylistIdのプレイリストを再生している（スケジュールに従っていない）か
+  isOverridden: boolean;
+  // 現在の時間帯のスケジュール（時間外はnull）
+  schedule: PlaylistSchedule | null;
+  // すべての時間帯のスケジュール（切り替わる予定のプレイリストの事前キャッシュに使用）
+  schedules: PlaylistSchedule[];
+  // 開館時間内か
+  isOpen: boolean;
+  // スケジュールを一度でも取得できたか
+  isLoaded: boolean;
+  // 直前の取得に失敗した場合のエラー
+  error: string | null;
+}
+
+interface UsePlaybackScheduleOptions {
+  // falseの場合はスケジュールを取得しない
+  enabled?: boolean;
+  // 再生端末として、デバイストークンで認証するAPIルート経由で取得する
+  deviceMode?: boolean;
+  // スケジュールの代わりに再生するプレイリスト（リモート操作での切り替え。存在しない場合はスケジュールに従う）
+  overridePlaylistId?: string | null;
+}
+
+/**
+ * 再生スケジュールと開館時間から、現在再生するプレイリストと開館状態を返す
+ * 取得に失敗した場合は直前に取得したスケジュールで判定を続ける（展示中にネットワークが不安定になっても止めないため）
+ */
+export const usePlaybackSchedule = (options?: UsePlaybackScheduleOptions): PlaybackScheduleState => {
+  const { enabled = true, deviceMode = false, overridePlaylistId = null } = options || {};
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [schedules, setSchedules] = useState<PlaylistSchedule[]>([]);
+  const [openingHours, setOpeningHours] = useState<OpeningHours[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // スケジュールを定期的に取得
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+
+    async function loadSchedule() {
+      try {
+        const data = deviceMode ? await getDevicePlaybackSchedule() : await getPlaybackSchedule();
+        if (cancelled) return;
+        setPlaylists(data.playlists);
+        setSchedules(data.schedules);
+        setOpeningHours(data.openingHours);
+        setIsLoaded(true);
+        setError(null);
+      } catch (err) {
+        console.error('再生スケジュールの取得に失敗:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : '再生スケジュールの取得に失敗しました');
+        }
+      }
+    }
+
+    loadSchedule();
+    const interval = setInterval(loadSchedule, SCHEDULE_REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, deviceMode]);
+
+  // 現在時刻を定期的に更新
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => {
+      setNow(new Date());
+    }, SCHEDULE_TICK_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [enabled]);
+
+  const schedule = useMemo(() => findScheduleAt(schedules, now), [schedules, now]);
+  const isOpen = useMemo(() => isWithinOpeningHours(openingHours, now), [openingHours, now]);
+
+  const isOverridden = !!overridePlaylistId && playlists.some((p) => p.id === overridePlaylistId);
+  const playlistId = isOverridden
+    ? overridePlaylistId
+    : schedule?.playlist_id ?? playlists.find((p) => p.is_active)?.id ?? null;
+  const playlist = useMemo(
+    () => playlists.find((p) => p.id === playlistId) ?? null,
+    [playlists, playlistId]
+  );
+
+  return {
+    playlistId,
+    playlist,
+    playlists,
+    isOverridden,
+    schedule,
+    schedules,
+    isOpen,
+    isLoaded,
+    error,
+  };
+};
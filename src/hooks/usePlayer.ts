@@ -1,7 +1,45 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { getRecordingUrl, getPlaylistRecordings } from '@/lib/supabase';
-import { Recording } from '@/lib/types';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { getRecordingUrl, getPlaylistRecordings, recordRecordingPlay, recordRecordingFailure } from '@/lib/supabase';
+import { getDevicePlaylistRecordings, recordDevicePlay, recordDevicePlaybackFailure } from '@/lib/device-api';
+import { Recording, PlaylistTransitionSettings, PlaybackOrderMode } from '@/lib/types';
 import { calculateGainFromLufs } from '@/lib/audio-analysis';
+import {
+  DEFAULT_TRANSITION_SETTINGS,
+  toTransitionSettings,
+  getEffectiveCrossfade,
+  hasFadeEffects,
+  scheduleEqualPowerFade,
+  scheduleLinearFade,
+  setFadeGain,
+} from '@/lib/playback-transition';
+import { getTrimRange } from '@/lib/trim';
+import { canPlayRecording } from '@/lib/audio-format';
+import { isApprovedForPlayback } from '@/lib/moderation';
+import {
+  createPlaybackOrder,
+  getPlaybackOrderMode,
+  getRecentlyPlayedIds,
+  remapPlaybackOrder,
+} from '@/lib/playback-order';
+import {
+  MAX_CONSECUTIVE_SKIPS,
+  PROGRESS_STALL_TIMEOUT,
+  RECOVERY_CHECK_DELAY,
+  RECOVERY_LOG_LIMIT,
+  RECOVERY_STABLE_DURATION,
+  RECOVERY_STEPS,
+  canWatchdogReload,
+  consumeWatchdogResume,
+  findNextPlayablePosition,
+  isAutoplayBlockedError,
+  isQuarantined,
+  isRecordingSpecificError,
+  markWatchdogReload,
+  type RecoveryLogEntry,
+  type RecoveryStep,
+} from '@/lib/playback-watchdog';
+import { usePlaybackSchedule, type PlaybackScheduleState } from './usePlaybackSchedule';
+import { usePlaylistChanges } from './usePlaylistChanges';
 
 // AudioContextOptionsの拡張（sinkIdサポート用）
 interface ExtendedAudioContextOptions extends AudioContextOptions {
@@ -13,9 +51,92 @@ interface ExtendedAudioContext extends AudioContext {
   setSinkId?(sinkId: string): Promise<void>;
 }
 
+// HTMLMediaElement.captureStreamの型定義（Firefoxはプレフィックス付き）
+interface CapturableAudioElement extends HTMLAudioElement {
+  captureStream?(): MediaStream;
+  mozCaptureStream?(): MediaStream;
+}
+
+// 録音の再生URL
+// 再生範囲の開始位置はMedia Fragments（#t=）で指定し、読み込み時にその位置から再生する
+function getTrackUrl(recording: Recording): string {
+  const url = getRecordingUrl(recording.file_path);
+  const { start } = getTrimRange(recording, recording.duration ?? NaN);
+  return start > 0 ? `${url}#t=${start}` : url;
+}
+
+// 再生中のトラックに影響する録音の変更（LUFS値による音量・再生範囲）があるか
+function hasPlaybackSettingsChanged(previous: Recording, next: Recording): boolean {
+  return (
+    previous.lufs !== next.lufs ||
+    previous.trim_start !== next.trim_start ||
+    previous.trim_end !== next.trim_end
+  );
+}
+
+// ビジュアライザー用AnalyserNodeのFFTサイズ
+const ANALYSER_FFT_SIZE = 2048;
+
+// トラックのGain値（LUFS値による音量ノーマライゼーションと、再生全体の音量を掛け合わせる）
+function getTrackGain(recording: Recording | undefined, volume: number): number {
+  const normalization = recording?.lufs != null ? calculateGainFromLufs(recording.lufs) : 1;
+  return normalization * volume;
+}
+
+// 再生の進み具合を確認する間隔（再生位置が進まない停止の検出）
+const PROGRESS_CHECK_INTERVAL = 2000;
+
+// 再生エラー・意図しない停止・自動復旧の記録（稼働状況のハートビートで報告する）
+interface PlaybackIncidents {
+  errorCount: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  stallCount: number;
+  lastStallAt: string | null;
+  recoveryCount: number;
+  lastRecoveryStep: RecoveryStep | null;
+  lastRecoveryAt: string | null;
+}
+
+// 稼働状況の診断情報（ハートビートで報告する）
+interface PlayerDiagnostics extends PlaybackIncidents {
+  // AudioContextの状態（未作成の場合はnull）
+  audioContextState: AudioContextState | null;
+}
+
+// 再生エラーの内容（Audio要素の読み込みエラーはMediaError。Audio要素にエラーの情報がない場合はnull）
+function getPlaybackErrorMessage(err: unknown): string {
+  if (typeof MediaError !== 'undefined' && err instanceof MediaError) {
+    return `音声の読み込みエラー（code ${err.code}）${err.message}`;
+  }
+  if (err == null) return '音声の読み込みエラー';
+  return err instanceof Error ? err.message : String(err);
+}
+
+// 再生エラーを記録する（一時停止や次のトラックへの切り替えで中断されたplay()は除く）
+function recordPlaybackError(incidents: PlaybackIncidents, err: unknown) {
+  if (err instanceof DOMException && err.name === 'AbortError') return;
+  incidents.errorCount += 1;
+  incidents.lastError = getPlaybackErrorMessage(err);
+  incidents.lastErrorAt = new Date().toISOString();
+}
+
+// Audio要素ごとのWeb Audio APIのノード
+// gain: LUFS値による音量ノーマライゼーション、fade: 曲間のフェード（両者を分けて互いの設定を上書きしないようにする）
+interface AudioNodes {
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+  fade: GainNode;
+}
+
 interface UsePlayerReturn {
   recordings: Recording[];
   currentIndex: number;
+  // 現在の周回の再生順序での位置（シャッフルなどでは録音一覧のインデックスと異なる）
+  currentPosition: number;
+  currentRecording: Recording | null;
+  // 現在の再生位置（秒）。毎フレーム参照されるためstateではなく関数で返す
+  getCurrentTime: () => number;
   isPlaying: boolean;
   error: string | null;
   totalCount: number;
@@ -28,15 +149,60 @@ interface UsePlayerReturn {
   currentAudioDevice: string | null;
   audioOutputSupported: boolean;
   hasUnexpectedStop: boolean;
+  // ビジュアライザー用のAnalyserNode（再生開始前はnull）。毎フレーム参照されるため関数で返す
+  getAnalyser: () => AnalyserNode | null;
+  // スケジュールに従って再生している場合の現在のスケジュール（followSchedule未指定の場合はnull）
+  schedule: PlaybackScheduleState | null;
+  // 再生全体の音量（0.0〜1.0）
+  volume: number;
+  setVolume: (volume: number) => void;
+  // 次のトラックにスキップ（再生開始前は何もしない）
+  skipTrack: () => Promise<void>;
+  // 指定した録音から再生（再生中のプレイリストにない場合はエラー）
+  jumpToRecording: (recordingId: string) => Promise<void>;
+  // 稼働状況の診断情報（AudioContextの状態・再生エラー・意図しない停止・自動復旧）。ハートビートのたびに参照するため関数で返す
+  getDiagnostics: () => PlayerDiagnostics;
+  // 自動復旧で最後に試した手順（復旧中でない場合はnull）
+  recoveryStep: RecoveryStep | null;
+  // 自動復旧の記録（新しい順）
+  recoveryLog: RecoveryLogEntry[];
 }
 
 interface UsePlayerOptions {
   playlistId?: string | null | undefined;
   recordings?: Recording[];
+  // 曲間の設定（未指定の場合は無音の間隔もフェードもなし）
+  transition?: PlaylistTransitionSettings;
+  // 再生順序（未指定の場合は録音一覧の順）。変更はプレイリストが一周したときに反映する
+  playbackOrder?: PlaybackOrderMode;
+  // 再生スケジュールに従う（playlistId・transition・playbackOrderの代わりにスケジュールのプレイリストを使用し、
+  // プレイリストはトラックの切り替わりで変更、開館時間外は再生を停止する）
+  followSchedule?: boolean;
+  // 再生端末として、デバイストークンで認証するAPIルート経由で録音とスケジュールを取得する
+  deviceMode?: boolean;
+  // followSchedule時に、スケジュールの代わりに再生するプレイリスト（リモート操作での切り替え）
+  overridePlaylistId?: string | null;
 }
 
 export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
-  const { playlistId, recordings: externalRecordings } = options || {};
+  const { recordings: passedRecordings, followSchedule = false, deviceMode = false } = options || {};
+  // 審査で承認され、隔離されていない録音だけを再生する
+  const externalRecordings = useMemo(
+    () => passedRecordings?.filter((recording) => isApprovedForPlayback(recording) && !isQuarantined(recording)),
+    [passedRecordings]
+  );
+  const schedule = usePlaybackSchedule({
+    enabled: followSchedule,
+    deviceMode,
+    overridePlaylistId: options?.overridePlaylistId,
+  });
+  const scheduledTransition = useMemo(
+    () => toTransitionSettings(schedule.playlist),
+    [schedule.playlist]
+  );
+  const playlistId = followSchedule ? schedule.playlistId : options?.playlistId;
+  const transition = followSchedule ? scheduledTransition : options?.transition;
+  const playbackOrder = followSchedule ? getPlaybackOrderMode(schedule.playlist) : options?.playbackOrder;
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [currentIndex, setCurrentIndex] = useState<number>(0);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
@@ -45,36 +211,107 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
   const [currentAudioDevice, setCurrentAudioDevice] = useState<string | null>(null);
   const [audioOutputSupported, setAudioOutputSupported] = useState<boolean>(false);
   const [hasUnexpectedStop, setHasUnexpectedStop] = useState<boolean>(false);
+  // 再生中なのに再生位置が進まない（読み込みが止まった場合など）
+  const [isProgressStalled, setIsProgressStalled] = useState<boolean>(false);
+  const [recoveryStep, setRecoveryStep] = useState<RecoveryStep | null>(null);
+  const [recoveryLog, setRecoveryLog] = useState<RecoveryLogEntry[]>([]);
+  const [volume, setVolumeState] = useState<number>(1);
+  // プレイリストの録音のID（審査・形式で除外した録音を含む。変更フィードで対象の録音か判定するために使用）
+  const [playlistRecordingIds, setPlaylistRecordingIds] = useState<string[]>([]);
 
   const currentAudioRef = useRef<HTMLAudioElement | null>(null);
   const nextAudioRef = useRef<HTMLAudioElement | null>(null);
-  const fetchIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentIndexRef = useRef<number>(0);
   const recordingsRef = useRef<Recording[]>([]);
   const isSwitching = useRef(false);
   const hasStartedPlayback = useRef<boolean>(false);
   const switchToNextTrackRef = useRef<(() => Promise<void>) | null>(null);
-  const playTrackRef = useRef<((index: number) => Promise<void>) | null>(null);
+  const playTrackRef = useRef<((index: number, crossfadeDuration?: number) => Promise<void>) | null>(null);
+  const updateCurrentCycleRef = useRef<((fetched: Recording[]) => void) | null>(null);
   const stopDetectionTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isIntentionalPauseRef = useRef<boolean>(false);
 
   // Web Audio API関連の参照
   const audioContextRef = useRef<AudioContext | null>(null);
   // Audio要素とノードの対応を管理するWeakMap
-  const audioToNodesMap = useRef<WeakMap<HTMLAudioElement, { source: MediaElementAudioSourceNode; gain: GainNode }>>(new WeakMap());
+  const audioToNodesMap = useRef<WeakMap<HTMLAudioElement, AudioNodes>>(new WeakMap());
+  // 再生音を解析するAnalyserNode（全トラック共通、destinationには接続しない）
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  // Web Audio APIを経由しないAudio要素と、解析用に複製した音声ストリームの対応を管理するWeakMap
+  const audioToCaptureMap = useRef<WeakMap<HTMLAudioElement, { stream: MediaStream; track: MediaStreamTrack; source: MediaStreamAudioSourceNode }>>(new WeakMap());
+
+  // 曲間の設定（再生中のイベントハンドラから参照するためrefで保持）
+  const transitionRef = useRef<PlaylistTransitionSettings>(transition ?? DEFAULT_TRANSITION_SETTINGS);
+  // Audio要素と再生中の録音の対応（ファイルに長さの情報がない場合にDBの長さを使用するため）
+  const audioToRecordingMap = useRef<WeakMap<HTMLAudioElement, Recording>>(new WeakMap());
+  // 再生開始時にフェードインするAudio要素（読み込みの遅延でフェードが短くならないよう、再生開始後に適用する）
+  const pendingFadeInRef = useRef<WeakSet<HTMLAudioElement>>(new WeakSet());
+  // 現在のトラックでフェードアウト・クロスフェードを開始したか
+  const fadeOutStartedRef = useRef<boolean>(false);
+  const crossfadeStartedRef = useRef<boolean>(false);
+  // 現在のトラックが再生範囲の終了位置（アウト点）に達したか
+  const trimEndReachedRef = useRef<boolean>(false);
+  // クロスフェードでフェードアウト中のAudio要素（フェードが終わるまで次のトラックのプリロードに使わない）
+  const fadingAudioRef = useRef<HTMLAudioElement | null>(null);
+  const fadingTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const hasPendingPreloadRef = useRef<boolean>(false);
+  // 曲間の無音
+  const gapTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const isInGapRef = useRef<boolean>(false);
+  // 曲間の無音中に一時停止した場合、再開時に次のトラックから再生する
+  const resumeWithNextTrackRef = useRef<boolean>(false);
 
   // 事前計算された再生順序（インデックスの配列）
   // 例: [0, 1, 2] → 録音0 → 録音1 → 録音2 の順で再生
   const playbackOrderRef = useRef<number[]>([]);
   // 現在の再生順序配列内の位置
   const playbackPositionRef = useRef<number>(0);
+  // 再生順序のモード（次に再生順序を作るときに使用する）
+  const playbackOrderModeRef = useRef<PlaybackOrderMode>(getPlaybackOrderMode({ playback_order: playbackOrder }));
 
   // 再生開始時のプレイリストのスナップショット
   const playbackSnapshotRef = useRef<Recording[] | null>(null);
   // 再生が完了したかどうかのフラグ
   const hasCompletedPlaybackRef = useRef<boolean>(false);
+  // 再生中にプレイリストが変更された（次のトラックの切り替わりで新しいプレイリストに移る）
+  const pendingPlaylistSwitchRef = useRef<boolean>(false);
+  const previousPlaylistIdRef = useRef<string | null | undefined>(playlistId);
+  // 閉館時間になったため一時停止した（開館時に自動的に再開する）
+  const isPausedByScheduleRef = useRef<boolean>(false);
+  const wasOpenRef = useRef<boolean | null>(null);
   // 選択された音声出力デバイスID
   const selectedAudioDeviceIdRef = useRef<string>('');
+  // 再生全体の音量（Audio要素の作成・切り替え時に参照するためrefでも保持）
+  const volumeRef = useRef<number>(1);
+  // 再生エラーと意図しない停止の記録
+  const incidentsRef = useRef<PlaybackIncidents>({
+    errorCount: 0,
+    lastError: null,
+    lastErrorAt: null,
+    stallCount: 0,
+    lastStallAt: null,
+    recoveryCount: 0,
+    lastRecoveryStep: null,
+    lastRecoveryAt: null,
+  });
+  // 次に試す自動復旧の手順（RECOVERY_STEPSの位置）と、復旧を試みている最中か
+  const recoveryStepIndexRef = useRef<number>(0);
+  const isRecoveringRef = useRef<boolean>(false);
+  // 続けて発生した再生エラーの回数（再生が始まると0に戻す）
+  const consecutiveErrorsRef = useRef<number>(0);
+  // 最後に再生エラーを処理したAudio要素（読み込みエラーとplay()の失敗を二重に処理しないため）
+  const lastFailureRef = useRef<{ audio: HTMLAudioElement; at: number } | null>(null);
+  // 再生中に隔離された録音のID（プレイリストを取得し直すまで再生順序から飛ばす）
+  const quarantinedIdsRef = useRef<Set<string>>(new Set());
+  // 自動での再読み込みの後に再生を再開するか（初回の描画で判定する）
+  const shouldResumeAfterReloadRef = useRef<boolean | null>(null);
+
+  // 自動復旧の記録を追加
+  const appendRecoveryLog = useCallback((type: RecoveryLogEntry['type'], message: string) => {
+    console.warn(`自動復旧: ${message}`);
+    const entry: RecoveryLogEntry = { at: new Date().toISOString(), type, message };
+    setRecoveryLog((prev) => [entry, ...prev].slice(0, RECOVERY_LOG_LIMIT));
+  }, []);
 
   // 音声出力デバイス一覧を取得（既定のデバイスを除外）
   const getAudioOutputDevices = useCallback(async () => {
@@ -134,28 +371,42 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     return audioContextRef.current;
   }, []);
 
+  // ビジュアライザー用のAnalyserNodeを取得（遅延初期化）
+  const getAnalyserNode = useCallback(() => {
+    if (!analyserRef.current) {
+      const analyser = getAudioContext().createAnalyser();
+      analyser.fftSize = ANALYSER_FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.8;
+      analyserRef.current = analyser;
+    }
+    return analyserRef.current;
+  }, [getAudioContext]);
+
   // Audio要素をWeb Audio APIに接続し、音量ノーマライゼーションを適用
   const connectAudioToWebAudio = useCallback(
     (
       audio: HTMLAudioElement,
       recording: Recording
-    ): { source: MediaElementAudioSourceNode; gain: GainNode } | null => {
-      // LUFS値がない場合はWeb Audio APIを使用しない（通常のAudio要素のまま）
-      if (recording.lufs == null) {
-        return null;
-      }
-
-      const context = getAudioContext();
+    ): AudioNodes | null => {
+      audioToRecordingMap.current.set(audio, recording);
 
       // 既にこのAudio要素に対してノードが作成されているか確認
       const existingNodes = audioToNodesMap.current.get(audio);
       if (existingNodes) {
-        // Gainだけ更新
-        const gainValue = calculateGainFromLufs(recording.lufs);
-        existingNodes.gain.gain.value = gainValue;
+        // Gainだけ更新（一度接続したAudio要素は接続を解除できないため、LUFS値がない場合は等倍にする）
+        existingNodes.gain.gain.value = getTrackGain(recording, volumeRef.current);
         return existingNodes;
       }
 
+      // LUFS値がなく、フェードも使用しない場合はWeb Audio APIを使用しない（通常のAudio要素のまま）
+      // 音量はAudio要素で調整する
+      if (recording.lufs == null && !hasFadeEffects(transitionRef.current)) {
+        audio.volume = volumeRef.current;
+        return null;
+      }
+
+      const context = getAudioContext();
+
       // MediaElementSourceNodeを作成
       let source: MediaElementAudioSourceNode;
       try {
@@ -163,28 +414,211 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       } catch (err) {
         console.error('MediaElementSourceNode作成エラー:', err);
         // エラーの場合はnullを返して通常再生にフォールバック
+        audio.volume = volumeRef.current;
         return null;
       }
 
       // GainNodeを作成
       const gain = context.createGain();
 
-      // LUFS値から適切なGain値を計算して設定
-      const gainValue = calculateGainFromLufs(recording.lufs);
-      gain.gain.value = gainValue;
+      // LUFS値から適切なGain値を計算して設定（LUFS値がない場合は等倍）
+      // 音量はGainに含めるため、Audio要素の音量は等倍に戻す（二重に下げないようにする）
+      gain.gain.value = getTrackGain(recording, volumeRef.current);
+      audio.volume = 1;
+
+      // フェード用のGainNodeを作成
+      const fade = context.createGain();
 
-      // ノードを接続: source → gain → destination
+      // ノードを接続: source → gain → fade → destination（解析用にanalyserにも分岐）
       source.connect(gain);
-      gain.connect(context.destination);
+      gain.connect(fade);
+      fade.connect(context.destination);
+      fade.connect(getAnalyserNode());
+
+      // 解析用に複製していた音声ストリームは不要になるため切断
+      const capture = audioToCaptureMap.current.get(audio);
+      if (capture) {
+        capture.source.disconnect();
+        audioToCaptureMap.current.delete(audio);
+      }
 
       // WeakMapに保存
-      audioToNodesMap.current.set(audio, { source, gain });
+      const nodes = { source, gain, fade };
+      audioToNodesMap.current.set(audio, nodes);
 
-      return { source, gain };
+      return nodes;
     },
-    [getAudioContext]
+    [getAudioContext, getAnalyserNode]
   );
 
+  // Web Audio APIを経由しない（LUFS値がない）トラックをビジュアライザー用にanalyserへ接続
+  // captureStreamで再生音を複製するため、Audio要素の出力先（setSinkId）には影響しない
+  // 音声トラックは再生開始後に作成され、srcを変更すると入れ替わるため、再生開始のたびに呼び出す
+  const connectAudioToAnalyser = useCallback((audio: HTMLAudioElement) => {
+    // Web Audio APIに接続済みのAudio要素はGainNodeからanalyserに接続されている
+    if (audioToNodesMap.current.has(audio)) {
+      return;
+    }
+
+    const capturableAudio = audio as CapturableAudioElement;
+    const existing = audioToCaptureMap.current.get(audio);
+
+    try {
+      const stream = existing?.stream
+        ?? capturableAudio.captureStream?.()
+        ?? capturableAudio.mozCaptureStream?.();
+      if (!stream) {
+        // captureStreamに対応していないブラウザでは解析しない
+        return;
+      }
+
+      const [track] = stream.getAudioTracks();
+      if (!track || existing?.track === track) {
+        return;
+      }
+
+      existing?.source.disconnect();
+      const context = getAudioContext();
+      if (context.state === 'suspended') {
+        context.resume().catch((err) => {
+          console.error('AudioContext resume error:', err);
+        });
+      }
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      source.connect(getAnalyserNode());
+      audioToCaptureMap.current.set(audio, { stream, track, source });
+    } catch (err) {
+      console.error('ビジュアライザー用の音声取得エラー:', err);
+    }
+  }, [getAudioContext, getAnalyserNode]);
+
+  // 曲間の設定を常に最新に保つ
+  useEffect(() => {
+    transitionRef.current = transition ?? DEFAULT_TRANSITION_SETTINGS;
+  }, [transition]);
+
+  // 再生順序のモードを常に最新に保つ（再生中の周回の順序は変えず、次の周回から反映する）
+  useEffect(() => {
+    playbackOrderModeRef.current = getPlaybackOrderMode({ playback_order: playbackOrder });
+  }, [playbackOrder]);
+
+  // トラックの長さ（秒）を取得
+  // MediaRecorderで録音したWebMなどはファイルに長さの情報がないため、DBに保存された長さを使用する
+  const getTrackDuration = useCallback((audio: HTMLAudioElement) => {
+    if (Number.isFinite(audio.duration)) {
+      return audio.duration;
+    }
+    return audioToRecordingMap.current.get(audio)?.duration ?? NaN;
+  }, []);
+
+  // トラックの再生範囲（秒）を取得（録音に設定された前後の無音を除いた範囲）
+  const getTrackRange = useCallback((audio: HTMLAudioElement) => {
+    const recording = audioToRecordingMap.current.get(audio);
+    const duration = getTrackDuration(audio);
+    return recording ? getTrimRange(recording, duration) : { start: 0, end: duration };
+  }, [getTrackDuration]);
+
+  // トラックの再生開始時の音量を設定（クロスフェードの場合は等パワーカーブでフェードイン）
+  const beginTrackVolume = useCallback((audio: HTMLAudioElement, crossfadeDuration: number) => {
+    fadeOutStartedRef.current = false;
+    crossfadeStartedRef.current = false;
+    trimEndReachedRef.current = false;
+    pendingFadeInRef.current.delete(audio);
+
+    const nodes = audioToNodesMap.current.get(audio);
+    const context = audioContextRef.current;
+    if (!nodes || !context) {
+      return;
+    }
+
+    if (crossfadeDuration > 0) {
+      scheduleEqualPowerFade(nodes.fade.gain, context, 'in', crossfadeDuration);
+    } else if (transitionRef.current.fade_in_duration > 0) {
+      setFadeGain(nodes.fade.gain, context, 0);
+      pendingFadeInRef.current.add(audio);
+    } else {
+      setFadeGain(nodes.fade.gain, context, 1);
+    }
+  }, []);
+
+  // 再生開始後にフェードインを開始
+  const applyPendingFadeIn = useCallback((audio: HTMLAudioElement) => {
+    if (!pendingFadeInRef.current.has(audio)) {
+      return;
+    }
+    pendingFadeInRef.current.delete(audio);
+
+    const nodes = audioToNodesMap.current.get(audio);
+    const context = audioContextRef.current;
+    if (nodes && context) {
+      scheduleLinearFade(nodes.fade.gain, context, 1, transitionRef.current.fade_in_duration);
+    }
+  }, []);
+
+  // トラックの再生終了時（曲間の無音が設定されている場合は待ってから次のトラックへ）
+  const handleTrackEnded = useCallback(() => {
+    const gap = transitionRef.current.transition_gap;
+    if (gap <= 0) {
+      switchToNextTrackRef.current?.();
+      return;
+    }
+
+    isInGapRef.current = true;
+    gapTimerRef.current = setTimeout(() => {
+      gapTimerRef.current = null;
+      isInGapRef.current = false;
+      switchToNextTrackRef.current?.();
+    }, gap * 1000);
+  }, []);
+
+  // 再生位置の更新ごとに、終了間際のフェードアウトとクロスフェードの開始を判定
+  const handleTimeUpdate = useCallback((audio: HTMLAudioElement) => {
+    if (audio !== currentAudioRef.current || isSwitching.current) {
+      return;
+    }
+
+    const settings = transitionRef.current;
+    const range = getTrackRange(audio);
+    const remaining = range.end - audio.currentTime;
+    if (!Number.isFinite(remaining)) {
+      return;
+    }
+
+    // 再生範囲の終了位置に達した場合は、ファイルの終わりと同じように次のトラックへ進む
+    // （timeupdateの間隔のため、終了位置から最大250ms程度遅れる）
+    if (remaining <= 0) {
+      const isTrimmed = !(range.end >= getTrackDuration(audio));
+      if (isTrimmed && !trimEndReachedRef.current && !crossfadeStartedRef.current) {
+        trimEndReachedRef.current = true;
+        audio.pause();
+        handleTrackEnded();
+      }
+      return;
+    }
+
+    // クロスフェード: 終了のクロスフェード時間前に次のトラックへ切り替える
+    const crossfade = getEffectiveCrossfade(settings, range.end - range.start);
+    if (crossfade > 0 && remaining <= crossfade && !crossfadeStartedRef.current) {
+      crossfadeStartedRef.current = true;
+      switchToNextTrackRef.current?.();
+      return;
+    }
+
+    // フェードアウト: 残り時間をかけて音量を0にする
+    if (
+      settings.fade_out_duration > 0 &&
+      remaining <= settings.fade_out_duration &&
+      !fadeOutStartedRef.current
+    ) {
+      const nodes = audioToNodesMap.current.get(audio);
+      const context = audioContextRef.current;
+      if (nodes && context) {
+        fadeOutStartedRef.current = true;
+        scheduleLinearFade(nodes.fade.gain, context, 0, remaining);
+      }
+    }
+  }, [getTrackDuration, getTrackRange, handleTrackEnded]);
+
   // Audio Output Devices APIのサポートを確認
   useEffect(() => {
     const checkAudioOutputSupport = () => {
@@ -287,18 +721,34 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     currentIndexRef.current = currentIndex;
   }, [currentIndex]);
 
+  // 録音の再生回数を記録する（再生順序のweightedで使用、失敗しても再生は続ける）
+  const countTrackPlay = useCallback((recording: Recording | undefined) => {
+    if (!recording) return;
+
+    const request = deviceMode ? recordDevicePlay(recording.id) : recordRecordingPlay(recording.id);
+    request.catch((err) => {
+      console.error('再生回数の記録に失敗:', err);
+    });
+  }, [deviceMode]);
+
   // プレイリストの再生順序を事前計算
+  // シャッフル系の順序では、直前の周回の終わりに再生した録音を次の周回の始めに再生しない
+  // （recordingsRefと再生順序配列は直前の周回のものを参照するため、更新前に呼び出すこと）
   const buildPlaybackOrder = useCallback((recordings: Recording[]) => {
-    // 単純に0からrecordings.length-1までの配列を作成
-    const order = recordings.map((_, index) => index);
-    return order;
+    const recentIds = getRecentlyPlayedIds(recordingsRef.current, playbackOrderRef.current);
+    return createPlaybackOrder(recordings, playbackOrderModeRef.current, recentIds);
   }, []);
 
   // 録音リストを取得
   const fetchRecordings = useCallback(async () => {
     try {
-      // 外部からrecordingsが渡されている場合は何もしない
+      // 外部からrecordingsが渡されている場合は取得しない
+      // 一周完了時は、外部から更新された録音で次の周回の再生順序を作り直す
       if (externalRecordings) {
+        if (hasCompletedPlaybackRef.current) {
+          playbackOrderRef.current = buildPlaybackOrder(recordingsRef.current);
+          playbackPositionRef.current = 0;
+        }
         return;
       }
 
@@ -308,46 +758,71 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       }
 
       // プレイリストIDが指定されている場合はプレイリストの録音を取得
-      const data = await getPlaylistRecordings(playlistId);
+      const fetched = deviceMode
+        ? await getDevicePlaylistRecordings(playlistId)
+        : await getPlaylistRecordings(playlistId);
 
-      // 再生中の場合はスナップショットを保持し続ける
-      // 追加も削除も一切反映せず、プレイリストが一周するまで固定する
-      if (playbackSnapshotRef.current && !hasCompletedPlaybackRef.current) {
-        // 再生中は何も更新しない
-        // recordingsRefもスナップショットを保持し続ける
+      setPlaylistRecordingIds((prev) => {
+        const ids = fetched.map((recording) => recording.id);
+        return ids.length === prev.length && ids.every((id, i) => id === prev[i]) ? prev : ids;
+      });
+
+      // 審査で承認されていない録音と、再生の失敗が続いて隔離された録音は再生しない
+      const approved = fetched.filter((recording) => isApprovedForPlayback(recording) && !isQuarantined(recording));
+
+      // このブラウザで再生できない形式の録音は除外する（再生エラーでループが止まらないようにする）
+      const data = approved.filter(canPlayRecording);
+      if (data.length < approved.length) {
+        console.warn(`再生できない形式の録音を${approved.length - data.length}件スキップしました`);
+      }
+
+      // 再生中の場合はスナップショットの再生順序を保ったまま、録音の追加・削除・LUFS値などの変更を反映する
+      if (playbackSnapshotRef.current && !hasCompletedPlaybackRef.current && hasStartedPlayback.current) {
+        updateCurrentCycleRef.current?.(data);
         setError(null);
         return;
       }
 
       // プレイリストが完了した後、新しいプレイリストを取得
       if (hasCompletedPlaybackRef.current) {
+        // 新しいプレイリストの再生順序を事前計算（直前の周回の録音を参照するため、録音の更新前に行う）
+        const order = buildPlaybackOrder(data);
+
         playbackSnapshotRef.current = [...data];
         recordingsRef.current = [...data];
         setRecordings(data);
 
-        // 新しいプレイリストの再生順序を事前計算
-        playbackOrderRef.current = buildPlaybackOrder(data);
+        playbackOrderRef.current = order;
         playbackPositionRef.current = 0;
+        // 隔離された録音は取得した録音から除外されているため、再生中に隔離した録音の記録は不要
+        quarantinedIdsRef.current.clear();
 
         // hasCompletedPlaybackRefとindexの更新はswitchToNextTrackで行う
       } else {
-        // 再生していない場合のみ更新
+        // 再生していない場合のみ更新（再生開始前のスナップショットは取得した録音で作り直す）
+        playbackSnapshotRef.current = null;
         setRecordings(data);
       }
 
       setError(null);
     } catch (err) {
       console.error('録音取得エラー:', err);
+      recordPlaybackError(incidentsRef.current, err);
       setError(err instanceof Error ? err.message : '録音の取得に失敗しました');
     }
-  }, [playlistId, buildPlaybackOrder, externalRecordings]);
+  }, [playlistId, buildPlaybackOrder, externalRecordings, deviceMode]);
 
   // 次のトラックに移動（再生順序配列を使用）
   const moveToNextTrack = useCallback(() => {
     if (playbackOrderRef.current.length === 0) return;
 
-    // 次の再生位置を計算
-    const nextPosition = playbackPositionRef.current + 1;
+    // 次の再生位置を計算（再生中に隔離された録音は飛ばす）
+    const nextPosition = findNextPlayablePosition(
+      playbackOrderRef.current,
+      recordingsRef.current,
+      playbackPositionRef.current,
+      quarantinedIdsRef.current
+    );
 
     // プレイリストが一周した場合（再生順序配列の最後に達した場合）
     if (nextPosition >= playbackOrderRef.current.length) {
@@ -374,8 +849,19 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
     if (playbackOrderRef.current.length === 0) return;
 
-    // 次の再生位置を取得
-    const nextPosition = playbackPositionRef.current + 1;
+    // クロスフェードでフェードアウト中のAudio要素は、フェードが終わってからプリロードする
+    if (nextAudioRef.current && nextAudioRef.current === fadingAudioRef.current) {
+      hasPendingPreloadRef.current = true;
+      return;
+    }
+
+    // 次の再生位置を取得（再生中に隔離された録音は飛ばす）
+    const nextPosition = findNextPlayablePosition(
+      playbackOrderRef.current,
+      recordingsRef.current,
+      playbackPositionRef.current,
+      quarantinedIdsRef.current
+    );
 
     // 次の再生位置が再生順序配列の範囲外の場合（プレイリスト一周する場合）、プリロードしない
     if (nextPosition >= playbackOrderRef.current.length) {
@@ -410,19 +896,137 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       console.error('プリロード用Audio要素のデバイス設定エラー:', err);
     });
 
-    const url = getRecordingUrl(nextRecording.file_path);
+    const url = getTrackUrl(nextRecording);
     nextAudioRef.current.src = url;
     nextAudioRef.current.load();
   }, [setAudioSinkId, connectAudioToWebAudio]);
 
+  // クロスフェードで前のトラックをフェードアウトし、終わったら停止する
+  const retireAudio = useCallback((audio: HTMLAudioElement, duration: number) => {
+    // 前のトラックの終了で再度切り替えが起きないよう、先にイベントリスナーをクリア
+    audio.onended = null;
+    audio.onerror = null;
+    audio.onplaying = null;
+    audio.onpause = null;
+    audio.ontimeupdate = null;
+
+    const nodes = audioToNodesMap.current.get(audio);
+    const context = audioContextRef.current;
+    if (nodes && context) {
+      scheduleEqualPowerFade(nodes.fade.gain, context, 'out', duration);
+    }
+
+    if (fadingTimerRef.current) {
+      clearTimeout(fadingTimerRef.current);
+    }
+    fadingAudioRef.current = audio;
+    fadingTimerRef.current = setTimeout(() => {
+      fadingTimerRef.current = null;
+      audio.pause();
+      if (fadingAudioRef.current === audio) {
+        fadingAudioRef.current = null;
+      }
+      // フェード中に延期したプリロードを実行
+      if (hasPendingPreloadRef.current) {
+        hasPendingPreloadRef.current = false;
+        preloadNextTrack();
+      }
+    }, duration * 1000);
+  }, [preloadNextTrack]);
+
+  // 録音の再生の失敗を記録する（失敗が続いた録音はデータベースで隔離され、この周回の残りでも再生しない）
+  const reportRecordingFailure = useCallback((recording: Recording, message: string) => {
+    const request = deviceMode
+      ? recordDevicePlaybackFailure(recording.id, message)
+      : recordRecordingFailure(recording.id, message);
+    request
+      .then((quarantined) => {
+        if (!quarantined || quarantinedIdsRef.current.has(recording.id)) return;
+        quarantinedIdsRef.current.add(recording.id);
+        appendRecoveryLog('quarantine', `再生の失敗が続いたため録音（${recording.id.slice(0, 8)}）を隔離しました`);
+
+        // プリロード済みの次のトラックが隔離した録音の場合は、その次の録音をプリロードし直す
+        const nextAudio = nextAudioRef.current;
+        if (
+          nextAudio &&
+          nextAudio !== fadingAudioRef.current &&
+          audioToRecordingMap.current.get(nextAudio)?.id === recording.id
+        ) {
+          nextAudio.pause();
+          nextAudio.src = '';
+          if (!isSwitching.current) {
+            preloadNextTrack();
+          }
+        }
+      })
+      .catch((err) => {
+        console.error('再生の失敗の記録に失敗:', err);
+      });
+  }, [deviceMode, appendRecoveryLog, preloadNextTrack]);
+
+  // 再生エラーを処理する（記録して次のトラックへスキップする）
+  // エラーが続く場合はスキップをやめて自動復旧に任せる（通信の切断などですべての録音が失敗する場合に空回りしない）
+  const handleTrackFailure = useCallback((audio: HTMLAudioElement, err: unknown, skip: () => void) => {
+    // 一時停止や別のトラックの読み込みで中断された場合は、操作した側が再生を続ける
+    if (err instanceof DOMException && err.name === 'AbortError') return;
+
+    // 読み込みエラーとplay()の失敗は同じAudio要素でほぼ同時に起きるため、一度だけ処理する
+    const now = Date.now();
+    const lastFailure = lastFailureRef.current;
+    if (lastFailure && lastFailure.audio === audio && now - lastFailure.at < 1000) return;
+    lastFailureRef.current = { audio, at: now };
+
+    recordPlaybackError(incidentsRef.current, err);
+
+    // ブラウザの自動再生の制限で拒否された場合は、再生開始のクリックを待つ（自動での再読み込みの後など）
+    if (isAutoplayBlockedError(err)) {
+      hasStartedPlayback.current = false;
+      setNeedsUserInteraction(true);
+      setIsPlaying(false);
+      return;
+    }
+
+    const recording = audioToRecordingMap.current.get(audio);
+    if (recording && isRecordingSpecificError(err)) {
+      reportRecordingFailure(recording, getPlaybackErrorMessage(err));
+    }
+
+    consecutiveErrorsRef.current += 1;
+    if (consecutiveErrorsRef.current <= MAX_CONSECUTIVE_SKIPS) {
+      skip();
+      return;
+    }
+
+    console.warn(`再生エラーが${consecutiveErrorsRef.current}回続いたため、スキップをやめて自動復旧に任せます`);
+    setIsPlaying(false);
+  }, [reportRecordingFailure]);
+
+  // クロスフェード中かどうかを判定し、クロスフェードの長さ（前のトラックの残り時間）を返す
+  const getCrossfadeRemaining = useCallback((audio: HTMLAudioElement | null) => {
+    if (!crossfadeStartedRef.current || !audio || audio.paused) {
+      return 0;
+    }
+    const remaining = getTrackRange(audio).end - audio.currentTime;
+    return Number.isFinite(remaining) && remaining > 0 ? remaining : 0;
+  }, [getTrackRange]);
+
   // 次のトラックに切り替えて再生
   const switchToNextTrack: () => Promise<void> = useCallback(async () => {
     if (isSwitching.current || recordingsRef.current.length === 0) return;
 
     isSwitching.current = true;
 
+    // プレイリストが変更された場合は、一周完了として新しいプレイリストを読み込む
+    if (pendingPlaylistSwitchRef.current) {
+      pendingPlaylistSwitchRef.current = false;
+      hasCompletedPlaybackRef.current = true;
+      playbackSnapshotRef.current = null;
+    }
+
     // プレイリスト一周完了フラグをチェック
     if (hasCompletedPlaybackRef.current) {
+      const crossfadeRemaining = getCrossfadeRemaining(currentAudioRef.current);
+
       // 古いプリロードをクリア（古いプレイリストのファイルが残っている可能性があるため）
       if (nextAudioRef.current) {
         nextAudioRef.current.pause();
@@ -431,6 +1035,14 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
         nextAudioRef.current.onerror = null;
       }
 
+      // クロスフェード中は再生中のAudio要素をフェードアウトさせ、もう一方で最初のトラックを再生する
+      if (crossfadeRemaining > 0 && currentAudioRef.current) {
+        const outgoingAudio = currentAudioRef.current;
+        currentAudioRef.current = nextAudioRef.current;
+        nextAudioRef.current = outgoingAudio;
+        retireAudio(outgoingAudio, crossfadeRemaining);
+      }
+
       // fetchRecordingsを呼び出して新しいプレイリストを取得
       // fetchRecordings内で再生順序が再計算される
       await fetchRecordings();
@@ -448,7 +1060,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       if (recordingsRef.current.length > 0 && playTrackRef.current) {
         // 少し待機してから再生（state更新が確実に反映されるように）
         await new Promise(resolve => setTimeout(resolve, 100));
-        await playTrackRef.current(firstIndex);
+        await playTrackRef.current(firstIndex, crossfadeRemaining);
       }
 
       isSwitching.current = false;
@@ -461,6 +1073,8 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     // moveToNextTrackでhasCompletedPlaybackRef.currentがtrueになった場合、
     // 即座に新しいプレイリストをロードして再生を継続
     if (hasCompletedPlaybackRef.current) {
+      const crossfadeRemaining = getCrossfadeRemaining(currentAudioRef.current);
+
       // 古いプリロードをクリア
       if (nextAudioRef.current) {
         nextAudioRef.current.pause();
@@ -469,6 +1083,14 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
         nextAudioRef.current.onerror = null;
       }
 
+      // クロスフェード中は再生中のAudio要素をフェードアウトさせ、もう一方で最初のトラックを再生する
+      if (crossfadeRemaining > 0 && currentAudioRef.current) {
+        const outgoingAudio = currentAudioRef.current;
+        currentAudioRef.current = nextAudioRef.current;
+        nextAudioRef.current = outgoingAudio;
+        retireAudio(outgoingAudio, crossfadeRemaining);
+      }
+
       // fetchRecordingsを呼び出して新しいプレイリストを取得
       await fetchRecordings();
 
@@ -484,7 +1106,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       // 新しいプレイリストで最初のトラックを再生
       if (recordingsRef.current.length > 0 && playTrackRef.current) {
         await new Promise(resolve => setTimeout(resolve, 100));
-        await playTrackRef.current(firstIndex);
+        await playTrackRef.current(firstIndex, crossfadeRemaining);
       }
 
       isSwitching.current = false;
@@ -493,6 +1115,8 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
     // 次のトラックが既にプリロードされていれば、それを再生
     if (nextAudioRef.current && nextAudioRef.current.src) {
+      const crossfadeRemaining = getCrossfadeRemaining(currentAudioRef.current);
+
       // 参照を入れ替え（Audio要素のみ。ノードはWeakMapで管理されているので不要）
       const tempAudio = currentAudioRef.current;
       currentAudioRef.current = nextAudioRef.current;
@@ -500,34 +1124,51 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
       // 新しいcurrentAudioにイベントリスナーを設定
       if (currentAudioRef.current) {
+        const playingAudio = currentAudioRef.current;
         currentAudioRef.current.onended = () => {
-          if (switchToNextTrackRef.current) {
-            switchToNextTrackRef.current();
-          }
+          handleTrackEnded();
         };
 
         currentAudioRef.current.onerror = (e) => {
           console.error('Audio error:', e);
-          setTimeout(() => {
-            if (switchToNextTrackRef.current) {
-              switchToNextTrackRef.current();
-            }
-          }, 100);
+          handleTrackFailure(playingAudio, playingAudio.error, () => {
+            setTimeout(() => {
+              if (switchToNextTrackRef.current) {
+                switchToNextTrackRef.current();
+              }
+            }, 100);
+          });
         };
 
         currentAudioRef.current.onplaying = () => {
+          consecutiveErrorsRef.current = 0;
           setIsPlaying(true);
+          connectAudioToAnalyser(playingAudio);
+          applyPendingFadeIn(playingAudio);
         };
 
         currentAudioRef.current.onpause = () => {
           setIsPlaying(false);
         };
+
+        currentAudioRef.current.ontimeupdate = () => {
+          handleTimeUpdate(playingAudio);
+        };
+
+        beginTrackVolume(currentAudioRef.current, crossfadeRemaining);
+        countTrackPlay(audioToRecordingMap.current.get(currentAudioRef.current));
+      }
+
+      // クロスフェードの場合は前のトラックを止めずにフェードアウトさせる
+      if (crossfadeRemaining > 0 && tempAudio) {
+        retireAudio(tempAudio, crossfadeRemaining);
       }
 
       // 新しいcurrentAudioを再生開始（Gapless再生のため、古いAudioを停止する前に開始）
-      currentAudioRef.current.play().then(() => {
-        // 再生が開始されてから、古いAudioを停止
-        if (tempAudio) {
+      const startedAudio = currentAudioRef.current;
+      startedAudio.play().then(() => {
+        // 再生が開始されてから、古いAudioを停止（クロスフェード中はretireAudioで停止する）
+        if (tempAudio && crossfadeRemaining === 0) {
           tempAudio.pause();
           // イベントリスナーをクリア
           tempAudio.onended = null;
@@ -538,13 +1179,16 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       }).catch((err) => {
         console.error('再生エラー:', err);
         // エラーの場合も古いAudioを停止
-        if (tempAudio) {
+        if (tempAudio && crossfadeRemaining === 0) {
           tempAudio.pause();
           tempAudio.onended = null;
           tempAudio.onerror = null;
           tempAudio.onplaying = null;
           tempAudio.onpause = null;
         }
+        handleTrackFailure(startedAudio, err, () => {
+          switchToNextTrackRef.current?.();
+        });
       });
 
       // さらに次をプリロード（再生順序配列を参照）
@@ -552,7 +1196,20 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     }
 
     isSwitching.current = false;
-  }, [moveToNextTrack, preloadNextTrack, fetchRecordings]);
+  }, [
+    moveToNextTrack,
+    preloadNextTrack,
+    fetchRecordings,
+    connectAudioToAnalyser,
+    applyPendingFadeIn,
+    handleTimeUpdate,
+    handleTrackEnded,
+    beginTrackVolume,
+    countTrackPlay,
+    retireAudio,
+    getCrossfadeRemaining,
+    handleTrackFailure,
+  ]);
 
   // switchToNextTrackの参照を常に最新に保つ
   useEffect(() => {
@@ -567,31 +1224,42 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     audio.onplaying = null;
     audio.onpause = null;
     audio.onloadstart = null;
+    audio.ontimeupdate = null;
 
     // 新しいリスナーを設定
     audio.onended = () => {
-      switchToNextTrack();
+      handleTrackEnded();
     };
 
     audio.onerror = (e) => {
       console.error('Audio error:', e);
       // エラーが発生した場合は次のトラックにスキップ
-      setTimeout(() => {
-        switchToNextTrack();
-      }, 100);
+      handleTrackFailure(audio, audio.error, () => {
+        setTimeout(() => {
+          switchToNextTrack();
+        }, 100);
+      });
     };
 
     audio.onplaying = () => {
+      consecutiveErrorsRef.current = 0;
       setIsPlaying(true);
+      connectAudioToAnalyser(audio);
+      applyPendingFadeIn(audio);
     };
 
     audio.onpause = () => {
       setIsPlaying(false);
     };
-  }, [switchToNextTrack]);
 
-  // 指定されたインデックスのトラックを再生
-  const playTrack = useCallback(async (index: number) => {
+    audio.ontimeupdate = () => {
+      handleTimeUpdate(audio);
+    };
+  }, [switchToNextTrack, connectAudioToAnalyser, applyPendingFadeIn, handleTimeUpdate, handleTrackEnded, handleTrackFailure]);
+
+  // 指定されたインデックスのトラックを再生（crossfadeDurationを指定するとフェードインしながら再生）
+  // isRetryは自動復旧で同じトラックを再生し直す場合に指定する（再生回数を数えない）
+  const playTrack = useCallback(async (index: number, crossfadeDuration = 0, isRetry = false) => {
     if (recordingsRef.current.length === 0) return;
 
     const recording = recordingsRef.current[index];
@@ -600,7 +1268,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       return;
     }
 
-    const url = getRecordingUrl(recording.file_path);
+    const url = getTrackUrl(recording);
 
     // 現在のAudio要素を作成/設定
     if (!currentAudioRef.current) {
@@ -619,25 +1287,177 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     // イベントリスナーを設定
     setupAudioListeners(currentAudioRef.current);
 
+    // 再生開始時の音量を設定（フェードイン・クロスフェード）
+    beginTrackVolume(currentAudioRef.current, crossfadeDuration);
+    if (!isRetry) {
+      countTrackPlay(recording);
+    }
+
     // トラックをセット
     currentAudioRef.current.src = url;
     currentAudioRef.current.load();
 
     // 再生
-    currentAudioRef.current.play().catch((err) => {
+    const audio = currentAudioRef.current;
+    audio.play().catch((err) => {
       console.error('再生エラー:', err);
-      switchToNextTrack();
+      handleTrackFailure(audio, err, () => {
+        switchToNextTrack();
+      });
     });
 
     // 次のトラックをプリロード（再生順序配列を参照）
     preloadNextTrack();
-  }, [setupAudioListeners, switchToNextTrack, preloadNextTrack, setAudioSinkId, connectAudioToWebAudio]);
+  }, [
+    setupAudioListeners,
+    switchToNextTrack,
+    preloadNextTrack,
+    setAudioSinkId,
+    connectAudioToWebAudio,
+    beginTrackVolume,
+    countTrackPlay,
+    handleTrackFailure,
+  ]);
 
   // playTrackの参照を常に最新に保つ
   useEffect(() => {
     playTrackRef.current = playTrack;
   }, [playTrack]);
 
+  // 再生中の周回を、取得し直した録音で更新する
+  // 削除・却下・審査待ちへの差し戻し・隔離などで再生できなくなった録音は周回の途中でもすぐに外し、
+  // 再生中の録音が外れた場合は続きの録音から再生する
+  // 追加・承認された録音は周回の最後に加え、LUFS値・再生範囲の変更は再生中とプリロード済みのトラックにもすぐに反映する
+  const updateCurrentCycle = useCallback((fetched: Recording[]) => {
+    // 切り替え中は再生位置が確定していないため、次の取得で反映する
+    if (isSwitching.current) return;
+
+    const previous = recordingsRef.current;
+    const previousById = new Map(previous.map((recording) => [recording.id, recording]));
+    const fetchedIds = new Set(fetched.map((recording) => recording.id));
+    const removedIds = new Set(previous.filter((recording) => !fetchedIds.has(recording.id)).map((recording) => recording.id));
+    const addedCount = fetched.filter((recording) => !previousById.has(recording.id)).length;
+    const changedIds = new Set(
+      fetched
+        .filter((recording) => {
+          const old = previousById.get(recording.id);
+          return !!old && hasPlaybackSettingsChanged(old, recording);
+        })
+        .map((recording) => recording.id)
+    );
+    if (removedIds.size === 0 && addedCount === 0 && changedIds.size === 0) return;
+
+    const currentId = previous[currentIndexRef.current]?.id;
+    const isCurrentRemoved = !!currentId && removedIds.has(currentId);
+    // 再生位置までに外した録音の数（外した後の再生順序での位置を求めるため）
+    const removedUntilCurrent = playbackOrderRef.current
+      .slice(0, playbackPositionRef.current + 1)
+      .filter((index) => removedIds.has(previous[index]?.id ?? '')).length;
+
+    playbackOrderRef.current = remapPlaybackOrder(previous, fetched, playbackOrderRef.current);
+    playbackPositionRef.current -= removedUntilCurrent;
+    playbackSnapshotRef.current = [...fetched];
+    recordingsRef.current = [...fetched];
+    setRecordings(fetched);
+
+    if (!isCurrentRemoved) {
+      const index = fetched.findIndex((recording) => recording.id === currentId);
+      if (index !== -1) {
+        currentIndexRef.current = index;
+        setCurrentIndex(index);
+        // 再生中のトラックのLUFS値・再生範囲を更新する（Gainノードとアウト点に反映する）
+        if (currentAudioRef.current && changedIds.has(fetched[index].id)) {
+          connectAudioToWebAudio(currentAudioRef.current, fetched[index]);
+        }
+      }
+
+      // プリロード済みの次のトラックが変わった場合（外れた録音・追加された録音・設定の変更）は読み込み直す
+      // クロスフェードでフェードアウト中のAudio要素は、フェードが終わってから更新後の録音でプリロードされる
+      const nextAudio = nextAudioRef.current;
+      if (nextAudio && nextAudio === fadingAudioRef.current) return;
+      const nextPosition = findNextPlayablePosition(
+        playbackOrderRef.current,
+        fetched,
+        playbackPositionRef.current,
+        quarantinedIdsRef.current
+      );
+      const expected = fetched[playbackOrderRef.current[nextPosition]];
+      const preloaded = nextAudio ? audioToRecordingMap.current.get(nextAudio) : undefined;
+      if (preloaded?.id !== expected?.id || (expected && changedIds.has(expected.id))) {
+        if (nextAudio) {
+          nextAudio.pause();
+          nextAudio.src = '';
+        }
+        preloadNextTrack();
+      }
+      return;
+    }
+
+    // プリロード済みの次のトラックは位置が変わるため破棄する（playTrackでプリロードし直す）
+    if (nextAudioRef.current && nextAudioRef.current !== fadingAudioRef.current) {
+      nextAudioRef.current.pause();
+      nextAudioRef.current.src = '';
+    }
+
+    // 再生中の録音を止める（playTrackまたは再開時に次の録音を読み込む）
+    if (gapTimerRef.current) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+    isInGapRef.current = false;
+    resumeWithNextTrackRef.current = false;
+    if (currentAudioRef.current) {
+      currentAudioRef.current.pause();
+      currentAudioRef.current.src = '';
+    }
+
+    const isPaused = isIntentionalPauseRef.current || isPausedByScheduleRef.current;
+    const nextPosition = findNextPlayablePosition(
+      playbackOrderRef.current,
+      recordingsRef.current,
+      playbackPositionRef.current,
+      quarantinedIdsRef.current
+    );
+
+    // 周回の残りがない場合は一周完了として、次の切り替えで録音を取得し直す
+    if (nextPosition >= playbackOrderRef.current.length) {
+      hasCompletedPlaybackRef.current = true;
+      playbackSnapshotRef.current = null;
+      if (isPaused) {
+        resumeWithNextTrackRef.current = true;
+      } else {
+        switchToNextTrack();
+      }
+      return;
+    }
+
+    const nextIndex = playbackOrderRef.current[nextPosition];
+    playbackPositionRef.current = nextPosition;
+    currentIndexRef.current = nextIndex;
+    setCurrentIndex(nextIndex);
+    if (!isPaused) {
+      playTrack(nextIndex);
+    }
+  }, [preloadNextTrack, playTrack, switchToNextTrack, connectAudioToWebAudio]);
+
+  // updateCurrentCycleの参照を常に最新に保つ（fetchRecordingsから呼び出すため）
+  useEffect(() => {
+    updateCurrentCycleRef.current = updateCurrentCycle;
+  }, [updateCurrentCycle]);
+
+  // プレイリストが変更された場合（スケジュールの切り替わりなど）
+  // 再生中は再生中のトラックを最後まで再生してから切り替え、再生前はスナップショットを作り直す
+  useEffect(() => {
+    if (previousPlaylistIdRef.current === playlistId) return;
+    previousPlaylistIdRef.current = playlistId;
+
+    if (hasStartedPlayback.current) {
+      pendingPlaylistSwitchRef.current = true;
+    } else {
+      playbackSnapshotRef.current = null;
+    }
+  }, [playlistId]);
+
   // 初回ロード時に録音を取得し、自動的にスナップショットを作成
   // 外部recordingsがある場合は、fetchRecordingsは何もしない
   useEffect(() => {
@@ -647,8 +1467,9 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
   // 外部からrecordingsが渡された場合は、それをrecordings stateに設定
   useEffect(() => {
     if (externalRecordings) {
-      // 前回の録音数と比較
-      const previousCount = recordingsRef.current.length;
+      // 前回の録音と比較（recordingsRefは下で更新するため、更新前の録音を保持しておく）
+      const previousRecordings = recordingsRef.current;
+      const previousCount = previousRecordings.length;
       const newCount = externalRecordings.length;
 
       // recordingsRefを更新
@@ -660,19 +1481,22 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
         // スナップショットも更新（新しい録音を含める）
         playbackSnapshotRef.current = [...externalRecordings];
 
-        // 追加された録音のインデックスを再生順序配列に追加
-        const addedIndexes = [];
-        for (let i = previousCount; i < newCount; i++) {
-          addedIndexes.push(i);
+        // 追加された録音を再生順序配列の最後に追加
+        // 審査で承認された録音などは一覧の途中に入るため、再生順序と再生中の録音は録音IDで引き継ぐ
+        playbackOrderRef.current = remapPlaybackOrder(previousRecordings, externalRecordings, playbackOrderRef.current);
+        const currentRecordingId = previousRecordings[currentIndexRef.current]?.id;
+        const newCurrentIndex = externalRecordings.findIndex((r) => r.id === currentRecordingId);
+        if (newCurrentIndex !== -1) {
+          currentIndexRef.current = newCurrentIndex;
+          setCurrentIndex(newCurrentIndex);
         }
-        playbackOrderRef.current = [...playbackOrderRef.current, ...addedIndexes];
       }
 
       // 録音の順序が変わった場合やLUFS値が変わった場合の処理
       // （録音数が同じでIDの順序が異なる、またはLUFS値が異なる）
       if (newCount === previousCount && playbackSnapshotRef.current) {
         // IDの配列を比較して並び替えを検出
-        const oldIds = recordingsRef.current.map((r) => r.id);
+        const oldIds = previousRecordings.map((r) => r.id);
         const newIds = externalRecordings.map((r) => r.id);
         const isReordered = oldIds.some((id, index) => id !== newIds[index]);
 
@@ -681,10 +1505,14 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
           playbackSnapshotRef.current = [...externalRecordings];
 
           // 現在再生中の録音のIDを取得
-          const currentRecordingId = recordingsRef.current[currentIndexRef.current]?.id;
+          const currentRecordingId = previousRecordings[currentIndexRef.current]?.id;
 
-          // 新しい順序での再生順序配列を再構築
-          playbackOrderRef.current = buildPlaybackOrder(externalRecordings);
+          // 録音一覧の順で再生している場合は新しい順序で再生順序配列を再構築
+          // それ以外の再生順序は一覧の並び替えに影響されないため、録音IDで引き継ぐ
+          playbackOrderRef.current =
+            playbackOrderModeRef.current === 'manual'
+              ? buildPlaybackOrder(externalRecordings)
+              : remapPlaybackOrder(previousRecordings, externalRecordings, playbackOrderRef.current);
 
           // 現在再生中の録音の新しいインデックスを特定
           const newCurrentIndex = externalRecordings.findIndex((r) => r.id === currentRecordingId);
@@ -710,7 +1538,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
               // プリロード済みの録音が並び替え後の次の録音と一致しない場合はクリアして再プリロード
               // srcからファイルパスを抽出して比較
               const preloadedPath = nextAudioRef.current.src;
-              const expectedPath = newNextRecording ? getRecordingUrl(newNextRecording.file_path) : null;
+              const expectedPath = newNextRecording ? getTrackUrl(newNextRecording) : null;
 
               if (preloadedPath !== expectedPath) {
                 nextAudioRef.current.pause();
@@ -735,7 +1563,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
           const lufsChanges: { id: string; oldLufs: number | null | undefined; newLufs: number | null | undefined; index: number }[] = [];
 
         for (let i = 0; i < externalRecordings.length; i++) {
-          const oldRecording = recordingsRef.current[i];
+          const oldRecording = previousRecordings[i];
           const newRecording = externalRecordings[i];
 
           if (oldRecording && newRecording && oldRecording.id === newRecording.id) {
@@ -755,7 +1583,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
           playbackSnapshotRef.current = [...externalRecordings];
 
           // 現在再生中の録音のLUFS値が変わった場合、Gainノードを更新
-          const currentRecordingId = recordingsRef.current[currentIndexRef.current]?.id;
+          const currentRecordingId = previousRecordings[currentIndexRef.current]?.id;
           const currentChange = lufsChanges.find((c) => c.id === currentRecordingId);
 
           if (currentChange && currentAudioRef.current) {
@@ -789,7 +1617,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       // 録音が削除された場合（newCount < previousCount）の処理
       if (newCount < previousCount && playbackSnapshotRef.current) {
         // 削除された録音のIDを特定
-        const deletedRecordings = recordingsRef.current.filter(
+        const deletedRecordings = previousRecordings.filter(
           (oldRec) => !externalRecordings.some((newRec) => newRec.id === oldRec.id)
         );
 
@@ -798,9 +1626,14 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
         // 削除された録音のインデックスを特定
         const deletedIndexes = deletedRecordings.map((deletedRec) => {
-          return recordingsRef.current.findIndex((r) => r.id === deletedRec.id);
+          return previousRecordings.findIndex((r) => r.id === deletedRec.id);
         });
 
+        // 再生位置までに削除された録音の数（再生中の録音が削除された場合に、続きの録音から再生するため）
+        const deletedUntilCurrent = playbackOrderRef.current
+          .slice(0, playbackPositionRef.current + 1)
+          .filter((idx) => deletedIndexes.includes(idx)).length;
+
         // 再生順序配列から削除されたインデックスを除外し、
         // 削除されたインデックスより大きいインデックスを調整
         const newPlaybackOrder = playbackOrderRef.current
@@ -817,6 +1650,8 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
         const currentActualIndex = currentIndexRef.current;
         if (deletedIndexes.includes(currentActualIndex)) {
           // 現在再生中の録音が削除された場合は、次のトラックにスキップ
+          // 再生位置を削除された録音の直前に合わせ、削除された録音の次の録音に進むようにする
+          playbackPositionRef.current -= deletedUntilCurrent;
           // 現在のオーディオを停止
           if (currentAudioRef.current) {
             currentAudioRef.current.pause();
@@ -849,7 +1684,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
             const nextRecording = externalRecordings[nextIndex];
             // プリロード済みの録音が削除された録音の場合はクリア
             const wasNextDeleted = deletedRecordings.some((deletedRec) => {
-              return recordingsRef.current.findIndex((r) => r.id === deletedRec.id) === nextIndex + deletedIndexes.filter((delIdx) => delIdx <= nextIndex).length;
+              return previousRecordings.findIndex((r) => r.id === deletedRec.id) === nextIndex + deletedIndexes.filter((delIdx) => delIdx <= nextIndex).length;
             });
             if (wasNextDeleted || !nextRecording) {
               nextAudioRef.current.pause();
@@ -886,23 +1721,31 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     }
   }, [recordings, buildPlaybackOrder]);
 
-  // 10秒ごとに録音リストを更新（外部recordingsがある場合は無効）
-  useEffect(() => {
-    // 外部recordingsがある場合は自動更新しない
-    if (externalRecordings) {
-      return;
-    }
-
-    fetchIntervalRef.current = setInterval(() => {
-      fetchRecordings();
-    }, 10000);
+  // 録音の変更を受け取ったら録音リストを更新（外部recordingsがある場合は渡す側で購読する）
+  // 再生端末はSupabaseのセッションがなく変更通知を購読できないため、データベースのトリガーが送るブロードキャストで更新する
+  usePlaylistChanges(playlistId, fetchRecordings, {
+    enabled: !externalRecordings,
+    realtime: !deviceMode,
+    recordingIds: playlistRecordingIds,
+  });
+
+  // 現在の再生位置を取得（字幕表示などで使用）
+  const getCurrentTime = useCallback(() => {
+    return currentAudioRef.current?.currentTime ?? 0;
+  }, []);
 
-    return () => {
-      if (fetchIntervalRef.current) {
-        clearInterval(fetchIntervalRef.current);
-      }
+  // 稼働状況の診断情報を取得（AudioContextを作成しないよう、参照のみ）
+  const getDiagnostics = useCallback((): PlayerDiagnostics => {
+    return {
+      ...incidentsRef.current,
+      audioContextState: audioContextRef.current?.state ?? null,
     };
-  }, [fetchRecordings, externalRecordings]);
+  }, []);
+
+  // ビジュアライザー用のAnalyserNodeを取得（再生開始前に作成しないよう、参照のみ）
+  const getAnalyser = useCallback(() => {
+    return analyserRef.current;
+  }, []);
 
   // 再生を一時停止（現在位置を保持）
   const pausePlayback = useCallback(() => {
@@ -911,9 +1754,25 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     // 意図的な一時停止フラグを立てる
     isIntentionalPauseRef.current = true;
 
+    // 曲間の無音中の場合は、再開時に次のトラックから再生する
+    if (gapTimerRef.current) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+      isInGapRef.current = false;
+      resumeWithNextTrackRef.current = true;
+    }
+
     // オーディオを一時停止（srcはクリアしない）
     if (currentAudioRef.current) {
       currentAudioRef.current.pause();
+
+      // フェードの予約は一時停止中も進むため、音量を戻して再開後に改めてフェードアウトする
+      const nodes = audioToNodesMap.current.get(currentAudioRef.current);
+      if (nodes && audioContextRef.current) {
+        setFadeGain(nodes.fade.gain, audioContextRef.current, 1);
+      }
+      fadeOutStartedRef.current = false;
+      pendingFadeInRef.current.delete(currentAudioRef.current);
     }
     if (nextAudioRef.current) {
       nextAudioRef.current.pause();
@@ -927,6 +1786,22 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
   // 再生をリセット
   const resetPlayback = useCallback(() => {
+    // 曲間の無音とクロスフェードのタイマーを停止
+    if (gapTimerRef.current) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+    if (fadingTimerRef.current) {
+      clearTimeout(fadingTimerRef.current);
+      fadingTimerRef.current = null;
+    }
+    isInGapRef.current = false;
+    resumeWithNextTrackRef.current = false;
+    pendingPlaylistSwitchRef.current = false;
+    isPausedByScheduleRef.current = false;
+    fadingAudioRef.current = null;
+    hasPendingPreloadRef.current = false;
+
     // オーディオを停止
     if (currentAudioRef.current) {
       currentAudioRef.current.pause();
@@ -935,6 +1810,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       currentAudioRef.current.onerror = null;
       currentAudioRef.current.onplaying = null;
       currentAudioRef.current.onpause = null;
+      currentAudioRef.current.ontimeupdate = null;
     }
     if (nextAudioRef.current) {
       nextAudioRef.current.pause();
@@ -943,6 +1819,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
       nextAudioRef.current.onerror = null;
       nextAudioRef.current.onplaying = null;
       nextAudioRef.current.onpause = null;
+      nextAudioRef.current.ontimeupdate = null;
     }
 
     // 状態をリセット
@@ -964,6 +1841,7 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
     // 意図的な一時停止フラグをクリア
     isIntentionalPauseRef.current = false;
+    isPausedByScheduleRef.current = false;
 
     // AudioContextをresumeする（ユーザーインタラクション後に必要）
     if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
@@ -972,10 +1850,18 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
 
     // 一時停止から再開の場合
     if (hasStartedPlayback.current) {
+      // 曲間の無音中に一時停止した場合、または一時停止中にプレイリストが変更された場合は次のトラックから再生
+      if (resumeWithNextTrackRef.current || pendingPlaylistSwitchRef.current) {
+        resumeWithNextTrackRef.current = false;
+        switchToNextTrack();
+        return;
+      }
+
       // 現在のAudio要素がある場合は再開
       if (currentAudioRef.current && currentAudioRef.current.src) {
         currentAudioRef.current.play().catch((err) => {
           console.error('再生エラー:', err);
+          recordPlaybackError(incidentsRef.current, err);
         });
       } else {
         // Audio要素がない場合は現在のインデックスから再生
@@ -1002,16 +1888,211 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     // 最初のトラックを再生（再生順序配列の最初のインデックス）
     const firstIndex = playbackOrderRef.current.length > 0 ? playbackOrderRef.current[0] : 0;
     playTrack(firstIndex);
-  }, [recordings, playTrack, buildPlaybackOrder]);
+  }, [recordings, playTrack, buildPlaybackOrder, switchToNextTrack]);
+
+  // 再生全体の音量を変更（再生中・プリロード済み・フェードアウト中のトラックにもすぐに反映する）
+  const setVolume = useCallback((nextVolume: number) => {
+    const clamped = Math.min(Math.max(nextVolume, 0), 1);
+    volumeRef.current = clamped;
+    setVolumeState(clamped);
+
+    [currentAudioRef.current, nextAudioRef.current, fadingAudioRef.current].forEach((audio) => {
+      if (!audio) return;
+      const nodes = audioToNodesMap.current.get(audio);
+      if (nodes) {
+        nodes.gain.gain.value = getTrackGain(audioToRecordingMap.current.get(audio), clamped);
+      } else {
+        audio.volume = clamped;
+      }
+    });
+  }, []);
+
+  // 再生中のトラックを止めて、再生を続ける状態に戻す（スキップ・録音の指定で使用）
+  const prepareManualSwitch = useCallback(async () => {
+    if (gapTimerRef.current) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+    isInGapRef.current = false;
+    resumeWithNextTrackRef.current = false;
+    isIntentionalPauseRef.current = false;
+    isPausedByScheduleRef.current = false;
+
+    if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
+      await audioContextRef.current.resume();
+    }
+  }, []);
+
+  // 次のトラックにスキップ（一時停止中・曲間の無音中でもすぐに次のトラックを再生する）
+  const skipTrack = useCallback(async () => {
+    if (!hasStartedPlayback.current) return;
+
+    await prepareManualSwitch();
+    await switchToNextTrack();
+  }, [prepareManualSwitch, switchToNextTrack]);
+
+  // 指定した録音から再生（再生順序はそのままで、周回の中の位置を移動する）
+  const jumpToRecording = useCallback(async (recordingId: string) => {
+    const index = recordingsRef.current.findIndex((r) => r.id === recordingId);
+    const position = playbackOrderRef.current.indexOf(index);
+    if (index === -1 || position === -1) {
+      throw new Error('再生中のプレイリストにこの録音がありません');
+    }
+
+    await prepareManualSwitch();
+
+    // プリロード済みの次のトラックは位置が変わるため破棄する（playTrackでプリロードし直す）
+    if (nextAudioRef.current && nextAudioRef.current !== fadingAudioRef.current) {
+      nextAudioRef.current.pause();
+      nextAudioRef.current.src = '';
+    }
+
+    playbackPositionRef.current = position;
+    currentIndexRef.current = index;
+    setCurrentIndex(index);
+    hasStartedPlayback.current = true;
+    hasCompletedPlaybackRef.current = false;
+    setNeedsUserInteraction(false);
+
+    await playTrack(index);
+  }, [prepareManualSwitch, playTrack]);
+
+  // Audio要素とAudioContextを破棄する（次にplayTrackで再生するときに作り直される）
+  const discardAudio = useCallback(async () => {
+    if (fadingTimerRef.current) {
+      clearTimeout(fadingTimerRef.current);
+      fadingTimerRef.current = null;
+    }
+    hasPendingPreloadRef.current = false;
+
+    [currentAudioRef.current, nextAudioRef.current, fadingAudioRef.current].forEach((audio) => {
+      if (!audio) return;
+      audio.onended = null;
+      audio.onerror = null;
+      audio.onplaying = null;
+      audio.onpause = null;
+      audio.ontimeupdate = null;
+      audio.pause();
+      audio.src = '';
+    });
+    currentAudioRef.current = null;
+    nextAudioRef.current = null;
+    fadingAudioRef.current = null;
+
+    // 古いAudioContextに接続したノードは使えないため、対応もすべて破棄する
+    audioToNodesMap.current = new WeakMap();
+    audioToCaptureMap.current = new WeakMap();
+    pendingFadeInRef.current = new WeakSet();
+    analyserRef.current = null;
+
+    const context = audioContextRef.current;
+    audioContextRef.current = null;
+    if (context && context.state !== 'closed') {
+      await context.close().catch((err) => {
+        console.error('AudioContext close error:', err);
+      });
+    }
+  }, []);
+
+  // 自動復旧の手順を実行する
+  const runRecoveryStep = useCallback(async (step: RecoveryStep) => {
+    incidentsRef.current.recoveryCount += 1;
+    incidentsRef.current.lastRecoveryStep = step;
+    incidentsRef.current.lastRecoveryAt = new Date().toISOString();
+    setRecoveryStep(step);
+
+    try {
+      await prepareManualSwitch();
+      // 止まったまま終わらない切り替えの処理を待たない
+      isSwitching.current = false;
+
+      switch (step) {
+        case 'retry':
+          appendRecoveryLog(step, '再生中のトラックをもう一度再生します');
+          await playTrack(currentIndexRef.current, 0, true);
+          break;
+        case 'skip':
+          appendRecoveryLog(step, '次のトラックにスキップします');
+          await switchToNextTrack();
+          break;
+        case 'reset_audio':
+          appendRecoveryLog(step, 'AudioContextとAudio要素を作り直して再生します');
+          await discardAudio();
+          await playTrack(currentIndexRef.current, 0, true);
+          if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
+            await audioContextRef.current.resume();
+          }
+          break;
+        case 'refetch':
+          appendRecoveryLog(step, 'プレイリストを取得し直して最初から再生します');
+          pendingPlaylistSwitchRef.current = true;
+          await switchToNextTrack();
+          break;
+        case 'reload':
+          // オフラインでは再読み込みしても復旧しないため、キャッシュから再生を続ける
+          if (!navigator.onLine) {
+            appendRecoveryLog(step, 'オフラインのため再読み込みせず、最初の手順からやり直します');
+            return;
+          }
+          if (!canWatchdogReload()) {
+            appendRecoveryLog(step, '再読み込みの回数が上限に達したため、最初の手順からやり直します');
+            return;
+          }
+          appendRecoveryLog(step, 'ページを再読み込みします');
+          markWatchdogReload();
+          window.location.reload();
+          break;
+      }
+    } catch (err) {
+      console.error('自動復旧エラー:', err);
+      recordPlaybackError(incidentsRef.current, err);
+    }
+  }, [prepareManualSwitch, playTrack, switchToNextTrack, discardAudio, appendRecoveryLog]);
+
+  // runRecoveryStepの参照を常に最新に保つ（復旧中に関数が作り直されても手順を最初からやり直さないため）
+  const runRecoveryStepRef = useRef(runRecoveryStep);
+  useEffect(() => {
+    runRecoveryStepRef.current = runRecoveryStep;
+  }, [runRecoveryStep]);
+
+  // 開館時間に合わせて再生を停止・再開する（開館・閉館の切り替わりでのみ操作し、時間外の手動再生は妨げない）
+  // ブラウザの自動再生の制限があるため、開館時の自動再開は一度再生を開始した後のみ行う
+  useEffect(() => {
+    if (!followSchedule || !schedule.isLoaded) return;
+
+    const wasOpen = wasOpenRef.current;
+    wasOpenRef.current = schedule.isOpen;
+    if (wasOpen === schedule.isOpen) return;
+
+    if (!schedule.isOpen) {
+      if (hasStartedPlayback.current && !isIntentionalPauseRef.current) {
+        isPausedByScheduleRef.current = true;
+        pausePlayback();
+      }
+      return;
+    }
+
+    if (isPausedByScheduleRef.current) {
+      startPlayback();
+    }
+  }, [followSchedule, schedule.isLoaded, schedule.isOpen, pausePlayback, startPlayback]);
 
   // 再生停止検出ロジック（2秒猶予）
   useEffect(() => {
     // 一度でも再生を開始した後（needsUserInteractionがfalse）かつ意図的な一時停止でない場合のみタイマーを起動
     if (!isPlaying && !needsUserInteraction && !isIntentionalPauseRef.current) {
       // 再生が停止したら2秒後にhasUnexpectedStopをtrueにする
-      stopDetectionTimerRef.current = setTimeout(() => {
+      // 曲間の無音中は停止とみなさず、無音が終わるまで判定を延ばす
+      const checkUnexpectedStop = () => {
+        if (isInGapRef.current) {
+          stopDetectionTimerRef.current = setTimeout(checkUnexpectedStop, 2000);
+          return;
+        }
+        incidentsRef.current.stallCount += 1;
+        incidentsRef.current.lastStallAt = new Date().toISOString();
         setHasUnexpectedStop(true);
-      }, 2000);
+      };
+      stopDetectionTimerRef.current = setTimeout(checkUnexpectedStop, 2000);
     } else {
       // 再生が開始されたらタイマーをクリアし、hasUnexpectedStopをfalseにする
       if (stopDetectionTimerRef.current) {
@@ -1030,9 +2111,99 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     };
   }, [isPlaying, needsUserInteraction]);
 
+  // 再生中なのに再生位置が進まない停止を検出（読み込みが止まった場合など、pauseイベントが発生しない停止）
+  useEffect(() => {
+    if (!isPlaying) {
+      setIsProgressStalled(false);
+      return;
+    }
+
+    let lastAudio: HTMLAudioElement | null = null;
+    let lastTime = -1;
+    let lastProgressAt = Date.now();
+    let isStallRecorded = false;
+    const timer = setInterval(() => {
+      const audio = currentAudioRef.current;
+      const time = audio?.currentTime ?? 0;
+      // 曲間の無音中と、再生位置が進んでいる場合は正常
+      if (isInGapRef.current || (audio && !audio.paused && (audio !== lastAudio || time !== lastTime))) {
+        lastAudio = audio;
+        lastTime = time;
+        lastProgressAt = Date.now();
+        isStallRecorded = false;
+        setIsProgressStalled(false);
+        return;
+      }
+
+      if (!isStallRecorded && Date.now() - lastProgressAt >= PROGRESS_STALL_TIMEOUT) {
+        isStallRecorded = true;
+        incidentsRef.current.stallCount += 1;
+        incidentsRef.current.lastStallAt = new Date().toISOString();
+        setIsProgressStalled(true);
+      }
+    }, PROGRESS_CHECK_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [isPlaying]);
+
+  // 再生の停止を検出したら、自動復旧の手順を軽いものから順に試す
+  // 各手順の後、RECOVERY_CHECK_DELAYのうちに再生が回復しなければ次の手順へ進み、最後まで試したら最初に戻る
+  const isStalled = (hasUnexpectedStop || isProgressStalled) && !needsUserInteraction;
+  useEffect(() => {
+    if (!isStalled) {
+      if (!isRecoveringRef.current) return;
+
+      // 再生がしばらく続いたら復旧できたとみなし、次の停止では最初の手順から試す
+      const timer = setTimeout(() => {
+        isRecoveringRef.current = false;
+        recoveryStepIndexRef.current = 0;
+        setRecoveryStep(null);
+        if (currentAudioRef.current && !currentAudioRef.current.paused) {
+          appendRecoveryLog('recovered', '再生が回復しました');
+        }
+      }, RECOVERY_STABLE_DURATION);
+      return () => clearTimeout(timer);
+    }
+
+    let timer: NodeJS.Timeout | null = null;
+    const runNextStep = () => {
+      const step = RECOVERY_STEPS[recoveryStepIndexRef.current];
+      recoveryStepIndexRef.current = (recoveryStepIndexRef.current + 1) % RECOVERY_STEPS.length;
+      isRecoveringRef.current = true;
+      runRecoveryStepRef.current(step);
+      timer = setTimeout(runNextStep, RECOVERY_CHECK_DELAY);
+    };
+    runNextStep();
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }, [isStalled, appendRecoveryLog]);
+
+  // 自動での再読み込みの後は、録音を取得したら再生を再開する
+  // ブラウザの自動再生の制限で拒否された場合は、再生開始のクリックを待つ（handleTrackFailure）
+  useEffect(() => {
+    if (shouldResumeAfterReloadRef.current === null) {
+      shouldResumeAfterReloadRef.current = consumeWatchdogResume();
+    }
+    if (!shouldResumeAfterReloadRef.current || recordings.length === 0 || hasStartedPlayback.current) return;
+
+    shouldResumeAfterReloadRef.current = false;
+    appendRecoveryLog('reload', 'ページを再読み込みしたため再生を再開します');
+    startPlayback();
+  }, [recordings, startPlayback, appendRecoveryLog]);
+
   // クリーンアップ
   useEffect(() => {
     return () => {
+      if (gapTimerRef.current) {
+        clearTimeout(gapTimerRef.current);
+      }
+      if (fadingTimerRef.current) {
+        clearTimeout(fadingTimerRef.current);
+      }
       if (currentAudioRef.current) {
         currentAudioRef.current.pause();
         currentAudioRef.current.src = '';
@@ -1053,6 +2224,9 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
   return {
     recordings,
     currentIndex,
+    currentPosition: Math.max(0, playbackOrderRef.current.indexOf(currentIndex)),
+    currentRecording: recordings[currentIndex] ?? null,
+    getCurrentTime,
     isPlaying,
     error,
     totalCount: recordings.length,
@@ -1064,6 +2238,15 @@ export const usePlayer = (options?: UsePlayerOptions): UsePlayerReturn => {
     setOutputDevice,
     currentAudioDevice,
     audioOutputSupported,
-    hasUnexpectedStop,
+    hasUnexpectedStop: hasUnexpectedStop || isProgressStalled,
+    getAnalyser,
+    schedule: followSchedule ? schedule : null,
+    volume,
+    setVolume,
+    skipTrack,
+    jumpToRecording,
+    getDiagnostics,
+    recoveryStep,
+    recoveryLog,
   };
 };
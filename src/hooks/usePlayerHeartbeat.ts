@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { sendPlayerHeartbeat } from '@/lib/device-api';
+import { PLAYER_HEARTBEAT_INTERVAL } from '@/lib/player-health';
+import type { PlayerHeartbeat } from '@/lib/types';
+
+interface UsePlayerHeartbeatOptions {
+  // falseの場合は送信しない
+  enabled?: boolean;
+  // 送信するハートビートを作成する（送信のたびに呼び出す）
+  getHeartbeat: () => PlayerHeartbeat;
+  // この値が変わったときは間隔を待たずに送信する（停止の検出・再生の開始など）
+  urgentKey?: string;
+}
+
+/**
+ * 再生端末の稼働状況を一定間隔で報告する
+ * 送信に失敗しても再生には影響させず、次の間隔で再送する
+ */
+export const usePlayerHeartbeat = (options: UsePlayerHeartbeatOptions): void => {
+  const { enabled = true, getHeartbeat, urgentKey } = options;
+  const getHeartbeatRef = useRef(getHeartbeat);
+  const isSendingRef = useRef(false);
+
+  useEffect(() => {
+    getHeartbeatRef.current = getHeartbeat;
+  }, [getHeartbeat]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const send = async () => {
+      if (isSendingRef.current) return;
+      isSendingRef.current = true;
+      try {
+        await sendPlayerHeartbeat(getHeartbeatRef.current());
+      } catch (err) {
+        console.error('ハートビートの送信に失敗:', err);
+      } finally {
+        isSendingRef.current = false;
+      }
+    };
+
+    // 開始時・状態が変わったときにすぐ送信し、以降は一定間隔で送信する
+    send();
+    const timer = setInterval(send, PLAYER_HEARTBEAT_INTERVAL);
+    return () => clearInterval(timer);
+  }, [enabled, urgentKey]);
+};
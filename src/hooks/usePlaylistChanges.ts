@@ -0,0 +1,71 @@
+import { useState, useEffect, useRef } from 'react';
+import { createClient } from '@/lib/supabase-client';
+import {
+  subscribeToPlaylistBroadcast,
+  subscribeToPlaylistChanges,
+  type ChangeFeedClient,
+  type ChangeFeedStatus,
+} from '@/lib/change-feed';
+
+interface UsePlaylistChangesOptions {
+  // falseの場合は購読しない
+  enabled?: boolean;
+  // falseの場合はPostgresの変更通知の代わりに、データベースのトリガーが送るブロードキャストを購読する
+  // （Supabaseのセッションがなく、RLSのため変更通知を受け取れない再生端末など）
+  realtime?: boolean;
+  // 現在表示・再生しているプレイリストの録音のID（他の録音の更新では再取得しない）
+  recordingIds?: string[];
+}
+
+/**
+ * プレイリストの録音の変更を購読し、変更があったときにonChangeを呼び出す
+ * Realtimeに接続できない間はポーリングで代替します
+ * 再生端末（realtime: false）は内容を含まないブロードキャストで変更を受け取り、取りこぼしに備えて接続中も一定間隔で取得します
+ * @param playlistId プレイリストID（nullの場合は購読しない）
+ * @param onChange 変更があったとき（録音の再取得など）
+ * @returns 変更フィードの状態（購読していない場合はnull）
+ */
+export const usePlaylistChanges = (
+  playlistId: string | null | undefined,
+  onChange: () => void,
+  options?: UsePlaylistChangesOptions
+): ChangeFeedStatus | null => {
+  const { enabled = true, realtime = true, recordingIds } = options || {};
+  const [status, setStatus] = useState<ChangeFeedStatus | null>(null);
+
+  const onChangeRef = useRef(onChange);
+  const recordingIdsRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    recordingIdsRef.current = recordingIds ? new Set(recordingIds) : null;
+  }, [recordingIds]);
+
+  useEffect(() => {
+    if (!enabled || !playlistId) {
+      setStatus(null);
+      return;
+    }
+
+    const client = createClient() as unknown as ChangeFeedClient;
+
+    if (!realtime) {
+      return subscribeToPlaylistBroadcast(client, playlistId, {
+        onChange: () => onChangeRef.current(),
+        onStatusChange: setStatus,
+      });
+    }
+
+    return subscribeToPlaylistChanges(client, playlistId, {
+      onChange: () => onChangeRef.current(),
+      onStatusChange: setStatus,
+      // 録音が未取得の場合は、すべての録音の更新を対象にする
+      isRelevantRecording: (recordingId) => recordingIdsRef.current?.has(recordingId) ?? true,
+    });
+  }, [playlistId, enabled, realtime]);
+
+  return status;
+};
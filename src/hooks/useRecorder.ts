@@ -1,12 +1,43 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-
-export type RecorderState = 'idle' | 'recording' | 'paused' | 'stopped';
+import { toVolumeMetadata, type VolumeMetadata } from '@/lib/audio-analysis';
+import { applyVoiceOnset, detectVoiceBoundaries } from '@/lib/trim';
+import { toDecibels } from '@/lib/voice-activation';
+import type { PlaylistVoiceActivationSettings, RecordingTrim } from '@/lib/types';
+
+// 入力レベルの計測に使うバッファサイズ（48kHzで約43ms）
+const LEVEL_BUFFER_SIZE = 2048;
+// クリッピングとみなすサンプルの絶対値
+const CLIPPING_THRESHOLD = 0.99;
+// クリッピングの表示を保持する時間（ミリ秒）
+const CLIPPING_HOLD_TIME = 1000;
+// 声が入っているとみなすRMSレベル（約-40dBFS）
+const QUIET_RMS_THRESHOLD = 0.01;
+// この時間以上声が入っていない場合に「音が小さい」と警告する（ミリ秒）
+const TOO_QUIET_DURATION = 3000;
+// 最大録音時間（秒）
+const MAX_RECORDING_SECONDS = 60;
+// 音声で録音を開始する場合に、声を待つ最大時間（ミリ秒）
+const ARMED_TIMEOUT = 30000;
+
+// armed: 音声で録音を開始する設定で、声が検出されるのを待っている状態
+export type RecorderState = 'idle' | 'armed' | 'recording' | 'paused' | 'stopped';
 
 export interface AudioDevice {
   deviceId: string;
   label: string;
 }
 
+// 入力レベル（リニア値、0.0〜1.0）
+export interface InputLevel {
+  rms: number;
+  peak: number;
+}
+
+interface UseRecorderOptions {
+  // 音声で録音を開始・停止する設定（未指定または無効の場合はボタンで開始・停止する）
+  voiceActivation?: PlaylistVoiceActivationSettings | null;
+}
+
 interface UseRecorderReturn {
   state: RecorderState;
   recordedBlob: Blob | null;
@@ -15,6 +46,18 @@ interface UseRecorderReturn {
   error: string | null;
   availableDevices: AudioDevice[];
   selectedDeviceId: string | null;
+  // 録音中の入力レベル（録音中以外はnull）
+  inputLevel: InputLevel | null;
+  // 直前にクリッピングが発生したか（一定時間表示を保持する）
+  isClipping: boolean;
+  // 録音中に一度でもクリッピングが発生したか
+  hasClipped: boolean;
+  // 一定時間以上、声が入っていないか
+  isTooQuiet: boolean;
+  // 録音全体の音量メタデータ（録音停止時に計算、計測できなかった場合はnull）
+  volumeMetadata: VolumeMetadata | null;
+  // 先頭・末尾の無音を除いた再生範囲（録音停止時に検出、声が検出できなかった場合はnull）
+  voiceBoundaries: RecordingTrim | null;
   startRecording: () => Promise<void>;
   stopRecording: () => void;
   reset: () => void;
@@ -22,7 +65,7 @@ interface UseRecorderReturn {
   setSelectedDevice: (deviceId: string) => void;
 }
 
-export const useRecorder = (): UseRecorderReturn => {
+export const useRecorder = (options: UseRecorderOptions = {}): UseRecorderReturn => {
   const [state, setState] = useState<RecorderState>('idle');
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [recordedUrl, setRecordedUrl] = useState<string | null>(null);
@@ -30,12 +73,172 @@ export const useRecorder = (): UseRecorderReturn => {
   const [error, setError] = useState<string | null>(null);
   const [availableDevices, setAvailableDevices] = useState<AudioDevice[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+  const [inputLevel, setInputLevel] = useState<InputLevel | null>(null);
+  const [isClipping, setIsClipping] = useState(false);
+  const [hasClipped, setHasClipped] = useState(false);
+  const [isTooQuiet, setIsTooQuiet] = useState(false);
+  const [volumeMetadata, setVolumeMetadata] = useState<VolumeMetadata | null>(null);
+  const [voiceBoundaries, setVoiceBoundaries] = useState<RecordingTrim | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
+  // 入力レベルの計測用（録音したPCMは停止時の音量解析にも使う）
+  const levelContextRef = useRef<AudioContext | null>(null);
+  const levelNodesRef = useRef<{ source: MediaStreamAudioSourceNode; processor: ScriptProcessorNode } | null>(null);
+  const pcmChunksRef = useRef<Float32Array[]>([]);
+  const lastClipTimeRef = useRef<number>(0);
+  const lastLoudTimeRef = useRef<number>(0);
+  // 音声による録音の開始・停止
+  // 話し始めを切らないよう待機中から録音し、声を検出したらbeginCaptureRefで録音中の状態にする
+  // 声より前の部分は、声を検出した位置から再生範囲の開始位置を決めて再生しない
+  const voiceActivationRef = useRef<PlaylistVoiceActivationSettings | null>(null);
+  const isCapturingRef = useRef(false);
+  const beginCaptureRef = useRef<(() => void) | null>(null);
+  const armedTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const lastVoiceTimeRef = useRef<number>(0);
+  // 声を検出した位置（録音の先頭からの秒数、声で録音を開始しない場合はnull）
+  const voiceOnsetRef = useRef<number | null>(null);
+
+  voiceActivationRef.current = options.voiceActivation?.voice_activation ? options.voiceActivation : null;
+
+  const clearArmedTimer = useCallback(() => {
+    if (armedTimerRef.current) {
+      clearTimeout(armedTimerRef.current);
+      armedTimerRef.current = null;
+    }
+  }, []);
+
+  // 入力レベルの計測を停止し、録音したPCMを返す
+  const stopLevelMonitoring = useCallback(() => {
+    const nodes = levelNodesRef.current;
+    if (nodes) {
+      nodes.processor.onaudioprocess = null;
+      nodes.source.disconnect();
+      nodes.processor.disconnect();
+      levelNodesRef.current = null;
+    }
+
+    const context = levelContextRef.current;
+    levelContextRef.current = null;
+    if (context) {
+      context.close().catch((err) => {
+        console.error('AudioContextの終了に失敗:', err);
+      });
+    }
+
+    const chunks = pcmChunksRef.current;
+    pcmChunksRef.current = [];
+    return { chunks, sampleRate: context?.sampleRate ?? 0 };
+  }, []);
+
+  // 録音中のストリームの入力レベルを計測する
+  // AudioWorkletは別ファイルのモジュールが必要になるため、ScriptProcessorNodeで計測する
+  const startLevelMonitoring = useCallback((stream: MediaStream) => {
+    try {
+      const context = new AudioContext();
+      const source = context.createMediaStreamSource(stream);
+      const processor = context.createScriptProcessor(LEVEL_BUFFER_SIZE, 1, 1);
+
+      processor.onaudioprocess = (event) => {
+        const samples = event.inputBuffer.getChannelData(0);
+
+        let peak = 0;
+        let sumSquares = 0;
+        for (let i = 0; i < samples.length; i++) {
+          const abs = Math.abs(samples[i]);
+          if (abs > peak) {
+            peak = abs;
+          }
+          sumSquares += samples[i] * samples[i];
+        }
+        const rms = Math.sqrt(sumSquares / samples.length);
+
+        const now = Date.now();
+        const voiceActivation = voiceActivationRef.current;
+        const isVoiced = voiceActivation !== null && toDecibels(rms) >= voiceActivation.voice_activation_threshold;
+
+        // 待機中も録音しているため、PCMは録音と同じ位置から保存する
+        pcmChunksRef.current.push(new Float32Array(samples));
+
+        // 待機中は声を検出したら録音中の状態にし、それまでは入力レベルの表示だけを行う
+        if (!isCapturingRef.current) {
+          setInputLevel({ rms, peak });
+          if (!isVoiced || !beginCaptureRef.current) {
+            return;
+          }
+          voiceOnsetRef.current = ((pcmChunksRef.current.length - 1) * samples.length) / event.inputBuffer.sampleRate;
+          beginCaptureRef.current();
+          lastVoiceTimeRef.current = now;
+          lastLoudTimeRef.current = now;
+        }
+
+        if (peak >= CLIPPING_THRESHOLD) {
+          lastClipTimeRef.current = now;
+          setHasClipped(true);
+        }
+        if (rms >= QUIET_RMS_THRESHOLD) {
+          lastLoudTimeRef.current = now;
+        }
+
+        setInputLevel({ rms, peak });
+        setIsClipping(now - lastClipTimeRef.current < CLIPPING_HOLD_TIME);
+        setIsTooQuiet(now - lastLoudTimeRef.current >= TOO_QUIET_DURATION);
+
+        // 音声で停止する設定の場合、無音が一定時間続いたら録音を停止する
+        if (voiceActivation) {
+          if (isVoiced) {
+            lastVoiceTimeRef.current = now;
+          } else if (now - lastVoiceTimeRef.current >= voiceActivation.voice_activation_silence * 1000) {
+            const mediaRecorder = mediaRecorderRef.current;
+            if (mediaRecorder && mediaRecorder.state === 'recording') {
+              mediaRecorder.stop();
+            }
+          }
+        }
+      };
+
+      // ScriptProcessorNodeは出力に接続しないと処理されない（出力バッファには書き込まないため無音）
+      source.connect(processor);
+      processor.connect(context.destination);
+
+      levelContextRef.current = context;
+      levelNodesRef.current = { source, processor };
+      pcmChunksRef.current = [];
+      lastClipTimeRef.current = 0;
+      lastLoudTimeRef.current = Date.now();
+    } catch (err) {
+      // 計測できなくても録音は続ける（音量解析はアップロード後にサーバーで行う）
+      console.error('入力レベルの計測を開始できません:', err);
+    }
+  }, []);
+
+  // 録音したPCMから音量メタデータと音声区間を計算する
+  const analyzeRecordedPcm = useCallback((chunks: Float32Array[], sampleRate: number) => {
+    if (chunks.length === 0 || sampleRate === 0) {
+      return { volumeMetadata: null, voiceBoundaries: null };
+    }
+
+    const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const pcm = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    try {
+      return {
+        volumeMetadata: toVolumeMetadata([pcm], sampleRate),
+        voiceBoundaries: detectVoiceBoundaries([pcm], sampleRate),
+      };
+    } catch (err) {
+      console.error('録音の音量解析に失敗:', err);
+      return { volumeMetadata: null, voiceBoundaries: null };
+    }
+  }, []);
 
   // デバイスリストを取得
   const loadDevices = useCallback(async () => {
@@ -78,6 +281,29 @@ export const useRecorder = (): UseRecorderReturn => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // 初回マウント時のみ実行
 
+  // 声を待っている間の録音を破棄して待機をやめる（録音の停止時の処理は行わない）
+  const cancelArmedRecording = useCallback(() => {
+    beginCaptureRef.current = null;
+    clearArmedTimer();
+
+    const mediaRecorder = mediaRecorderRef.current;
+    mediaRecorderRef.current = null;
+    if (mediaRecorder) {
+      mediaRecorder.ondataavailable = null;
+      mediaRecorder.onstop = null;
+      if (mediaRecorder.state !== 'inactive') {
+        mediaRecorder.stop();
+      }
+    }
+    chunksRef.current = [];
+
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    stopLevelMonitoring();
+    voiceOnsetRef.current = null;
+    setInputLevel(null);
+    setState('idle');
+  }, [clearArmedTimer, stopLevelMonitoring]);
+
   const startRecording = useCallback(async () => {
     try {
       setError(null);
@@ -97,8 +323,17 @@ export const useRecorder = (): UseRecorderReturn => {
         audio: audioConstraints,
       });
       streamRef.current = stream;
-
-      // MediaRecorderの設定 - WebM形式を使用
+      const voiceActivation = voiceActivationRef.current;
+      isCapturingRef.current = !voiceActivation;
+      voiceOnsetRef.current = null;
+      setVolumeMetadata(null);
+      setVoiceBoundaries(null);
+      setHasClipped(false);
+      setIsClipping(false);
+      setIsTooQuiet(false);
+      startLevelMonitoring(stream);
+
+      // MediaRecorderの設定 - WebM形式を使用（非対応のブラウザではMP4）
       let mimeType: string;
       if (MediaRecorder.isTypeSupported('audio/webm;codecs=opus')) {
         mimeType = 'audio/webm;codecs=opus';
@@ -118,6 +353,11 @@ export const useRecorder = (): UseRecorderReturn => {
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
 
+      // 録音したPCMの位置を録音ファイルの位置に揃える（録音の開始までに計測した分は捨てる）
+      mediaRecorder.onstart = () => {
+        pcmChunksRef.current = [];
+      };
+
       // データが利用可能になったときのハンドラー
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
@@ -127,12 +367,31 @@ export const useRecorder = (): UseRecorderReturn => {
 
       // 録音停止時のハンドラー
       mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType });
+        // 実際に録音された形式を使う（アップロード時のファイル名・Content-Typeに反映される）
+        const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || mimeType });
         setRecordedBlob(blob);
 
         const url = URL.createObjectURL(blob);
         setRecordedUrl(url);
 
+        // 録音全体のピーク・RMS・ラウドネスと、前後の無音を除いた範囲を計算（アップロード時に渡して解析済みにする）
+        const { chunks, sampleRate } = stopLevelMonitoring();
+        const analysis = analyzeRecordedPcm(chunks, sampleRate);
+        setVolumeMetadata(analysis.volumeMetadata);
+
+        // 声で録音を開始した場合は、声を待っていた間も録音に含まれるため、録音の長さと再生範囲を録音全体で求める
+        const onset = voiceOnsetRef.current;
+        if (onset !== null && sampleRate > 0) {
+          const recordedSeconds = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / sampleRate;
+          setDuration(recordedSeconds);
+          setVoiceBoundaries(applyVoiceOnset(analysis.voiceBoundaries, onset, recordedSeconds));
+        } else {
+          setVoiceBoundaries(analysis.voiceBoundaries);
+        }
+        setInputLevel(null);
+        setIsClipping(false);
+        setIsTooQuiet(false);
+
         setState('stopped');
 
         // ストリームを停止
@@ -146,23 +405,49 @@ export const useRecorder = (): UseRecorderReturn => {
         }
       };
 
-      // 録音開始
-      mediaRecorder.start(1000);
-      setState('recording');
-      startTimeRef.current = Date.now();
-
-      // 録音時間のタイマー
-      timerRef.current = setInterval(() => {
-        const elapsed = (Date.now() - startTimeRef.current) / 1000;
-        setDuration(elapsed);
+      const beginCapture = () => {
+        beginCaptureRef.current = null;
+        clearArmedTimer();
+        isCapturingRef.current = true;
 
-        // 最大60秒で自動停止
-        if (elapsed >= 60) {
-          mediaRecorder.stop();
+        // 録音開始（声で録音を開始する場合は、待機を始めたときに開始済み）
+        if (mediaRecorder.state === 'inactive') {
+          mediaRecorder.start(1000);
         }
-      }, 100);
+        setState('recording');
+        startTimeRef.current = Date.now();
+
+        // 録音時間のタイマー
+        timerRef.current = setInterval(() => {
+          const elapsed = (Date.now() - startTimeRef.current) / 1000;
+          setDuration(elapsed);
+
+          // 最大60秒で自動停止
+          if (elapsed >= MAX_RECORDING_SECONDS && mediaRecorder.state === 'recording') {
+            mediaRecorder.stop();
+          }
+        }, 100);
+      };
+
+      // 入力レベルを計測できない場合は声を検出できないため、すぐに録音を開始する
+      if (!voiceActivation || !levelNodesRef.current) {
+        beginCapture();
+        return;
+      }
+
+      // 声が検出されるまで待機する（一定時間声がなければ待機をやめる）
+      // 話し始めを切らないよう、待機中から録音しておく（MediaRecorderの開始の遅れも含めて声より前から録音される）
+      beginCaptureRef.current = beginCapture;
+      mediaRecorder.start(1000);
+      setState('armed');
+      armedTimerRef.current = setTimeout(() => {
+        armedTimerRef.current = null;
+        cancelArmedRecording();
+        setError('声が検出されませんでした。もう一度お試しください');
+      }, ARMED_TIMEOUT);
 
     } catch (err) {
+      stopLevelMonitoring();
       setError(
         err instanceof Error
           ? err.message
@@ -170,15 +455,26 @@ export const useRecorder = (): UseRecorderReturn => {
       );
       setState('idle');
     }
-  }, [selectedDeviceId]);
+  }, [selectedDeviceId, startLevelMonitoring, stopLevelMonitoring, analyzeRecordedPcm, clearArmedTimer, cancelArmedRecording]);
 
   const stopRecording = useCallback(() => {
+    // 声を待っている間に停止した場合は、録音を保存せずに待機をやめる
+    if (beginCaptureRef.current) {
+      cancelArmedRecording();
+      return;
+    }
+
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
     }
-  }, []);
+  }, [cancelArmedRecording]);
 
   const reset = useCallback(() => {
+    // 声を待っている間の録音は、停止時の処理を行わずに破棄する
+    if (beginCaptureRef.current) {
+      cancelArmedRecording();
+    }
+
     if (recordedUrl) {
       URL.revokeObjectURL(recordedUrl);
     }
@@ -191,13 +487,34 @@ export const useRecorder = (): UseRecorderReturn => {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
 
+    beginCaptureRef.current = null;
+    clearArmedTimer();
+    stopLevelMonitoring();
+
     setState('idle');
     setRecordedBlob(null);
     setRecordedUrl(null);
     setDuration(0);
     setError(null);
+    setInputLevel(null);
+    setIsClipping(false);
+    setHasClipped(false);
+    setIsTooQuiet(false);
+    setVolumeMetadata(null);
+    setVoiceBoundaries(null);
     chunksRef.current = [];
-  }, [recordedUrl]);
+  }, [recordedUrl, stopLevelMonitoring, clearArmedTimer, cancelArmedRecording]);
+
+  // アンマウント時に入力レベルの計測と声の待機を停止
+  useEffect(() => {
+    return () => {
+      if (beginCaptureRef.current) {
+        cancelArmedRecording();
+      }
+      clearArmedTimer();
+      stopLevelMonitoring();
+    };
+  }, [stopLevelMonitoring, clearArmedTimer, cancelArmedRecording]);
 
   return {
     state,
@@ -207,6 +524,12 @@ export const useRecorder = (): UseRecorderReturn => {
     error,
     availableDevices,
     selectedDeviceId,
+    inputLevel,
+    isClipping,
+    hasClipped,
+    isTooQuiet,
+    volumeMetadata,
+    voiceBoundaries,
     startRecording,
     stopRecording,
     reset,
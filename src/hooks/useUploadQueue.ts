@@ -0,0 +1,160 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { uploadRecording, ensureRecordingInPlaylist } from '@/lib/supabase';
+import { requestRecordingProcessing } from '@/lib/processing';
+import {
+  enqueueUpload,
+  getQueuedUploads,
+  markUploadFailed,
+  removeQueuedUpload,
+  type NewQueuedUpload,
+} from '@/lib/upload-queue';
+import type { Recording } from '@/lib/types';
+
+interface UseUploadQueueOptions {
+  // 録音の送信が完了したとき（プレイリストへの追加まで完了した後に呼ばれる）
+  onUploaded?: (recording: Recording, playlistId: string) => void;
+}
+
+interface UseUploadQueueReturn {
+  // 送信待ちの録音の数（送信中のものを含む）
+  pendingCount: number;
+  isUploading: boolean;
+  // 直前の送信エラー（送信に成功するとクリア）
+  lastError: string | null;
+  // 録音をキューに追加し、送信を開始する（IndexedDBへの保存が完了したら解決する）
+  enqueue: (upload: NewQueuedUpload) => Promise<void>;
+}
+
+/**
+ * 録音のアップロードキューを処理する
+ * IndexedDBに保存した録音を古い順に送信し、失敗した録音は間隔を延ばしながら再送します
+ * ページを開いたとき・オンラインに戻ったときにも、残っている録音を送信します
+ */
+export const useUploadQueue = (options?: UseUploadQueueOptions): UseUploadQueueReturn => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const onUploadedRef = useRef(options?.onUploaded);
+  const isProcessingRef = useRef(false);
+  // 処理中に追加された録音を、処理の終了後に続けて送信するためのフラグ
+  const hasPendingRunRef = useRef(false);
+  const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const isMountedRef = useRef(true);
+
+  useEffect(() => {
+    onUploadedRef.current = options?.onUploaded;
+  }, [options?.onUploaded]);
+
+  /**
+   * 送信時刻になった録音を送信する
+   * @param force trueの場合は再送時刻を待たずにすべて送信する（オンラインに戻ったときなど）
+   */
+  const processQueue = useCallback(async (force = false) => {
+    if (isProcessingRef.current) {
+      hasPendingRunRef.current = true;
+      return;
+    }
+    isProcessingRef.current = true;
+
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    try {
+      do {
+        hasPendingRunRef.current = false;
+        const items = await getQueuedUploads();
+        setPendingCount(items.length);
+
+        for (const item of items) {
+          if (!isMountedRef.current) return;
+          if (!force && item.nextAttemptAt > Date.now()) continue;
+
+          setIsUploading(true);
+          try {
+            const recording = await uploadRecording(
+              item.blob,
+              item.duration,
+              undefined,
+              item.playlistId,
+              item.volumeMetadata ?? undefined,
+              item.passageId ?? undefined,
+              item.trim,
+              item.id
+            );
+            await ensureRecordingInPlaylist(item.playlistId, recording.id);
+            await removeQueuedUpload(item.id);
+            setPendingCount((prev) => Math.max(0, prev - 1));
+            setLastError(null);
+
+            // 後処理（音量解析・波形生成・文字起こし）をサーバーで開始（完了は待たない）
+            // 文字起こしにプレイリストの設定を使うため、プレイリストへの追加後に開始する
+            requestRecordingProcessing(recording.id).catch((error) => {
+              console.error('後処理の開始に失敗:', error);
+            });
+
+            onUploadedRef.current?.(recording, item.playlistId);
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            console.error('録音の送信に失敗（後で再送します）:', err);
+            setLastError(message);
+            await markUploadFailed(item, message);
+          }
+        }
+        force = false;
+      } while (hasPendingRunRef.current);
+
+      // 次に再送する時刻にタイマーを設定する
+      const remaining = await getQueuedUploads();
+      setPendingCount(remaining.length);
+      if (remaining.length > 0 && isMountedRef.current) {
+        const nextAttemptAt = Math.min(...remaining.map((item) => item.nextAttemptAt));
+        retryTimerRef.current = setTimeout(() => {
+          retryTimerRef.current = null;
+          processQueue();
+        }, Math.max(0, nextAttemptAt - Date.now()));
+      }
+    } catch (err) {
+      console.error('アップロードキューの読み込みに失敗:', err);
+      setLastError(err instanceof Error ? err.message : String(err));
+    } finally {
+      isProcessingRef.current = false;
+      setIsUploading(false);
+    }
+  }, []);
+
+  const enqueue = useCallback(async (upload: NewQueuedUpload) => {
+    await enqueueUpload(upload);
+    setPendingCount((prev) => prev + 1);
+    processQueue();
+  }, [processQueue]);
+
+  // ページを開いたときに残っている録音を送信し、オンラインに戻ったら再送する
+  useEffect(() => {
+    isMountedRef.current = true;
+    processQueue();
+
+    const handleOnline = () => {
+      processQueue(true);
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      isMountedRef.current = false;
+      window.removeEventListener('online', handleOnline);
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [processQueue]);
+
+  return {
+    pendingCount,
+    isUploading,
+    lastError,
+    enqueue,
+  };
+};
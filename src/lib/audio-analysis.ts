@@ -3,10 +3,45 @@
  * Web Audio APIを使用して音声ファイルの音量レベルを解析します
  */
 
+import { measureLoudness } from './loudness';
+
 export interface VolumeMetadata {
-  lufs: number;      // ラウドネス値（LUFS相当）
-  peak: number;      // ピークレベル（0.0〜1.0）
-  rms: number;       // RMS平均レベル
+  lufs: number;          // 統合ラウドネス値（LUFS、ITU-R BS.1770）
+  peak: number;          // ピークレベル（0.0〜1.0）
+  rms: number;           // RMS平均レベル
+  truePeak?: number;     // トゥルーピーク（リニア値、1.0を超える場合あり）
+  momentaryMax?: number; // モーメンタリーラウドネスの最大値（LUFS）
+  shortTermMax?: number; // ショートタームラウドネスの最大値（LUFS）
+}
+
+/**
+ * AudioBufferからチャンネルごとのPCMデータを取り出す
+ */
+function extractChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+  return channels;
+}
+
+/**
+ * PCMデータから音量メタデータを計算する
+ * @param channels チャンネルごとのPCMデータ
+ * @param sampleRate サンプルレート
+ * @returns 音量メタデータ（LUFS、ピーク、RMSなど）
+ */
+export function toVolumeMetadata(channels: Float32Array[], sampleRate: number): VolumeMetadata {
+  const measurement = measureLoudness(channels, sampleRate);
+
+  return {
+    lufs: Math.round(measurement.integrated * 10) / 10,         // 小数第1位まで
+    peak: Math.round(measurement.samplePeak * 1000) / 1000,     // 小数第3位まで
+    rms: Math.round(measurement.rms * 1000) / 1000,             // 小数第3位まで
+    truePeak: Math.round(measurement.truePeak * 1000) / 1000,   // 小数第3位まで
+    momentaryMax: Math.round(measurement.momentaryMax * 10) / 10,
+    shortTermMax: Math.round(measurement.shortTermMax * 10) / 10,
+  };
 }
 
 /**
@@ -38,47 +73,46 @@ export async function analyzeAudioVolume(file: File | Blob): Promise<VolumeMetad
       throw new Error(`音声ファイルのデコードに失敗しました: ${errorMessage}`);
     }
 
-    // すべてのチャンネルを解析（モノラル/ステレオ対応）
-    let globalPeak = 0;
-    let globalRmsSum = 0;
+    // ITU-R BS.1770に基づいてラウドネスを測定
+    return toVolumeMetadata(extractChannels(audioBuffer), audioBuffer.sampleRate);
+  } finally {
+    // AudioContextをクリーンアップ（メモリリーク防止）
+    await audioContext.close();
+  }
+}
 
-    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
+/**
+ * PCMデータから波形サマリー（区間ごとのピーク値）を計算する
+ * 一覧表示用のサムネイル波形などに使用する
+ * @param channels チャンネルごとのPCMデータ
+ * @param bins 区間数（デフォルト: 100）
+ * @returns 区間ごとのピーク値（0.0〜1.0、最大値で正規化）
+ */
+export function computeWaveformSummary(channels: Float32Array[], bins: number = 100): number[] {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) {
+    return [];
+  }
 
-      // ピークレベルを計算
-      for (let i = 0; i < channelData.length; i++) {
-        const abs = Math.abs(channelData[i]);
-        if (abs > globalPeak) {
-          globalPeak = abs;
-        }
-      }
+  const binCount = Math.min(bins, length);
+  const peaks = new Array<number>(binCount).fill(0);
 
-      // RMS（Root Mean Square）を計算
-      let sumSquares = 0;
-      for (let i = 0; i < channelData.length; i++) {
-        sumSquares += channelData[i] * channelData[i];
+  for (const data of channels) {
+    for (let bin = 0; bin < binCount; bin++) {
+      const start = Math.floor((bin * length) / binCount);
+      const end = Math.floor(((bin + 1) * length) / binCount);
+      for (let i = start; i < end; i++) {
+        const abs = Math.abs(data[i]);
+        if (abs > peaks[bin]) {
+          peaks[bin] = abs;
+        }
       }
-      globalRmsSum += sumSquares / channelData.length;
     }
-
-    // 平均RMS（複数チャンネルの場合）
-    const rms = Math.sqrt(globalRmsSum / audioBuffer.numberOfChannels);
-
-    // LUFS近似値（簡易版: ITU-R BS.1770の簡略化）
-    // 実際のLUFSはK-weightingフィルタとゲート処理が必要ですが、
-    // 簡易版としてRMSベースで計算
-    // -0.691は参照レベルの調整値
-    const lufs = rms > 0 ? 20 * Math.log10(rms) - 0.691 : -70;
-
-    return {
-      lufs: Math.round(lufs * 10) / 10,           // 小数第1位まで
-      peak: Math.round(globalPeak * 1000) / 1000, // 小数第3位まで
-      rms: Math.round(rms * 1000) / 1000,         // 小数第3位まで
-    };
-  } finally {
-    // AudioContextをクリーンアップ（メモリリーク防止）
-    await audioContext.close();
   }
+
+  // 最大値で正規化（無音の場合はすべて0）
+  const maxPeak = Math.max(...peaks);
+  return peaks.map((peak) => (maxPeak > 0 ? Math.round((peak / maxPeak) * 1000) / 1000 : 0));
 }
 
 /**
@@ -0,0 +1,236 @@
+/**
+ * サーバー側の音声デコードユーティリティ
+ * Node.jsにはdecodeAudioDataがないため、WAVは直接パースし、
+ * それ以外の形式（WebM/Opus、MP3、M4Aなど）はffmpegでWAVに変換してからパースします
+ *
+ * ffmpegはffmpeg-staticに同梱されたバイナリを使用します（Vercelなどffmpegがない環境でもデコードできるようにする）
+ * 別のffmpegを使う場合は環境変数FFMPEG_PATHでパスを指定できます
+ * サーバー側（APIルート）でのみ使用すること
+ */
+
+import { spawn } from 'child_process';
+import { constants as fsConstants, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import ffmpegStaticPath from 'ffmpeg-static';
+import { getFormatFromMimeType } from './audio-format';
+
+export interface DecodedAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+// ffmpegが見つからない場合のエラーメッセージ
+export const DECODER_NOT_FOUND_ERROR =
+  'WAV以外の録音のデコードに使用するffmpegが見つかりません。ffmpeg-staticのインストール（npm install）を確認するか、FFMPEG_PATHにffmpegのパスを設定してください。';
+
+// WAVEフォーマットコード
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * バッファがWAV（RIFF/WAVE）形式かどうかを判定する
+ */
+function isWav(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE'
+  );
+}
+
+/**
+ * WAVファイルをパースしてPCMデータを取り出す
+ * 8/16/24/32bit整数PCMと32/64bit浮動小数点に対応
+ */
+function parseWav(buffer: Buffer): DecodedAudio {
+  let offset = 12;
+  let format: number | null = null;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = buffer.readUInt16LE(chunkStart);
+      channelCount = buffer.readUInt16LE(chunkStart + 2);
+      sampleRate = buffer.readUInt32LE(chunkStart + 4);
+      bitsPerSample = buffer.readUInt16LE(chunkStart + 14);
+
+      // WAVE_FORMAT_EXTENSIBLEの場合はサブフォーマットの先頭2バイトが実際の形式
+      if (format === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        format = buffer.readUInt16LE(chunkStart + 24);
+      }
+    } else if (chunkId === 'data') {
+      if (format === null) {
+        throw new Error('WAVファイルにfmtチャンクがありません');
+      }
+
+      // サイズが未確定（0または0xFFFFFFFF）の場合は残りすべてをデータとみなす
+      const dataEnd = chunkSize === 0 || chunkSize === 0xffffffff
+        ? buffer.length
+        : Math.min(chunkStart + chunkSize, buffer.length);
+      return {
+        channels: readSamples(buffer.subarray(chunkStart, dataEnd), format, channelCount, bitsPerSample),
+        sampleRate,
+      };
+    }
+
+    // チャンクは2バイト境界に揃えられる
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAVファイルにdataチャンクがありません');
+}
+
+/**
+ * インターリーブされたサンプルをチャンネルごとのFloat32Arrayに変換する
+ */
+function readSamples(
+  data: Buffer,
+  format: number,
+  channelCount: number,
+  bitsPerSample: number
+): Float32Array[] {
+  if (channelCount === 0) {
+    throw new Error('WAVファイルのチャンネル数が不正です');
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(data.length / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  let read: (position: number) => number;
+  if (format === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    read = (position) => data.readFloatLE(position);
+  } else if (format === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 64) {
+    read = (position) => data.readDoubleLE(position);
+  } else if (format === WAVE_FORMAT_PCM && bitsPerSample === 8) {
+    read = (position) => (data.readUInt8(position) - 128) / 128;
+  } else if (format === WAVE_FORMAT_PCM && bitsPerSample === 16) {
+    read = (position) => data.readInt16LE(position) / 32768;
+  } else if (format === WAVE_FORMAT_PCM && bitsPerSample === 24) {
+    read = (position) => data.readIntLE(position, 3) / 8388608;
+  } else if (format === WAVE_FORMAT_PCM && bitsPerSample === 32) {
+    read = (position) => data.readInt32LE(position) / 2147483648;
+  } else {
+    throw new Error(`対応していないWAV形式です（format: ${format}, bits: ${bitsPerSample}）`);
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels[channel][frame] = read((frame * channelCount + channel) * bytesPerSample);
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * 使用するffmpegのパスを取得する（FFMPEG_PATH、ffmpeg-staticのバイナリ、PATH上のffmpegの順）
+ */
+function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || ffmpegStaticPath || 'ffmpeg';
+}
+
+/**
+ * ffmpegを使用できない場合のエラーメッセージを返す（使用できる場合はnull）
+ * パスで指定されたffmpegのみ事前に確認し、PATH上のffmpegは実行時に確認する
+ */
+export async function getDecoderConfigError(): Promise<string | null> {
+  const ffmpegPath = getFfmpegPath();
+  if (!path.isAbsolute(ffmpegPath)) return null;
+
+  try {
+    await fs.access(ffmpegPath, fsConstants.X_OK);
+    return null;
+  } catch {
+    return DECODER_NOT_FOUND_ERROR;
+  }
+}
+
+/**
+ * 音声ファイルのデコードにffmpegが必要か（MIMEタイプがWAVの場合は不要）
+ * @param mimeType 音声ファイルのMIMEタイプ（不明な場合は必要とみなす）
+ */
+export function requiresDecoder(mimeType?: string | null): boolean {
+  return getFormatFromMimeType(mimeType)?.extension !== 'wav';
+}
+
+/**
+ * ffmpegで音声ファイルを32bit浮動小数点WAVに変換する
+ * MP4/M4Aはmoovアトムが末尾にある場合があり標準入力からは読めないため、一時ファイル経由で渡す
+ * 形式がわかる場合は一時ファイルに拡張子を付け、ffmpegの形式判定の手がかりにする
+ */
+async function convertToWav(buffer: Buffer, extension?: string): Promise<Buffer> {
+  const ffmpegPath = getFfmpegPath();
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'monoshaka-decode-'));
+  const inputPath = path.join(tempDir, extension ? `input.${extension}` : 'input');
+
+  try {
+    await fs.writeFile(inputPath, buffer);
+
+    return await new Promise<Buffer>((resolve, reject) => {
+      const ffmpeg = spawn(ffmpegPath, [
+        '-hide_banner',
+        '-loglevel', 'error',
+        '-i', inputPath,
+        '-vn',
+        '-f', 'wav',
+        '-acodec', 'pcm_f32le',
+        'pipe:1',
+      ]);
+
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      ffmpeg.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      ffmpeg.on('error', (err: NodeJS.ErrnoException) => {
+        if (err.code === 'ENOENT') {
+          reject(new Error(DECODER_NOT_FOUND_ERROR));
+        } else {
+          reject(new Error(`ffmpegの起動に失敗しました（FFMPEG_PATHを確認してください）: ${err.message}`));
+        }
+      });
+
+      ffmpeg.on('close', (code) => {
+        if (code === 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`ffmpegによる変換に失敗しました（code: ${code}）: ${stderr.trim()}`));
+        }
+      });
+    });
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 音声ファイルをデコードしてPCMデータを取得する
+ * @param data 音声ファイルのデータ
+ * @param mimeType 音声ファイルのMIMEタイプ（オプショナル、録音レコードのmime_type）
+ * @returns チャンネルごとのPCMデータとサンプルレート
+ */
+export async function decodeAudioFile(
+  data: ArrayBuffer | Buffer,
+  mimeType?: string | null
+): Promise<DecodedAudio> {
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+
+  if (isWav(buffer)) {
+    return parseWav(buffer);
+  }
+
+  const wav = await convertToWav(buffer, getFormatFromMimeType(mimeType)?.extension);
+  return parseWav(wav);
+}
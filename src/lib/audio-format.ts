@@ -0,0 +1,109 @@
+/**
+ * 録音ファイルの形式（MIMEタイプと拡張子）
+ * 録音・アップロード時の形式をStorageのファイル名・Content-Typeと録音レコードのmime_typeに保存し、
+ * 再生・音量解析・文字起こしで同じ形式として扱います
+ * ブラウザ・サーバーのどちらからでも利用できます
+ */
+
+import type { Recording } from './types';
+
+export interface AudioFormat {
+  // パラメーター（codecsなど）を除いたMIMEタイプ
+  mimeType: string;
+  // ファイルの拡張子（ドットなし）
+  extension: string;
+}
+
+// 対応している形式（先頭の拡張子をファイル名に使う）
+const AUDIO_FORMATS: { mimeType: string; extensions: string[]; aliases: string[] }[] = [
+  { mimeType: 'audio/webm', extensions: ['webm'], aliases: ['video/webm'] },
+  { mimeType: 'audio/ogg', extensions: ['ogg', 'oga', 'opus'], aliases: ['audio/opus', 'application/ogg'] },
+  { mimeType: 'audio/mp4', extensions: ['m4a', 'mp4'], aliases: ['audio/x-m4a', 'audio/m4a', 'audio/aac', 'video/mp4'] },
+  { mimeType: 'audio/mpeg', extensions: ['mp3'], aliases: ['audio/mp3', 'audio/mpeg3', 'audio/x-mpeg'] },
+  { mimeType: 'audio/wav', extensions: ['wav'], aliases: ['audio/wave', 'audio/x-wav', 'audio/vnd.wave'] },
+  { mimeType: 'audio/flac', extensions: ['flac'], aliases: ['audio/x-flac'] },
+];
+
+// mime_typeが保存されていない古い録音の形式（以前はすべてWebMとして保存していた）
+const LEGACY_FORMAT: AudioFormat = { mimeType: 'audio/webm', extension: 'webm' };
+
+// ファイル選択で受け付ける形式（input要素のaccept属性）
+export const AUDIO_FILE_ACCEPT = AUDIO_FORMATS.flatMap(({ mimeType, extensions, aliases }) => [
+  mimeType,
+  ...aliases,
+  ...extensions.map((extension) => `.${extension}`),
+]).join(',');
+
+/**
+ * MIMEタイプから形式を取得する（codecsなどのパラメーターは無視する）
+ * @returns 対応していない形式の場合はnull
+ */
+export function getFormatFromMimeType(mimeType: string | null | undefined): AudioFormat | null {
+  const baseType = mimeType?.split(';')[0].trim().toLowerCase();
+  if (!baseType) return null;
+
+  const format = AUDIO_FORMATS.find(
+    (candidate) => candidate.mimeType === baseType || candidate.aliases.includes(baseType)
+  );
+  return format ? { mimeType: format.mimeType, extension: format.extensions[0] } : null;
+}
+
+/**
+ * MIMEタイプの表記を揃える（別名を標準のMIMEタイプにし、codecsなどのパラメーターは残す）
+ * @returns 対応していない形式の場合はnull
+ */
+export function normalizeMimeType(mimeType: string | null | undefined): string | null {
+  const format = getFormatFromMimeType(mimeType);
+  if (!format || !mimeType) return null;
+
+  const parameters = mimeType.split(';').slice(1).map((parameter) => parameter.trim()).filter(Boolean);
+  return [format.mimeType, ...parameters].join(';');
+}
+
+/**
+ * ファイル名（パス）の拡張子から形式を取得する
+ * @returns 対応していない拡張子の場合はnull
+ */
+export function getFormatFromFileName(fileName: string | null | undefined): AudioFormat | null {
+  const extension = fileName?.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+  if (!extension) return null;
+
+  const format = AUDIO_FORMATS.find((candidate) => candidate.extensions.includes(extension));
+  return format ? { mimeType: format.mimeType, extension: format.extensions[0] } : null;
+}
+
+/**
+ * 録音・アップロードするファイルの形式を判定する
+ * MIMEタイプを優先し、空または不明な場合はファイル名の拡張子で判定する
+ * @returns 対応していない形式の場合はnull
+ */
+export function resolveAudioFormat(blob: Blob): AudioFormat | null {
+  return (
+    getFormatFromMimeType(blob.type) ??
+    getFormatFromFileName(typeof File !== 'undefined' && blob instanceof File ? blob.name : null)
+  );
+}
+
+/**
+ * 録音の形式を取得する（mime_typeが保存されていない場合はファイルパスの拡張子で判定する）
+ */
+export function getRecordingFormat(
+  recording: Pick<Recording, 'file_path' | 'mime_type'>
+): AudioFormat {
+  return (
+    getFormatFromMimeType(recording.mime_type) ??
+    getFormatFromFileName(recording.file_path) ??
+    LEGACY_FORMAT
+  );
+}
+
+/**
+ * ブラウザが録音の形式を再生できるか
+ * 判定できない環境（サーバー側など）では再生できるものとみなす
+ */
+export function canPlayRecording(recording: Pick<Recording, 'file_path' | 'mime_type'>): boolean {
+  if (typeof document === 'undefined') return true;
+
+  const mimeType = recording.mime_type || getRecordingFormat(recording).mimeType;
+  return document.createElement('audio').canPlayType(mimeType) !== '';
+}
@@ -0,0 +1,260 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHANGE_FEED_LIVE_POLL_INTERVAL,
+  CHANGE_FEED_POLL_INTERVAL,
+  PLAYLIST_CHANGE_EVENT,
+  getReconnectDelay,
+  subscribeToChanges,
+  subscribeToPlaylistBroadcast,
+  subscribeToPlaylistChanges,
+  type ChangeFeedChannel,
+  type ChangeFeedClient,
+  type ChangeFeedFilter,
+  type ChangeFeedPayload,
+  type ChangeFeedStatus,
+} from './change-feed';
+
+// 変更をまとめる時間（change-feed.tsのCHANGE_DEBOUNCE_DELAYより長く待つ）
+const DEBOUNCE_WAIT = 300;
+
+type Handler =
+  | { type: 'postgres_changes'; filter: ChangeFeedFilter; callback: (payload: ChangeFeedPayload) => void }
+  | { type: 'broadcast'; event: string; callback: () => void };
+
+// Realtimeのチャンネルの代わりに、テストから接続状態と変更を送るチャンネル
+class FakeChannel implements ChangeFeedChannel {
+  readonly handlers: Handler[] = [];
+  private onSubscribe: ((status: string, err?: Error) => void) | null = null;
+
+  constructor(readonly name: string) {}
+
+  on(
+    type: 'postgres_changes' | 'broadcast',
+    filter: ChangeFeedFilter | { event: string },
+    callback: (payload: ChangeFeedPayload) => void
+  ): ChangeFeedChannel {
+    if (type === 'broadcast') {
+      this.handlers.push({ type, event: filter.event, callback: () => callback({} as ChangeFeedPayload) });
+    } else {
+      this.handlers.push({ type, filter: filter as ChangeFeedFilter, callback });
+    }
+    return this;
+  }
+
+  subscribe(callback: (status: string, err?: Error) => void): ChangeFeedChannel {
+    this.onSubscribe = callback;
+    return this;
+  }
+
+  setStatus(status: string) {
+    this.onSubscribe?.(status);
+  }
+
+  emitChange(payload: ChangeFeedPayload) {
+    for (const handler of this.handlers) {
+      if (
+        handler.type === 'postgres_changes' &&
+        handler.filter.table === payload.table &&
+        (handler.filter.event === '*' || handler.filter.event === payload.eventType)
+      ) {
+        handler.callback(payload);
+      }
+    }
+  }
+
+  emitBroadcast(event: string) {
+    for (const handler of this.handlers) {
+      if (handler.type === 'broadcast' && handler.event === event) handler.callback();
+    }
+  }
+}
+
+class FakeClient implements ChangeFeedClient {
+  readonly channels: FakeChannel[] = [];
+  readonly removed: FakeChannel[] = [];
+
+  channel(name: string): FakeChannel {
+    const channel = new FakeChannel(name);
+    this.channels.push(channel);
+    return channel;
+  }
+
+  removeChannel(channel: ChangeFeedChannel) {
+    this.removed.push(channel as FakeChannel);
+  }
+
+  get latest(): FakeChannel {
+    return this.channels[this.channels.length - 1];
+  }
+}
+
+function recordingUpdate(id: string): ChangeFeedPayload {
+  return { eventType: 'UPDATE', table: 'recordings', new: { id }, old: { id } };
+}
+
+describe('subscribeToChanges', () => {
+  let client: FakeClient;
+  let onChange: ReturnType<typeof mock.fn>;
+  let statuses: ChangeFeedStatus[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setTimeout', 'setInterval'] });
+    client = new FakeClient();
+    onChange = mock.fn();
+    statuses = [];
+  });
+
+  afterEach(() => {
+    unsubscribe?.();
+    mock.timers.reset();
+  });
+
+  function subscribePlaylist(recordingIds: string[] = ['rec-1']) {
+    unsubscribe = subscribeToPlaylistChanges(client, 'playlist-1', {
+      onChange: () => onChange(),
+      onStatusChange: (status) => statuses.push(status),
+      isRelevantRecording: (id) => recordingIds.includes(id),
+    });
+  }
+
+  it('購読できたら変更を知らせ、関係のない録音の変更は無視する', () => {
+    subscribePlaylist();
+    client.latest.setStatus('SUBSCRIBED');
+    assert.deepEqual(statuses, ['connecting', 'live']);
+
+    client.latest.emitChange(recordingUpdate('other'));
+    mock.timers.tick(DEBOUNCE_WAIT);
+    assert.equal(onChange.mock.callCount(), 0);
+
+    client.latest.emitChange(recordingUpdate('rec-1'));
+    mock.timers.tick(DEBOUNCE_WAIT);
+    assert.equal(onChange.mock.callCount(), 1);
+  });
+
+  it('続けて届いた変更は1回にまとめる', () => {
+    subscribePlaylist();
+    client.latest.setStatus('SUBSCRIBED');
+
+    client.latest.emitChange(recordingUpdate('rec-1'));
+    client.latest.emitChange({
+      eventType: 'UPDATE',
+      table: 'playlist_recordings',
+      new: { id: 'pr-1', playlist_id: 'playlist-1' },
+      old: { id: 'pr-1' },
+    });
+    mock.timers.tick(DEBOUNCE_WAIT);
+    assert.equal(onChange.mock.callCount(), 1);
+  });
+
+  it('接続できるまでと接続が切れている間はポーリングし、接続したら止める', () => {
+    subscribePlaylist();
+
+    mock.timers.tick(CHANGE_FEED_POLL_INTERVAL);
+    assert.equal(onChange.mock.callCount(), 1);
+
+    client.latest.setStatus('SUBSCRIBED');
+    mock.timers.tick(CHANGE_FEED_POLL_INTERVAL * 3);
+    assert.equal(onChange.mock.callCount(), 1);
+
+    client.latest.setStatus('CHANNEL_ERROR');
+    assert.equal(statuses[statuses.length - 1], 'polling');
+    mock.timers.tick(CHANGE_FEED_POLL_INTERVAL);
+    assert.equal(onChange.mock.callCount(), 2);
+  });
+
+  it('接続が切れたら間隔を延ばしながら別のチャンネルで再接続する', () => {
+    subscribePlaylist();
+    const first = client.latest;
+    first.setStatus('SUBSCRIBED');
+
+    first.setStatus('CHANNEL_ERROR');
+    assert.deepEqual(client.removed, [first]);
+
+    mock.timers.tick(getReconnectDelay(1) - 1);
+    assert.equal(client.channels.length, 1);
+    mock.timers.tick(1);
+    assert.equal(client.channels.length, 2);
+    const second = client.latest;
+    assert.notEqual(second.name, first.name);
+
+    second.setStatus('TIMED_OUT');
+    mock.timers.tick(getReconnectDelay(2) - 1);
+    assert.equal(client.channels.length, 2);
+    mock.timers.tick(1);
+    assert.equal(client.channels.length, 3);
+
+    // 再接続できたら、切断中の変更を取りこぼさないよう一度知らせる
+    const callsBefore = onChange.mock.callCount();
+    client.latest.setStatus('SUBSCRIBED');
+    mock.timers.tick(DEBOUNCE_WAIT);
+    assert.equal(onChange.mock.callCount(), callsBefore + 1);
+    assert.equal(statuses[statuses.length - 1], 'live');
+  });
+
+  it('古いチャンネルに届いた変更は無視する', () => {
+    subscribePlaylist();
+    const first = client.latest;
+    first.setStatus('SUBSCRIBED');
+    first.setStatus('CLOSED');
+    mock.timers.tick(getReconnectDelay(1));
+
+    const callsBefore = onChange.mock.callCount();
+    first.emitChange(recordingUpdate('rec-1'));
+    first.setStatus('SUBSCRIBED');
+    mock.timers.tick(DEBOUNCE_WAIT);
+    assert.equal(onChange.mock.callCount(), callsBefore);
+  });
+
+  it('購読を解除したら通知もポーリングも止める', () => {
+    subscribePlaylist();
+    const channel = client.latest;
+    unsubscribe();
+
+    assert.deepEqual(client.removed, [channel]);
+    channel.emitChange(recordingUpdate('rec-1'));
+    mock.timers.tick(CHANGE_FEED_POLL_INTERVAL * 2);
+    assert.equal(onChange.mock.callCount(), 0);
+  });
+
+  it('再接続までの待ち時間は倍に延び、上限で止まる', () => {
+    assert.equal(getReconnectDelay(1), 1000);
+    assert.equal(getReconnectDelay(2), 2000);
+    assert.equal(getReconnectDelay(3), 4000);
+    assert.equal(getReconnectDelay(10), 30000);
+  });
+
+  it('ブロードキャストは送信側と同じチャンネル名で購読し、接続中も間隔を延ばしてポーリングする', () => {
+    unsubscribe = subscribeToPlaylistBroadcast(client, 'playlist-1', {
+      onChange: () => onChange(),
+      onStatusChange: (status) => statuses.push(status),
+    });
+    assert.equal(client.latest.name, 'playlist-updates:playlist-1');
+
+    client.latest.setStatus('SUBSCRIBED');
+    client.latest.emitBroadcast(PLAYLIST_CHANGE_EVENT);
+    mock.timers.tick(DEBOUNCE_WAIT);
+    assert.equal(onChange.mock.callCount(), 1);
+
+    mock.timers.tick(CHANGE_FEED_POLL_INTERVAL);
+    assert.equal(onChange.mock.callCount(), 1);
+    mock.timers.tick(CHANGE_FEED_LIVE_POLL_INTERVAL - CHANGE_FEED_POLL_INTERVAL);
+    assert.equal(onChange.mock.callCount(), 2);
+
+    // 再接続しても同じチャンネル名で購読する
+    client.latest.setStatus('CHANNEL_ERROR');
+    mock.timers.tick(getReconnectDelay(1));
+    assert.equal(client.latest.name, 'playlist-updates:playlist-1');
+  });
+
+  it('Postgresの変更通知のチャンネル名には接続ごとに番号を付ける', () => {
+    unsubscribe = subscribeToChanges(
+      client,
+      'devices',
+      [{ filter: { event: '*', schema: 'public', table: 'devices' } }],
+      { onChange: () => onChange() }
+    );
+    assert.equal(client.latest.name, 'devices:1');
+  });
+});
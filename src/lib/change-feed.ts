@@ -0,0 +1,307 @@
+/**
+ * Supabase Realtime（Postgresの変更通知）による変更フィード
+ * 録音の変更フィードでは recordings と playlist_recordings の変更を受け取り、
+ * 録音の追加・削除・並び替え・LUFS値などの更新を再生画面と録音一覧に知らせます
+ * 再生端末はPostgresの変更通知を購読できないため、データベースのトリガーが送るブロードキャストで変更を受け取ります
+ * Realtimeに接続できない間は、再接続を試しながら一定間隔のポーリングで代替します
+ * Realtimeのチャンネルは最小限のインターフェースで扱うため、偽のチャンネルに差し替えて動作を確認できます
+ */
+
+// 変更フィードの状態（connecting: 接続中、live: Realtimeで受信中、polling: 接続できずポーリング中）
+export type ChangeFeedStatus = 'connecting' | 'live' | 'polling';
+
+export type ChangeFeedEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// Postgresの変更通知（必要な項目のみ）
+export interface ChangeFeedPayload {
+  eventType: ChangeFeedEvent;
+  table: string;
+  new: Record<string, unknown>;
+  // RLSが有効なテーブルでは、削除前の値は主キーのみ
+  old: Record<string, unknown>;
+}
+
+export interface ChangeFeedFilter {
+  event: ChangeFeedEvent | '*';
+  schema: string;
+  table: string;
+  filter?: string;
+}
+
+// Realtimeのチャンネル（SupabaseのRealtimeChannelの必要な部分のみ）
+export interface ChangeFeedChannel {
+  on(
+    type: 'postgres_changes',
+    filter: ChangeFeedFilter,
+    callback: (payload: ChangeFeedPayload) => void
+  ): ChangeFeedChannel;
+  on(type: 'broadcast', filter: { event: string }, callback: () => void): ChangeFeedChannel;
+  subscribe(callback: (status: string, err?: Error) => void): ChangeFeedChannel;
+}
+
+// Realtimeのクライアント（SupabaseClientの必要な部分のみ）
+export interface ChangeFeedClient {
+  channel(name: string): ChangeFeedChannel;
+  removeChannel(channel: ChangeFeedChannel): unknown;
+}
+
+// 購読する変更（Postgresの変更通知、またはブロードキャストのイベント名）
+export type ChangeFeedListener =
+  | {
+      filter: ChangeFeedFilter;
+      // 変更を知らせるか（未指定の場合はすべて知らせる）
+      isRelevant?: (payload: ChangeFeedPayload) => boolean;
+    }
+  | { broadcast: string };
+
+export interface ChangeFeedOptions {
+  // 変更があったとき（短時間の変更はまとめて1回にする）
+  onChange: () => void;
+  onStatusChange?: (status: ChangeFeedStatus) => void;
+  // Realtimeに接続できない間のポーリング間隔（ミリ秒）
+  pollInterval?: number;
+  // Realtimeに接続している間も、取りこぼしに備えてポーリングする間隔（未指定の場合は接続中はポーリングしない）
+  livePollInterval?: number;
+}
+
+export interface PlaylistChangeFeedOptions extends ChangeFeedOptions {
+  // recordingsテーブルの変更が、このプレイリストの録音のものか（未指定の場合はすべて対象）
+  isRelevantRecording?: (recordingId: string) => boolean;
+}
+
+// Realtimeに接続できない間のポーリング間隔の初期値
+export const CHANGE_FEED_POLL_INTERVAL = 10000;
+// ブロードキャストで受け取る場合に、接続中も取りこぼしに備えてポーリングする間隔
+export const CHANGE_FEED_LIVE_POLL_INTERVAL = 60000;
+// プレイリストの録音の変更を知らせるブロードキャストのイベント名（supabase/migrations/031と揃える）
+export const PLAYLIST_CHANGE_EVENT = 'changed';
+// 並び替えなどで続けて届く変更をまとめる時間
+const CHANGE_DEBOUNCE_DELAY = 300;
+// 再接続の間隔（失敗するたびに倍にする）
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/**
+ * 再接続までの待ち時間を計算する
+ * @param attempts これまでに連続して失敗した回数（1以上）
+ */
+export function getReconnectDelay(attempts: number): number {
+  return Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * テーブルの変更を購読する
+ * 接続が切れた場合は自動的に再接続し、再接続までの間はポーリングで変更を知らせる
+ * 再接続したときは、切断中の変更を取りこぼさないよう一度変更を知らせる
+ * @param client Realtimeのクライアント
+ * @param channelName チャンネル名（再接続のたびに番号を付けて別のチャンネルにする。
+ *   ブロードキャストは送信側と同じチャンネル名で購読する必要があるため、ブロードキャストを購読する場合は番号を付けない）
+ * @param listeners 購読する変更
+ * @param options コールバックとポーリング間隔
+ * @returns 購読を解除する関数
+ */
+export function subscribeToChanges(
+  client: ChangeFeedClient,
+  channelName: string,
+  listeners: ChangeFeedListener[],
+  options: ChangeFeedOptions
+): () => void {
+  const { onChange, onStatusChange, livePollInterval } = options;
+  const pollInterval = options.pollInterval ?? CHANGE_FEED_POLL_INTERVAL;
+  const isBroadcast = listeners.some((listener) => 'broadcast' in listener);
+
+  let channel: ChangeFeedChannel | null = null;
+  let isStopped = false;
+  let hasConnected = false;
+  let failedAttempts = 0;
+  let connectionCount = 0;
+  let status: ChangeFeedStatus | null = null;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let currentPollInterval: number | null = null;
+
+  function setStatus(next: ChangeFeedStatus) {
+    if (status === next) return;
+    status = next;
+    onStatusChange?.(next);
+  }
+
+  function notifyChange() {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      if (!isStopped) onChange();
+    }, CHANGE_DEBOUNCE_DELAY);
+  }
+
+  function startPolling(interval = pollInterval) {
+    if (pollTimer && currentPollInterval === interval) return;
+    stopPolling();
+    currentPollInterval = interval;
+    pollTimer = setInterval(() => {
+      if (!isStopped) onChange();
+    }, interval);
+  }
+
+  function stopPolling() {
+    if (!pollTimer) return;
+    clearInterval(pollTimer);
+    pollTimer = null;
+    currentPollInterval = null;
+  }
+
+  function removeChannel() {
+    if (!channel) return;
+    const current = channel;
+    channel = null;
+    client.removeChannel(current);
+  }
+
+  function scheduleReconnect() {
+    if (reconnectTimer || isStopped) return;
+    failedAttempts += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, getReconnectDelay(failedAttempts));
+  }
+
+  function connect() {
+    if (isStopped) return;
+    removeChannel();
+    if (status !== 'polling') setStatus('connecting');
+    // 接続が確立するまではポーリングで代替する
+    startPolling();
+
+    // 再接続のたびに別のチャンネルとして作成する（古いチャンネルの通知を受け取らないようにする）
+    connectionCount += 1;
+    let current = client.channel(isBroadcast ? channelName : `${channelName}:${connectionCount}`);
+    for (const listener of listeners) {
+      if ('broadcast' in listener) {
+        current = current.on('broadcast', { event: listener.broadcast }, () => {
+          if (channel === current) notifyChange();
+        });
+        continue;
+      }
+      const { filter, isRelevant } = listener;
+      current = current.on('postgres_changes', filter, (payload) => {
+        if (channel === current && (!isRelevant || isRelevant(payload))) notifyChange();
+      });
+    }
+    channel = current;
+
+    current.subscribe((subscribeStatus, err) => {
+      if (isStopped || channel !== current) return;
+
+      if (subscribeStatus === 'SUBSCRIBED') {
+        failedAttempts = 0;
+        if (livePollInterval) {
+          startPolling(livePollInterval);
+        } else {
+          stopPolling();
+        }
+        // 再接続した場合は、切断中の変更を取りこぼさないよう再取得を依頼する
+        if (hasConnected) notifyChange();
+        hasConnected = true;
+        setStatus('live');
+      } else if (
+        subscribeStatus === 'CHANNEL_ERROR' ||
+        subscribeStatus === 'TIMED_OUT' ||
+        subscribeStatus === 'CLOSED'
+      ) {
+        console.warn(`変更フィードの接続が切れました（${subscribeStatus}）`, err ?? '');
+        setStatus('polling');
+        startPolling();
+        removeChannel();
+        scheduleReconnect();
+      }
+    });
+  }
+
+  connect();
+
+  return () => {
+    isStopped = true;
+    if (debounceTimer) clearTimeout(debounceTimer);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    stopPolling();
+    removeChannel();
+  };
+}
+
+/**
+ * プレイリストの録音の変更を購読する
+ * @param client Realtimeのクライアント
+ * @param playlistId プレイリストID
+ * @param options コールバックとポーリング間隔
+ * @returns 購読を解除する関数
+ */
+export function subscribeToPlaylistChanges(
+  client: ChangeFeedClient,
+  playlistId: string,
+  options: PlaylistChangeFeedOptions
+): () => void {
+  const { isRelevantRecording = () => true, ...feedOptions } = options;
+
+  const isRecordingChange = (payload: ChangeFeedPayload) => {
+    const record = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    return typeof record.id === 'string' && isRelevantRecording(record.id);
+  };
+  // 削除の通知は絞り込めず主キーしか届かないため、どのプレイリストの録音か判別できない
+  // 削除は頻繁ではないため、すべて変更として扱う
+  const isPlaylistRecordingChange = (payload: ChangeFeedPayload) =>
+    payload.eventType === 'DELETE' || payload.new.playlist_id === playlistId;
+  const playlistFilter = `playlist_id=eq.${playlistId}`;
+
+  return subscribeToChanges(
+    client,
+    `playlist-changes:${playlistId}`,
+    [
+      { filter: { event: 'UPDATE', schema: 'public', table: 'recordings' }, isRelevant: isRecordingChange },
+      { filter: { event: 'DELETE', schema: 'public', table: 'recordings' }, isRelevant: isRecordingChange },
+      {
+        filter: { event: 'INSERT', schema: 'public', table: 'playlist_recordings', filter: playlistFilter },
+        isRelevant: isPlaylistRecordingChange,
+      },
+      {
+        filter: { event: 'UPDATE', schema: 'public', table: 'playlist_recordings', filter: playlistFilter },
+        isRelevant: isPlaylistRecordingChange,
+      },
+      {
+        filter: { event: 'DELETE', schema: 'public', table: 'playlist_recordings' },
+        isRelevant: isPlaylistRecordingChange,
+      },
+    ],
+    feedOptions
+  );
+}
+
+/**
+ * プレイリストの録音の変更を知らせるブロードキャストのチャンネル名
+ * @param playlistId プレイリストID
+ */
+export function getPlaylistChangeTopic(playlistId: string): string {
+  return `playlist-updates:${playlistId}`;
+}
+
+/**
+ * プレイリストの録音の変更をブロードキャストで購読する（Postgresの変更通知を購読できない再生端末用）
+ * ブロードキャストには内容を含まないため、変更を知らせるだけで録音はAPIルートから取得し直す
+ * @param client Realtimeのクライアント
+ * @param playlistId プレイリストID
+ * @param options コールバックとポーリング間隔
+ * @returns 購読を解除する関数
+ */
+export function subscribeToPlaylistBroadcast(
+  client: ChangeFeedClient,
+  playlistId: string,
+  options: ChangeFeedOptions
+): () => void {
+  return subscribeToChanges(
+    client,
+    getPlaylistChangeTopic(playlistId),
+    [{ broadcast: PLAYLIST_CHANGE_EVENT }],
+    { livePollInterval: CHANGE_FEED_LIVE_POLL_INTERVAL, ...options }
+  );
+}
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONTENT_FLAG_RULES, evaluateContentFlags, parseBlockedWords } from './content-flags';
+import type { ContentFlagRule } from './types';
+
+const PASSAGE = 'むかしむかし、あるところにおじいさんとおばあさんが住んでいました。';
+
+// 検出されたルールのみを返す
+function evaluateRules(
+  transcription: string | null,
+  rules: Partial<typeof DEFAULT_CONTENT_FLAG_RULES> = {},
+  input: { passage?: string | null; language?: string | null } = {}
+): ContentFlagRule[] {
+  return evaluateContentFlags(
+    { transcription, ...input },
+    { ...DEFAULT_CONTENT_FLAG_RULES, ...rules }
+  ).map((flag) => flag.rule);
+}
+
+describe('evaluateContentFlags', () => {
+  it('問題のない文字起こしでは何も検出しない', () => {
+    assert.deepEqual(evaluateRules(PASSAGE, { blocked_words: ['ばか'] }, { passage: PASSAGE }), []);
+  });
+
+  it('空の文字起こしを検出し、他のルールはチェックしない', () => {
+    assert.deepEqual(evaluateRules(''), ['empty']);
+    assert.deepEqual(evaluateRules(null), ['empty']);
+    // 記号・空白だけの場合も空とみなす
+    assert.deepEqual(evaluateRules('、。 ！', { blocked_words: ['、'] }, { passage: PASSAGE }), ['empty']);
+  });
+
+  it('禁止語を検出し、理由に禁止語を含める', () => {
+    const flags = evaluateContentFlags(
+      { transcription: 'それはバカげた話です' },
+      { ...DEFAULT_CONTENT_FLAG_RULES, blocked_words: ['ばか', 'あほ'] }
+    );
+    assert.deepEqual(flags.map((flag) => flag.rule), ['blocked_word']);
+    assert.match(flags[0].message, /「ばか」/);
+    assert.doesNotMatch(flags[0].message, /「あほ」/);
+  });
+
+  it('禁止語は全角・半角、ひらがな・カタカナの違いを区別しない', () => {
+    assert.deepEqual(evaluateRules('ＮＧワードです', { blocked_words: ['ngわーど'] }), ['blocked_word']);
+    assert.deepEqual(evaluateRules('ｶﾀｶﾅの語', { blocked_words: ['かたかな'] }), ['blocked_word']);
+    assert.deepEqual(evaluateRules('NG word', { blocked_words: ['ＮＧ'] }, { language: 'en' }), ['blocked_word']);
+  });
+
+  it('課題文に対して短すぎる文字起こしを検出する', () => {
+    assert.deepEqual(evaluateRules('むかしむかし', {}, { passage: PASSAGE }), ['too_short']);
+    // 課題文がない場合はチェックしない
+    assert.deepEqual(evaluateRules('むかしむかし'), []);
+  });
+
+  it('プレイリストの言語と異なる文字が多い文字起こしを検出する', () => {
+    assert.deepEqual(evaluateRules('Once upon a time there lived an old man'), ['language']);
+    assert.deepEqual(evaluateRules('Once upon a time there lived an old man', {}, { language: 'en' }), []);
+    assert.deepEqual(evaluateRules('むかしむかし', {}, { language: 'en' }), ['language']);
+    // 判定できない言語はチェックしない
+    assert.deepEqual(evaluateRules('Once upon a time', {}, { language: 'xx' }), []);
+  });
+
+  it('無効にしたルールは検出しない', () => {
+    assert.deepEqual(evaluateRules('', { flag_empty: false }), []);
+    assert.deepEqual(evaluateRules('むかしむかし', { min_passage_ratio: 0 }, { passage: PASSAGE }), []);
+    assert.deepEqual(evaluateRules('Once upon a time', { min_language_ratio: 0 }), []);
+    assert.deepEqual(evaluateRules('それはバカげた話です', { blocked_words: [] }), []);
+  });
+
+  it('複数の問題をまとめて検出する', () => {
+    assert.deepEqual(
+      evaluateRules('bad word', { blocked_words: ['bad'] }, { passage: PASSAGE }),
+      ['blocked_word', 'too_short', 'language']
+    );
+  });
+});
+
+describe('parseBlockedWords', () => {
+  it('改行・カンマ・読点で区切り、空の行と重複を除く', () => {
+    assert.deepEqual(parseBlockedWords('ばか\nあほ, まぬけ、ばか\n\n，とんま'), ['ばか', 'あほ', 'まぬけ', 'とんま']);
+  });
+});
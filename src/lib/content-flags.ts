@@ -0,0 +1,240 @@
+/**
+ * 文字起こしによる録音の自動チェック
+ * 禁止語・空の文字起こし・課題文に対して短すぎる・想定外の言語の録音を検出し、
+ * 問題のある録音は審査待ちに戻してループ再生から外します
+ * チェック自体（evaluateContentFlags）はデータベースに依存しないため、管理画面でルールを試せます
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizeForComparison } from './passage';
+import type { ContentFlag, ContentFlagRule, ContentFlagRules, ModerationStatus } from './types';
+
+// ルールを設定していない場合の初期値（マイグレーションの初期値と同じ）
+export const DEFAULT_CONTENT_FLAG_RULES: Omit<ContentFlagRules, 'id' | 'updated_at'> = {
+  blocked_words: [],
+  flag_empty: true,
+  min_passage_ratio: 0.3,
+  min_language_ratio: 0.5,
+};
+
+// ルールの表示名
+export const CONTENT_FLAG_RULE_LABELS: Record<ContentFlagRule, string> = {
+  empty: '空の文字起こし',
+  blocked_word: '禁止語',
+  too_short: '短すぎる',
+  language: '想定外の言語',
+};
+
+// プレイリストに文字起こしの言語が設定されていない場合の言語（文字起こしのデフォルトと同じ）
+const FALLBACK_LANGUAGE = 'ja';
+
+// 言語ごとの文字の判定（ここにない言語は言語のチェックを行わない）
+const LANGUAGE_SCRIPTS: Record<string, { label: string; pattern: RegExp }> = {
+  ja: { label: '日本語', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}ー]/u },
+  zh: { label: '中国語', pattern: /\p{Script=Han}/u },
+  ko: { label: '韓国語', pattern: /\p{Script=Hangul}/u },
+  en: { label: '英語', pattern: /\p{Script=Latin}/u },
+  fr: { label: 'フランス語', pattern: /\p{Script=Latin}/u },
+  de: { label: 'ドイツ語', pattern: /\p{Script=Latin}/u },
+  es: { label: 'スペイン語', pattern: /\p{Script=Latin}/u },
+  it: { label: 'イタリア語', pattern: /\p{Script=Latin}/u },
+  pt: { label: 'ポルトガル語', pattern: /\p{Script=Latin}/u },
+  ru: { label: 'ロシア語', pattern: /\p{Script=Cyrillic}/u },
+};
+
+export interface ContentFlagInput {
+  transcription: string | null;
+  // 録音で読んだ課題文（ない場合は長さのチェックを行わない）
+  passage?: string | null;
+  // プレイリストの文字起こしの言語（ISO 639-1）
+  language?: string | null;
+}
+
+/**
+ * 照合用にテキストを正規化する（比較用の正規化に加えて、カタカナをひらがなにそろえる）
+ */
+function toMatchingText(text: string): string {
+  return normalizeForComparison(text)
+    .join('')
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+/**
+ * 改行・カンマ・読点で区切られた禁止語のリストを配列にする（空の行と重複は除く）
+ */
+export function parseBlockedWords(text: string): string[] {
+  const words = text
+    .split(/[\n,、，]/)
+    .map((word) => word.trim())
+    .filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+/**
+ * テキストのうち、指定した言語の文字が占める割合を計算する（文字以外は数えない）
+ * @returns 割合（0.0〜1.0）。判定できない言語・文字がない場合はnull
+ */
+export function getLanguageRatio(text: string, language: string): number | null {
+  const script = LANGUAGE_SCRIPTS[language.toLowerCase()];
+  if (!script) return null;
+
+  const letters = Array.from(text).filter((char) => /\p{L}/u.test(char));
+  if (letters.length === 0) return null;
+
+  return letters.filter((char) => script.pattern.test(char)).length / letters.length;
+}
+
+/**
+ * 文字起こしをルールでチェックする
+ * @returns 検出された問題（問題がない場合は空の配列）
+ */
+export function evaluateContentFlags(
+  input: ContentFlagInput,
+  rules: Omit<ContentFlagRules, 'id' | 'updated_at'>
+): ContentFlag[] {
+  const transcription = input.transcription ?? '';
+  const matchingText = toMatchingText(transcription);
+
+  // 空の文字起こしは他のルールでチェックする意味がないため、ここで終了する
+  if (matchingText.length === 0) {
+    return rules.flag_empty ? [{ rule: 'empty', message: '文字起こしが空です' }] : [];
+  }
+
+  const flags: ContentFlag[] = [];
+
+  const blockedWords = rules.blocked_words.filter((word) => {
+    const matchingWord = toMatchingText(word);
+    return matchingWord.length > 0 && matchingText.includes(matchingWord);
+  });
+  if (blockedWords.length > 0) {
+    flags.push({
+      rule: 'blocked_word',
+      message: `禁止語を含みます: ${blockedWords.map((word) => `「${word}」`).join('')}`,
+    });
+  }
+
+  const passageLength = input.passage ? toMatchingText(input.passage).length : 0;
+  if (rules.min_passage_ratio > 0 && passageLength > 0) {
+    const ratio = matchingText.length / passageLength;
+    if (ratio < rules.min_passage_ratio) {
+      flags.push({
+        rule: 'too_short',
+        message: `課題文に対して短すぎます（課題文の${Math.round(ratio * 100)}%）`,
+      });
+    }
+  }
+
+  const language = input.language || FALLBACK_LANGUAGE;
+  const languageRatio = getLanguageRatio(transcription, language);
+  if (rules.min_language_ratio > 0 && languageRatio !== null && languageRatio < rules.min_language_ratio) {
+    const label = LANGUAGE_SCRIPTS[language.toLowerCase()].label;
+    flags.push({
+      rule: 'language',
+      message: `想定外の言語の可能性があります（${label}の文字が${Math.round(languageRatio * 100)}%）`,
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * 検出された問題が同じか（ルールと理由を比較する）
+ */
+function isSameFlags(a: ContentFlag[] | null | undefined, b: ContentFlag[]): boolean {
+  if (!a || a.length !== b.length) return false;
+  return a.every((flag, i) => flag.rule === b[i].rule && flag.message === b[i].message);
+}
+
+/**
+ * 録音の文字起こしをルールでチェックし、結果を保存する
+ * 新しく問題が検出された録音は審査待ちに戻す（却下済みの録音と、同じ問題で承認済みの録音はそのまま）
+ * 自動承認のプレイリストの録音は、最初のチェックで問題がなければデータベースのトリガーで承認される
+ * サーバー側（Service Role）とクライアント側（認証済みユーザー）の両方から使用する
+ * @param supabase Supabaseクライアント
+ * @param recordingId 録音ID
+ * @param transcription 文字起こしテキスト
+ * @returns 検出された問題
+ */
+export async function refreshContentFlags(
+  supabase: SupabaseClient,
+  recordingId: string,
+  transcription: string
+): Promise<ContentFlag[]> {
+  const { data: rulesData, error: rulesError } = await supabase
+    .from('content_flag_rules')
+    .select('*')
+    .maybeSingle();
+
+  if (rulesError) {
+    throw new Error(`チェックのルールの取得に失敗しました: ${rulesError.message}`);
+  }
+
+  const { data, error } = await supabase
+    .from('recordings')
+    .select(`
+      moderation_status,
+      content_flags,
+      passages (body),
+      playlist_recordings (
+        added_at,
+        playlists (transcription_language)
+      )
+    `)
+    .eq('id', recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`録音の取得に失敗しました: ${error.message}`);
+  }
+
+  type Language = { transcription_language: string | null };
+  type RecordingForFlags = {
+    moderation_status: ModerationStatus;
+    content_flags: ContentFlag[] | null;
+    passages: { body: string } | { body: string }[] | null;
+    playlist_recordings: { added_at: string; playlists: Language | Language[] | null }[] | null;
+  };
+
+  const recording = data as unknown as RecordingForFlags | null;
+  if (!recording) {
+    throw new Error('録音が見つかりません');
+  }
+
+  // Supabaseは外部キーのリレーションを配列として返すが、実際は単一オブジェクト
+  const passage = Array.isArray(recording.passages) ? recording.passages[0] : recording.passages;
+  // 文字起こしと同じく、録音が最後に追加されたプレイリストの言語を使用する
+  const latest = [...(recording.playlist_recordings ?? [])].sort((a, b) =>
+    b.added_at.localeCompare(a.added_at)
+  )[0];
+  const playlist = Array.isArray(latest?.playlists) ? latest.playlists[0] : latest?.playlists;
+
+  const flags = evaluateContentFlags(
+    {
+      transcription,
+      passage: passage?.body,
+      language: playlist?.transcription_language,
+    },
+    (rulesData as ContentFlagRules | null) ?? DEFAULT_CONTENT_FLAG_RULES
+  );
+
+  const update: Record<string, unknown> = { content_flags: flags };
+  if (
+    flags.length > 0 &&
+    recording.moderation_status !== 'rejected' &&
+    !isSameFlags(recording.content_flags, flags)
+  ) {
+    update.moderation_status = 'pending';
+    update.moderated_at = null;
+  }
+
+  const { error: updateError } = await supabase
+    .from('recordings')
+    .update(update as never)
+    .eq('id', recordingId);
+
+  if (updateError) {
+    throw new Error(`チェック結果の保存に失敗しました: ${updateError.message}`);
+  }
+
+  return flags;
+}
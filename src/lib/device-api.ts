@@ -0,0 +1,107 @@
+/**
+ * 再生端末用のデータ取得（クライアント側）
+ * 再生端末は管理者のセッションを持たないため、デバイストークンで認証するAPIルート（/api/play）経由で取得・更新します
+ */
+
+import type { PlaybackScheduleData, PlaylistRecordingEntry } from './playback-data';
+import type { DeviceCommand, DevicePlayerState, PlayerHeartbeat } from './types';
+
+/**
+ * 再生端末用のAPIルートからJSONを取得する
+ */
+async function fetchPlaybackApi<T>(path: string): Promise<T> {
+  const response = await fetch(path, { cache: 'no-store' });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error || `取得エラー: ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * 再生端末用のAPIルートにJSONを送信し、応答のJSONを返す
+ */
+async function postPlaybackApi<T = unknown>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const result = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(result?.error || `送信エラー: ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * 再生スケジュールの判定に必要なデータを取得する
+ */
+export async function getDevicePlaybackSchedule(): Promise<PlaybackScheduleData> {
+  return fetchPlaybackApi<PlaybackScheduleData>('/api/play/schedule');
+}
+
+/**
+ * プレイリストの録音を再生順序で取得する
+ * @param playlistId プレイリストID
+ */
+export async function getDevicePlaylistRecordings(playlistId: string): Promise<PlaylistRecordingEntry[]> {
+  const { recordings } = await fetchPlaybackApi<{ recordings: PlaylistRecordingEntry[] }>(
+    `/api/play/recordings?playlistId=${encodeURIComponent(playlistId)}`
+  );
+  return recordings;
+}
+
+/**
+ * 録音の再生回数を1増やす
+ * @param recordingId 録音ID
+ */
+export async function recordDevicePlay(recordingId: string): Promise<void> {
+  await postPlaybackApi('/api/play/plays', { recordingId });
+}
+
+/**
+ * 録音の再生の失敗を記録する
+ * @param recordingId 録音ID
+ * @param error 失敗の内容
+ * @returns 録音が隔離されたか
+ */
+export async function recordDevicePlaybackFailure(recordingId: string, error: string): Promise<boolean> {
+  const { quarantined } = await postPlaybackApi<{ quarantined: boolean }>('/api/play/failures', {
+    recordingId,
+    error,
+  });
+  return quarantined;
+}
+
+// 実行したコマンドの結果
+export interface DeviceCommandAck {
+  id: string;
+  status: 'succeeded' | 'failed';
+  error?: string | null;
+}
+
+/**
+ * リモート操作のコマンドを同期する（実行結果と再生状態を送信し、未実行のコマンドを取得する）
+ * @param state 現在の再生状態
+ * @param acks 前回の同期以降に実行したコマンドの結果
+ * @returns この端末のID（管理者のセッションの場合はnull）と未実行のコマンド
+ */
+export async function syncDeviceCommands(
+  state: DevicePlayerState,
+  acks: DeviceCommandAck[] = []
+): Promise<{ deviceId: string | null; commands: DeviceCommand[] }> {
+  return postPlaybackApi('/api/play/commands', { state, acks });
+}
+
+/**
+ * 稼働状況のハートビートを送信する
+ * @param heartbeat 現在の再生状態と診断情報
+ */
+export async function sendPlayerHeartbeat(heartbeat: PlayerHeartbeat): Promise<void> {
+  await postPlaybackApi('/api/play/heartbeat', heartbeat);
+}
@@ -0,0 +1,97 @@
+/**
+ * 再生端末のリモート操作
+ * 管理画面はコマンドをdevice_commandsに保存し、Realtimeのブロードキャストで端末に取得を促します
+ * 端末はブロードキャストを受け取ったとき（受け取れない場合は定期的に）APIルートからコマンドを取得し、
+ * 実行結果を応答します。ブロードキャストには内容を含めないため、コマンドはデバイストークンで認証した端末のみが取得できます
+ */
+
+import type { DeviceCommandPayload, DeviceCommandStatus, DeviceCommandType } from './types';
+
+// コマンドの表示名
+export const DEVICE_COMMAND_LABELS: Record<DeviceCommandType, string> = {
+  play: '再生',
+  pause: '一時停止',
+  skip: 'スキップ',
+  jump: '録音を指定して再生',
+  volume: '音量',
+  playlist: 'プレイリストの切り替え',
+  reload: '再読み込み',
+};
+
+// コマンドの状態の表示名
+export const DEVICE_COMMAND_STATUS_LABELS: Record<DeviceCommandStatus, string> = {
+  pending: '送信済み',
+  delivered: '受信',
+  succeeded: '実行済み',
+  failed: '失敗',
+  expired: '期限切れ',
+};
+
+// コマンドの有効期限（端末がオフラインだった場合に、後から古い操作を実行しないようにする）
+export const DEVICE_COMMAND_TTL = 60 * 1000;
+
+// ブロードキャストのイベント名
+export const DEVICE_COMMAND_EVENT = 'command';
+
+/**
+ * 端末にコマンドの取得を促すブロードキャストのチャンネル名
+ * @param deviceId 再生端末ID
+ */
+export function getDeviceCommandChannel(deviceId: string): string {
+  return `device-commands:${deviceId}`;
+}
+
+/**
+ * コマンドの引数を検証し、不正な場合はエラーメッセージを返す
+ */
+export function validateDeviceCommand(command: DeviceCommandType, payload: DeviceCommandPayload): string | null {
+  switch (command) {
+    case 'jump':
+      return payload.recordingId ? null : '再生する録音を指定してください';
+    case 'volume':
+      return typeof payload.volume === 'number' && payload.volume >= 0 && payload.volume <= 1
+        ? null
+        : '音量は0〜1で指定してください';
+    case 'playlist':
+      return payload.playlistId === null || typeof payload.playlistId === 'string'
+        ? null
+        : '切り替えるプレイリストを指定してください';
+    default:
+      return null;
+  }
+}
+
+/**
+ * コマンドの内容を表示用の文字列にする
+ * @param playlistNames プレイリストIDと名前の対応（プレイリストの切り替えの表示に使用）
+ */
+export function describeDeviceCommand(
+  command: DeviceCommandType,
+  payload: DeviceCommandPayload,
+  playlistNames?: Map<string, string>
+): string {
+  const label = DEVICE_COMMAND_LABELS[command];
+  switch (command) {
+    case 'volume':
+      return `${label}: ${Math.round((payload.volume ?? 0) * 100)}%`;
+    case 'playlist':
+      return payload.playlistId
+        ? `${label}: ${playlistNames?.get(payload.playlistId) ?? payload.playlistId}`
+        : `${label}: スケジュールに戻す`;
+    default:
+      return label;
+  }
+}
+
+// 再生状態の報告がこの時間より古い端末は、再生画面を開いていないものとして扱う
+// （端末はブロードキャストを受信できる場合も30秒ごとに報告する）
+export const DEVICE_STATE_STALE_AFTER = 90 * 1000;
+
+/**
+ * 端末が最近再生状態を報告したか（再生画面を開いているか）
+ * @param playerStateAt 再生状態を報告した日時
+ * @param now 現在時刻（ミリ秒）
+ */
+export function isDeviceStateFresh(playerStateAt: string | null | undefined, now = Date.now()): boolean {
+  return !!playerStateAt && now - new Date(playerStateAt).getTime() < DEVICE_STATE_STALE_AFTER;
+}
@@ -0,0 +1,80 @@
+/**
+ * 再生端末のデバイストークンの検証（APIルート用）
+ */
+
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from './supabase-server';
+import { DEVICE_TOKEN_COOKIE, hashDeviceToken } from './device-token';
+import type { Device } from './types';
+
+// 最終アクセス日時を更新する間隔（再生端末は定期的にデータを取得するため、毎回は書き込まない）
+const LAST_SEEN_UPDATE_INTERVAL = 60 * 1000;
+
+export type PlaybackAccess = { type: 'device'; device: Device } | { type: 'session' };
+
+/**
+ * クッキーのデバイストークンに対応する有効な端末を返す（無効な場合はnull）
+ * @param supabase Service Role KeyのSupabaseクライアント
+ */
+export async function verifyDeviceToken(
+  request: NextRequest,
+  supabase: SupabaseClient
+): Promise<Device | null> {
+  const token = request.cookies.get(DEVICE_TOKEN_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('devices')
+    .select('*')
+    .eq('token_hash', await hashDeviceToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('デバイストークンの検証に失敗:', error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const device = data as Device;
+  const lastSeen = device.last_seen_at ? new Date(device.last_seen_at).getTime() : 0;
+  if (Date.now() - lastSeen > LAST_SEEN_UPDATE_INTERVAL) {
+    const { error: updateError } = await supabase
+      .from('devices')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', device.id);
+    if (updateError) {
+      console.error('端末の最終アクセス日時の更新に失敗:', updateError);
+    }
+  }
+
+  return device;
+}
+
+/**
+ * 再生用APIへのアクセスを認証する
+ * 有効なデバイストークンを持つ端末と、ログイン中の管理者（動作確認用）を許可する
+ * @param supabase Service Role KeyのSupabaseクライアント
+ * @returns 認証できない場合はnull
+ */
+export async function authenticatePlaybackRequest(
+  request: NextRequest,
+  supabase: SupabaseClient
+): Promise<PlaybackAccess | null> {
+  const device = await verifyDeviceToken(request, supabase);
+  if (device) {
+    return { type: 'device', device };
+  }
+
+  const sessionClient = await createClient();
+  const {
+    data: { user },
+  } = await sessionClient.auth.getUser();
+
+  return user ? { type: 'session' } : null;
+}
@@ -0,0 +1,43 @@
+/**
+ * 再生端末のデバイストークンのユーティリティ
+ * ブラウザ・APIルート・middlewareのいずれからも使用できるよう、Web Crypto APIのみを使用します
+ */
+
+// デバイストークンを保存するクッキー（httpOnly、JavaScriptからは参照できない）
+export const DEVICE_TOKEN_COOKIE = 'monoshaka-device-token';
+
+// 初回アクセス時にデバイストークンを渡すクエリパラメータ（/play?token=...）
+export const DEVICE_TOKEN_PARAM = 'token';
+
+// クッキーの有効期限（ブラウザの上限である400日）
+export const DEVICE_TOKEN_MAX_AGE = 400 * 24 * 60 * 60;
+
+// デバイストークンでアクセスできるパス
+export const DEVICE_PATHS = ['/play', '/api/play'];
+
+// トークンのランダム部分の長さ（バイト）
+const TOKEN_BYTES = 32;
+
+/**
+ * デバイストークンでアクセスできるパスか
+ */
+export function isDevicePath(pathname: string): boolean {
+  return DEVICE_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+}
+
+/**
+ * 新しいデバイストークンを生成する（URLにそのまま含められる16進数の文字列）
+ */
+export function generateDeviceToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * デバイストークンのハッシュ（SHA-256、16進数）を計算する
+ * データベースにはハッシュのみを保存する
+ */
+export async function hashDeviceToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
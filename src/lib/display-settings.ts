@@ -0,0 +1,63 @@
+/**
+ * 字幕表示モードの表示設定
+ * 展示会場の表示端末ごとに調整するため、ブラウザのlocalStorageに保存します
+ */
+
+export type SubtitleWritingMode = 'horizontal' | 'vertical';
+
+export interface DisplaySettings {
+  // 文字の大きさ（画面の短辺に対する割合、vmin）
+  fontSize: number;
+  // 文字色
+  textColor: string;
+  // 読み上げ済みの部分の文字色
+  highlightColor: string;
+  // 背景色
+  backgroundColor: string;
+  // 横書き / 縦書き
+  writingMode: SubtitleWritingMode;
+  // 録音が切り替わるときのフェード時間（ミリ秒）
+  fadeDuration: number;
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  fontSize: 6,
+  textColor: '#6b7280',
+  highlightColor: '#ffffff',
+  backgroundColor: '#000000',
+  writingMode: 'horizontal',
+  fadeDuration: 800,
+};
+
+const STORAGE_KEY = 'monoshaka:display-settings';
+
+/**
+ * 保存された表示設定を読み込む（未保存の項目はデフォルト値）
+ */
+export function loadDisplaySettings(): DisplaySettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (!saved) {
+      return DEFAULT_DISPLAY_SETTINGS;
+    }
+    return { ...DEFAULT_DISPLAY_SETTINGS, ...(JSON.parse(saved) as Partial<DisplaySettings>) };
+  } catch (err) {
+    console.error('表示設定の読み込みに失敗:', err);
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+}
+
+/**
+ * 表示設定を保存する
+ */
+export function saveDisplaySettings(settings: DisplaySettings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('表示設定の保存に失敗:', err);
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SILENCE_LUFS, measureLoudness } from './loudness';
+
+// EBU Tech 3341の許容誤差（LU）
+const TOLERANCE = 0.1;
+
+/**
+ * 正弦波を生成する
+ * @param level 振幅（dBFS）
+ * @param phase 初期位相（ラジアン）
+ */
+function sine(frequency: number, level: number, seconds: number, sampleRate: number, phase = 0): Float32Array {
+  const amplitude = Math.pow(10, level / 20);
+  const data = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < data.length; i++) {
+    data[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate + phase);
+  }
+  return data;
+}
+
+/**
+ * 1kHzの正弦波を区間ごとのレベルでつなげる（EBU Tech 3341のゲーティングの試験信号）
+ * @param segments [レベル（dBFS）, 長さ（秒）]の配列
+ */
+function sineSequence(segments: [number, number][], sampleRate: number): Float32Array {
+  const parts = segments.map(([level, seconds]) => sine(1000, level, seconds, sampleRate));
+  const data = new Float32Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+function toDb(linear: number): number {
+  return 20 * Math.log10(linear);
+}
+
+describe('measureLoudness', () => {
+  for (const sampleRate of [48000, 44100]) {
+    it(`-23 dBFSの1kHzのステレオ正弦波は-23 LUFSになる（${sampleRate} Hz）`, () => {
+      const data = sine(1000, -23, 20, sampleRate);
+      const result = measureLoudness([data, data], sampleRate);
+
+      assert.ok(Math.abs(result.integrated - -23) <= TOLERANCE, `integrated: ${result.integrated}`);
+      assert.ok(Math.abs(result.momentaryMax - -23) <= TOLERANCE, `momentaryMax: ${result.momentaryMax}`);
+      assert.ok(Math.abs(result.shortTermMax - -23) <= TOLERANCE, `shortTermMax: ${result.shortTermMax}`);
+    });
+  }
+
+  it('-33 dBFSの正弦波は-33 LUFSになる（EBU Tech 3341 case 2）', () => {
+    const data = sine(1000, -33, 20, 48000);
+    const result = measureLoudness([data, data], 48000);
+    assert.ok(Math.abs(result.integrated - -33) <= TOLERANCE, `integrated: ${result.integrated}`);
+  });
+
+  it('相対ゲートで-36 dBFSの区間を除く（EBU Tech 3341 case 3）', () => {
+    const data = sineSequence([[-36, 10], [-23, 60], [-36, 10]], 48000);
+    const result = measureLoudness([data, data], 48000);
+    assert.ok(Math.abs(result.integrated - -23) <= TOLERANCE, `integrated: ${result.integrated}`);
+  });
+
+  it('絶対ゲートと相対ゲートで-72 dBFSと-36 dBFSの区間を除く（EBU Tech 3341 case 4）', () => {
+    const data = sineSequence([[-72, 10], [-36, 10], [-23, 60], [-36, 10], [-72, 10]], 48000);
+    const result = measureLoudness([data, data], 48000);
+    assert.ok(Math.abs(result.integrated - -23) <= TOLERANCE, `integrated: ${result.integrated}`);
+  });
+
+  it('サンプルの間にあるピークをトゥルーピークとして検出する', () => {
+    // 標本化周波数の1/4の正弦波を45度ずらすと、サンプルは振幅の0.707倍の点だけになる
+    const data = sine(12000, 0, 1, 48000, Math.PI / 4);
+    const result = measureLoudness([data, data], 48000);
+
+    assert.ok(Math.abs(toDb(result.samplePeak) - -3.01) <= TOLERANCE, `samplePeak: ${toDb(result.samplePeak)} dBFS`);
+    assert.ok(Math.abs(toDb(result.truePeak)) <= 0.5, `truePeak: ${toDb(result.truePeak)} dBTP`);
+  });
+
+  it('無音はSILENCE_LUFSになる', () => {
+    const data = new Float32Array(48000 * 2);
+    const result = measureLoudness([data, data], 48000);
+
+    assert.equal(result.integrated, SILENCE_LUFS);
+    assert.equal(result.momentaryMax, SILENCE_LUFS);
+    assert.equal(result.shortTermMax, SILENCE_LUFS);
+    assert.equal(result.samplePeak, 0);
+    assert.equal(result.truePeak, 0);
+  });
+
+  it('空のデータはSILENCE_LUFSになる', () => {
+    assert.equal(measureLoudness([], 48000).integrated, SILENCE_LUFS);
+    assert.equal(measureLoudness([new Float32Array(0)], 48000).integrated, SILENCE_LUFS);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * ITU-R BS.1770 ラウドネス測定
+ * デコード済みのPCMデータ（チャンネルごとのFloat32Array）からラウドネスを計算します
+ * AudioContextに依存しないため、ブラウザ・サーバーのどちらからでも利用できます
+ */
+
+// 無音とみなすラウドネス値（絶対ゲートと同じ値）
+export const SILENCE_LUFS = -70;
+
+// ゲーティングブロックの長さ（秒）
+const BLOCK_SECONDS = 0.4;
+// ショートタームラウドネスの窓長（秒）
+const SHORT_TERM_SECONDS = 3;
+// ブロックのステップ幅（秒）: 400msブロックを75%オーバーラップさせる
+const STEP_SECONDS = 0.1;
+// 絶対ゲート（LUFS）
+const ABSOLUTE_GATE = -70;
+// 相対ゲート（LU）
+const RELATIVE_GATE = -10;
+// トゥルーピーク用補間フィルタの1位相あたりのタップ数
+const TRUE_PEAK_TAPS_PER_PHASE = 12;
+
+export interface LoudnessMeasurement {
+  integrated: number;    // 統合ラウドネス（LUFS、ゲーティングあり）
+  momentaryMax: number;  // モーメンタリーラウドネスの最大値（LUFS、400ms窓）
+  shortTermMax: number;  // ショートタームラウドネスの最大値（LUFS、3秒窓）
+  samplePeak: number;    // サンプルピーク（リニア値）
+  truePeak: number;      // トゥルーピーク（オーバーサンプリング後のリニア値）
+  rms: number;           // 重み付けなしのRMS平均レベル
+}
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * K-weightingフィルタの係数を計算する
+ * BS.1770の48kHz用係数を任意のサンプルレートに対して双一次変換で求める
+ * @param sampleRate サンプルレート
+ * @returns [高域シェルフ（頭部の音響効果）, 高域通過（RLB）]の係数
+ */
+function getKWeightingCoefficients(sampleRate: number): [BiquadCoefficients, BiquadCoefficients] {
+  // ステージ1: 高域シェルフフィルタ
+  let f0 = 1681.974450955533;
+  const gainDb = 3.999843853973347;
+  let q = 0.7071752369554196;
+
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gainDb / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+
+  const shelf: BiquadCoefficients = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  // ステージ2: 高域通過フィルタ（RLB weighting）
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+
+  const highPass: BiquadCoefficients = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * チャンネルの重み係数を取得する
+ * 5.1chの場合、LFE（4ch目）は除外し、サラウンド（5,6ch目）は+1.5dBとする
+ */
+function getChannelWeight(channel: number, channelCount: number): number {
+  if (channelCount === 6) {
+    if (channel === 3) return 0;
+    if (channel >= 4) return 1.41;
+  }
+  return 1.0;
+}
+
+/**
+ * 平均二乗値からラウドネス（LUFS）を計算する
+ */
+function toLoudness(meanSquare: number): number {
+  return meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+}
+
+/**
+ * K-weightingフィルタを適用し、100msステップごとの重み付き二乗和を計算する
+ * @returns ステップごとの二乗和（全チャンネルの重み付き合計）
+ */
+function computeStepEnergies(
+  channels: Float32Array[],
+  sampleRate: number,
+  stepSize: number
+): Float64Array {
+  const length = channels[0].length;
+  const stepCount = Math.floor(length / stepSize);
+  const energies = new Float64Array(stepCount);
+  const [shelf, highPass] = getKWeightingCoefficients(sampleRate);
+
+  for (let channel = 0; channel < channels.length; channel++) {
+    const weight = getChannelWeight(channel, channels.length);
+    if (weight === 0) continue;
+
+    const data = channels[channel];
+    // Direct Form II Transposedの状態変数
+    let s1 = 0, s2 = 0, h1 = 0, h2 = 0;
+
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      const end = (step + 1) * stepSize;
+      for (let i = step * stepSize; i < end; i++) {
+        const x = data[i];
+
+        const y1 = shelf.b0 * x + s1;
+        s1 = shelf.b1 * x - shelf.a1 * y1 + s2;
+        s2 = shelf.b2 * x - shelf.a2 * y1;
+
+        const y2 = highPass.b0 * y1 + h1;
+        h1 = highPass.b1 * y1 - highPass.a1 * y2 + h2;
+        h2 = highPass.b2 * y1 - highPass.a2 * y2;
+
+        sum += y2 * y2;
+      }
+      energies[step] += weight * sum;
+    }
+  }
+
+  return energies;
+}
+
+/**
+ * 指定した窓長（ステップ数）でスライドさせたときの平均二乗値の列を計算する
+ * 信号が窓長より短い場合は、信号全体を1つの窓として扱う
+ */
+function computeWindowMeans(
+  stepEnergies: Float64Array,
+  stepsPerWindow: number,
+  stepSize: number
+): number[] {
+  const stepCount = stepEnergies.length;
+  if (stepCount === 0) return [];
+
+  const windowSteps = Math.min(stepsPerWindow, stepCount);
+  const windowSamples = windowSteps * stepSize;
+  const means: number[] = [];
+
+  let sum = 0;
+  for (let i = 0; i < windowSteps; i++) {
+    sum += stepEnergies[i];
+  }
+  means.push(sum / windowSamples);
+
+  for (let i = windowSteps; i < stepCount; i++) {
+    sum += stepEnergies[i] - stepEnergies[i - windowSteps];
+    means.push(sum / windowSamples);
+  }
+
+  return means;
+}
+
+/**
+ * ゲーティング処理を行い統合ラウドネスを計算する
+ * @param blockMeans 400msブロックごとの重み付き平均二乗値
+ */
+function computeIntegratedLoudness(blockMeans: number[]): number {
+  // 絶対ゲート（-70 LUFS）
+  const aboveAbsolute = blockMeans.filter((z) => toLoudness(z) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) {
+    return -Infinity;
+  }
+
+  // 相対ゲート（絶対ゲート通過ブロックの平均から-10 LU）
+  const absoluteMean = aboveAbsolute.reduce((acc, z) => acc + z, 0) / aboveAbsolute.length;
+  const relativeGate = toLoudness(absoluteMean) + RELATIVE_GATE;
+
+  const aboveRelative = aboveAbsolute.filter((z) => toLoudness(z) > relativeGate);
+  if (aboveRelative.length === 0) {
+    return -Infinity;
+  }
+
+  const gatedMean = aboveRelative.reduce((acc, z) => acc + z, 0) / aboveRelative.length;
+  return toLoudness(gatedMean);
+}
+
+/**
+ * トゥルーピーク計算用の補間フィルタ（窓付きsinc）を生成する
+ * @param factor オーバーサンプリング倍率
+ * @returns 位相ごとのフィルタ係数
+ */
+function createInterpolationPhases(factor: number): Float64Array[] {
+  const taps = TRUE_PEAK_TAPS_PER_PHASE * factor;
+  const center = (taps - 1) / 2;
+  const phases: Float64Array[] = [];
+
+  for (let phase = 0; phase < factor; phase++) {
+    const coefficients = new Float64Array(TRUE_PEAK_TAPS_PER_PHASE);
+    for (let k = 0; k < TRUE_PEAK_TAPS_PER_PHASE; k++) {
+      const n = phase + k * factor;
+      const t = (n - center) / factor;
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      // Hann窓
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / taps);
+      coefficients[k] = sinc * window;
+    }
+    phases.push(coefficients);
+  }
+
+  return phases;
+}
+
+/**
+ * トゥルーピークを計算する（BS.1770 Annex 2）
+ * 96kHz未満は4倍、192kHz未満は2倍にオーバーサンプリングして最大値を求める
+ */
+function computeTruePeak(channels: Float32Array[], sampleRate: number, samplePeak: number): number {
+  const factor = sampleRate < 96000 ? 4 : sampleRate < 192000 ? 2 : 1;
+  if (factor === 1) {
+    return samplePeak;
+  }
+
+  const phases = createInterpolationPhases(factor);
+  let truePeak = samplePeak;
+
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      for (let p = 0; p < factor; p++) {
+        const coefficients = phases[p];
+        let y = 0;
+        for (let k = 0; k < TRUE_PEAK_TAPS_PER_PHASE; k++) {
+          const index = i - k;
+          if (index < 0) break;
+          y += coefficients[k] * data[index];
+        }
+        const abs = Math.abs(y);
+        if (abs > truePeak) {
+          truePeak = abs;
+        }
+      }
+    }
+  }
+
+  return truePeak;
+}
+
+/**
+ * ITU-R BS.1770に基づいてラウドネスを測定する
+ * @param channels チャンネルごとのPCMデータ（-1.0〜1.0）
+ * @param sampleRate サンプルレート
+ * @returns ラウドネス測定結果（無音の場合、ラウドネス値はSILENCE_LUFS）
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  if (channels.length === 0 || channels[0].length === 0) {
+    return {
+      integrated: SILENCE_LUFS,
+      momentaryMax: SILENCE_LUFS,
+      shortTermMax: SILENCE_LUFS,
+      samplePeak: 0,
+      truePeak: 0,
+      rms: 0,
+    };
+  }
+
+  // サンプルピークとRMS（K-weightingなし）
+  let samplePeak = 0;
+  let rmsSum = 0;
+  for (const data of channels) {
+    let sumSquares = 0;
+    for (let i = 0; i < data.length; i++) {
+      const abs = Math.abs(data[i]);
+      if (abs > samplePeak) {
+        samplePeak = abs;
+      }
+      sumSquares += data[i] * data[i];
+    }
+    rmsSum += sumSquares / data.length;
+  }
+  const rms = Math.sqrt(rmsSum / channels.length);
+
+  // 信号が1ステップ（100ms）より短い場合は信号全体を1ステップとする
+  const stepSize = Math.min(Math.round(sampleRate * STEP_SECONDS), channels[0].length);
+  const stepEnergies = computeStepEnergies(channels, sampleRate, stepSize);
+
+  const blockSteps = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  const shortTermSteps = Math.round(SHORT_TERM_SECONDS / STEP_SECONDS);
+
+  const blockMeans = computeWindowMeans(stepEnergies, blockSteps, stepSize);
+  const shortTermMeans = computeWindowMeans(stepEnergies, shortTermSteps, stepSize);
+
+  const clamp = (lufs: number) => Math.max(SILENCE_LUFS, lufs);
+  const max = (values: number[]) => values.reduce((acc, v) => (v > acc ? v : acc), 0);
+
+  return {
+    integrated: clamp(computeIntegratedLoudness(blockMeans)),
+    momentaryMax: clamp(toLoudness(max(blockMeans))),
+    shortTermMax: clamp(toLoudness(max(shortTermMeans))),
+    samplePeak,
+    truePeak: computeTruePeak(channels, sampleRate, samplePeak),
+    rms,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * 再生端末のオフラインキャッシュ（クライアント側）
+ * Service Worker（public/media-sw.js）を登録し、キャッシュする録音の一覧を送ります
+ * 録音はService Workerがキャッシュし、ネットワークが切れてもキャッシュから再生を続けます
+ */
+
+import { getRecordingUrl } from './supabase';
+import { canPlayRecording } from './audio-format';
+import { isApprovedForPlayback } from './moderation';
+import { isQuarantined } from './playback-watchdog';
+import type { Recording } from './types';
+
+const SERVICE_WORKER_URL = '/media-sw.js';
+// 再生画面を対象にする
+// スコープは前方一致のため管理画面（/playlists）も対象になるが、Service Workerは再生画面以外からのリクエストをそのままネットワークに送る
+const SERVICE_WORKER_SCOPE = '/play';
+// オフラインでも再生画面を開けるようにキャッシュするスクリプト・スタイル
+const STATIC_PATH_PREFIX = '/_next/static/';
+
+// Service Workerとやり取りするメッセージの種類（public/media-sw.jsと揃える）
+const SYNC_MESSAGE_TYPE = 'media-cache-sync';
+const STATUS_REQUEST_MESSAGE_TYPE = 'media-cache-status-request';
+const STATUS_MESSAGE_TYPE = 'media-cache-status';
+
+// キャッシュの状況
+export interface MediaCacheStatus {
+  // キャッシュする録音の件数
+  total: number;
+  // キャッシュ済みの録音の件数
+  cached: number;
+  // 直前の同期で取得に失敗した録音の件数
+  failed: number;
+  // 録音を取得中か
+  isSyncing: boolean;
+  updatedAt: string;
+}
+
+/**
+ * オフラインキャッシュを使用できるか
+ * 開発環境ではビルドのたびにスクリプトが変わるため、本番環境のみで使用する
+ */
+export function isMediaCacheSupported(): boolean {
+  return (
+    process.env.NODE_ENV === 'production' &&
+    typeof navigator !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    typeof caches !== 'undefined'
+  );
+}
+
+/**
+ * Service Workerを登録し、有効になるまで待つ
+ * ブラウザの容量不足で録音のキャッシュが削除されないよう、永続的な保存も要求する
+ */
+export async function registerMediaCacheWorker(): Promise<ServiceWorker | null> {
+  if (!isMediaCacheSupported()) return null;
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: SERVICE_WORKER_SCOPE });
+  const registration = await navigator.serviceWorker.ready;
+
+  if (navigator.storage?.persist) {
+    navigator.storage.persist().catch((err) => {
+      console.error('永続的な保存の要求に失敗:', err);
+    });
+  }
+
+  return registration.active;
+}
+
+/**
+ * キャッシュする録音の一覧をService Workerに送る（一覧にない録音はキャッシュから削除される）
+ * 再生画面が読み込んだスクリプト・スタイルの一覧も送り、古いビルドのものをキャッシュから削除させる
+ * @param urls 録音のURL
+ */
+export async function syncMediaCache(urls: string[]): Promise<void> {
+  const worker = await registerMediaCacheWorker();
+  worker?.postMessage({ type: SYNC_MESSAGE_TYPE, urls, shellUrls: getShellAssetUrls() });
+}
+
+/**
+ * 再生画面が読み込んだスクリプト・スタイルのURLを返す
+ * 後から読み込まれたスクリプトも含めるため、要素と読み込みの記録（Resource Timing）の両方から集める
+ */
+function getShellAssetUrls(): string[] {
+  const elementUrls = Array.from(
+    document.querySelectorAll<HTMLScriptElement | HTMLLinkElement>('script[src], link[href]')
+  ).map((element) => ('src' in element ? element.src : element.href));
+  const resourceUrls = performance.getEntriesByType('resource').map((entry) => entry.name);
+
+  return Array.from(
+    new Set(
+      [...elementUrls, ...resourceUrls].filter((url) => {
+        const parsed = new URL(url, location.origin);
+        return parsed.origin === location.origin && parsed.pathname.startsWith(STATIC_PATH_PREFIX);
+      })
+    )
+  );
+}
+
+/**
+ * キャッシュの状況をService Workerに問い合わせる（結果はsubscribeMediaCacheStatusで受け取る）
+ */
+export async function requestMediaCacheStatus(): Promise<void> {
+  const worker = await registerMediaCacheWorker();
+  worker?.postMessage({ type: STATUS_REQUEST_MESSAGE_TYPE });
+}
+
+/**
+ * Service Workerからのキャッシュの状況の通知を受け取る
+ * @param onStatus 通知を受け取ったときの処理
+ * @returns 受け取りをやめる関数
+ */
+export function subscribeMediaCacheStatus(onStatus: (status: MediaCacheStatus) => void): () => void {
+  if (!isMediaCacheSupported()) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    const data = event.data as ({ type?: string } & MediaCacheStatus) | null;
+    if (data?.type !== STATUS_MESSAGE_TYPE) return;
+    onStatus({
+      total: data.total,
+      cached: data.cached,
+      failed: data.failed,
+      isSyncing: data.isSyncing,
+      updatedAt: data.updatedAt,
+    });
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => {
+    navigator.serviceWorker.removeEventListener('message', handleMessage);
+  };
+}
+
+/**
+ * キャッシュする録音のURLを返す（ループ再生で再生される録音のみ）
+ * @param recordings 録音一覧
+ */
+export function getCacheableRecordingUrls(
+  recordings: Pick<Recording, 'file_path' | 'mime_type' | 'moderation_status' | 'quarantined_at'>[]
+): string[] {
+  return Array.from(
+    new Set(
+      recordings
+        .filter((recording) => isApprovedForPlayback(recording) && !isQuarantined(recording) && canPlayRecording(recording))
+        .map((recording) => getRecordingUrl(recording.file_path))
+    )
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * 録音の審査（モデレーション）
+ * 来場者の録音は審査待ちで登録され、管理者が承認した録音だけをループ再生します
+ * 自動承認のプレイリストに追加された録音は、データベースのトリガーで承認されます
+ */
+
+import type { ModerationStatus, Recording } from './types';
+
+// 審査の状態の表示名
+export const MODERATION_STATUS_LABELS: Record<ModerationStatus, string> = {
+  pending: '審査待ち',
+  approved: '承認',
+  rejected: '却下',
+};
+
+/**
+ * 録音の審査の状態を取得する
+ * カラムはNOT NULLのため、未設定の場合は取得処理の不具合とみなし、審査待ちとして扱う（審査されていない録音を再生しないため）
+ */
+export function getModerationStatus(recording: Pick<Recording, 'moderation_status'>): ModerationStatus {
+  return recording.moderation_status ?? 'pending';
+}
+
+/**
+ * 録音を再生してよいか（承認済みか）
+ */
+export function isApprovedForPlayback(recording: Pick<Recording, 'moderation_status'>): boolean {
+  return getModerationStatus(recording) === 'approved';
+}
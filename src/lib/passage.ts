@@ -0,0 +1,193 @@
+/**
+ * 課題文と文字起こしの比較ユーティリティ
+ * 文字誤り率（CER: Character Error Rate）を計算し、録音が課題文どおりに読まれているかを判定します
+ * 日本語は単語の区切りがないため、単語誤り率ではなく文字単位で比較します
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// 一致率がこの値を下回る録音は「課題文と異なる」とみなす
+export const LOW_ACCURACY_THRESHOLD = 0.5;
+
+// 差分の種類（equal: 一致、missing: 課題文にあるが読まれていない、extra: 課題文にない）
+export type PassageDiffType = 'equal' | 'missing' | 'extra';
+
+export interface PassageDiffPart {
+  type: PassageDiffType;
+  text: string;
+}
+
+/**
+ * 比較用にテキストを正規化する
+ * 全角・半角の違い、大文字・小文字、空白、句読点・記号は誤りとして数えない
+ * @returns 正規化した文字の配列（サロゲートペアを1文字として扱う）
+ */
+export function normalizeForComparison(text: string): string[] {
+  return Array.from(
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[\s\p{P}\p{S}]/gu, '')
+  );
+}
+
+/**
+ * 編集距離の表を作成する（差分の復元に使用）
+ */
+function buildDistanceTable(reference: string[], hypothesis: string[]): Uint32Array[] {
+  const table = Array.from({ length: reference.length + 1 }, () =>
+    new Uint32Array(hypothesis.length + 1)
+  );
+
+  for (let i = 0; i <= reference.length; i++) table[i][0] = i;
+  for (let j = 0; j <= hypothesis.length; j++) table[0][j] = j;
+
+  for (let i = 1; i <= reference.length; i++) {
+    for (let j = 1; j <= hypothesis.length; j++) {
+      const cost = reference[i - 1] === hypothesis[j - 1] ? 0 : 1;
+      table[i][j] = Math.min(
+        table[i - 1][j] + 1, // 脱落
+        table[i][j - 1] + 1, // 挿入
+        table[i - 1][j - 1] + cost // 置換・一致
+      );
+    }
+  }
+
+  return table;
+}
+
+/**
+ * 文字誤り率（CER）を計算する
+ * CER = (置換 + 脱落 + 挿入) / 課題文の文字数
+ * 課題文にない内容を多く話した場合は1.0を超えることがある
+ * @param reference 課題文
+ * @param hypothesis 文字起こし
+ * @returns 文字誤り率（0.0が完全一致）
+ */
+export function calculateCharacterErrorRate(reference: string, hypothesis: string): number {
+  const ref = normalizeForComparison(reference);
+  const hyp = normalizeForComparison(hypothesis);
+
+  if (ref.length === 0) {
+    return hyp.length === 0 ? 0 : 1;
+  }
+
+  // 距離だけなら2行分のメモリで計算できる
+  let previous = new Uint32Array(hyp.length + 1).map((_, j) => j);
+  let current = new Uint32Array(hyp.length + 1);
+
+  for (let i = 1; i <= ref.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= hyp.length; j++) {
+      const cost = ref[i - 1] === hyp[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[hyp.length] / ref.length;
+}
+
+/**
+ * 文字誤り率を一致率（0.0〜1.0、1.0が完全一致）に変換する
+ */
+export function toAccuracy(cer: number): number {
+  return Math.max(0, 1 - cer);
+}
+
+/**
+ * 課題文と文字起こしの差分を作成する（正規化後の文字で比較）
+ */
+export function diffPassage(reference: string, hypothesis: string): PassageDiffPart[] {
+  const ref = normalizeForComparison(reference);
+  const hyp = normalizeForComparison(hypothesis);
+  const table = buildDistanceTable(ref, hyp);
+
+  // 表を末尾から辿って操作を復元する
+  const operations: { type: PassageDiffType; char: string }[] = [];
+  let i = ref.length;
+  let j = hyp.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && ref[i - 1] === hyp[j - 1] && table[i][j] === table[i - 1][j - 1]) {
+      operations.push({ type: 'equal', char: ref[i - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && j > 0 && table[i][j] === table[i - 1][j - 1] + 1) {
+      // 置換は「読まれなかった文字」と「代わりに読まれた文字」として表示する
+      operations.push({ type: 'extra', char: hyp[j - 1] });
+      operations.push({ type: 'missing', char: ref[i - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && table[i][j] === table[i - 1][j] + 1) {
+      operations.push({ type: 'missing', char: ref[i - 1] });
+      i--;
+    } else {
+      operations.push({ type: 'extra', char: hyp[j - 1] });
+      j--;
+    }
+  }
+
+  // 同じ種類の連続する文字をまとめる
+  const parts: PassageDiffPart[] = [];
+  for (const operation of operations.reverse()) {
+    const last = parts[parts.length - 1];
+    if (last && last.type === operation.type) {
+      last.text += operation.char;
+    } else {
+      parts.push({ type: operation.type, text: operation.char });
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * 録音の文字起こしと課題文を比較し、文字誤り率を保存する
+ * 課題文が紐付いていない録音は何もしない
+ * サーバー側（Service Role）とクライアント側（認証済みユーザー）の両方から使用する
+ * @param supabase Supabaseクライアント
+ * @param recordingId 録音ID
+ * @param transcription 文字起こしテキスト
+ * @returns 文字誤り率（課題文がない場合はnull）
+ */
+export async function refreshPassageScore(
+  supabase: SupabaseClient,
+  recordingId: string,
+  transcription: string
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('recordings')
+    .select('passage_id, passages (body)')
+    .eq('id', recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`課題文の取得に失敗しました: ${error.message}`);
+  }
+
+  type RecordingWithPassage = {
+    passage_id: string | null;
+    passages: { body: string } | { body: string }[] | null;
+  };
+
+  // Supabaseは外部キーのリレーションを配列として返すが、実際は単一オブジェクト
+  const passages = (data as unknown as RecordingWithPassage | null)?.passages;
+  const passage = Array.isArray(passages) ? passages[0] : passages;
+  if (!passage) {
+    return null;
+  }
+
+  const cer = calculateCharacterErrorRate(passage.body, transcription);
+
+  const { error: updateError } = await supabase
+    .from('recordings')
+    .update({ passage_cer: cer } as never)
+    .eq('id', recordingId);
+
+  if (updateError) {
+    throw new Error(`一致率の保存に失敗しました: ${updateError.message}`);
+  }
+
+  return cer;
+}
@@ -0,0 +1,150 @@
+/**
+ * 再生に必要なデータの取得処理
+ * 管理画面（ブラウザのSupabaseクライアント）と再生端末用のAPIルート（Service Role Key）で共通して使用します
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OpeningHours, Playlist, PlaylistSchedule, Recording } from './types';
+
+// プレイリスト内の録音（プレイリスト内の順序を含む）
+export type PlaylistRecordingEntry = Recording & { order_index: number; playlist_recording_id: string };
+
+// 再生スケジュールの判定に必要なデータ
+export interface PlaybackScheduleData {
+  playlists: Playlist[];
+  schedules: PlaylistSchedule[];
+  openingHours: OpeningHours[];
+}
+
+/**
+ * プレイリストの録音を順序付きで取得する
+ * @param supabase Supabaseクライアント
+ * @param playlistId プレイリストID
+ * @returns 録音のリスト（order_indexの順）
+ */
+export async function fetchPlaylistRecordings(
+  supabase: SupabaseClient,
+  playlistId: string
+): Promise<PlaylistRecordingEntry[]> {
+  const { data, error } = await supabase
+    .from('playlist_recordings')
+    .select(`
+      id,
+      order_index,
+      recordings (
+        id,
+        file_path,
+        duration,
+        transcription,
+        transcription_segments,
+        passage_id,
+        passage_cer,
+        lufs,
+        peak_level,
+        rms_level,
+        analysis_status,
+        transcription_status,
+        waveform_status,
+        waveform,
+        processing_error,
+        processing_updated_at,
+        trim_start,
+        trim_end,
+        trim_adjusted,
+        mime_type,
+        moderation_status,
+        moderated_at,
+        content_flags,
+        play_count,
+        last_played_at,
+        playback_failure_count,
+        last_playback_error,
+        quarantined_at,
+        created_at
+      )
+    `)
+    .eq('playlist_id', playlistId)
+    .order('order_index', { ascending: true });
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  // データの形式を整形
+  const result: PlaylistRecordingEntry[] = [];
+
+  type PlaylistRecordingWithRecording = {
+    id: string;
+    order_index: number;
+    recordings: Recording | Recording[] | null;
+  };
+
+  for (const item of (data as unknown as PlaylistRecordingWithRecording[]) || []) {
+    // Supabaseは外部キーのリレーションを配列として返すが、実際は単一オブジェクト
+    const recording = Array.isArray(item.recordings) ? item.recordings[0] : item.recordings;
+    if (recording) {
+      result.push({
+        id: recording.id,
+        file_path: recording.file_path,
+        duration: recording.duration,
+        transcription: recording.transcription,
+        transcription_segments: recording.transcription_segments,
+        passage_id: recording.passage_id,
+        passage_cer: recording.passage_cer,
+        lufs: recording.lufs,
+        peak_level: recording.peak_level,
+        rms_level: recording.rms_level,
+        analysis_status: recording.analysis_status,
+        transcription_status: recording.transcription_status,
+        waveform_status: recording.waveform_status,
+        waveform: recording.waveform,
+        processing_error: recording.processing_error,
+        processing_updated_at: recording.processing_updated_at,
+        trim_start: recording.trim_start,
+        trim_end: recording.trim_end,
+        trim_adjusted: recording.trim_adjusted,
+        mime_type: recording.mime_type,
+        moderation_status: recording.moderation_status,
+        moderated_at: recording.moderated_at,
+        content_flags: recording.content_flags,
+        play_count: recording.play_count,
+        last_played_at: recording.last_played_at,
+        playback_failure_count: recording.playback_failure_count,
+        last_playback_error: recording.last_playback_error,
+        quarantined_at: recording.quarantined_at,
+        created_at: recording.created_at,
+        order_index: item.order_index,
+        playlist_recording_id: item.id,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 再生スケジュール・開館時間と、スケジュールで参照するプレイリストを取得する
+ * @param supabase Supabaseクライアント
+ */
+export async function fetchPlaybackSchedule(supabase: SupabaseClient): Promise<PlaybackScheduleData> {
+  const [playlistsResult, schedulesResult, hoursResult] = await Promise.all([
+    supabase.from('playlists').select('*').order('created_at', { ascending: false }),
+    supabase
+      .from('playlist_schedules')
+      .select('*')
+      .order('day_of_week', { ascending: true })
+      .order('start_time', { ascending: true }),
+    supabase.from('opening_hours').select('*').order('day_of_week', { ascending: true }),
+  ]);
+
+  const error = playlistsResult.error || schedulesResult.error || hoursResult.error;
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return {
+    playlists: (playlistsResult.data as Playlist[]) || [],
+    schedules: (schedulesResult.data as PlaylistSchedule[]) || [],
+    openingHours: (hoursResult.data as OpeningHours[]) || [],
+  };
+}
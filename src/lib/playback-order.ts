@@ -0,0 +1,138 @@
+/**
+ * プレイリストの再生順序
+ * 再生順序はプレイリストが一周するたびに作り直します（再生中の周回の順序は変えない）
+ * - manual: 録音一覧で並べた順
+ * - shuffle: 周回ごとにシャッフル（前の周回の終わりに再生した録音は、次の周回の始めに再生しない）
+ * - newest: 新しい録音から順に再生
+ * - weighted: 新しい録音・再生回数の少ない録音ほど前に来やすいようにシャッフル
+ */
+
+import type { PlaybackOrderMode, Playlist, Recording } from './types';
+
+export const DEFAULT_PLAYBACK_ORDER: PlaybackOrderMode = 'manual';
+
+// 再生順序の表示名
+export const PLAYBACK_ORDER_LABELS: Record<PlaybackOrderMode, string> = {
+  manual: '録音一覧の順',
+  shuffle: 'シャッフル',
+  newest: '新しい順',
+  weighted: 'おすすめ順（新しい録音・再生回数の少ない録音を優先）',
+};
+
+// weightedで新しい録音を優先する度合いが半分になるまでの日数
+const RECENCY_HALF_LIFE_DAYS = 3;
+// weightedで最も新しい録音の重みの倍率（古い録音の重みを1とする）
+const RECENCY_BOOST = 2;
+
+/**
+ * プレイリストの再生順序を取得する（未設定の場合は録音一覧の順）
+ */
+export function getPlaybackOrderMode(playlist?: Pick<Playlist, 'playback_order'> | null): PlaybackOrderMode {
+  return playlist?.playback_order ?? DEFAULT_PLAYBACK_ORDER;
+}
+
+/**
+ * 配列をシャッフルする（Fisher-Yates、元の配列は変更しない）
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * weightedでの録音の重み（新しいほど、他の録音より再生回数が少ないほど大きい）
+ */
+function getWeight(recording: Recording, minPlayCount: number, now: number): number {
+  const ageDays = Math.max(0, now - new Date(recording.created_at).getTime()) / (24 * 60 * 60 * 1000);
+  const recency = 1 + RECENCY_BOOST * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+  const extraPlays = Math.max(0, (recording.play_count ?? 0) - minPlayCount);
+  return recency / (1 + extraPlays);
+}
+
+/**
+ * 重み付きのシャッフル（重みが大きい要素ほど前に来やすい）
+ * 各要素に random^(1/weight) のキーを付けて降順に並べる（Efraimidis-Spirakisの方法）
+ */
+function weightedShuffle(indexes: number[], weights: number[], random: () => number): number[] {
+  return indexes
+    .map((index) => ({ index, key: random() ** (1 / weights[index]) }))
+    .sort((a, b) => b.key - a.key)
+    .map(({ index }) => index);
+}
+
+/**
+ * 録音の再生順序（録音のインデックスの配列）を作成する
+ * @param recordings 再生する録音
+ * @param mode 再生順序
+ * @param recentIds 前の周回の終わりに再生した録音のID（シャッフル系の順序で、次の周回の始めに再生しない）
+ * @param random 0以上1未満の乱数を返す関数
+ */
+export function createPlaybackOrder(
+  recordings: Recording[],
+  mode: PlaybackOrderMode,
+  recentIds: string[] = [],
+  random: () => number = Math.random
+): number[] {
+  const indexes = recordings.map((_, index) => index);
+
+  switch (mode) {
+    case 'manual':
+      return indexes;
+    case 'newest':
+      return [...indexes].sort((a, b) => recordings[b].created_at.localeCompare(recordings[a].created_at));
+    case 'shuffle':
+    case 'weighted': {
+      const order = (items: number[]) => {
+        if (mode === 'shuffle') return shuffle(items, random);
+        const minPlayCount = Math.min(...recordings.map((recording) => recording.play_count ?? 0));
+        const now = Date.now();
+        const weights = recordings.map((recording) => getWeight(recording, minPlayCount, now));
+        return weightedShuffle(items, weights, random);
+      };
+
+      // 前の周回の終わりに再生した録音は、次の周回の始め（録音数の半分まで）には再生しない
+      const recent = new Set(recentIds);
+      const fresh = order(indexes.filter((index) => !recent.has(recordings[index].id)));
+      const repeated = indexes.filter((index) => recent.has(recordings[index].id));
+      const head = fresh.slice(0, Math.floor(recordings.length / 2));
+      return [...head, ...order([...fresh.slice(head.length), ...repeated])];
+    }
+  }
+}
+
+/**
+ * 周回の終わりに再生した録音のID（次の周回の順序を作るときに、始めに再生しないようにする）
+ * @param recordings 前の周回の録音
+ * @param order 前の周回の再生順序
+ */
+export function getRecentlyPlayedIds(recordings: Recording[], order: number[]): string[] {
+  const count = Math.floor(order.length / 2);
+  if (count === 0) return [];
+
+  return order
+    .slice(-count)
+    .map((index) => recordings[index]?.id)
+    .filter((id): id is string => !!id);
+}
+
+/**
+ * 録音の一覧が変わったときに、再生中の周回の再生順序を録音IDで引き継ぐ
+ * 削除された録音は除き、追加された録音は周回の最後に一覧の順で加える
+ * @param previous 変更前の録音
+ * @param next 変更後の録音
+ * @param order 変更前の録音に対する再生順序
+ */
+export function remapPlaybackOrder(previous: Recording[], next: Recording[], order: number[]): number[] {
+  const nextIndexById = new Map(next.map((recording, index) => [recording.id, index]));
+  const remapped = order
+    .map((index) => nextIndexById.get(previous[index]?.id ?? ''))
+    .filter((index): index is number => index !== undefined);
+
+  const included = new Set(remapped);
+  const added = next.map((_, index) => index).filter((index) => !included.has(index));
+  return [...remapped, ...added];
+}
@@ -0,0 +1,121 @@
+/**
+ * 曲間（トラックの切り替え）の音量制御ユーティリティ
+ * usePlayerのGainNodeに対して、フェードイン・フェードアウト・等パワークロスフェードを予約します
+ */
+
+import type { Playlist, PlaylistTransitionSettings } from './types';
+
+export const DEFAULT_TRANSITION_SETTINGS: PlaylistTransitionSettings = {
+  transition_gap: 0,
+  crossfade_duration: 0,
+  fade_in_duration: 0,
+  fade_out_duration: 0,
+};
+
+// 等パワーカーブの分割数
+const EQUAL_POWER_CURVE_STEPS = 64;
+
+/**
+ * プレイリストから曲間の設定を取り出す（未設定の項目は0）
+ */
+export function toTransitionSettings(playlist: Playlist | null | undefined): PlaylistTransitionSettings {
+  return {
+    transition_gap: playlist?.transition_gap ?? 0,
+    crossfade_duration: playlist?.crossfade_duration ?? 0,
+    fade_in_duration: playlist?.fade_in_duration ?? 0,
+    fade_out_duration: playlist?.fade_out_duration ?? 0,
+  };
+}
+
+/**
+ * フェードやクロスフェードを使用するか（使用する場合は全トラックをWeb Audio API経由で再生する）
+ */
+export function hasFadeEffects(settings: PlaylistTransitionSettings): boolean {
+  return (
+    settings.crossfade_duration > 0 ||
+    settings.fade_in_duration > 0 ||
+    settings.fade_out_duration > 0
+  );
+}
+
+/**
+ * トラックの長さに応じたクロスフェードの長さを返す
+ * 短い録音でクロスフェードが重なり合わないよう、録音の長さの半分までに制限する
+ */
+export function getEffectiveCrossfade(settings: PlaylistTransitionSettings, trackDuration: number): number {
+  if (settings.crossfade_duration <= 0 || !Number.isFinite(trackDuration)) {
+    return 0;
+  }
+  return Math.min(settings.crossfade_duration, trackDuration / 2);
+}
+
+/**
+ * 等パワーのフェードカーブを作成する
+ * フェードイン（sin）とフェードアウト（cos）の二乗和が常に1になるため、クロスフェード中も音量感が一定に保たれる
+ */
+function createEqualPowerCurve(direction: 'in' | 'out', from: number): Float32Array {
+  const curve = new Float32Array(EQUAL_POWER_CURVE_STEPS);
+  for (let i = 0; i < EQUAL_POWER_CURVE_STEPS; i++) {
+    const t = i / (EQUAL_POWER_CURVE_STEPS - 1);
+    const value = direction === 'in' ? Math.sin((t * Math.PI) / 2) : Math.cos((t * Math.PI) / 2);
+    // フェードアウトは現在の音量から開始する（フェードアウト中にクロスフェードが始まった場合）
+    curve[i] = direction === 'in' ? value : value * from;
+  }
+  return curve;
+}
+
+/**
+ * 予約済みの変化を取り消し、現在の値で固定する
+ */
+function holdCurrentValue(param: AudioParam, time: number): number {
+  const current = param.value;
+  param.cancelScheduledValues(time);
+  param.setValueAtTime(current, time);
+  return current;
+}
+
+/**
+ * 音量を即座に設定する（予約済みのフェードは取り消す）
+ */
+export function setFadeGain(param: AudioParam, context: BaseAudioContext, value: number): void {
+  param.cancelScheduledValues(context.currentTime);
+  param.setValueAtTime(value, context.currentTime);
+}
+
+/**
+ * 現在の音量から指定した音量まで直線的にフェードする
+ */
+export function scheduleLinearFade(
+  param: AudioParam,
+  context: BaseAudioContext,
+  to: number,
+  duration: number
+): void {
+  const now = context.currentTime;
+  holdCurrentValue(param, now);
+  if (duration <= 0) {
+    param.setValueAtTime(to, now);
+    return;
+  }
+  param.linearRampToValueAtTime(to, now + duration);
+}
+
+/**
+ * 等パワーカーブでフェードする（クロスフェード用）
+ */
+export function scheduleEqualPowerFade(
+  param: AudioParam,
+  context: BaseAudioContext,
+  direction: 'in' | 'out',
+  duration: number
+): void {
+  const now = context.currentTime;
+  const from = param.value;
+  // カーブの開始時刻に他の変化があると例外になるため、setValueAtTimeは使わずに取り消すだけにする
+  param.cancelScheduledValues(now);
+  if (duration <= 0) {
+    param.setValueAtTime(direction === 'in' ? 1 : 0, now);
+    return;
+  }
+  param.setValueCurveAtTime(createEqualPowerCurve(direction, from), now, duration);
+}
@@ -0,0 +1,143 @@
+/**
+ * 無人運用のための再生の自動復旧（ウォッチドッグ）
+ * 再生の停止を検出すると、軽い手順から順に 再試行 → スキップ → 音声の再作成 → プレイリストの再取得 → ページの再読み込み を試します
+ * 再生に繰り返し失敗する録音は隔離し、管理者が解除するまでループ再生から外します
+ */
+
+import type { Recording } from './types';
+
+// 復旧の手順（軽いものから順に試す）
+export type RecoveryStep = 'retry' | 'skip' | 'reset_audio' | 'refetch' | 'reload';
+
+export const RECOVERY_STEPS: RecoveryStep[] = ['retry', 'skip', 'reset_audio', 'refetch', 'reload'];
+
+export const RECOVERY_STEP_LABELS: Record<RecoveryStep, string> = {
+  retry: '再試行',
+  skip: 'スキップ',
+  reset_audio: '音声の再作成',
+  refetch: 'プレイリストの再取得',
+  reload: 'ページの再読み込み',
+};
+
+// 復旧の記録（画面とハートビートで表示する）
+export interface RecoveryLogEntry {
+  at: string;
+  // 試した手順（recovered: 再生が回復した、quarantine: 録音を隔離した）
+  type: RecoveryStep | 'recovered' | 'quarantine';
+  message: string;
+}
+
+// 各手順の後、再生が回復したか確認するまでの時間
+export const RECOVERY_CHECK_DELAY = 8000;
+// 再生がこの時間続いたら復旧できたとみなし、次の停止では最初の手順から試す
+export const RECOVERY_STABLE_DURATION = 60 * 1000;
+// 再生中なのに再生位置がこの時間進まない場合は停止とみなす（読み込みが止まった場合など）
+export const PROGRESS_STALL_TIMEOUT = 10000;
+// 再生エラーでこの回数まで続けてスキップし、それ以上は自動復旧に任せる（すべての録音が失敗する場合に空回りしない）
+export const MAX_CONSECUTIVE_SKIPS = 3;
+// 再生の失敗がこの回数に達した録音を隔離する（前回の失敗から24時間以上経った失敗は1回目から数え直す）
+export const QUARANTINE_FAILURE_THRESHOLD = 3;
+// 自動での再読み込みの回数の上限（再読み込みを繰り返さないようにする）
+const RELOAD_LIMIT = 3;
+const RELOAD_WINDOW = 30 * 60 * 1000;
+// 復旧の記録の最大件数
+export const RECOVERY_LOG_LIMIT = 20;
+
+// 再読み込みの履歴と、再読み込み後に再生を再開するかをタブごとに保存するsessionStorageのキー
+const RELOAD_HISTORY_STORAGE_KEY = 'monoshaka:watchdog-reloads';
+const RESUME_STORAGE_KEY = 'monoshaka:watchdog-resume';
+
+/**
+ * 録音が隔離されているか
+ */
+export function isQuarantined(recording: Pick<Recording, 'quarantined_at'>): boolean {
+  return !!recording.quarantined_at;
+}
+
+/**
+ * 再生エラーが録音自体の問題によるものか（隔離の対象にするか）
+ * 通信の切断やブラウザの自動再生の制限など、録音に関係なく起きるエラーは含めない
+ * @param err play()のエラー、またはAudio要素のMediaError
+ */
+export function isRecordingSpecificError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return false;
+  }
+  if (typeof MediaError !== 'undefined' && err instanceof MediaError) {
+    return err.code === MediaError.MEDIA_ERR_DECODE || err.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED;
+  }
+  return err instanceof DOMException && err.name === 'NotSupportedError';
+}
+
+/**
+ * ブラウザの自動再生の制限で再生が拒否されたか
+ */
+export function isAutoplayBlockedError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'NotAllowedError';
+}
+
+function loadReloadHistory(): number[] {
+  try {
+    const saved = window.sessionStorage.getItem(RELOAD_HISTORY_STORAGE_KEY);
+    const history = saved ? (JSON.parse(saved) as unknown) : [];
+    return Array.isArray(history) ? history.filter((at): at is number => typeof at === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 自動で再読み込みしてよいか（直近の再読み込みの回数が上限未満か）
+ * @param now 現在時刻（ミリ秒）
+ */
+export function canWatchdogReload(now = Date.now()): boolean {
+  return loadReloadHistory().filter((at) => now - at < RELOAD_WINDOW).length < RELOAD_LIMIT;
+}
+
+/**
+ * 自動で再読み込みすることを記録し、再読み込み後に再生を再開するよう予約する
+ * @param now 現在時刻（ミリ秒）
+ */
+export function markWatchdogReload(now = Date.now()): void {
+  try {
+    const history = loadReloadHistory().filter((at) => now - at < RELOAD_WINDOW);
+    window.sessionStorage.setItem(RELOAD_HISTORY_STORAGE_KEY, JSON.stringify([...history, now]));
+    window.sessionStorage.setItem(RESUME_STORAGE_KEY, '1');
+  } catch (err) {
+    console.error('再読み込みの記録に失敗:', err);
+  }
+}
+
+/**
+ * 自動での再読み込みの後か（再生を再開する予約を取り出す）
+ */
+export function consumeWatchdogResume(): boolean {
+  try {
+    const shouldResume = window.sessionStorage.getItem(RESUME_STORAGE_KEY) === '1';
+    window.sessionStorage.removeItem(RESUME_STORAGE_KEY);
+    return shouldResume;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 再生順序の中で、指定した位置の次に再生する（隔離されていない）位置を探す
+ * @param order 再生順序（録音一覧のインデックスの配列）
+ * @param recordings 録音一覧
+ * @param position 現在の位置
+ * @param quarantinedIds 再生中に隔離した録音のID
+ * @returns 次の位置（周回の最後まで見つからない場合はorderの長さ）
+ */
+export function findNextPlayablePosition(
+  order: number[],
+  recordings: Pick<Recording, 'id'>[],
+  position: number,
+  quarantinedIds: Set<string>
+): number {
+  let next = position + 1;
+  while (next < order.length && quarantinedIds.has(recordings[order[next]]?.id ?? '')) {
+    next += 1;
+  }
+  return next;
+}
@@ -0,0 +1,102 @@
+/**
+ * 再生端末の稼働状況（ハートビート）
+ * 再生画面は一定間隔で再生状態を報告し、管理画面はしきい値に従って応答のない端末や停止した端末を検出します
+ * 判定（evaluatePlayerHealth）はデータベースに依存しないため、画面の表示と同じ条件で使えます
+ */
+
+import type { PlayerHealthSettings, PlayerStatus } from './types';
+
+// ハートビートを送信する間隔
+export const PLAYER_HEARTBEAT_INTERVAL = 15 * 1000;
+
+// しきい値を設定していない場合の初期値（マイグレーションの初期値と同じ）
+export const DEFAULT_PLAYER_HEALTH_SETTINGS: Omit<PlayerHealthSettings, 'id' | 'updated_at'> = {
+  stale_after_seconds: 60,
+  stall_alert_seconds: 10,
+  error_alert_count: 5,
+  recent_stall_minutes: 30,
+};
+
+// ok: 正常、warning: 注意、stalled: 停止中、stale: 応答なし（ハートビートが途絶えた）
+export type PlayerHealthLevel = 'ok' | 'warning' | 'stalled' | 'stale';
+
+export const PLAYER_HEALTH_LEVEL_LABELS: Record<PlayerHealthLevel, string> = {
+  ok: '正常',
+  warning: '注意',
+  stalled: '停止中',
+  stale: '応答なし',
+};
+
+export interface PlayerHealth {
+  level: PlayerHealthLevel;
+  // 判定の理由（表示用）
+  issues: string[];
+}
+
+/**
+ * 再生端末の稼働状況を判定する
+ * 深刻なものから 応答なし → 停止中 → 注意 → 正常 の順に判定し、注意の理由はすべて返す
+ * @param status 端末の最新のハートビート
+ * @param settings アラートのしきい値
+ * @param now 現在時刻（ミリ秒）
+ */
+export function evaluatePlayerHealth(
+  status: Pick<
+    PlayerStatus,
+    | 'reported_at'
+    | 'is_playing'
+    | 'needs_user_interaction'
+    | 'is_open'
+    | 'is_stalled'
+    | 'audio_context_state'
+    | 'error_count'
+    | 'last_stall_at'
+  >,
+  settings: Omit<PlayerHealthSettings, 'id' | 'updated_at'>,
+  now = Date.now()
+): PlayerHealth {
+  const silentSeconds = (now - new Date(status.reported_at).getTime()) / 1000;
+  if (silentSeconds >= settings.stale_after_seconds) {
+    return { level: 'stale', issues: [`最後のハートビートから${formatDuration(silentSeconds)}経過しています`] };
+  }
+
+  const lastStallAt = status.last_stall_at ? new Date(status.last_stall_at).getTime() : null;
+
+  if (status.is_stalled && lastStallAt !== null) {
+    const stalledSeconds = (now - lastStallAt) / 1000;
+    if (stalledSeconds >= settings.stall_alert_seconds) {
+      return { level: 'stalled', issues: [`再生が止まってから${formatDuration(stalledSeconds)}経過しています`] };
+    }
+  }
+
+  const issues: string[] = [];
+  if (status.is_open && status.needs_user_interaction) {
+    issues.push('再生が開始されていません（端末の画面でクリックが必要です）');
+  }
+  if (status.is_playing && status.audio_context_state && status.audio_context_state !== 'running') {
+    issues.push(`AudioContextが${status.audio_context_state}です（音が出ていない可能性があります）`);
+  }
+  if (settings.error_alert_count > 0 && status.error_count >= settings.error_alert_count) {
+    issues.push(`再生エラーが${status.error_count}回発生しています`);
+  }
+  if (
+    settings.recent_stall_minutes > 0 &&
+    lastStallAt !== null &&
+    now - lastStallAt < settings.recent_stall_minutes * 60 * 1000
+  ) {
+    issues.push(`${formatDuration((now - lastStallAt) / 1000)}前に再生が止まりました`);
+  }
+
+  return { level: issues.length > 0 ? 'warning' : 'ok', issues };
+}
+
+/**
+ * 経過時間を表示用の文字列にする（例: 45秒、3分、2時間）
+ * @param seconds 秒数
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(0, Math.floor(seconds))}秒`;
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}分`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)}時間`;
+  return `${Math.floor(seconds / 86400)}日`;
+}
@@ -0,0 +1,214 @@
+/**
+ * 録音の後処理パイプライン（サーバー側）
+ * アップロード後の録音に対して、音量解析 → 波形生成 → 文字起こしを順番に実行し、
+ * 各ステップのステータス（pending/running/done/failed）を録音レコードに保存します
+ * サーバー側（APIルート）でのみ使用すること
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decodeAudioFile, type DecodedAudio } from './audio-decode';
+import { computeWaveformSummary, toVolumeMetadata, type VolumeMetadata } from './audio-analysis';
+import { resolveTranscriptionOptions, transcribeAudio } from './transcription';
+import { PIPELINE_STEPS } from './processing';
+import { refreshPassageScore } from './passage';
+import { refreshContentFlags } from './content-flags';
+import { detectVoiceBoundaries } from './trim';
+import type { ProcessingStatus, ProcessingStep } from './types';
+
+export interface ProcessingTarget {
+  id: string;
+  file_path: string;
+  mime_type?: string | null;
+}
+
+export interface StepResult {
+  step: ProcessingStep;
+  status: ProcessingStatus;
+  error?: string;
+}
+
+/**
+ * Storageから録音ファイルをダウンロードする
+ */
+export async function downloadRecordingFile(
+  supabase: SupabaseClient,
+  filePath: string
+): Promise<Blob> {
+  const { data, error } = await supabase.storage.from('recordings').download(filePath);
+
+  if (error || !data) {
+    throw new Error(`ファイルのダウンロードに失敗しました: ${error?.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * 音量メタデータを録音レコードに保存する（解析ステータスも完了にする）
+ */
+export async function saveVolumeMetadata(
+  supabase: SupabaseClient,
+  recordingId: string,
+  volumeMetadata: VolumeMetadata
+): Promise<void> {
+  const { error } = await supabase
+    .from('recordings')
+    .update({
+      lufs: volumeMetadata.lufs,
+      peak_level: volumeMetadata.peak,
+      rms_level: volumeMetadata.rms,
+      analysis_status: 'done',
+      processing_updated_at: new Date().toISOString(),
+    })
+    .eq('id', recordingId);
+
+  if (error) {
+    throw new Error(`データベースの更新に失敗しました: ${error.message}`);
+  }
+}
+
+/**
+ * PCMデータから音声区間を検出し、再生範囲として録音レコードに保存する
+ * 管理画面で再生範囲を調整した録音は上書きしない
+ */
+export async function saveVoiceBoundaries(
+  supabase: SupabaseClient,
+  recordingId: string,
+  channels: Float32Array[],
+  sampleRate: number
+): Promise<void> {
+  const trim = detectVoiceBoundaries(channels, sampleRate);
+
+  const { error } = await supabase
+    .from('recordings')
+    .update({
+      trim_start: trim?.start ?? null,
+      trim_end: trim?.end ?? null,
+    })
+    .eq('id', recordingId)
+    .eq('trim_adjusted', false);
+
+  if (error) {
+    throw new Error(`データベースの更新に失敗しました: ${error.message}`);
+  }
+}
+
+/**
+ * ステップのステータスを更新する
+ */
+async function updateStepStatus(
+  supabase: SupabaseClient,
+  recordingId: string,
+  step: ProcessingStep,
+  status: ProcessingStatus,
+  errorMessage?: string
+): Promise<void> {
+  const update: Record<string, unknown> = {
+    [`${step}_status`]: status,
+    processing_updated_at: new Date().toISOString(),
+  };
+  if (status === 'failed') {
+    update.processing_error = errorMessage ?? null;
+  }
+
+  const { error } = await supabase.from('recordings').update(update).eq('id', recordingId);
+
+  if (error) {
+    console.error(`ステータス更新エラー (${step}: ${status}):`, error);
+  }
+}
+
+/**
+ * 録音に対して指定されたステップを順番に実行する
+ * 1つのステップが失敗しても、残りのステップは実行を続ける
+ * @param supabase Supabase Admin Client
+ * @param target 処理対象の録音
+ * @param steps 実行するステップ（実行順序はPIPELINE_STEPSに従う）
+ * @returns ステップごとの実行結果
+ */
+export async function runProcessingPipeline(
+  supabase: SupabaseClient,
+  target: ProcessingTarget,
+  steps: ProcessingStep[]
+): Promise<StepResult[]> {
+  const orderedSteps = PIPELINE_STEPS.filter((step) => steps.includes(step));
+  const results: StepResult[] = [];
+
+  // ファイルとデコード結果は複数ステップで共有するため、必要になったときに一度だけ取得する
+  let fileData: Blob | null = null;
+  let decoded: DecodedAudio | null = null;
+
+  const getFile = async () => {
+    if (!fileData) {
+      fileData = await downloadRecordingFile(supabase, target.file_path);
+    }
+    return fileData;
+  };
+
+  const getDecoded = async () => {
+    if (!decoded) {
+      decoded = await decodeAudioFile(await (await getFile()).arrayBuffer(), target.mime_type);
+    }
+    return decoded;
+  };
+
+  for (const step of orderedSteps) {
+    await updateStepStatus(supabase, target.id, step, 'running');
+
+    try {
+      switch (step) {
+        case 'analysis': {
+          const { channels, sampleRate } = await getDecoded();
+          await saveVolumeMetadata(supabase, target.id, toVolumeMetadata(channels, sampleRate));
+          await saveVoiceBoundaries(supabase, target.id, channels, sampleRate);
+          break;
+        }
+        case 'waveform': {
+          const { channels } = await getDecoded();
+          const { error } = await supabase
+            .from('recordings')
+            .update({ waveform: computeWaveformSummary(channels) })
+            .eq('id', target.id);
+          if (error) {
+            throw new Error(`データベースの更新に失敗しました: ${error.message}`);
+          }
+          break;
+        }
+        case 'transcription': {
+          const options = await resolveTranscriptionOptions(supabase, target.id);
+          const { text, segments } = await transcribeAudio(
+            await getFile(),
+            target.file_path,
+            options,
+            target.mime_type
+          );
+          const { error } = await supabase
+            .from('recordings')
+            .update({
+              transcription: text,
+              transcription_segments: segments.length > 0 ? segments : null,
+            })
+            .eq('id', target.id);
+          if (error) {
+            throw new Error(`データベースの更新に失敗しました: ${error.message}`);
+          }
+          // 課題文との一致率を計算
+          await refreshPassageScore(supabase, target.id, text);
+          // ルールで文字起こしを自動チェック（問題があれば審査待ちに戻す）
+          await refreshContentFlags(supabase, target.id, text);
+          break;
+        }
+      }
+
+      await updateStepStatus(supabase, target.id, step, 'done');
+      results.push({ step, status: 'done' });
+    } catch (error) {
+      console.error(`後処理エラー (${step}, ${target.file_path}):`, error);
+      const errorMessage = error instanceof Error ? error.message : '不明なエラー';
+      await updateStepStatus(supabase, target.id, step, 'failed', errorMessage);
+      results.push({ step, status: 'failed', error: errorMessage });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,76 @@
+/**
+ * 録音の後処理パイプラインのクライアント側ユーティリティ
+ * 処理自体はサーバー側（/api/process）で実行されます
+ */
+
+import type { ProcessingStatus, ProcessingStep, Recording } from './types';
+
+// パイプラインの実行順序
+export const PIPELINE_STEPS: ProcessingStep[] = ['analysis', 'waveform', 'transcription'];
+
+// ステップの表示名
+export const PROCESSING_STEP_LABELS: Record<ProcessingStep, string> = {
+  analysis: '音量',
+  waveform: '波形',
+  transcription: '文字起こし',
+};
+
+// pending/runningのまま更新がない場合に停止したとみなすまでの時間（10分）
+const PROCESSING_STALE_MS = 10 * 60 * 1000;
+
+/**
+ * 録音のステップのステータスを取得する
+ */
+export function getStepStatus(recording: Recording, step: ProcessingStep): ProcessingStatus | null {
+  return recording[`${step}_status`] ?? null;
+}
+
+/**
+ * 処理が停止しているか（pending/runningのまま一定時間更新がない）を判定する
+ */
+function isStale(recording: Recording): boolean {
+  const updatedAt = recording.processing_updated_at ?? recording.created_at;
+  return Date.now() - new Date(updatedAt).getTime() > PROCESSING_STALE_MS;
+}
+
+/**
+ * 録音の後処理が進行中かどうかを判定する
+ */
+export function isProcessingActive(recording: Recording): boolean {
+  return PIPELINE_STEPS.some((step) => {
+    const status = getStepStatus(recording, step);
+    return (status === 'pending' || status === 'running') && !isStale(recording);
+  });
+}
+
+/**
+ * 再試行が必要なステップ（失敗したステップ、または停止したステップ）を取得する
+ */
+export function getRetryableSteps(recording: Recording): ProcessingStep[] {
+  return PIPELINE_STEPS.filter((step) => {
+    const status = getStepStatus(recording, step);
+    if (status === 'failed') return true;
+    return (status === 'pending' || status === 'running') && isStale(recording);
+  });
+}
+
+/**
+ * 録音の後処理をサーバーに依頼する
+ * @param recordingId 録音ID
+ * @param steps 実行するステップ（省略時は未完了のステップすべて）
+ */
+export async function requestRecordingProcessing(
+  recordingId: string,
+  steps?: ProcessingStep[]
+): Promise<void> {
+  const response = await fetch('/api/process', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ recordingId, steps }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(error || '後処理に失敗しました');
+  }
+}
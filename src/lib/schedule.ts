@@ -0,0 +1,107 @@
+/**
+ * 再生スケジュールと開館時間の判定ユーティリティ
+ * 時刻はすべて再生端末のローカル時刻として扱います
+ */
+
+import type { OpeningHours, PlaylistSchedule } from './types';
+
+// 曜日の表示名（0=日曜〜6=土曜）
+export const DAY_OF_WEEK_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// 管理画面で表示する曜日の順序（月曜始まり）
+export const WEEK_DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * 時刻の文字列（HH:MM または HH:MM:SS）を0時からの分数に変換する
+ * 不正な値の場合はNaN
+ */
+export function timeToMinutes(time: string): number {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(time);
+  if (!match) {
+    return NaN;
+  }
+  return Number(match[1]) * 60 + Number(match[2]) + Number(match[3] ?? 0) / 60;
+}
+
+/**
+ * 時刻の文字列をHH:MM形式にする（秒は切り捨て）
+ */
+export function formatTime(time: string): string {
+  return time.slice(0, 5);
+}
+
+/**
+ * 日時の0時からの分数
+ */
+function getMinutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+}
+
+/**
+ * 指定した日時に該当する再生スケジュールを返す（該当しない場合はnull）
+ * 時間帯が重なっている場合は、開始時刻の遅い（より新しく始まった）ものを優先する
+ */
+export function findScheduleAt(
+  schedules: PlaylistSchedule[],
+  date: Date
+): PlaylistSchedule | null {
+  const day = date.getDay();
+  const minutes = getMinutesOfDay(date);
+  let found: PlaylistSchedule | null = null;
+
+  for (const schedule of schedules) {
+    if (schedule.day_of_week !== day) continue;
+    const start = timeToMinutes(schedule.start_time);
+    const end = timeToMinutes(schedule.end_time);
+    if (minutes < start || minutes >= end) continue;
+    if (!found || start > timeToMinutes(found.start_time)) {
+      found = schedule;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * 指定した日時が開館時間内か
+ * 開館時間を1件も設定していない場合は常に開館、設定がない曜日は休館日とする
+ */
+export function isWithinOpeningHours(hours: OpeningHours[], date: Date): boolean {
+  if (hours.length === 0) {
+    return true;
+  }
+
+  const today = hours.find((h) => h.day_of_week === date.getDay());
+  if (!today) {
+    return false;
+  }
+
+  const minutes = getMinutesOfDay(date);
+  return minutes >= timeToMinutes(today.open_time) && minutes < timeToMinutes(today.close_time);
+}
+
+/**
+ * 同じ曜日で時間帯が重なる既存のスケジュールを返す（重ならない場合はnull）
+ * @param excludeId 編集中のスケジュールID（自分自身との重なりは無視する）
+ */
+export function findOverlappingSchedule(
+  schedules: PlaylistSchedule[],
+  dayOfWeek: number,
+  startTime: string,
+  endTime: string,
+  excludeId?: string
+): PlaylistSchedule | null {
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+  return (
+    schedules.find(
+      (schedule) =>
+        schedule.id !== excludeId &&
+        schedule.day_of_week === dayOfWeek &&
+        start < timeToMinutes(schedule.end_time) &&
+        timeToMinutes(schedule.start_time) < end
+    ) ?? null
+  );
+}
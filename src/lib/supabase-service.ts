@@ -0,0 +1,32 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * APIルート用のSupabase Admin Clientを作成（Service Role Keyを使用）
+ * RLSをバイパスするため、サーバー側でのみ使用すること
+ *
+ * 本番環境とローカル環境の環境変数に対応:
+ * - 本番: SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY
+ * - ローカル: NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_KEY
+ *
+ * @returns Supabaseクライアント（環境変数が見つからない場合はnull）
+ */
+export function createServiceClient(): SupabaseClient | null {
+  const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Supabase環境変数が見つかりません');
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+// 環境変数が見つからない場合のエラーメッセージ
+export const SERVICE_CLIENT_CONFIG_ERROR =
+  'Supabase設定が見つかりません。環境変数SUPABASE_URLとSUPABASE_SERVICE_ROLE_KEYを確認してください。';
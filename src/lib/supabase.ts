@@ -1,6 +1,41 @@
 import { createClient } from './supabase-client';
-import { Database, Recording, Playlist } from './types';
+import {
+  Database,
+  Recording,
+  Playlist,
+  Passage,
+  PlaylistSchedule,
+  OpeningHours,
+  Device,
+  DeviceCommand,
+  DeviceCommandPayload,
+  DeviceCommandType,
+  ModerationRecording,
+  ModerationStatus,
+  ContentFlagRules,
+  PlayerHealthSettings,
+  PlayerStatus,
+  PlaybackOrderMode,
+  PlaylistTranscriptionSettings,
+  PlaylistTransitionSettings,
+  PlaylistVoiceActivationSettings,
+  RecordingTrim,
+  TranscriptSegment,
+} from './types';
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { calculateCharacterErrorRate, refreshPassageScore } from './passage';
+import { DEFAULT_CONTENT_FLAG_RULES, refreshContentFlags } from './content-flags';
+import { generateDeviceToken, hashDeviceToken } from './device-token';
+import { DEVICE_COMMAND_EVENT, getDeviceCommandChannel, validateDeviceCommand } from './device-commands';
+import { DEFAULT_PLAYER_HEALTH_SETTINGS } from './player-health';
+import { QUARANTINE_FAILURE_THRESHOLD } from './playback-watchdog';
+import { normalizeMimeType, resolveAudioFormat } from './audio-format';
+import {
+  fetchPlaylistRecordings,
+  fetchPlaybackSchedule,
+  type PlaylistRecordingEntry,
+  type PlaybackScheduleData,
+} from './playback-data';
 
 /**
  * クライアントコンポーネントで使用するSupabaseクライアント
@@ -12,11 +47,16 @@ function getSupabaseClient(): SupabaseClient<Database> {
 
 /**
  * 録音をSupabase Storageにアップロードし、データベースにレコードを作成する
- * @param blob 録音のBlobデータ
+ * ファイル名の拡張子・Content-Type・レコードのmime_typeには、Blobの実際の形式を使う
+ * @param blob 録音のBlobデータ（Fileの場合、MIMEタイプが空ならファイル名の拡張子で形式を判定）
  * @param duration 録音の長さ（秒）
  * @param transcription 文字起こしテキスト（オプショナル）
  * @param playlistId プレイリストID（指定した場合、そのプレイリスト専用のパスに保存）
  * @param volumeMetadata 音量メタデータ（オプショナル）
+ * @param passageId 録音時に表示していた課題文のID（オプショナル）
+ * @param trim 前後の無音を除いた再生範囲（オプショナル、音量メタデータと一緒に録音時に計算したもの）
+ * @param recordingId 録音ID（オプショナル、クライアントで生成したもの）
+ *   指定した場合はファイル名とレコードのIDに使い、再送しても同じ録音が重複して作成されないようにする
  * @returns アップロードされた録音のレコード
  */
 export async function uploadRecording(
@@ -28,14 +68,25 @@ export async function uploadRecording(
     lufs: number;
     peak: number;
     rms: number;
-  }
+  },
+  passageId?: string,
+  trim?: RecordingTrim | null,
+  recordingId?: string
 ) {
   const supabase = getSupabaseClient();
 
-  // ファイル名を生成（タイムスタンプ + ランダム文字列）
+  const format = resolveAudioFormat(blob);
+  if (!format) {
+    throw new Error(`対応していないファイル形式です: ${blob.type || '不明'}`);
+  }
+  // codecsなどのパラメーターを含む実際のMIMEタイプ（Blobに形式がない場合は拡張子から判定した形式）
+  const mimeType = normalizeMimeType(blob.type) ?? format.mimeType;
+
+  // ファイル名を生成（録音IDの指定がない場合はタイムスタンプ + ランダム文字列）
   const timestamp = Date.now();
   const random = Math.random().toString(36).substring(2, 10);
-  const fileName = `${timestamp}-${random}.webm`;
+  const baseName = recordingId ?? `${timestamp}-${random}`;
+  const fileName = `${baseName}.${format.extension}`;
 
   // ファイルパスを決定（プレイリストIDがある場合はそのディレクトリ内に保存）
   const filePath = playlistId ? `playlist-${playlistId}/${fileName}` : fileName;
@@ -44,23 +95,36 @@ export async function uploadRecording(
   const { data: uploadData, error: uploadError } = await supabase.storage
     .from('recordings')
     .upload(filePath, blob, {
-      contentType: 'audio/webm',
+      contentType: mimeType,
       cacheControl: '3600',
       upsert: false,
     });
 
-  if (uploadError) {
+  // 再送時は前回アップロードしたファイルをそのまま使う
+  const isAlreadyUploaded = recordingId !== undefined && isStorageConflictError(uploadError);
+  if (uploadError && !isAlreadyUploaded) {
     throw new Error(`アップロードエラー: ${uploadError.message}`);
   }
+  const uploadedPath = uploadData?.path ?? filePath;
 
   // 2. データベースにレコードを作成
   const insertData: Database['public']['Tables']['recordings']['Insert'] = {
-    file_path: uploadData.path,
+    ...(recordingId ? { id: recordingId } : {}),
+    file_path: uploadedPath,
+    mime_type: mimeType,
     duration,
     transcription: transcription || null,
     lufs: volumeMetadata?.lufs ?? null,
     peak_level: volumeMetadata?.peak ?? null,
     rms_level: volumeMetadata?.rms ?? null,
+    // 後処理パイプラインのステータス（解析済み・文字起こし済みのものは完了扱い）
+    analysis_status: volumeMetadata ? 'done' : 'pending',
+    waveform_status: 'pending',
+    transcription_status: transcription ? 'done' : 'pending',
+    processing_updated_at: new Date().toISOString(),
+    passage_id: passageId ?? null,
+    trim_start: trim?.start ?? null,
+    trim_end: trim?.end ?? null,
   };
 
   const result = await ((supabase as unknown as SupabaseClient<Database>)
@@ -71,9 +135,23 @@ export async function uploadRecording(
 
   const { data: recordData, error: recordError } = result as { data: Recording | null; error: unknown };
 
+  // 再送時に前回のレコードが作成済みの場合は、そのレコードを返す
+  if (recordingId && (recordError as { code?: string } | null)?.code === '23505') {
+    const { data: existing, error: existingError } = await supabase
+      .from('recordings')
+      .select('*')
+      .eq('id', recordingId)
+      .single();
+
+    if (existingError || !existing) {
+      throw new Error(`取得エラー: ${existingError?.message ?? '録音が見つかりません'}`);
+    }
+    return existing;
+  }
+
   if (recordError) {
     // データベース挿入に失敗した場合、アップロードしたファイルを削除
-    await supabase.storage.from('recordings').remove([uploadData.path]);
+    await supabase.storage.from('recordings').remove([uploadedPath]);
     const errorMessage = recordError instanceof Error ? recordError.message : String(recordError);
     throw new Error(`データベースエラー: ${errorMessage}`);
   }
@@ -85,6 +163,15 @@ export async function uploadRecording(
   return recordData;
 }
 
+/**
+ * Storageへのアップロードが同じパスのファイルの存在により失敗したかを判定する
+ */
+function isStorageConflictError(error: unknown): boolean {
+  if (!error) return false;
+  const { statusCode, message } = error as { statusCode?: string | number; message?: string };
+  return String(statusCode) === '409' || /already exists/i.test(message ?? '');
+}
+
 /**
  * すべての録音を取得する（作成日時の昇順）
  * @returns 録音のリスト
@@ -103,6 +190,27 @@ export async function getRecordings(): Promise<Recording[]> {
   return data || [];
 }
 
+/**
+ * 指定したIDの録音を取得する（削除された録音は含まれない）
+ * @param ids 録音のIDのリスト
+ * @returns 録音のリスト
+ */
+export async function getRecordingsByIds(ids: string[]): Promise<Recording[]> {
+  if (ids.length === 0) return [];
+
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('recordings')
+    .select('*')
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return data || [];
+}
+
 /**
  * 録音のPublic URLを取得する
  * @param filePath ファイルパス
@@ -178,6 +286,18 @@ export async function getPlaylists(): Promise<Playlist[]> {
     id: playlist.id,
     name: playlist.name,
     is_active: playlist.is_active,
+    transcription_language: playlist.transcription_language,
+    transcription_model: playlist.transcription_model,
+    transcription_prompt: playlist.transcription_prompt,
+    transition_gap: playlist.transition_gap,
+    crossfade_duration: playlist.crossfade_duration,
+    fade_in_duration: playlist.fade_in_duration,
+    fade_out_duration: playlist.fade_out_duration,
+    voice_activation: playlist.voice_activation,
+    voice_activation_threshold: playlist.voice_activation_threshold,
+    voice_activation_silence: playlist.voice_activation_silence,
+    auto_approve: playlist.auto_approve,
+    playback_order: playlist.playback_order,
     created_at: playlist.created_at,
     updated_at: playlist.updated_at,
     recording_count: playlist.playlist_recordings?.[0]?.count || 0,
@@ -311,66 +431,127 @@ export async function setActivePlaylist(id: string): Promise<void> {
 }
 
 /**
- * プレイリストの録音を取得する（再生順序で）
- * @param playlistId プレイリストID
- * @returns 録音のリスト
+ * プレイリストの文字起こし設定を更新する
+ * @param id プレイリストID
+ * @param settings 文字起こし設定（空文字列はNULLとして保存し、デフォルト値を使用する）
  */
-export async function getPlaylistRecordings(
-  playlistId: string
-): Promise<(Recording & { order_index: number; playlist_recording_id: string })[]> {
+export async function updatePlaylistTranscriptionSettings(
+  id: string,
+  settings: PlaylistTranscriptionSettings
+): Promise<void> {
   const supabase = getSupabaseClient();
-  const { data, error } = await supabase
-    .from('playlist_recordings')
-    .select(`
-      id,
-      order_index,
-      recordings (
-        id,
-        file_path,
-        duration,
-        transcription,
-        lufs,
-        peak_level,
-        rms_level,
-        created_at
-      )
-    `)
-    .eq('playlist_id', playlistId)
-    .order('order_index', { ascending: true });
+  const updateData: Database['public']['Tables']['playlists']['Update'] = {
+    transcription_language: settings.transcription_language?.trim() || null,
+    transcription_model: settings.transcription_model?.trim() || null,
+    transcription_prompt: settings.transcription_prompt?.trim() || null,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlists')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
 
   if (error) {
-    throw new Error(`取得エラー: ${error.message}`);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
+
+/**
+ * プレイリストの曲間の設定を更新する
+ * @param id プレイリストID
+ * @param settings 曲間の設定（秒）
+ */
+export async function updatePlaylistTransitionSettings(
+  id: string,
+  settings: PlaylistTransitionSettings
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['playlists']['Update'] = {
+    transition_gap: settings.transition_gap,
+    crossfade_duration: settings.crossfade_duration,
+    fade_in_duration: settings.fade_in_duration,
+    fade_out_duration: settings.fade_out_duration,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlists')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
   }
+}
+
+/**
+ * プレイリストの再生順序を更新する（再生中の場合は次の周回から反映される）
+ * @param id プレイリストID
+ * @param playbackOrder 再生順序
+ */
+export async function updatePlaylistPlaybackOrder(
+  id: string,
+  playbackOrder: PlaybackOrderMode
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['playlists']['Update'] = {
+    playback_order: playbackOrder,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlists')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
 
-  // データの形式を整形
-  const result: (Recording & { order_index: number; playlist_recording_id: string })[] = [];
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
 
-  type PlaylistRecordingWithRecording = {
-    id: string;
-    order_index: number;
-    recordings: Recording | Recording[] | null;
+/**
+ * プレイリストの音声による録音の開始・停止の設定を更新する
+ * @param id プレイリストID
+ * @param settings 有効・無効、声とみなすしきい値（dBFS）、自動停止までの無音の長さ（秒）
+ */
+export async function updatePlaylistVoiceActivationSettings(
+  id: string,
+  settings: PlaylistVoiceActivationSettings
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['playlists']['Update'] = {
+    voice_activation: settings.voice_activation,
+    voice_activation_threshold: settings.voice_activation_threshold,
+    voice_activation_silence: settings.voice_activation_silence,
   };
 
-  for (const item of (data as unknown as PlaylistRecordingWithRecording[]) || []) {
-    // Supabaseは外部キーのリレーションを配列として返すが、実際は単一オブジェクト
-    const recording = Array.isArray(item.recordings) ? item.recordings[0] : item.recordings;
-    if (recording) {
-      result.push({
-        id: recording.id,
-        file_path: recording.file_path,
-        duration: recording.duration,
-        transcription: recording.transcription,
-        lufs: recording.lufs,
-        peak_level: recording.peak_level,
-        rms_level: recording.rms_level,
-        created_at: recording.created_at,
-        order_index: item.order_index,
-        playlist_recording_id: item.id,
-      });
-    }
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlists')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
   }
+}
 
-  return result;
+/**
+ * プレイリストの録音を取得する（再生順序で）
+ * @param playlistId プレイリストID
+ * @returns 録音のリスト
+ */
+export async function getPlaylistRecordings(playlistId: string): Promise<PlaylistRecordingEntry[]> {
+  return fetchPlaylistRecordings(getSupabaseClient(), playlistId);
 }
 
 /**
@@ -419,6 +600,33 @@ export async function addRecordingToPlaylist(
   }
 }
 
+/**
+ * 録音がプレイリストに追加されていなければ追加する（再送時に重複して追加しないため）
+ * @param playlistId プレイリストID
+ * @param recordingId 録音ID
+ */
+export async function ensureRecordingInPlaylist(
+  playlistId: string,
+  recordingId: string
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('playlist_recordings')
+    .select('id')
+    .eq('playlist_id', playlistId)
+    .eq('recording_id', recordingId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+  if (data) {
+    return;
+  }
+
+  await addRecordingToPlaylist(playlistId, recordingId);
+}
+
 /**
  * プレイリストから録音を削除する
  * @param playlistRecordingId playlist_recordingsのID
@@ -461,21 +669,91 @@ export async function reorderPlaylistRecordings(
   }
 }
 
+/**
+ * 録音の再生回数を1増やす（ループ再生で録音を再生したとき）
+ * @param id 録音ID
+ */
+export async function recordRecordingPlay(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await (supabase as unknown as SupabaseClient<Database>)
+    .rpc('record_recording_play', { p_recording_id: id } as never);
+
+  if (error) {
+    throw new Error(`更新エラー: ${error.message}`);
+  }
+}
+
+/**
+ * 録音の再生の失敗を記録する（失敗の回数がしきい値に達した録音は隔離される）
+ * @param id 録音ID
+ * @param message 失敗の内容
+ * @returns 録音が隔離されたか
+ */
+export async function recordRecordingFailure(id: string, message: string): Promise<boolean> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await (supabase as unknown as SupabaseClient<Database>)
+    .rpc('record_recording_failure', {
+      p_recording_id: id,
+      p_error: message,
+      p_threshold: QUARANTINE_FAILURE_THRESHOLD,
+    } as never);
+
+  if (error) {
+    throw new Error(`更新エラー: ${error.message}`);
+  }
+
+  return (data as unknown) === true;
+}
+
+/**
+ * 録音の隔離を解除し、再生の失敗の回数を0に戻す
+ * @param id 録音ID
+ */
+export async function releaseRecordingQuarantine(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['recordings']['Update'] = {
+    quarantined_at: null,
+    playback_failure_count: 0,
+    last_playback_error: null,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('recordings')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: { message: string } | null };
+
+  if (error) {
+    throw new Error(`更新エラー: ${error.message}`);
+  }
+}
+
 /**
  * 録音の文字起こしを更新する
  * @param id 録音のID
  * @param transcription 文字起こしテキスト
+ * @param segments タイムスタンプ付きのセグメント（省略時は変更しない）
  */
 export async function updateRecordingTranscription(
   id: string,
-  transcription: string
+  transcription: string,
+  segments?: TranscriptSegment[] | null
 ): Promise<void> {
   const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['recordings']['Update'] = {
+    transcription,
+    transcription_status: 'done',
+    processing_updated_at: new Date().toISOString(),
+  };
+  if (segments !== undefined) {
+    updateData.transcription_segments = segments;
+  }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const { data, error } = await (supabase as any)
     .from('recordings')
-    .update({ transcription })
+    .update(updateData)
     .eq('id', id)
     .select();
 
@@ -488,4 +766,735 @@ export async function updateRecordingTranscription(
     console.error('更新されたレコードが0件です');
     throw new Error('更新されたレコードがありません。レコードが存在しないか、権限がない可能性があります。');
   }
+  // 課題文との一致率を再計算（失敗しても文字起こしの保存は成功扱いにする）
+  try {
+    await refreshPassageScore(supabase, id, transcription);
+  } catch (err) {
+    console.error('一致率の更新に失敗:', err);
+  }
+  // 編集後の文字起こしを自動チェック（失敗しても文字起こしの保存は成功扱いにする）
+  try {
+    await refreshContentFlags(supabase, id, transcription);
+  } catch (err) {
+    console.error('自動チェックに失敗:', err);
+  }
+}
+
+/**
+ * 録音の再生範囲を更新する（管理画面での調整）
+ * 調整した録音は、再解析しても自動検出の範囲で上書きされない
+ * @param id 録音ID
+ * @param trim 再生範囲（秒）
+ */
+export async function updateRecordingTrim(id: string, trim: RecordingTrim): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['recordings']['Update'] = {
+    trim_start: trim.start,
+    trim_end: trim.end,
+    trim_adjusted: true,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('recordings')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: { message: string } | null };
+
+  if (error) {
+    throw new Error(`更新エラー: ${error.message}`);
+  }
+}
+
+// ========================================
+// 審査関連の関数
+// ========================================
+
+// 審査画面に一度に表示する録音の最大数
+const MODERATION_LIST_LIMIT = 200;
+
+/**
+ * 審査の状態ごとに録音を取得する（追加されているプレイリストを含む）
+ * @param status 審査の状態
+ * @returns 録音のリスト（審査待ちは古い順、それ以外は新しい順）
+ */
+export async function getModerationRecordings(status: ModerationStatus): Promise<ModerationRecording[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('recordings')
+    .select(`
+      *,
+      playlist_recordings (
+        playlists (id, name)
+      )
+    `)
+    .eq('moderation_status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .limit(MODERATION_LIST_LIMIT);
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  type PlaylistSummary = ModerationRecording['playlists'][number];
+  type RecordingWithPlaylists = Recording & {
+    playlist_recordings: { playlists: PlaylistSummary | PlaylistSummary[] | null }[] | null;
+  };
+
+  // Supabaseは外部キーのリレーションを配列として返す場合があるため、単一オブジェクトに揃える
+  return ((data as unknown as RecordingWithPlaylists[]) || []).map(({ playlist_recordings, ...recording }) => ({
+    ...recording,
+    playlists: (playlist_recordings ?? []).flatMap((entry) =>
+      Array.isArray(entry.playlists) ? entry.playlists : entry.playlists ? [entry.playlists] : []
+    ),
+  }));
+}
+
+/**
+ * 録音の審査の状態をまとめて更新する
+ * @param ids 録音IDのリスト
+ * @param status 審査の状態
+ */
+export async function updateRecordingsModeration(
+  ids: string[],
+  status: ModerationStatus
+): Promise<void> {
+  if (ids.length === 0) return;
+
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['recordings']['Update'] = {
+    moderation_status: status,
+    moderated_at: new Date().toISOString(),
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('recordings')
+    .update(updateData as unknown as never)
+    .in('id', ids) as unknown);
+
+  const { error } = result as { error: { message: string } | null };
+
+  if (error) {
+    throw new Error(`更新エラー: ${error.message}`);
+  }
+}
+
+/**
+ * プレイリストの自動承認の設定を更新する
+ * @param id プレイリストID
+ * @param autoApprove trueの場合、追加された録音を審査せずに承認する
+ */
+export async function updatePlaylistAutoApprove(id: string, autoApprove: boolean): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['playlists']['Update'] = {
+    auto_approve: autoApprove,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlists')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
+
+/**
+ * 文字起こしによる自動チェックのルールを取得する
+ * @returns ルール（設定されていない場合は初期値）
+ */
+export async function getContentFlagRules(): Promise<Omit<ContentFlagRules, 'id' | 'updated_at'>> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('content_flag_rules')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return (data as ContentFlagRules | null) ?? DEFAULT_CONTENT_FLAG_RULES;
+}
+
+/**
+ * 文字起こしによる自動チェックのルールを保存する
+ * 保存後に文字起こしされた録音からチェックに使用される
+ * @param rules ルール
+ */
+export async function saveContentFlagRules(
+  rules: Omit<ContentFlagRules, 'id' | 'updated_at'>
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const upsertData: Database['public']['Tables']['content_flag_rules']['Insert'] = {
+    id: 1,
+    blocked_words: rules.blocked_words,
+    flag_empty: rules.flag_empty,
+    min_passage_ratio: rules.min_passage_ratio,
+    min_language_ratio: rules.min_language_ratio,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('content_flag_rules')
+    .upsert(upsertData as unknown as never, { onConflict: 'id' }) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
+
+// ========================================
+// 課題文関連の関数
+// ========================================
+
+/**
+ * プレイリストの課題文を取得する（表示順序で）
+ * @param playlistId プレイリストID
+ * @returns 課題文のリスト
+ */
+export async function getPlaylistPassages(playlistId: string): Promise<Passage[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('passages')
+    .select('*')
+    .eq('playlist_id', playlistId)
+    .order('order_index', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * 課題文を作成する（プレイリストの末尾に追加）
+ * @param playlistId プレイリストID
+ * @param title 見出し
+ * @param body 本文
+ * @returns 作成された課題文
+ */
+export async function createPassage(
+  playlistId: string,
+  title: string,
+  body: string
+): Promise<Passage> {
+  const supabase = getSupabaseClient();
+
+  // 現在の最大order_indexを取得
+  const { data: maxOrderData } = await supabase
+    .from('passages')
+    .select('order_index')
+    .eq('playlist_id', playlistId)
+    .order('order_index', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const insertData: Database['public']['Tables']['passages']['Insert'] = {
+    playlist_id: playlistId,
+    title,
+    body,
+    order_index: maxOrderData ? (maxOrderData as { order_index: number }).order_index + 1 : 0,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('passages')
+    .insert(insertData as unknown as never)
+    .select()
+    .single() as unknown);
+
+  const { data, error } = result as { data: Passage | null; error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`作成エラー: ${errorMessage}`);
+  }
+
+  if (!data) {
+    throw new Error('課題文の作成に失敗しました');
+  }
+
+  return data;
+}
+
+/**
+ * 課題文を更新する
+ * 本文を変更した場合は、この課題文を読んだ録音の一致率を再計算する
+ * @param id 課題文ID
+ * @param title 見出し
+ * @param body 本文
+ */
+export async function updatePassage(id: string, title: string, body: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['passages']['Update'] = { title, body };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('passages')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+
+  // この課題文を読んだ録音の一致率を再計算
+  const { data: recordings, error: fetchError } = await supabase
+    .from('recordings')
+    .select('id, transcription')
+    .eq('passage_id', id);
+
+  if (fetchError) {
+    console.error('一致率の再計算に失敗:', fetchError);
+    return;
+  }
+
+  for (const recording of (recordings as Pick<Recording, 'id' | 'transcription'>[]) || []) {
+    // 文字起こしがまだない録音は、文字起こし後に計算される
+    if (recording.transcription == null) continue;
+
+    const { error: updateError } = await supabase
+      .from('recordings')
+      .update({ passage_cer: calculateCharacterErrorRate(body, recording.transcription) } as never)
+      .eq('id', recording.id);
+
+    if (updateError) {
+      console.error('一致率の再計算に失敗:', updateError);
+    }
+  }
+}
+
+/**
+ * 課題文を削除する（録音との紐付けは解除される）
+ * @param id 課題文ID
+ */
+export async function deletePassage(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.from('passages').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`削除エラー: ${error.message}`);
+  }
+}
+
+// ========================================
+// 再生スケジュール関連の関数
+// ========================================
+
+/**
+ * すべての再生スケジュールを取得する（曜日・開始時刻の順）
+ * @returns 再生スケジュールのリスト
+ */
+export async function getPlaylistSchedules(): Promise<PlaylistSchedule[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('playlist_schedules')
+    .select('*')
+    .order('day_of_week', { ascending: true })
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * 再生スケジュールを作成する
+ * @param playlistId 再生するプレイリストID
+ * @param dayOfWeek 曜日（0=日曜〜6=土曜）
+ * @param startTime 開始時刻（HH:MM）
+ * @param endTime 終了時刻（HH:MM）
+ * @returns 作成された再生スケジュール
+ */
+export async function createPlaylistSchedule(
+  playlistId: string,
+  dayOfWeek: number,
+  startTime: string,
+  endTime: string
+): Promise<PlaylistSchedule> {
+  const supabase = getSupabaseClient();
+  const insertData: Database['public']['Tables']['playlist_schedules']['Insert'] = {
+    playlist_id: playlistId,
+    day_of_week: dayOfWeek,
+    start_time: startTime,
+    end_time: endTime,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlist_schedules')
+    .insert(insertData as unknown as never)
+    .select()
+    .single() as unknown);
+
+  const { data, error } = result as { data: PlaylistSchedule | null; error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`作成エラー: ${errorMessage}`);
+  }
+
+  if (!data) {
+    throw new Error('再生スケジュールの作成に失敗しました');
+  }
+
+  return data;
+}
+
+/**
+ * 再生スケジュールを更新する
+ * @param id 再生スケジュールID
+ * @param updates 更新する項目
+ */
+export async function updatePlaylistSchedule(
+  id: string,
+  updates: Pick<PlaylistSchedule, 'playlist_id' | 'day_of_week' | 'start_time' | 'end_time'>
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['playlist_schedules']['Update'] = updates;
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('playlist_schedules')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
+
+/**
+ * 再生スケジュールを削除する
+ * @param id 再生スケジュールID
+ */
+export async function deletePlaylistSchedule(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.from('playlist_schedules').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`削除エラー: ${error.message}`);
+  }
+}
+
+/**
+ * 開館時間を取得する（曜日の順）
+ * @returns 開館時間のリスト（空の場合は開館時間を設定していない）
+ */
+export async function getOpeningHours(): Promise<OpeningHours[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('opening_hours')
+    .select('*')
+    .order('day_of_week', { ascending: true });
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * 再生スケジュールの判定に必要なデータ（プレイリスト・再生スケジュール・開館時間）をまとめて取得する
+ * @returns 再生スケジュールのデータ
+ */
+export async function getPlaybackSchedule(): Promise<PlaybackScheduleData> {
+  return fetchPlaybackSchedule(getSupabaseClient());
+}
+
+/**
+ * 開館時間を保存する
+ * 指定しなかった曜日は休館日として削除する（空の配列を渡すと開館時間の設定を解除する）
+ * @param hours 曜日ごとの開館時間
+ */
+export async function saveOpeningHours(
+  hours: Pick<OpeningHours, 'day_of_week' | 'open_time' | 'close_time'>[]
+): Promise<void> {
+  const supabase = getSupabaseClient();
+
+  // 休館日（指定されなかった曜日）を削除
+  const openDays = hours.map((h) => h.day_of_week);
+  const closedDays = [0, 1, 2, 3, 4, 5, 6].filter((day) => !openDays.includes(day));
+  if (closedDays.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('opening_hours')
+      .delete()
+      .in('day_of_week', closedDays);
+
+    if (deleteError) {
+      throw new Error(`削除エラー: ${deleteError.message}`);
+    }
+  }
+
+  if (hours.length === 0) {
+    return;
+  }
+
+  const upsertData: Database['public']['Tables']['opening_hours']['Insert'][] = hours.map((h) => ({
+    day_of_week: h.day_of_week,
+    open_time: h.open_time,
+    close_time: h.close_time,
+  }));
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('opening_hours')
+    .upsert(upsertData as unknown as never, { onConflict: 'day_of_week' }) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
+
+// ========================================
+// 再生端末関連の関数
+// ========================================
+
+/**
+ * すべての再生端末を取得する（作成日時の降順）
+ * @returns 再生端末のリスト
+ */
+export async function getDevices(): Promise<Device[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('devices')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * 再生端末を登録し、デバイストークンを発行する
+ * トークンはハッシュのみを保存するため、再表示できない
+ * @param name 端末の表示名
+ * @returns 登録された再生端末と、発行したデバイストークン
+ */
+export async function createDevice(name: string): Promise<{ device: Device; token: string }> {
+  const supabase = getSupabaseClient();
+  const token = generateDeviceToken();
+  const insertData: Database['public']['Tables']['devices']['Insert'] = {
+    name,
+    token_hash: await hashDeviceToken(token),
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('devices')
+    .insert(insertData as unknown as never)
+    .select()
+    .single() as unknown);
+
+  const { data, error } = result as { data: Device | null; error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`作成エラー: ${errorMessage}`);
+  }
+
+  if (!data) {
+    throw new Error('再生端末の登録に失敗しました');
+  }
+
+  return { device: data, token };
+}
+
+/**
+ * 再生端末のデバイストークンを無効にする
+ * @param id 再生端末ID
+ */
+export async function revokeDevice(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const updateData: Database['public']['Tables']['devices']['Update'] = {
+    revoked_at: new Date().toISOString(),
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('devices')
+    .update(updateData as unknown as never)
+    .eq('id', id) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
+}
+
+/**
+ * 再生端末を削除する
+ * @param id 再生端末ID
+ */
+export async function deleteDevice(id: string): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.from('devices').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`削除エラー: ${error.message}`);
+  }
+}
+
+/**
+ * 再生端末にリモート操作のコマンドを送信する
+ * コマンドを保存した後、Realtimeのブロードキャストで端末に取得を促す
+ * （ブロードキャストが届かない場合も、端末は定期的にコマンドを取得する）
+ * @param deviceId 再生端末ID
+ * @param command コマンドの種類
+ * @param payload コマンドの引数
+ * @returns 保存したコマンド
+ */
+export async function sendDeviceCommand(
+  deviceId: string,
+  command: DeviceCommandType,
+  payload: DeviceCommandPayload = {}
+): Promise<DeviceCommand> {
+  const validationError = validateDeviceCommand(command, payload);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const supabase = getSupabaseClient();
+  const insertData: Database['public']['Tables']['device_commands']['Insert'] = {
+    device_id: deviceId,
+    command,
+    payload,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('device_commands')
+    .insert(insertData as unknown as never)
+    .select()
+    .single() as unknown);
+
+  const { data, error } = result as { data: DeviceCommand | null; error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`作成エラー: ${errorMessage}`);
+  }
+
+  if (!data) {
+    throw new Error('コマンドの送信に失敗しました');
+  }
+
+  // 購読せずに送信する（RealtimeのREST APIで送信される）
+  const channel = supabase.channel(getDeviceCommandChannel(deviceId));
+  try {
+    const status = await channel.send({ type: 'broadcast', event: DEVICE_COMMAND_EVENT, payload: {} });
+    if (status !== 'ok') {
+      console.warn(`端末への通知に失敗しました（${status}）。端末の定期取得で実行されます`);
+    }
+  } finally {
+    supabase.removeChannel(channel);
+  }
+
+  return data;
+}
+
+/**
+ * 再生端末に送信したコマンドを新しい順に取得する
+ * @param deviceId 再生端末ID
+ * @param limit 取得する件数
+ */
+export async function getDeviceCommands(deviceId: string, limit = 20): Promise<DeviceCommand[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('device_commands')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return (data as DeviceCommand[] | null) || [];
+}
+
+// ========================================
+// 再生端末の稼働状況関連の関数
+// ========================================
+
+/**
+ * 再生端末の稼働状況（最新のハートビート）を取得する
+ * @returns 稼働状況のリスト（一度もハートビートを送信していない端末は含まれない）
+ */
+export async function getPlayerStatuses(): Promise<PlayerStatus[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('player_status')
+    .select('*');
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return (data as PlayerStatus[] | null) || [];
+}
+
+/**
+ * 再生端末の稼働状況のアラートのしきい値を取得する
+ * @returns しきい値（設定されていない場合は初期値）
+ */
+export async function getPlayerHealthSettings(): Promise<Omit<PlayerHealthSettings, 'id' | 'updated_at'>> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from('player_health_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`取得エラー: ${error.message}`);
+  }
+
+  return (data as PlayerHealthSettings | null) ?? DEFAULT_PLAYER_HEALTH_SETTINGS;
+}
+
+/**
+ * 再生端末の稼働状況のアラートのしきい値を保存する
+ * @param settings しきい値
+ */
+export async function savePlayerHealthSettings(
+  settings: Omit<PlayerHealthSettings, 'id' | 'updated_at'>
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const upsertData: Database['public']['Tables']['player_health_settings']['Insert'] = {
+    id: 1,
+    stale_after_seconds: settings.stale_after_seconds,
+    stall_alert_seconds: settings.stall_alert_seconds,
+    error_alert_count: settings.error_alert_count,
+    recent_stall_minutes: settings.recent_stall_minutes,
+  };
+
+  const result = await ((supabase as unknown as SupabaseClient<Database>)
+    .from('player_health_settings')
+    .upsert(upsertData as unknown as never, { onConflict: 'id' }) as unknown);
+
+  const { error } = result as { error: unknown };
+
+  if (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`更新エラー: ${errorMessage}`);
+  }
 }
@@ -0,0 +1,139 @@
+/**
+ * タイムスタンプ付き文字起こし（セグメント・単語単位）のユーティリティ
+ * サーバー側（文字起こしプロバイダーの応答の正規化）とクライアント側（字幕表示・編集）の両方で使用します
+ */
+
+import type { TranscriptSegment, TranscriptWord } from './types';
+
+// 日本語・中国語などの、単語の間に空白を入れない文字
+const NO_SPACE_CHAR_PATTERN = /[\u3000-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+/**
+ * セグメントから文字起こしテキストを作成する
+ * 既存の`transcription`カラムを使う箇所のため、セグメントのテキストを連結したものを保存する
+ * （日本語などのセグメントは空白を挟まずに連結する）
+ */
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.reduce((text, segment) => {
+    const segmentText = segment.text.trim();
+    if (segmentText === '') return text;
+    if (text === '') return segmentText;
+
+    const needsSpace =
+      !NO_SPACE_CHAR_PATTERN.test(text[text.length - 1]) &&
+      !NO_SPACE_CHAR_PATTERN.test(segmentText[0]);
+    return needsSpace ? `${text} ${segmentText}` : `${text}${segmentText}`;
+  }, '');
+}
+
+/**
+ * 数値に変換する（変換できない場合はnull）
+ */
+function toSeconds(value: unknown): number | null {
+  const seconds = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? seconds : null;
+}
+
+/**
+ * 単語の配列を正規化する（不正な要素は除外する）
+ */
+function normalizeWords(words: unknown): TranscriptWord[] {
+  if (!Array.isArray(words)) return [];
+
+  return words.flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const { word, text, start, end } = item as Record<string, unknown>;
+    const wordText = typeof word === 'string' ? word : typeof text === 'string' ? text : null;
+    const startSec = toSeconds(start);
+    const endSec = toSeconds(end);
+    if (wordText === null || startSec === null || endSec === null) return [];
+    return [{ word: wordText, start: startSec, end: endSec }];
+  });
+}
+
+/**
+ * 単語をセグメントの時間範囲に割り当てる
+ * 単語の開始時刻が含まれるセグメントに割り当て、どこにも含まれない単語は最も近いセグメントに割り当てる
+ */
+export function assignWordsToSegments(
+  segments: TranscriptSegment[],
+  words: TranscriptWord[]
+): TranscriptSegment[] {
+  if (segments.length === 0 || words.length === 0) return segments;
+
+  const assigned: TranscriptWord[][] = segments.map(() => []);
+
+  for (const word of words) {
+    let index = segments.findIndex(
+      (segment) => word.start >= segment.start && word.start < segment.end
+    );
+    if (index === -1) {
+      let minDistance = Infinity;
+      segments.forEach((segment, i) => {
+        const distance = Math.min(
+          Math.abs(word.start - segment.start),
+          Math.abs(word.start - segment.end)
+        );
+        if (distance < minDistance) {
+          minDistance = distance;
+          index = i;
+        }
+      });
+    }
+    assigned[index].push(word);
+  }
+
+  return segments.map((segment, i) =>
+    assigned[i].length > 0 ? { ...segment, words: assigned[i] } : segment
+  );
+}
+
+/**
+ * 文字起こしAPIのverbose_json形式の応答からセグメントを取得する
+ * OpenAI Whisper API、whisper.cpp、faster-whisperの応答形式に対応する
+ * （セグメントごとの単語、またはトップレベルの単語のどちらでもよい）
+ */
+export function normalizeTranscriptSegments(response: unknown): TranscriptSegment[] {
+  if (!response || typeof response !== 'object') return [];
+  const { segments, words } = response as Record<string, unknown>;
+  if (!Array.isArray(segments)) return [];
+
+  const normalized = segments.flatMap((item): TranscriptSegment[] => {
+    if (!item || typeof item !== 'object') return [];
+    const { text, start, end, words: segmentWords } = item as Record<string, unknown>;
+    const startSec = toSeconds(start);
+    const endSec = toSeconds(end);
+    if (typeof text !== 'string' || startSec === null || endSec === null) return [];
+
+    const segment: TranscriptSegment = { start: startSec, end: endSec, text: text.trim() };
+    const wordList = normalizeWords(segmentWords);
+    if (wordList.length > 0) {
+      segment.words = wordList;
+    }
+    return [segment];
+  });
+
+  // 単語がトップレベルにある場合（OpenAI Whisper API）はセグメントに割り当てる
+  if (normalized.every((segment) => !segment.words)) {
+    return assignWordsToSegments(normalized, normalizeWords(words));
+  }
+
+  return normalized;
+}
+
+/**
+ * 指定した再生位置のセグメントのインデックスを取得する
+ * @returns セグメントのインデックス（該当するセグメントがない場合は-1）
+ */
+export function findSegmentIndexAt(segments: TranscriptSegment[], time: number): number {
+  return segments.findIndex((segment) => time >= segment.start && time < segment.end);
+}
+
+/**
+ * 秒数をタイムスタンプ表記（m:ss.s）に変換する
+ */
+export function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds - mins * 60;
+  return `${mins}:${secs.toFixed(1).padStart(4, '0')}`;
+}
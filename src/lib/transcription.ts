@@ -0,0 +1,349 @@
+import OpenAI from "openai";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { normalizeTranscriptSegments, segmentsToText } from "./transcript";
+import { getRecordingFormat } from "./audio-format";
+import type { PlaylistTranscriptionSettings, TranscriptSegment } from "./types";
+
+/**
+ * 文字起こしユーティリティ
+ * 環境変数TRANSCRIPTION_PROVIDERでプロバイダーを切り替える
+ * - openai: OpenAI Whisper API（デフォルト、whisper-1以外のモデルではタイムスタンプを取得しない）
+ * - local: whisper.cpp / faster-whisper などのローカルHTTPサーバー（インターネット接続が不要）
+ * - mock: 固定のテキストを返す（開発・テスト用）
+ * サーバー側（APIルート）でのみ使用すること
+ */
+
+export type TranscriptionProviderName = "openai" | "local" | "mock";
+
+// 文字起こしのオプション（プレイリストごとに設定可能）
+export interface TranscriptionOptions {
+  language: string;
+  model?: string;
+  prompt?: string;
+}
+
+// 文字起こしの結果
+export interface TranscriptionResult {
+  // セグメントを連結したテキスト（既存のtranscriptionカラム用）
+  text: string;
+  // タイムスタンプ付きのセグメント（プロバイダーが対応していない場合は空）
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  /**
+   * 設定の不備を確認する
+   * @returns エラーメッセージ（問題がなければnull）
+   */
+  getConfigError(): string | null;
+  /**
+   * 音声ファイルを文字起こしする
+   * @returns 文字起こしテキストとタイムスタンプ付きのセグメント
+   */
+  transcribe(file: File, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+// 言語が指定されていない場合のデフォルト
+export const DEFAULT_TRANSCRIPTION_LANGUAGE = "ja";
+
+// OpenAI APIキーが設定されていない場合のエラーメッセージ
+export const OPENAI_API_KEY_ERROR =
+  "OpenAI APIキーが設定されていません。.env.localにOPENAI_API_KEYを設定してください。";
+
+// ローカルサーバーのURLが設定されていない場合のエラーメッセージ
+export const LOCAL_WHISPER_URL_ERROR =
+  "ローカル文字起こしサーバーのURLが設定されていません。.env.localにLOCAL_WHISPER_URLを設定してください。";
+
+// OpenAIのモデルが指定されていない場合のデフォルト
+const DEFAULT_OPENAI_MODEL = "whisper-1";
+
+// タイムスタンプ付きの応答（verbose_json）に対応しているOpenAIのモデル
+// gpt-4o-transcribeなどはjsonのみに対応するため、テキストだけを取得する
+const OPENAI_TIMESTAMP_MODELS = ["whisper-1"];
+
+// ローカルサーバーの応答を待つ最大時間（ミリ秒）
+const LOCAL_WHISPER_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * OpenAI APIキーを取得する
+ * @returns APIキー（未設定またはサンプル値のままの場合はnull）
+ */
+export function getOpenAIApiKey(): string | null {
+  const openaiApiKey = process.env.OPENAI_API_KEY;
+  if (!openaiApiKey || openaiApiKey === "your-openai-api-key-here") {
+    return null;
+  }
+  return openaiApiKey;
+}
+
+/**
+ * OpenAI Whisper APIによる文字起こし
+ */
+const openAIProvider: TranscriptionProvider = {
+  name: "openai",
+
+  getConfigError() {
+    return getOpenAIApiKey() ? null : OPENAI_API_KEY_ERROR;
+  },
+
+  async transcribe(file, options) {
+    const openaiApiKey = getOpenAIApiKey();
+    if (!openaiApiKey) {
+      throw new Error(OPENAI_API_KEY_ERROR);
+    }
+
+    const openai = new OpenAI({ apiKey: openaiApiKey });
+    const model = options.model || DEFAULT_OPENAI_MODEL;
+
+    if (!OPENAI_TIMESTAMP_MODELS.includes(model)) {
+      const response = await openai.audio.transcriptions.create({
+        file: file,
+        model,
+        language: options.language,
+        prompt: options.prompt,
+        response_format: "json",
+      });
+
+      return { text: response.text.trim(), segments: [] };
+    }
+
+    const response = await openai.audio.transcriptions.create({
+      file: file,
+      model,
+      language: options.language,
+      prompt: options.prompt,
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment", "word"],
+    });
+
+    return toTranscriptionResult(response);
+  },
+};
+
+/**
+ * ローカルの文字起こしサーバーによる文字起こし
+ * whisper.cppのserver（/inference）や、faster-whisperのOpenAI互換サーバー
+ * （/v1/audio/transcriptions）など、multipart/form-dataで音声を受け取り
+ * verbose_json形式（{ text, segments }）で返すエンドポイントに対応する
+ */
+const localProvider: TranscriptionProvider = {
+  name: "local",
+
+  getConfigError() {
+    return process.env.LOCAL_WHISPER_URL ? null : LOCAL_WHISPER_URL_ERROR;
+  },
+
+  async transcribe(file, options) {
+    const endpoint = process.env.LOCAL_WHISPER_URL;
+    if (!endpoint) {
+      throw new Error(LOCAL_WHISPER_URL_ERROR);
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("language", options.language);
+    formData.append("response_format", "verbose_json");
+    // OpenAI互換サーバー向け（whisper.cppは無視し、セグメントごとに単語を返す）
+    formData.append("timestamp_granularities[]", "segment");
+    formData.append("timestamp_granularities[]", "word");
+    const model = options.model || process.env.LOCAL_WHISPER_MODEL;
+    if (model) {
+      formData.append("model", model);
+    }
+    if (options.prompt) {
+      formData.append("prompt", options.prompt);
+    }
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      body: formData,
+      signal: AbortSignal.timeout(LOCAL_WHISPER_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const message = await response.text();
+      throw new Error(
+        `ローカル文字起こしサーバーエラー (${response.status}): ${message || response.statusText}`
+      );
+    }
+
+    const data = (await response.json()) as { text?: unknown };
+    if (typeof data.text !== "string") {
+      throw new Error("ローカル文字起こしサーバーの応答にtextが含まれていません");
+    }
+
+    return toTranscriptionResult({ ...data, text: data.text });
+  },
+};
+
+/**
+ * 固定のテキストを返す文字起こし（外部サービスを使わずに動作確認するため）
+ * MOCK_TRANSCRIPTION_TEXTで返すテキストを指定できる
+ */
+const mockProvider: TranscriptionProvider = {
+  name: "mock",
+
+  getConfigError() {
+    return null;
+  },
+
+  async transcribe(file, options) {
+    const text =
+      process.env.MOCK_TRANSCRIPTION_TEXT ??
+      `モック文字起こし（${file.name}, ${options.language}）`;
+
+    // 字幕表示の確認用に、1文字あたり0.2秒の単語タイムスタンプを付ける
+    const words = Array.from(text).map((char, i) => ({
+      word: char,
+      start: i * 0.2,
+      end: (i + 1) * 0.2,
+    }));
+
+    return {
+      text,
+      segments: [{ start: 0, end: words.length * 0.2, text, words }],
+    };
+  },
+};
+
+/**
+ * verbose_json形式の応答を文字起こしの結果に変換する
+ * セグメントがある場合はテキストをセグメントから作成し、編集後のテキストと一致させる
+ */
+function toTranscriptionResult(response: { text: string }): TranscriptionResult {
+  const segments = normalizeTranscriptSegments(response);
+  return {
+    text: segments.length > 0 ? segmentsToText(segments) : response.text.trim(),
+    segments,
+  };
+}
+
+const PROVIDERS: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  openai: openAIProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+/**
+ * 環境変数TRANSCRIPTION_PROVIDERで指定された文字起こしプロバイダーを取得する
+ * 未指定の場合はOpenAIを使用する
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const name = process.env.TRANSCRIPTION_PROVIDER || "openai";
+  if (!(name in PROVIDERS)) {
+    throw new Error(
+      `不明な文字起こしプロバイダーです: ${name}（${Object.keys(PROVIDERS).join(", ")}のいずれかを指定してください）`
+    );
+  }
+  return PROVIDERS[name as TranscriptionProviderName];
+}
+
+/**
+ * 文字起こしプロバイダーの設定の不備を確認する
+ * @returns エラーメッセージ（問題がなければnull）
+ */
+export function getTranscriptionConfigError(): string | null {
+  try {
+    return getTranscriptionProvider().getConfigError();
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * プレイリストの文字起こし設定を文字起こしオプションに変換する
+ */
+export function toTranscriptionOptions(
+  settings?: PlaylistTranscriptionSettings | null
+): TranscriptionOptions {
+  return {
+    language: settings?.transcription_language || DEFAULT_TRANSCRIPTION_LANGUAGE,
+    model: settings?.transcription_model || undefined,
+    prompt: settings?.transcription_prompt || undefined,
+  };
+}
+
+/**
+ * 録音が属するプレイリストの文字起こし設定を取得する
+ * プレイリストIDが指定されていない場合は、録音が最後に追加されたプレイリストの設定を使用する
+ * @param supabase Supabase Admin Client
+ * @param recordingId 録音ID
+ * @param playlistId プレイリストID（オプショナル）
+ */
+export async function resolveTranscriptionOptions(
+  supabase: SupabaseClient,
+  recordingId: string,
+  playlistId?: string
+): Promise<TranscriptionOptions> {
+  const columns = "transcription_language, transcription_model, transcription_prompt";
+
+  if (playlistId) {
+    const { data, error } = await supabase
+      .from("playlists")
+      .select(columns)
+      .eq("id", playlistId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`プレイリストの取得に失敗しました: ${error.message}`);
+    }
+
+    return toTranscriptionOptions(data as PlaylistTranscriptionSettings | null);
+  }
+
+  const { data, error } = await supabase
+    .from("playlist_recordings")
+    .select(`playlists (${columns})`)
+    .eq("recording_id", recordingId)
+    .order("added_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`プレイリストの取得に失敗しました: ${error.message}`);
+  }
+
+  type PlaylistRecordingWithSettings = {
+    playlists: PlaylistTranscriptionSettings | PlaylistTranscriptionSettings[] | null;
+  };
+
+  // Supabaseは外部キーのリレーションを配列として返すが、実際は単一オブジェクト
+  const playlists = (data as unknown as PlaylistRecordingWithSettings | null)?.playlists;
+  return toTranscriptionOptions(Array.isArray(playlists) ? playlists[0] : playlists);
+}
+
+/**
+ * 音声ファイルを文字起こしする
+ * @param fileData 音声ファイルのデータ
+ * @param filePath Storage上のファイルパス（ファイル名の決定に使用）
+ * @param options 文字起こしオプション（省略時はデフォルトの言語）
+ * @param mimeType 音声ファイルのMIMEタイプ（録音レコードのmime_type、省略時はファイルパスの拡張子から判定）
+ * @returns 文字起こしテキストとタイムスタンプ付きのセグメント
+ */
+export async function transcribeAudio(
+  fileData: Blob,
+  filePath: string,
+  options: TranscriptionOptions = toTranscriptionOptions(),
+  mimeType?: string | null
+): Promise<TranscriptionResult> {
+  const provider = getTranscriptionProvider();
+
+  const configError = provider.getConfigError();
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  // BlobをFileオブジェクトに変換（各プロバイダーはファイル名の拡張子と形式で音声の形式を判定する）
+  const format = getRecordingFormat({ file_path: filePath, mime_type: mimeType });
+  const baseName = (filePath.split("/").pop() || "audio").replace(/\.[^.]+$/, "");
+  const file = new File(
+    [fileData],
+    `${baseName}.${format.extension}`,
+    {
+      type: format.mimeType,
+    }
+  );
+
+  return await provider.transcribe(file, options);
+}
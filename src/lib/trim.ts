@@ -0,0 +1,153 @@
+/**
+ * 録音の先頭・末尾の無音のトリミング
+ * 短いフレームごとのエネルギーから音声区間を検出し、再生範囲（イン点・アウト点）を決めます
+ * ファイルは加工せず、再生時にこの範囲だけを再生します
+ * AudioContextに依存しないため、ブラウザ・サーバーのどちらからでも利用できます
+ */
+
+import type { Recording, RecordingTrim } from './types';
+
+// 解析フレームの長さ（秒）
+const FRAME_SECONDS = 0.02;
+// ノイズフロアの推定に使うパーセンタイル（静かなフレームのエネルギー）
+const NOISE_FLOOR_PERCENTILE = 0.1;
+// 声とみなすノイズフロアからの上げ幅（dB）
+const NOISE_MARGIN_DB = 12;
+// 声とみなすしきい値の範囲（dBFS）
+// 下限: 非常に静かな環境でも、これより小さい音は無音として扱う
+// 上限: ほぼ全体が声の録音でノイズフロアを高く見積もっても、声を検出できるようにする
+const MIN_VOICE_THRESHOLD_DB = -50;
+const MAX_VOICE_THRESHOLD_DB = -30;
+// 声とみなす最短の連続時間（秒）。ボタンのクリック音などの短い音を除外する
+const MIN_VOICE_SECONDS = 0.12;
+// 検出した音声区間の前後に残す余白（秒）。話し始めの子音や語尾の減衰を切らないため
+const PRE_ROLL_SECONDS = 0.15;
+const POST_ROLL_SECONDS = 0.3;
+
+/**
+ * 秒をミリ秒単位に丸める
+ */
+function roundSeconds(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * PCMデータから音声区間を検出し、前後の無音を除いた再生範囲を返す
+ * @param channels チャンネルごとのPCMデータ
+ * @param sampleRate サンプルレート
+ * @returns 再生範囲（秒）。声が検出できない場合はnull
+ */
+export function detectVoiceBoundaries(
+  channels: Float32Array[],
+  sampleRate: number
+): RecordingTrim | null {
+  const length = channels[0]?.length ?? 0;
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const frameCount = Math.floor(length / frameLength);
+  if (frameCount === 0) {
+    return null;
+  }
+
+  // フレームごとのエネルギー（全チャンネルの平均二乗、dBFS）
+  const frameDb = new Float64Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * frameLength;
+    let sumSquares = 0;
+    for (const channel of channels) {
+      for (let i = offset; i < offset + frameLength; i++) {
+        sumSquares += channel[i] * channel[i];
+      }
+    }
+    const meanSquare = sumSquares / (frameLength * channels.length);
+    frameDb[frame] = 10 * Math.log10(meanSquare + 1e-12);
+  }
+
+  const sorted = Array.from(frameDb).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor((sorted.length - 1) * NOISE_FLOOR_PERCENTILE)];
+  const threshold = Math.min(
+    MAX_VOICE_THRESHOLD_DB,
+    Math.max(MIN_VOICE_THRESHOLD_DB, noiseFloor + NOISE_MARGIN_DB)
+  );
+
+  // しきい値を超えるフレームが一定時間続く区間を声とみなし、最初と最後の区間を求める
+  const minVoiceFrames = Math.ceil(MIN_VOICE_SECONDS / FRAME_SECONDS);
+  let firstFrame = -1;
+  let lastFrame = -1;
+  let runStart = -1;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const isVoiced = frame < frameCount && frameDb[frame] >= threshold;
+    if (isVoiced) {
+      if (runStart === -1) {
+        runStart = frame;
+      }
+      continue;
+    }
+    if (runStart !== -1 && frame - runStart >= minVoiceFrames) {
+      if (firstFrame === -1) {
+        firstFrame = runStart;
+      }
+      lastFrame = frame;
+    }
+    runStart = -1;
+  }
+
+  if (firstFrame === -1) {
+    return null;
+  }
+
+  const duration = length / sampleRate;
+  const frameSeconds = frameLength / sampleRate;
+  return {
+    start: roundSeconds(Math.max(0, firstFrame * frameSeconds - PRE_ROLL_SECONDS)),
+    end: roundSeconds(Math.min(duration, lastFrame * frameSeconds + POST_ROLL_SECONDS)),
+  };
+}
+
+/**
+ * 声で録音を開始した場合の再生範囲を返す
+ * 声を待っている間から録音しているため、声を検出した位置から余白を引いた位置を再生の開始位置の上限にする
+ * （検出した音声区間がそれより後ろの場合も、話し始めを切らない）
+ * @param boundaries 録音全体から検出した再生範囲（声が検出できなかった場合はnull）
+ * @param onset 声を検出した位置（秒）
+ * @param duration 録音の長さ（秒）
+ */
+export function applyVoiceOnset(
+  boundaries: RecordingTrim | null,
+  onset: number,
+  duration: number
+): RecordingTrim {
+  const onsetStart = roundSeconds(Math.max(0, Math.min(onset, duration) - PRE_ROLL_SECONDS));
+  if (!boundaries) {
+    return { start: onsetStart, end: roundSeconds(duration) };
+  }
+  return { start: Math.min(boundaries.start, onsetStart), end: boundaries.end };
+}
+
+/**
+ * 録音の再生範囲を返す（未設定の場合はファイルの先頭・末尾）
+ * @param recording 録音
+ * @param mediaDuration ファイルの長さ（秒、不明な場合はNaN）
+ */
+export function getTrimRange(
+  recording: Pick<Recording, 'trim_start' | 'trim_end'>,
+  mediaDuration: number
+): RecordingTrim {
+  const start = Math.max(0, recording.trim_start ?? 0);
+  const end =
+    recording.trim_end != null && !(recording.trim_end > mediaDuration)
+      ? recording.trim_end
+      : mediaDuration;
+
+  // 範囲が不正な場合はファイル全体を再生する（長さが不明な場合は終了位置を判定しない）
+  if (!Number.isNaN(end) && !(end > start)) {
+    return { start: 0, end: mediaDuration };
+  }
+  return { start, end };
+}
+
+/**
+ * 録音に再生範囲が設定されているか
+ */
+export function hasTrim(recording: Pick<Recording, 'trim_start' | 'trim_end'>): boolean {
+  return recording.trim_start != null || recording.trim_end != null;
+}
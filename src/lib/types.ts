@@ -1,25 +1,290 @@
 // データベースの型定義
 
+// 後処理パイプラインのステップ
+export type ProcessingStep = 'analysis' | 'waveform' | 'transcription';
+
+// 後処理の各ステップのステータス
+export type ProcessingStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// プレイリストの再生順序（manual: 録音一覧の順, shuffle: 周回ごとにシャッフル, newest: 新しい順, weighted: 新しい録音・再生回数の少ない録音を優先）
+export type PlaybackOrderMode = 'manual' | 'shuffle' | 'newest' | 'weighted';
+
+// 録音の審査の状態（承認された録音だけを再生する）
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+
+// 文字起こしによる自動チェックのルールの種類
+export type ContentFlagRule = 'empty' | 'blocked_word' | 'too_short' | 'language';
+
+// 自動チェックで検出された問題（messageは管理画面に表示する理由）
+export interface ContentFlag {
+  rule: ContentFlagRule;
+  message: string;
+}
+
+// 文字起こしの単語（開始・終了は録音の先頭からの秒数）
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// 文字起こしのセグメント（単語単位のタイムスタンプは取得できた場合のみ）
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+  words?: TranscriptWord[];
+}
+
 export interface Recording {
   id: string;
   file_path: string;
   duration: number | null;
   transcription?: string | null;
+  transcription_segments?: TranscriptSegment[] | null;
   lufs?: number | null;
   peak_level?: number | null;
   rms_level?: number | null;
+  analysis_status?: ProcessingStatus | null;
+  transcription_status?: ProcessingStatus | null;
+  waveform_status?: ProcessingStatus | null;
+  waveform?: number[] | null;
+  processing_error?: string | null;
+  processing_updated_at?: string | null;
+  passage_id?: string | null;
+  passage_cer?: number | null;
+  // 再生範囲（秒）。NULLの場合はファイルの先頭・末尾
+  trim_start?: number | null;
+  trim_end?: number | null;
+  // 管理画面で再生範囲を調整したか（trueの場合は自動検出で上書きしない）
+  trim_adjusted?: boolean;
+  // 録音ファイルのMIMEタイプ（NULLの場合はファイル名の拡張子から判定）
+  mime_type?: string | null;
+  // 審査の状態（未設定の場合は審査待ちとみなす）
+  moderation_status?: ModerationStatus;
+  moderated_at?: string | null;
+  // 自動チェックで検出された問題（NULLの場合は未チェック）
+  content_flags?: ContentFlag[] | null;
+  // ループ再生で再生された回数と最後に再生された日時
+  play_count?: number;
+  last_played_at?: string | null;
+  // 再生に失敗した回数と最後の失敗の内容（隔離を解除すると0に戻す）
+  playback_failure_count?: number;
+  last_playback_error?: string | null;
+  // 再生の失敗が続いたため隔離した日時（NULLの場合は隔離されていない）
+  quarantined_at?: string | null;
   created_at: string;
 }
 
+// 録音の再生範囲（秒）
+export interface RecordingTrim {
+  start: number;
+  end: number;
+}
+
 export interface Playlist {
   id: string;
   name: string;
   is_active: boolean;
+  transcription_language?: string | null;
+  transcription_model?: string | null;
+  transcription_prompt?: string | null;
+  transition_gap?: number;
+  crossfade_duration?: number;
+  fade_in_duration?: number;
+  fade_out_duration?: number;
+  voice_activation?: boolean;
+  voice_activation_threshold?: number;
+  voice_activation_silence?: number;
+  // 追加された録音を審査せずに承認するか（文字起こしの自動チェックで問題がない場合のみ）
+  auto_approve?: boolean;
+  playback_order?: PlaybackOrderMode;
   created_at: string;
   updated_at: string;
   recording_count?: number;
 }
 
+// プレイリストごとの文字起こし設定
+export type PlaylistTranscriptionSettings = Pick<
+  Playlist,
+  'transcription_language' | 'transcription_model' | 'transcription_prompt'
+>;
+
+// プレイリストごとの曲間の設定（秒）
+export type PlaylistTransitionSettings = Required<
+  Pick<Playlist, 'transition_gap' | 'crossfade_duration' | 'fade_in_duration' | 'fade_out_duration'>
+>;
+
+// プレイリストごとの音声による録音の開始・停止の設定（しきい値はdBFS、無音の長さは秒）
+export type PlaylistVoiceActivationSettings = Required<
+  Pick<Playlist, 'voice_activation' | 'voice_activation_threshold' | 'voice_activation_silence'>
+>;
+
+// 課題文（来場者が読み上げる小説の一節）
+export interface Passage {
+  id: string;
+  playlist_id: string;
+  title: string;
+  body: string;
+  order_index: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// 文字起こしによる自動チェックのルール（1行のみ）
+export interface ContentFlagRules {
+  id: number;
+  blocked_words: string[];
+  flag_empty: boolean;
+  // 課題文の文字数に対する文字起こしの文字数の下限（0で無効）
+  min_passage_ratio: number;
+  // 文字起こしのうちプレイリストの言語の文字が占める割合の下限（0で無効）
+  min_language_ratio: number;
+  updated_at: string;
+}
+
+// 再生スケジュール（曜日・時間帯ごとに再生するプレイリスト）
+export interface PlaylistSchedule {
+  id: string;
+  playlist_id: string;
+  day_of_week: number; // 0=日曜〜6=土曜
+  start_time: string; // HH:MM:SS（再生端末のローカル時刻）
+  end_time: string; // HH:MM:SS（この時刻を含まない）
+  created_at: string;
+  updated_at: string;
+}
+
+// 展示の開館時間（曜日ごと、行のない曜日は休館日）
+export interface OpeningHours {
+  day_of_week: number; // 0=日曜〜6=土曜
+  open_time: string; // HH:MM:SS
+  close_time: string; // HH:MM:SS
+  updated_at: string;
+}
+
+// 展示の再生端末（デバイストークンで認証する）
+export interface Device {
+  id: string;
+  name: string;
+  token_hash: string;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+  // 端末が報告した再生状態
+  player_state?: DevicePlayerState | null;
+  player_state_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// 再生端末が報告する再生状態
+export interface DevicePlayerState {
+  isPlaying: boolean;
+  // 再生開始の操作（ブラウザの自動再生の制限のため、端末での一度のクリック）が必要か
+  needsUserInteraction: boolean;
+  playlistId: string | null;
+  playlistName: string | null;
+  // リモート操作でプレイリストを切り替えている（スケジュールに従っていない）か
+  isPlaylistOverridden: boolean;
+  recordingId: string | null;
+  // 音量（0.0〜1.0）
+  volume: number;
+}
+
+// 再生端末へのリモート操作のコマンド
+export type DeviceCommandType = 'play' | 'pause' | 'skip' | 'jump' | 'volume' | 'playlist' | 'reload';
+
+// pending: 送信済み、delivered: 端末が受信、succeeded: 実行済み、failed: 実行失敗、expired: 期限切れ
+export type DeviceCommandStatus = 'pending' | 'delivered' | 'succeeded' | 'failed' | 'expired';
+
+// コマンドの引数（jump: 再生する録音、volume: 音量、playlist: 切り替えるプレイリスト（nullでスケジュールに戻す））
+export interface DeviceCommandPayload {
+  recordingId?: string;
+  volume?: number;
+  playlistId?: string | null;
+}
+
+export interface DeviceCommand {
+  id: string;
+  device_id: string;
+  command: DeviceCommandType;
+  payload: DeviceCommandPayload;
+  status: DeviceCommandStatus;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+  acknowledged_at: string | null;
+}
+
+// 再生端末が一定間隔で送信するハートビート
+export interface PlayerHeartbeat {
+  isPlaying: boolean;
+  needsUserInteraction: boolean;
+  // 開館時間内か（時間外は停止していても異常としない）
+  isOpen: boolean;
+  // 意図しない再生の停止を検出しているか
+  isStalled: boolean;
+  playlistId: string | null;
+  recordingId: string | null;
+  // 再生位置（秒）
+  position: number | null;
+  // 音声出力デバイスの名前（既定の出力の場合はnull）
+  outputDevice: string | null;
+  // AudioContextの状態（未作成の場合はnull）
+  audioContextState: AudioContextState | null;
+  // 再生画面を開いてからの再生エラーの回数と最後のエラー
+  errorCount: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  // 再生画面を開いてから意図しない停止を検出した回数と、最後に検出した日時
+  stallCount: number;
+  lastStallAt: string | null;
+  // 再生画面を開いてから自動復旧の手順を試みた回数と、最後の手順・日時
+  recoveryCount: number;
+  lastRecoveryStep: string | null;
+  lastRecoveryAt: string | null;
+  // 再生画面を開いた日時
+  startedAt: string;
+}
+
+// 再生端末の稼働状況（端末ごとに最新のハートビートを1行保存）
+export interface PlayerStatus {
+  device_id: string;
+  is_playing: boolean;
+  needs_user_interaction: boolean;
+  is_open: boolean;
+  is_stalled: boolean;
+  playlist_id: string | null;
+  recording_id: string | null;
+  position: number | null;
+  output_device: string | null;
+  audio_context_state: string | null;
+  error_count: number;
+  last_error: string | null;
+  last_error_at: string | null;
+  stall_count: number;
+  last_stall_at: string | null;
+  recovery_count: number;
+  last_recovery_step: string | null;
+  last_recovery_at: string | null;
+  started_at: string | null;
+  // 最後にハートビートを受信した日時（サーバーの時刻）
+  reported_at: string;
+}
+
+// 再生端末の稼働状況のアラートのしきい値（1行のみ）
+export interface PlayerHealthSettings {
+  id: number;
+  // ハートビートがこの秒数途絶えた端末を応答なしとする
+  stale_after_seconds: number;
+  // 意図しない停止がこの秒数続いた端末を停止中とする
+  stall_alert_seconds: number;
+  // 再生エラーがこの回数以上の端末を注意とする（0で無効）
+  error_alert_count: number;
+  // 直近この分数以内に停止した端末を注意とする（0で無効）
+  recent_stall_minutes: number;
+  updated_at: string;
+}
+
 export interface PlaylistRecording {
   id: string;
   playlist_id: string;
@@ -28,6 +293,11 @@ export interface PlaylistRecording {
   added_at: string;
 }
 
+// 審査画面用の型（録音が追加されているプレイリストを含む）
+export interface ModerationRecording extends Recording {
+  playlists: Pick<Playlist, 'id' | 'name'>[];
+}
+
 // プレイリスト詳細画面用の型（録音情報を含む）
 export interface PlaylistWithRecordings extends Playlist {
   recordings: (PlaylistRecording & { recording: Recording })[];
@@ -44,18 +314,60 @@ export type Database = {
           file_path: string;
           duration: number | null;
           transcription?: string | null;
+          transcription_segments?: TranscriptSegment[] | null;
           lufs?: number | null;
           peak_level?: number | null;
           rms_level?: number | null;
+          analysis_status?: ProcessingStatus | null;
+          transcription_status?: ProcessingStatus | null;
+          waveform_status?: ProcessingStatus | null;
+          waveform?: number[] | null;
+          processing_error?: string | null;
+          processing_updated_at?: string | null;
+          passage_id?: string | null;
+          passage_cer?: number | null;
+          trim_start?: number | null;
+          trim_end?: number | null;
+          trim_adjusted?: boolean;
+          mime_type?: string | null;
+          moderation_status?: ModerationStatus;
+          moderated_at?: string | null;
+          content_flags?: ContentFlag[] | null;
+          play_count?: number;
+          last_played_at?: string | null;
+          playback_failure_count?: number;
+          last_playback_error?: string | null;
+          quarantined_at?: string | null;
           created_at?: string;
         };
         Update: {
           file_path?: string;
           duration?: number | null;
           transcription?: string | null;
+          transcription_segments?: TranscriptSegment[] | null;
           lufs?: number | null;
           peak_level?: number | null;
           rms_level?: number | null;
+          analysis_status?: ProcessingStatus | null;
+          transcription_status?: ProcessingStatus | null;
+          waveform_status?: ProcessingStatus | null;
+          waveform?: number[] | null;
+          processing_error?: string | null;
+          processing_updated_at?: string | null;
+          passage_id?: string | null;
+          passage_cer?: number | null;
+          trim_start?: number | null;
+          trim_end?: number | null;
+          trim_adjusted?: boolean;
+          mime_type?: string | null;
+          moderation_status?: ModerationStatus;
+          moderated_at?: string | null;
+          content_flags?: ContentFlag[] | null;
+          play_count?: number;
+          last_played_at?: string | null;
+          playback_failure_count?: number;
+          last_playback_error?: string | null;
+          quarantined_at?: string | null;
         };
         Relationships: [];
       };
@@ -65,12 +377,231 @@ export type Database = {
           id?: string;
           name: string;
           is_active?: boolean;
+          transcription_language?: string | null;
+          transcription_model?: string | null;
+          transcription_prompt?: string | null;
+          transition_gap?: number;
+          crossfade_duration?: number;
+          fade_in_duration?: number;
+          fade_out_duration?: number;
+          voice_activation?: boolean;
+          voice_activation_threshold?: number;
+          voice_activation_silence?: number;
+          auto_approve?: boolean;
+          playback_order?: PlaybackOrderMode;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           name?: string;
           is_active?: boolean;
+          transcription_language?: string | null;
+          transcription_model?: string | null;
+          transcription_prompt?: string | null;
+          transition_gap?: number;
+          crossfade_duration?: number;
+          fade_in_duration?: number;
+          fade_out_duration?: number;
+          voice_activation?: boolean;
+          voice_activation_threshold?: number;
+          voice_activation_silence?: number;
+          auto_approve?: boolean;
+          playback_order?: PlaybackOrderMode;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      passages: {
+        Row: Passage;
+        Insert: {
+          id?: string;
+          playlist_id: string;
+          title?: string;
+          body: string;
+          order_index?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          title?: string;
+          body?: string;
+          order_index?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'passages_playlist_id_fkey';
+            columns: ['playlist_id'];
+            referencedRelation: 'playlists';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      playlist_schedules: {
+        Row: PlaylistSchedule;
+        Insert: {
+          id?: string;
+          playlist_id: string;
+          day_of_week: number;
+          start_time: string;
+          end_time: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          playlist_id?: string;
+          day_of_week?: number;
+          start_time?: string;
+          end_time?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'playlist_schedules_playlist_id_fkey';
+            columns: ['playlist_id'];
+            referencedRelation: 'playlists';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      opening_hours: {
+        Row: OpeningHours;
+        Insert: {
+          day_of_week: number;
+          open_time: string;
+          close_time: string;
+          updated_at?: string;
+        };
+        Update: {
+          open_time?: string;
+          close_time?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      content_flag_rules: {
+        Row: ContentFlagRules;
+        Insert: {
+          id?: number;
+          blocked_words?: string[];
+          flag_empty?: boolean;
+          min_passage_ratio?: number;
+          min_language_ratio?: number;
+          updated_at?: string;
+        };
+        Update: {
+          blocked_words?: string[];
+          flag_empty?: boolean;
+          min_passage_ratio?: number;
+          min_language_ratio?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      devices: {
+        Row: Device;
+        Insert: {
+          id?: string;
+          name: string;
+          token_hash: string;
+          last_seen_at?: string | null;
+          revoked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          last_seen_at?: string | null;
+          revoked_at?: string | null;
+          player_state?: DevicePlayerState | null;
+          player_state_at?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      device_commands: {
+        Row: DeviceCommand;
+        Insert: {
+          id?: string;
+          device_id: string;
+          command: DeviceCommandType;
+          payload?: DeviceCommandPayload;
+          status?: DeviceCommandStatus;
+          error?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          acknowledged_at?: string | null;
+        };
+        Update: {
+          status?: DeviceCommandStatus;
+          error?: string | null;
+          delivered_at?: string | null;
+          acknowledged_at?: string | null;
+        };
+        Relationships: [];
+      };
+      player_status: {
+        Row: PlayerStatus;
+        Insert: {
+          device_id: string;
+          is_playing?: boolean;
+          needs_user_interaction?: boolean;
+          is_open?: boolean;
+          is_stalled?: boolean;
+          playlist_id?: string | null;
+          recording_id?: string | null;
+          position?: number | null;
+          output_device?: string | null;
+          audio_context_state?: string | null;
+          error_count?: number;
+          last_error?: string | null;
+          last_error_at?: string | null;
+          stall_count?: number;
+          last_stall_at?: string | null;
+          recovery_count?: number;
+          last_recovery_step?: string | null;
+          last_recovery_at?: string | null;
+          started_at?: string | null;
+          reported_at?: string;
+        };
+        Update: {
+          is_playing?: boolean;
+          needs_user_interaction?: boolean;
+          is_open?: boolean;
+          is_stalled?: boolean;
+          playlist_id?: string | null;
+          recording_id?: string | null;
+          position?: number | null;
+          output_device?: string | null;
+          audio_context_state?: string | null;
+          error_count?: number;
+          last_error?: string | null;
+          last_error_at?: string | null;
+          stall_count?: number;
+          last_stall_at?: string | null;
+          recovery_count?: number;
+          last_recovery_step?: string | null;
+          last_recovery_at?: string | null;
+          started_at?: string | null;
+          reported_at?: string;
+        };
+        Relationships: [];
+      };
+      player_health_settings: {
+        Row: PlayerHealthSettings;
+        Insert: {
+          id?: number;
+          stale_after_seconds?: number;
+          stall_alert_seconds?: number;
+          error_alert_count?: number;
+          recent_stall_minutes?: number;
+          updated_at?: string;
+        };
+        Update: {
+          stale_after_seconds?: number;
+          stall_alert_seconds?: number;
+          error_alert_count?: number;
+          recent_stall_minutes?: number;
           updated_at?: string;
         };
         Relationships: [];
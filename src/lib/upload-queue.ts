@@ -0,0 +1,160 @@
+/**
+ * 録音のアップロードキュー
+ * 録音はまずIndexedDBに保存し、useUploadQueueがSupabaseに送信します
+ * ページを再読み込みしてもキューは残り、送信に失敗した録音は間隔を延ばしながら再送します
+ * 録音IDはキューに追加するときに生成し、再送しても同じ録音が重複して作成されないようにします
+ */
+
+import type { VolumeMetadata } from './audio-analysis';
+import type { RecordingTrim } from './types';
+
+const DB_NAME = 'monoshaka-upload-queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'uploads';
+
+// 再送までの待ち時間（失敗するたびに2倍にし、上限で止める）
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+// キューに保存する録音
+export interface QueuedUpload {
+  // 録音ID（recordingsのIDとファイル名に使う）
+  id: string;
+  blob: Blob;
+  duration: number;
+  playlistId: string;
+  volumeMetadata: VolumeMetadata | null;
+  passageId: string | null;
+  trim: RecordingTrim | null;
+  createdAt: number;
+  // 送信に失敗した回数
+  attempts: number;
+  // 次に送信を試みる時刻（UNIXミリ秒）
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export type NewQueuedUpload = Pick<
+  QueuedUpload,
+  'blob' | 'duration' | 'playlistId' | 'volumeMetadata' | 'passageId' | 'trim'
+>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * IDBRequestをPromiseに変換する
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * キューのデータベースを開く（初回のみ作成）
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('このブラウザはIndexedDBに対応していません'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // 次回は開き直せるようにする
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * ストアに対して1つの操作を行う
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, mode);
+
+  // 書き込みはトランザクションの完了（ディスクへの保存）まで待つ
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([
+    promisifyRequest(operation(transaction.objectStore(STORE_NAME))),
+    completed,
+  ]);
+  return result;
+}
+
+/**
+ * 録音をキューに追加する
+ * @returns キューに追加した録音
+ */
+export async function enqueueUpload(upload: NewQueuedUpload): Promise<QueuedUpload> {
+  const now = Date.now();
+  const item: QueuedUpload = {
+    ...upload,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+  };
+  await withStore('readwrite', (store) => store.put(item));
+  return item;
+}
+
+/**
+ * キューの録音を古い順に取得する
+ */
+export async function getQueuedUploads(): Promise<QueuedUpload[]> {
+  const items = await withStore('readonly', (store) => store.getAll() as IDBRequest<QueuedUpload[]>);
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * 送信に失敗した録音の再送時刻を更新する
+ * @param item 失敗した録音
+ * @param errorMessage エラーメッセージ
+ */
+export async function markUploadFailed(item: QueuedUpload, errorMessage: string): Promise<QueuedUpload> {
+  const attempts = item.attempts + 1;
+  const updated: QueuedUpload = {
+    ...item,
+    attempts,
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    lastError: errorMessage,
+  };
+  await withStore('readwrite', (store) => store.put(updated));
+  return updated;
+}
+
+/**
+ * 送信が完了した録音をキューから削除する
+ */
+export async function removeQueuedUpload(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * 失敗回数に応じた再送までの待ち時間（ミリ秒）
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1));
+}
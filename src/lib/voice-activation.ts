@@ -0,0 +1,35 @@
+/**
+ * 音声による録音の開始・停止（ボイスアクティベーション）の設定
+ * 有効な場合、useRecorderは録音ボタンで待機状態になり、声を検出してから録音を開始し、
+ * 無音が一定時間続くと自動的に停止します
+ */
+
+import type { Playlist, PlaylistVoiceActivationSettings } from './types';
+
+export const DEFAULT_VOICE_ACTIVATION_SETTINGS: PlaylistVoiceActivationSettings = {
+  voice_activation: false,
+  voice_activation_threshold: -40,
+  voice_activation_silence: 2.5,
+};
+
+/**
+ * プレイリストから音声による録音の開始・停止の設定を取り出す（未設定の項目はデフォルト値）
+ */
+export function toVoiceActivationSettings(
+  playlist: Playlist | null | undefined
+): PlaylistVoiceActivationSettings {
+  return {
+    voice_activation: playlist?.voice_activation ?? DEFAULT_VOICE_ACTIVATION_SETTINGS.voice_activation,
+    voice_activation_threshold:
+      playlist?.voice_activation_threshold ?? DEFAULT_VOICE_ACTIVATION_SETTINGS.voice_activation_threshold,
+    voice_activation_silence:
+      playlist?.voice_activation_silence ?? DEFAULT_VOICE_ACTIVATION_SETTINGS.voice_activation_silence,
+  };
+}
+
+/**
+ * RMSレベル（リニア値）をdBFSに変換する
+ */
+export function toDecibels(level: number): number {
+  return level > 0 ? 20 * Math.log10(level) : -Infinity;
+}
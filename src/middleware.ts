@@ -1,6 +1,12 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  DEVICE_TOKEN_COOKIE,
+  DEVICE_TOKEN_MAX_AGE,
+  DEVICE_TOKEN_PARAM,
+  isDevicePath,
+} from '@/lib/device-token';
 
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
@@ -46,6 +52,34 @@ export async function middleware(request: NextRequest) {
     return response;
   }
 
+  // 再生端末用のパスは、デバイストークンで認証する（トークンの検証は/api/playで行う）
+  if (isDevicePath(request.nextUrl.pathname)) {
+    // 初回アクセス時はURLのトークンをクッキーに保存し、トークンを含まないURLにリダイレクト
+    const token = request.nextUrl.searchParams.get(DEVICE_TOKEN_PARAM);
+    if (token) {
+      const url = request.nextUrl.clone();
+      url.searchParams.delete(DEVICE_TOKEN_PARAM);
+      const redirect = NextResponse.redirect(url);
+      redirect.cookies.set(DEVICE_TOKEN_COOKIE, token, {
+        httpOnly: true,
+        secure: request.nextUrl.protocol === 'https:',
+        sameSite: 'lax',
+        path: '/',
+        maxAge: DEVICE_TOKEN_MAX_AGE,
+      });
+      return redirect;
+    }
+
+    if (!user && request.cookies.has(DEVICE_TOKEN_COOKIE)) {
+      return response;
+    }
+
+    // APIはリダイレクトせずに認証エラーを返す
+    if (!user && request.nextUrl.pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: '端末の認証に失敗しました' }, { status: 401 });
+    }
+  }
+
   // 未認証の場合はログインページにリダイレクト
   if (!user) {
     return NextResponse.redirect(new URL('/login', request.url));
@@ -55,5 +89,6 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
+  // 再生端末のService Worker（media-sw.js）は、ログインしていない端末でも登録できるよう対象外にする
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|media-sw\\.js|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
 };
@@ -0,0 +1,25 @@
+-- 録音の後処理パイプライン（音量解析・波形生成・文字起こし）のステータスを追加
+-- NULLはパイプライン導入前の録音など、処理が要求されていない状態を表す
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS analysis_status TEXT
+  CHECK (analysis_status IN ('pending', 'running', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS transcription_status TEXT
+  CHECK (transcription_status IN ('pending', 'running', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS waveform_status TEXT
+  CHECK (waveform_status IN ('pending', 'running', 'done', 'failed')),
+ADD COLUMN IF NOT EXISTS waveform JSONB,
+ADD COLUMN IF NOT EXISTS processing_error TEXT,
+ADD COLUMN IF NOT EXISTS processing_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- 既存の録音のうち、解析済み・文字起こし済みのものは完了扱いにする
+UPDATE recordings SET analysis_status = 'done' WHERE lufs IS NOT NULL;
+UPDATE recordings SET transcription_status = 'done'
+  WHERE transcription IS NOT NULL AND transcription <> '';
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.analysis_status IS '音量解析のステータス（pending/running/done/failed）';
+COMMENT ON COLUMN recordings.transcription_status IS '文字起こしのステータス（pending/running/done/failed）';
+COMMENT ON COLUMN recordings.waveform_status IS '波形サマリー生成のステータス（pending/running/done/failed）';
+COMMENT ON COLUMN recordings.waveform IS '波形サマリー（区間ごとのピーク値 0.0〜1.0 の配列）';
+COMMENT ON COLUMN recordings.processing_error IS '最後に失敗した処理のエラーメッセージ';
+COMMENT ON COLUMN recordings.processing_updated_at IS '処理ステータスの最終更新日時';
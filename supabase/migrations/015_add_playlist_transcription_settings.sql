@@ -0,0 +1,11 @@
+-- プレイリストごとの文字起こし設定を追加
+-- NULLの場合は文字起こしプロバイダーのデフォルト値を使用する
+ALTER TABLE playlists
+ADD COLUMN IF NOT EXISTS transcription_language TEXT,
+ADD COLUMN IF NOT EXISTS transcription_model TEXT,
+ADD COLUMN IF NOT EXISTS transcription_prompt TEXT;
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN playlists.transcription_language IS '文字起こしの言語コード（ISO-639-1、例: ja, en）';
+COMMENT ON COLUMN playlists.transcription_model IS '文字起こしに使用するモデル名（例: whisper-1）';
+COMMENT ON COLUMN playlists.transcription_prompt IS '文字起こしのプロンプト（固有名詞や表記の指定など）';
@@ -0,0 +1,7 @@
+-- タイムスタンプ付きの文字起こし（セグメント・単語単位）を保存するカラムを追加
+-- transcriptionカラムには引き続きセグメントのテキストを連結したものを保存する
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS transcription_segments JSONB;
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.transcription_segments IS 'タイムスタンプ付きの文字起こし（{ start, end, text, words?: { word, start, end }[] } の配列、秒単位）';
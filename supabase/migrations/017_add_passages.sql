@@ -0,0 +1,49 @@
+-- 課題文（来場者が読み上げる小説の一節）テーブルを追加
+CREATE TABLE IF NOT EXISTS passages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  playlist_id UUID NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  body TEXT NOT NULL,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_passages_playlist_id ON passages(playlist_id, order_index);
+
+-- updated_atの自動更新
+DROP TRIGGER IF EXISTS trigger_update_passages_updated_at ON passages;
+CREATE TRIGGER trigger_update_passages_updated_at
+  BEFORE UPDATE ON passages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) を有効化（認証済みユーザーのみ）
+ALTER TABLE passages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY passages_select_authenticated ON passages
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY passages_insert_authenticated ON passages
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY passages_update_authenticated ON passages
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY passages_delete_authenticated ON passages
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+-- 録音と、録音時に表示していた課題文を紐付ける
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS passage_id UUID REFERENCES passages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS passage_cer FLOAT;
+
+CREATE INDEX IF NOT EXISTS idx_recordings_passage_id ON recordings(passage_id);
+
+-- カラムにコメントを追加
+COMMENT ON TABLE passages IS '来場者が読み上げる課題文（小説の一節）';
+COMMENT ON COLUMN passages.title IS '課題文の見出し（作品名・章など）';
+COMMENT ON COLUMN passages.body IS '課題文の本文';
+COMMENT ON COLUMN passages.order_index IS '表示順序';
+COMMENT ON COLUMN recordings.passage_id IS '録音時に表示していた課題文';
+COMMENT ON COLUMN recordings.passage_cer IS '文字起こしと課題文の文字誤り率（CER、0.0が完全一致）';
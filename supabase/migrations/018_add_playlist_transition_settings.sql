@@ -0,0 +1,22 @@
+-- プレイリストごとの曲間の設定を追加
+-- すべて秒単位。0の場合はその効果を使用しない
+ALTER TABLE playlists
+ADD COLUMN IF NOT EXISTS transition_gap FLOAT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS crossfade_duration FLOAT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS fade_in_duration FLOAT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS fade_out_duration FLOAT NOT NULL DEFAULT 0;
+
+-- 負の値を保存しない
+ALTER TABLE playlists
+ADD CONSTRAINT playlists_transition_settings_check CHECK (
+  transition_gap >= 0
+  AND crossfade_duration >= 0
+  AND fade_in_duration >= 0
+  AND fade_out_duration >= 0
+);
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN playlists.transition_gap IS '曲間の無音の長さ（秒）。クロスフェード使用時は無視される';
+COMMENT ON COLUMN playlists.crossfade_duration IS '曲間のクロスフェードの長さ（秒、等パワー）';
+COMMENT ON COLUMN playlists.fade_in_duration IS '各録音の再生開始時のフェードインの長さ（秒）';
+COMMENT ON COLUMN playlists.fade_out_duration IS '各録音の再生終了時のフェードアウトの長さ（秒）';
@@ -0,0 +1,77 @@
+-- 再生スケジュール（曜日・時間帯ごとに再生するプレイリスト）テーブルを追加
+-- 時刻は再生端末のローカル時刻として扱う
+CREATE TABLE IF NOT EXISTS playlist_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  playlist_id UUID NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT playlist_schedules_time_range CHECK (start_time < end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_playlist_schedules_day ON playlist_schedules(day_of_week, start_time);
+CREATE INDEX IF NOT EXISTS idx_playlist_schedules_playlist_id ON playlist_schedules(playlist_id);
+
+-- 開館時間テーブルを追加（曜日ごとに1行、行のない曜日は休館日）
+-- テーブルが空の場合は開館時間を設定していないものとして常に再生する
+CREATE TABLE IF NOT EXISTS opening_hours (
+  day_of_week SMALLINT PRIMARY KEY CHECK (day_of_week BETWEEN 0 AND 6),
+  open_time TIME NOT NULL,
+  close_time TIME NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT opening_hours_time_range CHECK (open_time < close_time)
+);
+
+-- updated_atの自動更新
+DROP TRIGGER IF EXISTS trigger_update_playlist_schedules_updated_at ON playlist_schedules;
+CREATE TRIGGER trigger_update_playlist_schedules_updated_at
+  BEFORE UPDATE ON playlist_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trigger_update_opening_hours_updated_at ON opening_hours;
+CREATE TRIGGER trigger_update_opening_hours_updated_at
+  BEFORE UPDATE ON opening_hours
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) を有効化（認証済みユーザーのみ）
+ALTER TABLE playlist_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY playlist_schedules_select_authenticated ON playlist_schedules
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY playlist_schedules_insert_authenticated ON playlist_schedules
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY playlist_schedules_update_authenticated ON playlist_schedules
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY playlist_schedules_delete_authenticated ON playlist_schedules
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+ALTER TABLE opening_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY opening_hours_select_authenticated ON opening_hours
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY opening_hours_insert_authenticated ON opening_hours
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY opening_hours_update_authenticated ON opening_hours
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY opening_hours_delete_authenticated ON opening_hours
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+-- カラムにコメントを追加
+COMMENT ON TABLE playlist_schedules IS '曜日・時間帯ごとに再生するプレイリスト（時間外は有効なプレイリストを再生）';
+COMMENT ON COLUMN playlist_schedules.day_of_week IS '曜日（0=日曜〜6=土曜）';
+COMMENT ON COLUMN playlist_schedules.start_time IS '開始時刻（再生端末のローカル時刻）';
+COMMENT ON COLUMN playlist_schedules.end_time IS '終了時刻（この時刻を含まない）';
+COMMENT ON TABLE opening_hours IS '展示の開館時間（時間外は再生を自動的に停止する）';
+COMMENT ON COLUMN opening_hours.day_of_week IS '曜日（0=日曜〜6=土曜）';
+COMMENT ON COLUMN opening_hours.open_time IS '開館時刻（再生端末のローカル時刻）';
+COMMENT ON COLUMN opening_hours.close_time IS '閉館時刻';
@@ -0,0 +1,40 @@
+-- 再生端末テーブルを追加
+-- 展示ディスプレイは管理者のセッションではなく、端末ごとに発行した長期間有効なトークンで認証する
+CREATE TABLE IF NOT EXISTS devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- updated_atの自動更新
+DROP TRIGGER IF EXISTS trigger_update_devices_updated_at ON devices;
+CREATE TRIGGER trigger_update_devices_updated_at
+  BEFORE UPDATE ON devices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) を有効化（管理者のみ、端末からの参照はAPIルート経由）
+ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY devices_select_authenticated ON devices
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY devices_insert_authenticated ON devices
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY devices_update_authenticated ON devices
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY devices_delete_authenticated ON devices
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+-- カラムにコメントを追加
+COMMENT ON TABLE devices IS '展示の再生端末（デバイストークンで認証する）';
+COMMENT ON COLUMN devices.name IS '端末の表示名（設置場所など）';
+COMMENT ON COLUMN devices.token_hash IS 'デバイストークンのSHA-256ハッシュ（トークン自体は発行時のみ表示し保存しない）';
+COMMENT ON COLUMN devices.last_seen_at IS '最後にトークンで認証した日時';
+COMMENT ON COLUMN devices.revoked_at IS 'トークンを無効にした日時（NULLの場合は有効）';
@@ -0,0 +1,18 @@
+-- 録音の先頭・末尾の無音を除いた再生範囲（イン点・アウト点）を追加
+-- ファイルは加工せず、再生時にこの範囲だけを再生する（NULLの場合はファイルの先頭・末尾）
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS trim_start FLOAT,
+ADD COLUMN IF NOT EXISTS trim_end FLOAT,
+ADD COLUMN IF NOT EXISTS trim_adjusted BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- 範囲が逆転しないようにする
+ALTER TABLE recordings
+ADD CONSTRAINT recordings_trim_check CHECK (
+  (trim_start IS NULL OR trim_start >= 0)
+  AND (trim_start IS NULL OR trim_end IS NULL OR trim_start < trim_end)
+);
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.trim_start IS '再生を開始する位置（秒）。音声区間の検出で自動設定される';
+COMMENT ON COLUMN recordings.trim_end IS '再生を終了する位置（秒）。音声区間の検出で自動設定される';
+COMMENT ON COLUMN recordings.trim_adjusted IS '管理画面で再生範囲を調整したか（trueの場合は自動検出で上書きしない）';
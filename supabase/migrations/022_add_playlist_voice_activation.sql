@@ -0,0 +1,17 @@
+-- プレイリストごとの音声による録音の開始・停止（ボイスアクティベーション）の設定を追加
+-- 有効な場合、録音ボタンを押すと待機状態になり、声を検出してから録音を開始し、無音が続くと自動的に停止する
+ALTER TABLE playlists
+ADD COLUMN IF NOT EXISTS voice_activation BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS voice_activation_threshold FLOAT NOT NULL DEFAULT -40,
+ADD COLUMN IF NOT EXISTS voice_activation_silence FLOAT NOT NULL DEFAULT 2.5;
+
+ALTER TABLE playlists
+ADD CONSTRAINT playlists_voice_activation_check CHECK (
+  voice_activation_threshold <= 0
+  AND voice_activation_silence > 0
+);
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN playlists.voice_activation IS '声を検出してから録音を開始し、無音が続いたら自動的に停止するか';
+COMMENT ON COLUMN playlists.voice_activation_threshold IS '声とみなす入力レベル（dBFS、RMS）';
+COMMENT ON COLUMN playlists.voice_activation_silence IS '録音を自動的に停止するまでの無音の長さ（秒）';
@@ -0,0 +1,21 @@
+-- 録音ファイルの形式（MIMEタイプ）を追加
+-- 録音・アップロード時の形式を保存し、再生・音量解析・文字起こしで使う
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS mime_type TEXT;
+
+-- 既存の録音はファイル名の拡張子から設定する
+-- 以前はすべて.webmとして保存していたため、拡張子が.webmの録音はaudio/webmとみなす
+UPDATE recordings
+SET mime_type = CASE lower(substring(file_path FROM '\.([A-Za-z0-9]+)$'))
+  WHEN 'webm' THEN 'audio/webm'
+  WHEN 'ogg' THEN 'audio/ogg'
+  WHEN 'm4a' THEN 'audio/mp4'
+  WHEN 'mp4' THEN 'audio/mp4'
+  WHEN 'mp3' THEN 'audio/mpeg'
+  WHEN 'wav' THEN 'audio/wav'
+  WHEN 'flac' THEN 'audio/flac'
+END
+WHERE mime_type IS NULL;
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.mime_type IS '録音ファイルのMIMEタイプ（codecsなどのパラメーターを含む場合がある）';
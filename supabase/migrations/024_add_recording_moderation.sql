@@ -0,0 +1,44 @@
+-- 録音の審査（モデレーション）を追加
+-- 来場者の録音は審査待ち（pending）で登録され、承認（approved）された録音だけをループ再生する
+-- 既存の録音はすでに再生されているため承認済みとし、その後に登録される録音のデフォルトを審査待ちにする
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'approved',
+ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE recordings
+ALTER COLUMN moderation_status SET DEFAULT 'pending';
+
+ALTER TABLE recordings
+ADD CONSTRAINT recordings_moderation_status_check CHECK (
+  moderation_status IN ('pending', 'approved', 'rejected')
+);
+
+CREATE INDEX IF NOT EXISTS idx_recordings_moderation_status ON recordings(moderation_status, created_at);
+
+-- プレイリストごとの自動承認の設定
+ALTER TABLE playlists
+ADD COLUMN IF NOT EXISTS auto_approve BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- 自動承認のプレイリストに追加された審査待ちの録音を承認するトリガー関数
+CREATE OR REPLACE FUNCTION auto_approve_playlist_recording()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE recordings
+  SET moderation_status = 'approved', moderated_at = NOW()
+  WHERE id = NEW.recording_id
+    AND moderation_status = 'pending'
+    AND EXISTS (SELECT 1 FROM playlists WHERE id = NEW.playlist_id AND auto_approve);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_auto_approve_playlist_recording ON playlist_recordings;
+CREATE TRIGGER trigger_auto_approve_playlist_recording
+  AFTER INSERT ON playlist_recordings
+  FOR EACH ROW
+  EXECUTE FUNCTION auto_approve_playlist_recording();
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.moderation_status IS '審査の状態（pending: 審査待ち, approved: 承認, rejected: 却下）。承認された録音だけを再生する';
+COMMENT ON COLUMN recordings.moderated_at IS '審査した日時';
+COMMENT ON COLUMN playlists.auto_approve IS 'プレイリストに追加された録音を審査せずに承認するか';
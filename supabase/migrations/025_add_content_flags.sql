@@ -0,0 +1,43 @@
+-- 文字起こしによる録音の自動チェック（コンテンツフラグ）を追加
+-- 禁止語・空の文字起こし・課題文に対して短すぎる・想定外の言語の録音にフラグを付け、審査待ちに戻して再生しない
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS content_flags JSONB;
+
+-- 自動チェックのルール（1行のみ）
+CREATE TABLE IF NOT EXISTS content_flag_rules (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  blocked_words TEXT[] NOT NULL DEFAULT '{}',
+  flag_empty BOOLEAN NOT NULL DEFAULT TRUE,
+  min_passage_ratio FLOAT NOT NULL DEFAULT 0.3 CHECK (min_passage_ratio >= 0 AND min_passage_ratio <= 1),
+  min_language_ratio FLOAT NOT NULL DEFAULT 0.5 CHECK (min_language_ratio >= 0 AND min_language_ratio <= 1),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO content_flag_rules (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- updated_atの自動更新
+DROP TRIGGER IF EXISTS trigger_update_content_flag_rules_updated_at ON content_flag_rules;
+CREATE TRIGGER trigger_update_content_flag_rules_updated_at
+  BEFORE UPDATE ON content_flag_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) を有効化（認証済みユーザーのみ）
+ALTER TABLE content_flag_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY content_flag_rules_select_authenticated ON content_flag_rules
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY content_flag_rules_insert_authenticated ON content_flag_rules
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY content_flag_rules_update_authenticated ON content_flag_rules
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.content_flags IS '自動チェックで検出された問題（{rule, message}の配列）。NULLは未チェック、空の配列は問題なし';
+COMMENT ON TABLE content_flag_rules IS '文字起こしによる録音の自動チェックのルール（1行のみ）';
+COMMENT ON COLUMN content_flag_rules.blocked_words IS '文字起こしに含まれていたらフラグを付ける語';
+COMMENT ON COLUMN content_flag_rules.flag_empty IS '文字起こしが空の録音にフラグを付けるか';
+COMMENT ON COLUMN content_flag_rules.min_passage_ratio IS '課題文の文字数に対する文字起こしの文字数の下限（0で無効）';
+COMMENT ON COLUMN content_flag_rules.min_language_ratio IS '文字起こしのうちプレイリストの言語の文字が占める割合の下限（0で無効）';
@@ -0,0 +1,36 @@
+-- プレイリストごとの再生順序と、録音の再生回数を追加
+-- 再生順序はプレイリストが一周するたびに作り直す（weightedは新しい録音・再生回数の少ない録音を優先する）
+ALTER TABLE playlists
+ADD COLUMN IF NOT EXISTS playback_order TEXT NOT NULL DEFAULT 'manual';
+
+ALTER TABLE playlists
+ADD CONSTRAINT playlists_playback_order_check CHECK (
+  playback_order IN ('manual', 'shuffle', 'newest', 'weighted')
+);
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS play_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_played_at TIMESTAMP WITH TIME ZONE;
+
+-- 録音の再生回数を1増やす関数（同時に再生した端末の更新が失われないよう、データベース側で加算する）
+CREATE OR REPLACE FUNCTION record_recording_play(p_recording_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER  -- 関数の所有者権限で実行
+AS $$
+BEGIN
+  UPDATE recordings
+  SET play_count = play_count + 1, last_played_at = NOW()
+  WHERE id = p_recording_id;
+END;
+$$;
+
+-- 認証済みユーザーのみに権限を付与（再生端末はService Role KeyのAPIルート経由で呼び出す）
+REVOKE EXECUTE ON FUNCTION record_recording_play(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_recording_play(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION record_recording_play(UUID) TO authenticated;
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN playlists.playback_order IS '再生順序（manual: 録音一覧の順, shuffle: 周回ごとにシャッフル, newest: 新しい順, weighted: 新しい録音・再生回数の少ない録音を優先）';
+COMMENT ON COLUMN recordings.play_count IS 'ループ再生で再生された回数';
+COMMENT ON COLUMN recordings.last_played_at IS 'ループ再生で最後に再生された日時';
@@ -0,0 +1,20 @@
+-- 録音の変更フィード（Supabase Realtime）
+-- recordings と playlist_recordings の変更を、再生画面と録音一覧に通知する
+-- 通知は各テーブルのRLSに従うため、認証済みユーザーのみが受け取れる
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'recordings'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE recordings;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'playlist_recordings'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE playlist_recordings;
+  END IF;
+END $$;
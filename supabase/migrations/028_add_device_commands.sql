@@ -0,0 +1,64 @@
+-- 再生端末のリモート操作
+-- 管理画面から端末にコマンド（再生・一時停止・スキップなど）を送り、端末は実行結果を応答する
+-- 端末は管理者のセッションを持たないため、コマンドの取得・応答はデバイストークンで認証するAPIルート経由で行う
+CREATE TABLE IF NOT EXISTS device_commands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+  command TEXT NOT NULL CHECK (command IN ('play', 'pause', 'skip', 'jump', 'volume', 'playlist', 'reload')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'succeeded', 'failed', 'expired')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_commands_device_id_status
+  ON device_commands(device_id, status, created_at);
+
+-- 端末が報告した再生状態（コマンドの取得・応答のたびに更新する）
+ALTER TABLE devices
+ADD COLUMN IF NOT EXISTS player_state JSONB,
+ADD COLUMN IF NOT EXISTS player_state_at TIMESTAMP WITH TIME ZONE;
+
+-- Row Level Security (RLS) を有効化（管理者のみ、端末からの取得・応答はAPIルート経由）
+ALTER TABLE device_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY device_commands_select_authenticated ON device_commands
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY device_commands_insert_authenticated ON device_commands
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY device_commands_update_authenticated ON device_commands
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY device_commands_delete_authenticated ON device_commands
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+-- 管理画面に端末の応答と再生状態をすぐに反映するため、Realtimeで変更を通知する
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'device_commands'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE device_commands;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'devices'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE devices;
+  END IF;
+END $$;
+
+-- カラムにコメントを追加
+COMMENT ON TABLE device_commands IS '再生端末へのリモート操作のコマンド';
+COMMENT ON COLUMN device_commands.command IS 'コマンドの種類（play, pause, skip, jump, volume, playlist, reload）';
+COMMENT ON COLUMN device_commands.payload IS 'コマンドの引数（jump: recordingId、volume: volume、playlist: playlistId）';
+COMMENT ON COLUMN device_commands.status IS '状態（pending: 送信済み、delivered: 端末が受信、succeeded: 実行済み、failed: 実行失敗、expired: 期限切れ）';
+COMMENT ON COLUMN device_commands.error IS '実行に失敗した理由';
+COMMENT ON COLUMN devices.player_state IS '端末が報告した再生状態（再生中か・プレイリスト・録音・音量）';
+COMMENT ON COLUMN devices.player_state_at IS '再生状態を報告した日時';
@@ -0,0 +1,91 @@
+-- 再生端末の稼働状況（ハートビート）テーブルを追加
+-- 再生画面を開いている端末が一定間隔で再生状態を報告し、管理画面で応答のない端末や停止した端末を検出する
+CREATE TABLE IF NOT EXISTS player_status (
+  device_id UUID PRIMARY KEY REFERENCES devices(id) ON DELETE CASCADE,
+  is_playing BOOLEAN NOT NULL DEFAULT FALSE,
+  needs_user_interaction BOOLEAN NOT NULL DEFAULT FALSE,
+  is_open BOOLEAN NOT NULL DEFAULT TRUE,
+  is_stalled BOOLEAN NOT NULL DEFAULT FALSE,
+  playlist_id UUID,
+  recording_id UUID,
+  position FLOAT,
+  output_device TEXT,
+  audio_context_state TEXT,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_error_at TIMESTAMP WITH TIME ZONE,
+  stall_count INTEGER NOT NULL DEFAULT 0,
+  last_stall_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  reported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- アラートのしきい値（1行のみ）
+CREATE TABLE IF NOT EXISTS player_health_settings (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  stale_after_seconds INTEGER NOT NULL DEFAULT 60 CHECK (stale_after_seconds > 0),
+  stall_alert_seconds INTEGER NOT NULL DEFAULT 10 CHECK (stall_alert_seconds >= 0),
+  error_alert_count INTEGER NOT NULL DEFAULT 5 CHECK (error_alert_count >= 0),
+  recent_stall_minutes INTEGER NOT NULL DEFAULT 30 CHECK (recent_stall_minutes >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO player_health_settings (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- updated_atの自動更新
+DROP TRIGGER IF EXISTS trigger_update_player_health_settings_updated_at ON player_health_settings;
+CREATE TRIGGER trigger_update_player_health_settings_updated_at
+  BEFORE UPDATE ON player_health_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) を有効化（認証済みユーザーのみ）
+-- 再生端末はデバイストークンで認証するAPIルート（サービスロール）経由で報告する
+ALTER TABLE player_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY player_status_select_authenticated ON player_status
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY player_status_delete_authenticated ON player_status
+  FOR DELETE USING (auth.role() = 'authenticated');
+
+ALTER TABLE player_health_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY player_health_settings_select_authenticated ON player_health_settings
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY player_health_settings_insert_authenticated ON player_health_settings
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY player_health_settings_update_authenticated ON player_health_settings
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+-- 稼働状況の画面にハートビートをすぐに反映するため、Realtimeで変更を通知する
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'player_status'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE player_status;
+  END IF;
+END $$;
+
+-- カラムにコメントを追加
+COMMENT ON TABLE player_status IS '再生端末の稼働状況（端末ごとに最新のハートビートを1行保存）';
+COMMENT ON COLUMN player_status.needs_user_interaction IS '再生開始のクリック待ち（ブラウザの自動再生の制限）';
+COMMENT ON COLUMN player_status.is_open IS '開館時間内か（時間外は停止していても異常としない）';
+COMMENT ON COLUMN player_status.is_stalled IS '意図しない再生の停止を検出しているか';
+COMMENT ON COLUMN player_status.position IS '再生中の録音の再生位置（秒）';
+COMMENT ON COLUMN player_status.output_device IS '音声出力デバイスの名前（既定の出力の場合はNULL）';
+COMMENT ON COLUMN player_status.audio_context_state IS 'AudioContextの状態（running, suspended, closed。未作成の場合はNULL）';
+COMMENT ON COLUMN player_status.error_count IS '再生画面を開いてからの再生エラーの回数';
+COMMENT ON COLUMN player_status.stall_count IS '再生画面を開いてから意図しない停止を検出した回数';
+COMMENT ON COLUMN player_status.last_stall_at IS '最後に意図しない停止を検出した日時';
+COMMENT ON COLUMN player_status.started_at IS '再生画面を開いた日時（再読み込みで更新）';
+COMMENT ON COLUMN player_status.reported_at IS '最後にハートビートを受信した日時（サーバーの時刻）';
+COMMENT ON TABLE player_health_settings IS '再生端末の稼働状況のアラートのしきい値（1行のみ）';
+COMMENT ON COLUMN player_health_settings.stale_after_seconds IS 'ハートビートがこの秒数途絶えた端末を応答なしとする';
+COMMENT ON COLUMN player_health_settings.stall_alert_seconds IS '意図しない停止がこの秒数続いた端末を停止中とする';
+COMMENT ON COLUMN player_health_settings.error_alert_count IS '再生エラーがこの回数以上の端末を注意とする（0で無効）';
+COMMENT ON COLUMN player_health_settings.recent_stall_minutes IS '直近この分数以内に停止した端末を注意とする（0で無効）';
@@ -0,0 +1,50 @@
+-- 再生に繰り返し失敗する録音の自動隔離と、再生端末の自動復旧の記録を追加
+-- 隔離された録音はループ再生から外れ、録音一覧で隔離を解除するまで再生されない
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS playback_failure_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_playback_error TEXT,
+ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMP WITH TIME ZONE;
+
+-- 録音の再生の失敗を記録し、失敗の回数がしきい値に達したら隔離する関数
+-- 複数の端末が同時に失敗を記録しても回数が失われないよう、データベース側で加算する
+CREATE OR REPLACE FUNCTION record_recording_failure(p_recording_id UUID, p_error TEXT, p_threshold INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER  -- 関数の所有者権限で実行
+AS $$
+DECLARE
+  v_quarantined BOOLEAN;
+BEGIN
+  UPDATE recordings
+  SET
+    playback_failure_count = playback_failure_count + 1,
+    last_playback_error = LEFT(p_error, 500),
+    quarantined_at = CASE
+      WHEN quarantined_at IS NULL AND playback_failure_count + 1 >= p_threshold THEN NOW()
+      ELSE quarantined_at
+    END
+  WHERE id = p_recording_id
+  RETURNING quarantined_at IS NOT NULL INTO v_quarantined;
+
+  RETURN COALESCE(v_quarantined, FALSE);
+END;
+$$;
+
+-- 認証済みユーザーのみに権限を付与（再生端末はService Role KeyのAPIルート経由で呼び出す）
+REVOKE EXECUTE ON FUNCTION record_recording_failure(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_recording_failure(UUID, TEXT, INTEGER) FROM anon;
+GRANT EXECUTE ON FUNCTION record_recording_failure(UUID, TEXT, INTEGER) TO authenticated;
+
+-- 再生端末が自動復旧を試みた回数と最後の手順
+ALTER TABLE player_status
+ADD COLUMN IF NOT EXISTS recovery_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_recovery_step TEXT,
+ADD COLUMN IF NOT EXISTS last_recovery_at TIMESTAMP WITH TIME ZONE;
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.playback_failure_count IS '再生に失敗した回数（隔離を解除すると0に戻す）';
+COMMENT ON COLUMN recordings.last_playback_error IS '最後の再生の失敗の内容';
+COMMENT ON COLUMN recordings.quarantined_at IS '再生の失敗が続いたため隔離した日時（NULLの場合は隔離されていない）';
+COMMENT ON COLUMN player_status.recovery_count IS '再生画面を開いてから自動復旧の手順を試みた回数';
+COMMENT ON COLUMN player_status.last_recovery_step IS '最後に試みた自動復旧の手順（retry, skip, reset_audio, refetch, reload）';
+COMMENT ON COLUMN player_status.last_recovery_at IS '最後に自動復旧の手順を試みた日時';
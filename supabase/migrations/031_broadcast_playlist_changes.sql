@@ -0,0 +1,71 @@
+-- 再生端末に録音の変更を知らせるブロードキャストを追加
+-- 再生端末はSupabaseのセッションがなくPostgresの変更通知（RLS）を購読できないため、
+-- 内容を含まないブロードキャスト（公開チャンネル）で取得を促し、録音はデバイストークンで認証したAPIルートから取得する
+-- チャンネル名とイベント名はsrc/lib/change-feed.tsと揃える
+
+-- プレイリストの録音が変わったことを知らせる関数
+-- 通知に失敗しても録音の更新は取り消さない（再生端末は一定間隔の取得でも反映する）
+CREATE OR REPLACE FUNCTION notify_playlist_change(p_playlist_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER  -- 関数の所有者権限で実行
+AS $$
+BEGIN
+  PERFORM realtime.send('{}'::jsonb, 'changed', 'playlist-updates:' || p_playlist_id::text, FALSE);
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'プレイリストの変更の通知に失敗しました: %', SQLERRM;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_playlist_change(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION notify_playlist_change(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION notify_playlist_change(UUID) TO authenticated, service_role;
+
+-- プレイリストへの録音の追加・削除・並び替えを知らせるトリガー関数
+CREATE OR REPLACE FUNCTION broadcast_playlist_recording_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM notify_playlist_change(NEW.playlist_id);
+  END IF;
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.playlist_id IS DISTINCT FROM NEW.playlist_id) THEN
+    PERFORM notify_playlist_change(OLD.playlist_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_broadcast_playlist_recording_change ON playlist_recordings;
+CREATE TRIGGER trigger_broadcast_playlist_recording_change
+  AFTER INSERT OR UPDATE OR DELETE ON playlist_recordings
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_playlist_recording_change();
+
+-- 再生に影響する録音の更新（LUFS値・再生範囲・審査・隔離など）を、録音を含むプレイリストに知らせるトリガー関数
+-- 録音の削除はplaylist_recordingsの削除（ON DELETE CASCADE）で知らせる
+CREATE OR REPLACE FUNCTION broadcast_recording_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM notify_playlist_change(playlist_id)
+  FROM playlist_recordings
+  WHERE recording_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 再生回数や後処理の状態の更新では知らせない（再生のたびに全端末が取得し直さないようにする）
+DROP TRIGGER IF EXISTS trigger_broadcast_recording_change ON recordings;
+CREATE TRIGGER trigger_broadcast_recording_change
+  AFTER UPDATE ON recordings
+  FOR EACH ROW
+  WHEN (
+    OLD.file_path IS DISTINCT FROM NEW.file_path
+    OR OLD.mime_type IS DISTINCT FROM NEW.mime_type
+    OR OLD.lufs IS DISTINCT FROM NEW.lufs
+    OR OLD.trim_start IS DISTINCT FROM NEW.trim_start
+    OR OLD.trim_end IS DISTINCT FROM NEW.trim_end
+    OR OLD.moderation_status IS DISTINCT FROM NEW.moderation_status
+    OR OLD.quarantined_at IS DISTINCT FROM NEW.quarantined_at
+  )
+  EXECUTE FUNCTION broadcast_recording_change();
@@ -0,0 +1,48 @@
+-- 自動承認を文字起こしの自動チェックの後に行う
+-- これまではプレイリストに追加した時点（チェック前）で承認していたため、問題のある録音もチェックが終わるまで再生されていた
+-- 未チェック（content_flagsがNULL）の録音は審査待ちのまま保留し、最初のチェックで問題がなかった場合に承認する
+
+-- 自動承認のプレイリストに追加された、チェック済みで問題のない審査待ちの録音を承認するトリガー関数
+CREATE OR REPLACE FUNCTION auto_approve_playlist_recording()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE recordings
+  SET moderation_status = 'approved', moderated_at = NOW()
+  WHERE id = NEW.recording_id
+    AND moderation_status = 'pending'
+    AND content_flags = '[]'::jsonb
+    AND EXISTS (SELECT 1 FROM playlists WHERE id = NEW.playlist_id AND auto_approve);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 最初のチェックで問題がなかった審査待ちの録音を、自動承認のプレイリストに含まれていれば承認するトリガー関数
+-- 再チェック（文字起こしの編集など）では承認しない（問題が見つかり審査待ちに戻した録音は管理者が審査する）
+CREATE OR REPLACE FUNCTION auto_approve_checked_recording()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM playlist_recordings pr
+    JOIN playlists p ON p.id = pr.playlist_id
+    WHERE pr.recording_id = NEW.id AND p.auto_approve
+  ) THEN
+    NEW.moderation_status := 'approved';
+    NEW.moderated_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_auto_approve_checked_recording ON recordings;
+CREATE TRIGGER trigger_auto_approve_checked_recording
+  BEFORE UPDATE OF content_flags ON recordings
+  FOR EACH ROW
+  WHEN (
+    OLD.content_flags IS NULL
+    AND NEW.content_flags = '[]'::jsonb
+    AND NEW.moderation_status = 'pending'
+  )
+  EXECUTE FUNCTION auto_approve_checked_recording();
+
+COMMENT ON COLUMN playlists.auto_approve IS 'プレイリストに追加された録音を、文字起こしの自動チェックで問題がなければ審査せずに承認するか';
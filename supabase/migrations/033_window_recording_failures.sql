@@ -0,0 +1,45 @@
+-- 録音の再生の失敗を一定時間内の回数で数える
+-- これまでは失敗の回数を戻さなかったため、通信の瞬断などによるまれな失敗が何日もかけて積み重なり、正常な録音も隔離されていた
+-- 前回の失敗から24時間以上経っていれば1回目から数え直す（壊れた録音はループ再生のたびに失敗するため、24時間以内に隔離される）
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS last_playback_failure_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION record_recording_failure(p_recording_id UUID, p_error TEXT, p_threshold INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER  -- 関数の所有者権限で実行
+AS $$
+DECLARE
+  v_quarantined BOOLEAN;
+BEGIN
+  -- 前回の失敗から時間が経っている場合は数え直す
+  UPDATE recordings
+  SET playback_failure_count = 0
+  WHERE id = p_recording_id
+    AND quarantined_at IS NULL
+    AND (last_playback_failure_at IS NULL OR last_playback_failure_at < NOW() - INTERVAL '24 hours');
+
+  UPDATE recordings
+  SET
+    playback_failure_count = playback_failure_count + 1,
+    last_playback_error = LEFT(p_error, 500),
+    last_playback_failure_at = NOW(),
+    quarantined_at = CASE
+      WHEN quarantined_at IS NULL AND playback_failure_count + 1 >= p_threshold THEN NOW()
+      ELSE quarantined_at
+    END
+  WHERE id = p_recording_id
+  RETURNING quarantined_at IS NOT NULL INTO v_quarantined;
+
+  RETURN COALESCE(v_quarantined, FALSE);
+END;
+$$;
+
+-- 認証済みユーザーのみに権限を付与（再生端末はService Role KeyのAPIルート経由で呼び出す）
+REVOKE EXECUTE ON FUNCTION record_recording_failure(UUID, TEXT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION record_recording_failure(UUID, TEXT, INTEGER) FROM anon;
+GRANT EXECUTE ON FUNCTION record_recording_failure(UUID, TEXT, INTEGER) TO authenticated;
+
+-- カラムにコメントを追加
+COMMENT ON COLUMN recordings.playback_failure_count IS '再生に続けて失敗した回数（前回の失敗から24時間以上経つと1から数え直す。隔離を解除すると0に戻す）';
+COMMENT ON COLUMN recordings.last_playback_failure_at IS '最後に再生に失敗した日時';